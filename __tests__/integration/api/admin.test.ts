@@ -4,6 +4,7 @@
 
 import { NextRequest } from 'next/server';
 import { mockUser, mockPost } from '@/lib/test/fixtures';
+import { generateCsrfToken } from '@/lib/security/csrf';
 
 // Mock dependencies
 jest.mock('@/lib/supabase/server', () => ({
@@ -29,6 +30,12 @@ const adminUser = {
   },
 };
 
+// State-changing admin routes check the CSRF header
+const csrfToken = () =>
+  generateCsrfToken(
+    process.env.CSRF_SECRET || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || 'default-secret'
+  );
+
 describe('Admin API Integration', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -281,6 +288,7 @@ describe('Admin API Integration', () => {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            'x-csrf-token': csrfToken(),
           },
           body: JSON.stringify({
             action: 'approve',
@@ -345,6 +353,7 @@ describe('Admin API Integration', () => {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            'x-csrf-token': csrfToken(),
           },
           body: JSON.stringify({
             action: 'approve',
@@ -12,6 +12,7 @@ import {
   createCommentSchema,
   contributorApplicationSchema,
   contactSubmissionSchema,
+  searchSchema,
   generateSlug,
   calculateReadingTime,
 } from '@/lib/api/validation';
@@ -116,6 +117,31 @@ describe('Validation Schemas', () => {
     it('should validate content_type enum', () => {
       expect(() => createPostSchema.parse({ ...validPost, content_type: 'invalid' })).toThrow();
     });
+
+    it('should sort chapters by start time', () => {
+      const post = createPostSchema.parse({
+        ...validPost,
+        content_type: 'audio',
+        chapters: [
+          { start: 750, title: 'Interview' },
+          { start: 0, title: 'Intro' },
+        ],
+      });
+
+      expect(post.chapters).toEqual([
+        { start: 0, title: 'Intro' },
+        { start: 750, title: 'Interview' },
+      ]);
+    });
+
+    it('should reject chapters with negative starts or empty titles', () => {
+      expect(() =>
+        createPostSchema.parse({ ...validPost, chapters: [{ start: -1, title: 'Intro' }] })
+      ).toThrow();
+      expect(() =>
+        createPostSchema.parse({ ...validPost, chapters: [{ start: 0, title: '' }] })
+      ).toThrow();
+    });
   });
 
   describe('createCommentSchema', () => {
@@ -208,6 +234,26 @@ describe('Validation Schemas', () => {
       expect(() => contactSubmissionSchema.parse(shortMessage)).toThrow();
     });
   });
+
+  describe('searchSchema', () => {
+    it('should accept repeated and comma-separated facet values', () => {
+      const result = searchSchema.parse({
+        q: 'universal credit',
+        content_type: ['written', 'video'],
+        tag: 'benefits,dwp',
+        published: 'week',
+      });
+      expect(result.content_type).toEqual(['written', 'video']);
+      expect(result.tag).toEqual(['benefits', 'dwp']);
+      expect(result.published).toEqual(['week']);
+      expect(result.category).toBeUndefined();
+    });
+
+    it('should reject unknown facet values', () => {
+      expect(() => searchSchema.parse({ q: 'housing', content_type: 'podcast' })).toThrow();
+      expect(() => searchSchema.parse({ q: 'housing', published: 'decade' })).toThrow();
+    });
+  });
 });
 
 describe('Helper Functions', () => {
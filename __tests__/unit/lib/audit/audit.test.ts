@@ -0,0 +1,115 @@
+/**
+ * Unit tests for audit logging
+ */
+
+import { createMockSupabaseClient } from '@/lib/test/mocks';
+import { getContext } from '@/lib/logger/context';
+
+const mockSupabaseClient = createMockSupabaseClient();
+const mockRpc = jest.fn();
+
+const mockUserRpc = jest.fn();
+
+// Audit rows are written with the service role; the user's client only
+// looks up who is signed in
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(() => Promise.resolve({ ...mockSupabaseClient, rpc: mockUserRpc })),
+  createServiceClient: jest.fn(() => Promise.resolve({ ...mockSupabaseClient, rpc: mockRpc })),
+}));
+
+jest.mock('@/lib/logger/context', () => ({
+  getContext: jest.fn(),
+}));
+
+const mockGetContext = getContext as jest.Mock;
+
+describe('Audit logging', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRpc.mockResolvedValue({ data: 'log-1', error: null });
+    mockGetContext.mockReturnValue(undefined);
+  });
+
+  describe('changedFields', () => {
+    it('keeps only the fields that differ', async () => {
+      const { changedFields } = await import('@/lib/audit');
+
+      expect(
+        changedFields(
+          { role: 'reader', username: 'sam', tags: ['a'] },
+          { role: 'contributor', username: 'sam', tags: ['a'], bio: 'Hi' }
+        )
+      ).toEqual({
+        before: { role: 'reader', bio: undefined },
+        after: { role: 'contributor', bio: 'Hi' },
+      });
+    });
+  });
+
+  describe('recordAuditEvent', () => {
+    it('records before/after values with the request context', async () => {
+      mockGetContext.mockReturnValue({
+        requestId: 'req_123',
+        method: 'PUT',
+        path: '/api/admin/users/user-1',
+        ip: '203.0.113.7',
+        userAgent: 'jest',
+        startTime: 0,
+      });
+      const { recordAuditEvent } = await import('@/lib/audit');
+
+      await recordAuditEvent({
+        action: 'user.role_change',
+        actorId: 'admin-1',
+        target: { type: 'user', id: 'user-1' },
+        before: { role: 'reader' },
+        after: { role: 'editor' },
+        metadata: { username: 'sam' },
+      });
+
+      expect(mockRpc).toHaveBeenCalledWith('log_audit_event', {
+        p_action: 'user.role_change',
+        p_actor_id: 'admin-1',
+        p_target_type: 'user',
+        p_target_id: 'user-1',
+        p_metadata: { username: 'sam', before: { role: 'reader' }, after: { role: 'editor' } },
+        p_ip_address: '203.0.113.7',
+        p_user_agent: 'jest',
+        p_request_id: 'req_123',
+      });
+    });
+
+    it('defaults the actor to the signed-in user and drops unparseable IPs', async () => {
+      mockGetContext.mockReturnValue({ requestId: 'req_456', ip: 'unknown' });
+      (mockSupabaseClient.auth.getUser as jest.Mock).mockResolvedValueOnce({
+        data: { user: { id: 'editor-1' } },
+        error: null,
+      });
+      const { recordAuditEvent } = await import('@/lib/audit');
+
+      await recordAuditEvent({ action: 'post.publish', target: { type: 'post', id: 'post-1' } });
+
+      expect(mockRpc).toHaveBeenCalledWith(
+        'log_audit_event',
+        expect.objectContaining({ p_actor_id: 'editor-1', p_ip_address: null, p_request_id: 'req_456' })
+      );
+    });
+    it('writes with the service role rather than the signed-in user', async () => {
+      const { recordAuditEvent } = await import('@/lib/audit');
+
+      await recordAuditEvent({ action: 'user.suspend', actorId: 'admin-1' });
+
+      expect(mockRpc).toHaveBeenCalledTimes(1);
+      expect(mockUserRpc).not.toHaveBeenCalled();
+    });
+
+    it('never throws when the write fails', async () => {
+      mockRpc.mockResolvedValue({ data: null, error: { code: '42501', message: 'denied' } });
+      const { recordAuditEvent } = await import('@/lib/audit');
+
+      await expect(
+        recordAuditEvent({ action: 'post.feature', actorId: null, target: { type: 'post', id: 'post-1' } })
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for bookmarks database operations
+ */
+
+import { createMockSupabaseClient, createChainableMock } from '@/lib/test/mocks';
+
+const mockSupabaseClient = createMockSupabaseClient();
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn().mockResolvedValue(mockSupabaseClient),
+}));
+
+describe('Bookmarks Database Operations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createBookmark', () => {
+    it('saves a published post', async () => {
+      const bookmark = { id: 'bm-1', user_id: 'user-1', post_id: 'post-1', collection_id: null };
+      const insertQuery = createChainableMock({ data: bookmark, error: null });
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(createChainableMock({ data: { id: 'post-1' }, error: null }))
+        .mockReturnValueOnce(insertQuery);
+
+      const { createBookmark } = await import('@/lib/db/bookmarks');
+
+      const result = await createBookmark('user-1', { post_id: 'post-1' });
+
+      expect(result).toEqual(bookmark);
+      expect(insertQuery.insert).toHaveBeenCalledWith({
+        user_id: 'user-1',
+        post_id: 'post-1',
+        collection_id: null,
+        note: null,
+      });
+    });
+
+    it('rejects posts that are not published', async () => {
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(
+        createChainableMock({ data: null, error: null })
+      );
+
+      const { createBookmark } = await import('@/lib/db/bookmarks');
+
+      await expect(createBookmark('user-1', { post_id: 'post-1' })).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+      });
+    });
+
+    it("rejects other users' collections", async () => {
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(createChainableMock({ data: { id: 'post-1' }, error: null }))
+        .mockReturnValueOnce(createChainableMock({ data: null, error: null }));
+
+      const { createBookmark } = await import('@/lib/db/bookmarks');
+
+      await expect(
+        createBookmark('user-1', { post_id: 'post-1', collection_id: 'col-2' })
+      ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+
+    it('reports a conflict when the post is already saved', async () => {
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(createChainableMock({ data: { id: 'post-1' }, error: null }))
+        .mockReturnValueOnce(createChainableMock({ data: null, error: { code: '23505' } }));
+
+      const { createBookmark } = await import('@/lib/db/bookmarks');
+
+      await expect(createBookmark('user-1', { post_id: 'post-1' })).rejects.toMatchObject({
+        code: 'CONFLICT',
+      });
+    });
+  });
+
+  describe('listBookmarks', () => {
+    it('lists bookmarks outside any collection', async () => {
+      const query = createChainableMock();
+      query.range.mockResolvedValue({ data: [{ id: 'bm-1' }], error: null, count: 1 });
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(query);
+
+      const { listBookmarks } = await import('@/lib/db/bookmarks');
+
+      const result = await listBookmarks('user-1', { collection_id: 'none' });
+
+      expect(result.total).toBe(1);
+      expect(query.eq).toHaveBeenCalledWith('user_id', 'user-1');
+      expect(query.is).toHaveBeenCalledWith('collection_id', null);
+    });
+  });
+
+  describe('listCollections', () => {
+    it('flattens bookmark counts', async () => {
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(
+        createChainableMock({
+          data: [{ id: 'col-1', name: 'Housing', bookmarks: [{ count: 3 }] }],
+          error: null,
+        })
+      );
+
+      const { listCollections } = await import('@/lib/db/bookmarks');
+
+      const result = await listCollections('user-1');
+
+      expect(result).toEqual([{ id: 'col-1', name: 'Housing', bookmark_count: 3 }]);
+    });
+  });
+});
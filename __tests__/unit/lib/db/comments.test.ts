@@ -13,6 +13,10 @@ jest.mock('@/lib/supabase/server', () => ({
   createClient: jest.fn().mockResolvedValue(mockSupabaseClient),
 }));
 
+jest.mock('@/lib/notifications', () => ({
+  dispatchNotification: jest.fn().mockResolvedValue({ notified: false, emailed: true }),
+}));
+
 describe('Comments Database Operations', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -161,6 +165,54 @@ describe('Comments Database Operations', () => {
 
       expect(result.parent_id).toBe(mockComment.id);
     });
+
+    it('emails the post author and the parent comment author', async () => {
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(
+          createChainableMock({
+            data: {
+              id: mockPost.id,
+              status: 'published',
+              title: 'The Queue',
+              slug: 'the-queue',
+              author_id: 'post-author',
+            },
+            error: null,
+          })
+        )
+        .mockReturnValueOnce(
+          createChainableMock({
+            data: { id: mockComment.id, post_id: mockPost.id, author_id: 'parent-author' },
+            error: null,
+          })
+        )
+        .mockReturnValueOnce(
+          createChainableMock({
+            data: { id: 'reply-id', content: 'Agreed', author: { display_name: 'Alex' } },
+            error: null,
+          })
+        );
+
+      const { createComment } = await import('@/lib/db/comments');
+      const { dispatchNotification } = await import('@/lib/notifications');
+
+      await createComment({
+        post_id: mockPost.id,
+        author_id: mockUser.id,
+        content: 'Agreed',
+        parent_id: mockComment.id,
+      });
+
+      expect(dispatchNotification).toHaveBeenCalledTimes(2);
+      expect(dispatchNotification).toHaveBeenCalledWith({
+        userId: 'parent-author',
+        email: expect.objectContaining({ category: 'reply' }),
+      });
+      expect(dispatchNotification).toHaveBeenCalledWith({
+        userId: 'post-author',
+        email: expect.objectContaining({ category: 'comment' }),
+      });
+    });
   });
 
   describe('updateComment', () => {
@@ -0,0 +1,129 @@
+/**
+ * Unit tests for follows database operations
+ */
+
+import { createMockSupabaseClient, createChainableMock } from '@/lib/test/mocks';
+import { mockPost } from '@/lib/test/fixtures';
+
+const mockSupabaseClient = createMockSupabaseClient();
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(() => Promise.resolve(mockSupabaseClient)),
+}));
+
+jest.mock('@/lib/notifications', () => ({
+  dispatchNotification: jest.fn().mockResolvedValue({ notified: true, emailed: false }),
+}));
+
+describe('Follows Database Operations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('followUser', () => {
+    it('rejects following yourself', async () => {
+      const { followUser } = await import('@/lib/db/follows');
+
+      await expect(followUser('user-1', 'user-1')).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+      expect(mockSupabaseClient.from).not.toHaveBeenCalled();
+    });
+
+    it('rejects following readers', async () => {
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(
+        createChainableMock({ data: { id: 'user-2', role: 'reader' }, error: null })
+      );
+
+      const { followUser } = await import('@/lib/db/follows');
+
+      await expect(followUser('user-1', 'user-2')).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+
+    it('notifies the contributor on a new follow', async () => {
+      const insertQuery = createChainableMock({ data: null, error: null });
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(
+          createChainableMock({ data: { id: 'user-2', role: 'contributor' }, error: null })
+        )
+        .mockReturnValueOnce(insertQuery)
+        .mockReturnValueOnce(
+          createChainableMock({ data: { display_name: 'Sam', username: 'sam' }, error: null })
+        )
+        .mockReturnValueOnce(createChainableMock({ data: { follower_count: 4 }, error: null }));
+
+      const { followUser } = await import('@/lib/db/follows');
+      const { dispatchNotification } = await import('@/lib/notifications');
+
+      const result = await followUser('user-1', 'user-2');
+
+      expect(result).toEqual({ following: true, follower_count: 4 });
+      expect(insertQuery.insert).toHaveBeenCalledWith({
+        follower_id: 'user-1',
+        following_id: 'user-2',
+      });
+      expect(dispatchNotification).toHaveBeenCalledWith({
+        userId: 'user-2',
+        notification: {
+          type: 'follow',
+          title: 'Sam started following you',
+          actorId: 'user-1',
+        },
+      });
+    });
+
+    it('does not notify again when already following', async () => {
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(
+          createChainableMock({ data: { id: 'user-2', role: 'contributor' }, error: null })
+        )
+        .mockReturnValueOnce(createChainableMock({ data: null, error: { code: '23505' } }))
+        .mockReturnValueOnce(createChainableMock({ data: { follower_count: 4 }, error: null }));
+
+      const { followUser } = await import('@/lib/db/follows');
+      const { dispatchNotification } = await import('@/lib/notifications');
+
+      const result = await followUser('user-1', 'user-2');
+
+      expect(result.following).toBe(true);
+      expect(dispatchNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getFeed', () => {
+    it('returns nothing when the user follows nobody', async () => {
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(createChainableMock({ data: [], error: null }))
+        .mockReturnValueOnce(createChainableMock({ data: [], error: null }));
+
+      const { getFeed } = await import('@/lib/db/follows');
+
+      const result = await getFeed('user-1');
+
+      expect(result).toEqual({
+        posts: [],
+        total: 0,
+        following: { author_ids: [], category_ids: [] },
+      });
+      expect(mockSupabaseClient.from).not.toHaveBeenCalledWith('posts');
+    });
+
+    it('lists published posts from followed contributors and categories', async () => {
+      const postsQuery = createChainableMock();
+      postsQuery.range.mockResolvedValue({ data: [mockPost], error: null, count: 1 });
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(
+          createChainableMock({ data: [{ following_id: 'author-1' }], error: null })
+        )
+        .mockReturnValueOnce(createChainableMock({ data: [{ category_id: 'cat-1' }], error: null }))
+        .mockReturnValueOnce(postsQuery);
+
+      const { getFeed } = await import('@/lib/db/follows');
+
+      const result = await getFeed('user-1', { page: 1, limit: 10 });
+
+      expect(result.total).toBe(1);
+      expect(result.posts).toHaveLength(1);
+      expect(postsQuery.eq).toHaveBeenCalledWith('status', 'published');
+      expect(postsQuery.or).toHaveBeenCalledWith('author_id.in.(author-1),category_id.in.(cat-1)');
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Unit tests for content report database operations
+ */
+
+import { createMockSupabaseClient, createChainableMock } from '@/lib/test/mocks';
+
+const mockSupabaseClient = createMockSupabaseClient();
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn().mockResolvedValue(mockSupabaseClient),
+}));
+
+const REPORTER_ID = 'reporter-1';
+const MODERATOR_ID = 'moderator-1';
+const COMMENT_ID = 'comment-1';
+
+describe('Report Database Operations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createReport', () => {
+    it('should insert a report against the target column', async () => {
+      const targetQuery = createChainableMock({ data: { id: COMMENT_ID } });
+      const insertQuery = createChainableMock();
+      insertQuery.single.mockResolvedValue({
+        data: { id: 'report-1', comment_id: COMMENT_ID, status: 'pending' },
+        error: null,
+      });
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(targetQuery)
+        .mockReturnValueOnce(insertQuery);
+
+      const { createReport } = await import('@/lib/db/reports');
+      const report = await createReport({
+        reporter_id: REPORTER_ID,
+        target_type: 'comment',
+        target_id: COMMENT_ID,
+        reason: 'spam',
+      });
+
+      expect(mockSupabaseClient.from).toHaveBeenNthCalledWith(1, 'comments');
+      expect(insertQuery.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ reporter_id: REPORTER_ID, comment_id: COMMENT_ID, reason: 'spam' })
+      );
+      expect(report.status).toBe('pending');
+    });
+
+    it('should throw conflict when an open report already exists', async () => {
+      const targetQuery = createChainableMock({ data: { id: 'post-1' } });
+      const insertQuery = createChainableMock();
+      insertQuery.single.mockResolvedValue({
+        data: null,
+        error: { code: '23505', message: 'You have already reported this content' },
+      });
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(targetQuery)
+        .mockReturnValueOnce(insertQuery);
+
+      const { createReport } = await import('@/lib/db/reports');
+
+      await expect(
+        createReport({ reporter_id: REPORTER_ID, target_type: 'post', target_id: 'post-1', reason: 'spam' })
+      ).rejects.toMatchObject({ code: 'CONFLICT' });
+    });
+
+    it('should throw not found when the target does not exist', async () => {
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(createChainableMock({ data: null }));
+
+      const { createReport } = await import('@/lib/db/reports');
+
+      await expect(
+        createReport({ reporter_id: REPORTER_ID, target_type: 'user', target_id: 'user-2', reason: 'harassment' })
+      ).rejects.toThrow('User not found');
+    });
+
+    it('should reject reporting yourself', async () => {
+      const { createReport } = await import('@/lib/db/reports');
+
+      await expect(
+        createReport({ reporter_id: REPORTER_ID, target_type: 'user', target_id: REPORTER_ID, reason: 'other' })
+      ).rejects.toThrow('You cannot report yourself');
+      expect(mockSupabaseClient.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('claimReport', () => {
+    it('should only claim pending reports', async () => {
+      const updateQuery = createChainableMock({ data: { id: 'report-1' } });
+      const fetchQuery = createChainableMock({ data: { id: 'report-1', status: 'reviewing' } });
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(updateQuery)
+        .mockReturnValueOnce(fetchQuery);
+
+      const { claimReport } = await import('@/lib/db/reports');
+      const report = await claimReport('report-1', MODERATOR_ID);
+
+      expect(updateQuery.update).toHaveBeenCalledWith({ status: 'reviewing', moderator_id: MODERATOR_ID });
+      expect(updateQuery.eq).toHaveBeenCalledWith('status', 'pending');
+      expect(report.status).toBe('reviewing');
+    });
+
+    it('should throw conflict when another moderator got there first', async () => {
+      const updateQuery = createChainableMock({ data: null });
+      const fetchQuery = createChainableMock({ data: { id: 'report-1', status: 'reviewing' } });
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(updateQuery)
+        .mockReturnValueOnce(fetchQuery);
+
+      const { claimReport } = await import('@/lib/db/reports');
+
+      await expect(claimReport('report-1', MODERATOR_ID)).rejects.toThrow('Report has already been claimed');
+    });
+  });
+
+  describe('resolveReport', () => {
+    it('should close an open report with resolution and notes', async () => {
+      const updateQuery = createChainableMock({ data: { id: 'report-1' } });
+      const fetchQuery = createChainableMock({ data: { id: 'report-1', status: 'resolved' } });
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(updateQuery)
+        .mockReturnValueOnce(fetchQuery);
+
+      const { resolveReport } = await import('@/lib/db/reports');
+      await resolveReport('report-1', MODERATOR_ID, 'Post unpublished', 'Confirmed spam');
+
+      expect(updateQuery.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'resolved',
+          moderator_id: MODERATOR_ID,
+          resolution: 'Post unpublished',
+          moderator_notes: 'Confirmed spam',
+        })
+      );
+      expect(updateQuery.in).toHaveBeenCalledWith('status', ['pending', 'reviewing']);
+    });
+
+    it('should throw conflict for a closed report', async () => {
+      const updateQuery = createChainableMock({ data: null });
+      const fetchQuery = createChainableMock({ data: { id: 'report-1', status: 'dismissed' } });
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(updateQuery)
+        .mockReturnValueOnce(fetchQuery);
+
+      const { resolveReport } = await import('@/lib/db/reports');
+
+      await expect(resolveReport('report-1', MODERATOR_ID, 'Removed')).rejects.toThrow(
+        'Report has already been closed'
+      );
+    });
+  });
+
+  describe('dismissReport', () => {
+    it('should unflag a comment once no open reports remain', async () => {
+      const updateQuery = createChainableMock({ data: { id: 'report-1' } });
+      const fetchQuery = createChainableMock({
+        data: { id: 'report-1', status: 'dismissed', comment_id: COMMENT_ID, comment: { status: 'flagged' } },
+      });
+      const countQuery = createChainableMock({ count: 0 });
+      const unflagQuery = createChainableMock();
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(updateQuery)
+        .mockReturnValueOnce(fetchQuery)
+        .mockReturnValueOnce(countQuery)
+        .mockReturnValueOnce(unflagQuery);
+
+      const { dismissReport } = await import('@/lib/db/reports');
+      await dismissReport('report-1', MODERATOR_ID, 'Not spam');
+
+      expect(updateQuery.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'dismissed' }));
+      expect(mockSupabaseClient.from).toHaveBeenLastCalledWith('comments');
+      expect(unflagQuery.update).toHaveBeenCalledWith({ status: 'visible' });
+    });
+
+    it('should leave the comment flagged while other reports are open', async () => {
+      const updateQuery = createChainableMock({ data: { id: 'report-1' } });
+      const fetchQuery = createChainableMock({
+        data: { id: 'report-1', status: 'dismissed', comment_id: COMMENT_ID, comment: { status: 'flagged' } },
+      });
+      const countQuery = createChainableMock({ count: 2 });
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(updateQuery)
+        .mockReturnValueOnce(fetchQuery)
+        .mockReturnValueOnce(countQuery);
+
+      const { dismissReport } = await import('@/lib/db/reports');
+      await dismissReport('report-1', MODERATOR_ID);
+
+      expect(mockSupabaseClient.from).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('getReportTarget', () => {
+    it('should identify the reported content', async () => {
+      const { getReportTarget } = await import('@/lib/db/reports');
+      const base = { post_id: null, comment_id: null, user_id: null } as const;
+
+      expect(getReportTarget({ ...base, post_id: 'p' } as never)).toEqual({ type: 'post', id: 'p' });
+      expect(getReportTarget({ ...base, user_id: 'u' } as never)).toEqual({ type: 'user', id: 'u' });
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for full-text search database operations
+ */
+
+import { createMockSupabaseClient } from '@/lib/test/mocks';
+
+const mockRpc = jest.fn();
+const mockSupabaseClient = { ...createMockSupabaseClient(), rpc: mockRpc };
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn().mockResolvedValue(mockSupabaseClient),
+}));
+
+describe('Search Database Operations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('searchPosts', () => {
+    it('should call search_posts with paging offsets and strip total_count', async () => {
+      mockRpc.mockResolvedValue({
+        data: [
+          { id: 'post-1', title: 'Housing', rank: 0.8, headline: '<mark>housing</mark> list', total_count: 42 },
+        ],
+        error: null,
+      });
+
+      const { searchPosts } = await import('@/lib/db/search');
+      const result = await searchPosts({ query: '"housing list" -london', page: 3, limit: 10 });
+
+      expect(mockRpc).toHaveBeenCalledWith('search_posts', {
+        p_query: '"housing list" -london',
+        p_content_types: null,
+        p_categories: null,
+        p_tags: null,
+        p_authors: null,
+        p_published: null,
+        p_limit: 10,
+        p_offset: 20,
+      });
+      expect(result.total).toBe(42);
+      expect(result.results[0]).not.toHaveProperty('total_count');
+      expect(result.results[0].headline).toContain('<mark>');
+    });
+
+    it('should return zero total when nothing matches', async () => {
+      mockRpc.mockResolvedValue({ data: [], error: null });
+
+      const { searchPosts } = await import('@/lib/db/search');
+      const result = await searchPosts({
+        query: 'nothing',
+        filters: { contentTypes: ['video', 'audio'], tags: [] },
+      });
+
+      expect(result).toEqual({ results: [], total: 0 });
+      expect(mockRpc).toHaveBeenCalledWith(
+        'search_posts',
+        expect.objectContaining({ p_content_types: ['video', 'audio'], p_tags: null, p_offset: 0 })
+      );
+    });
+
+    it('should throw when the search fails', async () => {
+      mockRpc.mockResolvedValue({ data: null, error: { message: 'syntax error in tsquery' } });
+
+      const { searchPosts } = await import('@/lib/db/search');
+      await expect(searchPosts({ query: 'bad' })).rejects.toThrow('Failed to search posts');
+    });
+  });
+
+  describe('getPostSearchFacets', () => {
+    it('should group facet rows by facet', async () => {
+      mockRpc.mockResolvedValue({
+        data: [
+          { facet: 'category', value: 'benefits', label: 'Benefits', count: '12' },
+          { facet: 'category', value: 'housing', label: 'Housing', count: '3' },
+          { facet: 'content_type', value: 'written', label: 'written', count: 14 },
+          { facet: 'published', value: 'week', label: 'week', count: 5 },
+        ],
+        error: null,
+      });
+
+      const { getPostSearchFacets } = await import('@/lib/db/search');
+      const facets = await getPostSearchFacets('universal credit', { categories: ['benefits'] });
+
+      expect(mockRpc).toHaveBeenCalledWith(
+        'search_post_facets',
+        expect.objectContaining({ p_query: 'universal credit', p_categories: ['benefits'] })
+      );
+      expect(facets.category).toEqual([
+        { value: 'benefits', label: 'Benefits', count: 12 },
+        { value: 'housing', label: 'Housing', count: 3 },
+      ]);
+      expect(facets.content_type).toHaveLength(1);
+      expect(facets.tag).toEqual([]);
+      expect(facets.published[0].value).toBe('week');
+    });
+  });
+
+  describe('searchProfiles', () => {
+    it('should call search_profiles and return users with total', async () => {
+      mockRpc.mockResolvedValue({
+        data: [{ id: 'user-1', username: 'sarah', display_name: 'Sarah M.', rank: 1.2, total_count: 1 }],
+        error: null,
+      });
+
+      const { searchProfiles } = await import('@/lib/db/search');
+      const result = await searchProfiles({ query: 'sar' });
+
+      expect(mockRpc).toHaveBeenCalledWith('search_profiles', {
+        p_query: 'sar',
+        p_limit: 20,
+        p_offset: 0,
+      });
+      expect(result.total).toBe(1);
+      expect(result.users[0].username).toBe('sarah');
+    });
+  });
+
+  describe('getSearchSuggestions', () => {
+    it('should group suggestion rows by kind', async () => {
+      mockRpc.mockResolvedValue({
+        data: [
+          { kind: 'post', label: 'Universal Credit explained', slug: 'universal-credit-explained', avatar_url: null },
+          { kind: 'tag', label: 'universal-credit', slug: 'universal-credit', avatar_url: null },
+          { kind: 'user', label: 'Una Smith', slug: 'una', avatar_url: 'https://example.com/a.png' },
+        ],
+        error: null,
+      });
+
+      const { getSearchSuggestions } = await import('@/lib/db/search');
+      const suggestions = await getSearchSuggestions('un', 3);
+
+      expect(mockRpc).toHaveBeenCalledWith('search_suggestions', { p_prefix: 'un', p_limit: 3 });
+      expect(suggestions.posts).toEqual([{ label: 'Universal Credit explained', slug: 'universal-credit-explained' }]);
+      expect(suggestions.tags).toHaveLength(1);
+      expect(suggestions.categories).toEqual([]);
+      expect(suggestions.users[0]).toEqual({ label: 'Una Smith', slug: 'una', avatar_url: 'https://example.com/a.png' });
+    });
+
+    it('should throw when the lookup fails', async () => {
+      mockRpc.mockResolvedValue({ data: null, error: { message: 'boom' } });
+
+      const { getSearchSuggestions } = await import('@/lib/db/search');
+
+      await expect(getSearchSuggestions('un')).rejects.toThrow('Failed to load suggestions');
+    });
+  });
+});
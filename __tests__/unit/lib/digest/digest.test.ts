@@ -0,0 +1,224 @@
+/**
+ * Unit tests for the weekly digest
+ */
+
+import { createMockSupabaseClient, createChainableMock } from '@/lib/test/mocks';
+
+const mockSupabaseClient = createMockSupabaseClient();
+const mockRpc = jest.fn();
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(() => Promise.resolve(mockSupabaseClient)),
+  createServiceClient: jest.fn(() => Promise.resolve({ ...mockSupabaseClient, rpc: mockRpc })),
+}));
+
+jest.mock('@/lib/db/posts', () => ({
+  getTrendingPosts: jest.fn().mockResolvedValue([
+    {
+      id: 'post-9',
+      title: 'Trending Post',
+      slug: 'trending-post',
+      excerpt: null,
+      author: { id: 'author-1', display_name: 'Author', username: 'author' },
+      category: { name: 'Benefits' },
+    },
+    {
+      id: 'post-8',
+      title: 'My Own Post',
+      slug: 'my-own-post',
+      excerpt: null,
+      author: { id: 'user-1', display_name: 'Sam', username: 'sam' },
+      category: null,
+    },
+  ]),
+}));
+
+jest.mock('@/lib/db/profiles', () => ({
+  getUserStats: jest.fn().mockResolvedValue({
+    totalPosts: 3,
+    publishedPosts: 2,
+    draftPosts: 1,
+    pendingPosts: 0,
+    totalViews: 1200,
+    totalReactions: 40,
+    totalComments: 12,
+  }),
+}));
+
+jest.mock('@/lib/notifications', () => ({
+  dispatchNotification: jest.fn().mockResolvedValue({ notified: false, emailed: true }),
+}));
+
+const recommendedPost = {
+  id: 'post-1',
+  title: 'Housing Benefit Changes',
+  slug: 'housing-benefit-changes',
+  excerpt: 'What changes in April',
+  category_name: 'Housing',
+  author_name: 'Alex',
+};
+
+const reply = {
+  id: 'comment-2',
+  content: 'Thanks, this helped',
+  replier_name: 'Jo',
+  post_title: 'Housing Benefit Changes',
+  post_slug: 'housing-benefit-changes',
+};
+
+function mockDigestQueries(role: string) {
+  mockRpc.mockImplementation((name: string) => {
+    switch (name) {
+      case 'digest_recipients':
+        return Promise.resolve({ data: [{ id: 'user-1', role }], error: null });
+      case 'digest_recommended_posts':
+        return Promise.resolve({ data: [recommendedPost], error: null });
+      case 'digest_comment_replies':
+        return Promise.resolve({ data: [reply], error: null });
+      case 'digest_author_activity':
+        return Promise.resolve({ data: [{ views: '150', reactions: '7' }], error: null });
+      default:
+        return Promise.resolve({ data: null, error: null });
+    }
+  });
+}
+
+describe('Weekly digest', () => {
+  const now = new Date('2026-03-18T08:00:00.000Z'); // a Wednesday
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.EMAIL_TOKEN_SECRET = 'test-email-token-secret';
+  });
+
+  it('keys deliveries to the Monday of the current week', async () => {
+    const { getDigestPeriodStart } = await import('@/lib/digest');
+
+    expect(getDigestPeriodStart(now)).toBe('2026-03-16');
+    expect(getDigestPeriodStart(new Date('2026-03-16T00:00:00.000Z'))).toBe('2026-03-16');
+    expect(getDigestPeriodStart(new Date('2026-03-22T23:59:59.000Z'))).toBe('2026-03-16');
+  });
+
+  it('leaves the reader out of trending posts they wrote and adds no stats for readers', async () => {
+    mockDigestQueries('reader');
+
+    const { compileDigest } = await import('@/lib/digest');
+    const { getUserStats } = await import('@/lib/db/profiles');
+
+    const trending = [
+      { ...recommendedPost, author_id: 'author-1' },
+      { ...recommendedPost, id: 'post-8', author_id: 'user-1', title: 'Mine' },
+      { ...recommendedPost, id: 'post-9', author_id: 'author-1', title: 'Trending' },
+    ];
+
+    const digest = await compileDigest({ id: 'user-1', role: 'reader' }, now, trending);
+
+    expect(digest.recommended).toEqual([recommendedPost]);
+    expect(digest.trending.map((post) => post.title)).toEqual(['Trending']);
+    expect(digest.replies).toEqual([reply]);
+    expect(digest.stats).toBeNull();
+    expect(getUserStats).not.toHaveBeenCalled();
+  });
+
+  it("adds the week's views and reactions for contributors", async () => {
+    mockDigestQueries('contributor');
+
+    const { compileDigest } = await import('@/lib/digest');
+
+    const digest = await compileDigest({ id: 'user-1', role: 'contributor' }, now, []);
+
+    expect(digest.stats).toEqual({
+      weekViews: 150,
+      weekReactions: 7,
+      totalViews: 1200,
+      totalReactions: 40,
+      publishedPosts: 2,
+    });
+    expect(mockRpc).toHaveBeenCalledWith('digest_author_activity', {
+      p_user_id: 'user-1',
+      p_since: now.toISOString(),
+    });
+  });
+
+  it('claims the week and sends the digest through dispatch with an unsubscribe link', async () => {
+    mockDigestQueries('reader');
+    const insertQuery = createChainableMock({ data: null, error: null });
+    (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(insertQuery);
+
+    const { sendWeeklyDigests } = await import('@/lib/digest');
+    const { dispatchNotification } = await import('@/lib/notifications');
+
+    const result = await sendWeeklyDigests(now);
+
+    expect(result).toEqual({ sent: ['user-1'], skipped: [], failed: [] });
+    expect(mockRpc).toHaveBeenCalledWith('digest_recipients', {
+      p_period_start: '2026-03-16',
+      p_limit: 200,
+    });
+    expect(insertQuery.insert).toHaveBeenCalledWith({
+      user_id: 'user-1',
+      period_start: '2026-03-16',
+    });
+
+    const [[options]] = (dispatchNotification as jest.Mock).mock.calls;
+    expect(options.userId).toBe('user-1');
+    expect(options.email.category).toBe('weekly_digest');
+    expect(options.email.idempotencyKey).toBe('weekly_digest:user-1:2026-03-16');
+
+    const { html, headers } = options.email.build({ id: 'user-1', name: 'Sam' });
+    expect(html).toContain('Housing Benefit Changes');
+    expect(html).toContain('Trending Post');
+    expect(html).not.toContain('My Own Post');
+    expect(html).toMatch(/\/unsubscribe\?token=[\w-]+\.[\w-]+/);
+    expect(headers['List-Unsubscribe']).toMatch(/^<.+\/api\/unsubscribe\?token=[\w-]+\.[\w-]+>$/);
+    expect(headers['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+  });
+
+  it('skips users another run already sent this week', async () => {
+    mockDigestQueries('reader');
+    (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(
+      createChainableMock({ data: null, error: { code: '23505', message: 'duplicate key' } })
+    );
+
+    const { sendWeeklyDigests } = await import('@/lib/digest');
+    const { dispatchNotification } = await import('@/lib/notifications');
+
+    const result = await sendWeeklyDigests(now);
+
+    expect(result).toEqual({ sent: [], skipped: [], failed: [] });
+    expect(dispatchNotification).not.toHaveBeenCalled();
+  });
+
+  it('releases the claim when the digest cannot be queued', async () => {
+    mockDigestQueries('reader');
+    const deleteQuery = createChainableMock({ data: null, error: null });
+    (mockSupabaseClient.from as jest.Mock)
+      .mockReturnValueOnce(createChainableMock({ data: null, error: null }))
+      .mockReturnValueOnce(deleteQuery);
+
+    const { sendWeeklyDigests } = await import('@/lib/digest');
+    const { dispatchNotification } = await import('@/lib/notifications');
+    (dispatchNotification as jest.Mock).mockRejectedValueOnce(new Error('queue unavailable'));
+
+    const result = await sendWeeklyDigests(now);
+
+    expect(result).toEqual({ sent: [], skipped: [], failed: ['user-1'] });
+    expect(deleteQuery.delete).toHaveBeenCalled();
+    expect(deleteQuery.eq).toHaveBeenCalledWith('user_id', 'user-1');
+    expect(deleteQuery.eq).toHaveBeenCalledWith('period_start', '2026-03-16');
+  });
+
+  it('fails without claiming when unsubscribe links cannot be signed', async () => {
+    delete process.env.EMAIL_TOKEN_SECRET;
+    mockDigestQueries('reader');
+
+    const { sendWeeklyDigests } = await import('@/lib/digest');
+    const { dispatchNotification } = await import('@/lib/notifications');
+
+    const result = await sendWeeklyDigests(now);
+
+    expect(result).toEqual({ sent: [], skipped: [], failed: ['user-1'] });
+    expect(mockSupabaseClient.from).not.toHaveBeenCalled();
+    expect(dispatchNotification).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for email template previews
+ */
+
+import * as templates from '@/lib/email/templates';
+
+jest.mock('@/lib/email/client', () => ({
+  sendEmail: jest.fn(),
+}));
+
+describe('Email previews', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('has a preview for every template', async () => {
+    const { listEmailPreviews, renderEmailPreview } = await import('@/lib/email/previews');
+
+    const previews = listEmailPreviews();
+    const templateCount = Object.values(templates).filter((t) => typeof t === 'function').length;
+
+    expect(previews).toHaveLength(templateCount);
+    for (const preview of previews) {
+      const rendered = renderEmailPreview(preview.id);
+      expect(rendered.subject).toBeTruthy();
+      expect(rendered.html).toContain('<!DOCTYPE html>');
+      expect(rendered.text).toBeTruthy();
+    }
+  });
+
+  it('renders edited sample data, falling back to samples for missing fields', async () => {
+    const { renderEmailPreview } = await import('@/lib/email/previews');
+
+    const rendered = renderEmailPreview('post-published', { name: 'Priya' });
+
+    expect(rendered.html).toContain('Priya');
+    expect(rendered.text).toContain('How to furnish a flat for under £100');
+    expect(rendered.html).not.toContain('undefined');
+  });
+
+  it('builds digest posts from "Title | Category | Author" lines', async () => {
+    const { renderEmailPreview } = await import('@/lib/email/previews');
+
+    const rendered = renderEmailPreview('newsletter-campaign', {
+      posts: 'Cheap eats | Food | Jordan',
+    });
+
+    expect(rendered.text).toContain('Cheap eats');
+    expect(rendered.html).toContain('/articles/cheap-eats');
+    expect(rendered.text).toContain('Food • by Jordan');
+  });
+
+  it('throws not found for an unknown template', async () => {
+    const { renderEmailPreview } = await import('@/lib/email/previews');
+
+    expect(() => renderEmailPreview('nope')).toThrow('Email template not found');
+  });
+
+  it('sends a test copy with the plain-text version', async () => {
+    const { sendEmail } = await import('@/lib/email/client');
+    (sendEmail as jest.Mock).mockResolvedValueOnce({ success: true, id: 'email-1' });
+    const { sendEmailPreview } = await import('@/lib/email/previews');
+
+    await sendEmailPreview('welcome', { name: 'Priya' }, 'admin@example.com');
+
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'admin@example.com',
+        subject: expect.stringMatching(/^\[Test\] /),
+        text: expect.stringContaining('Priya'),
+      })
+    );
+  });
+
+  it('reports a failed test send', async () => {
+    const { sendEmail } = await import('@/lib/email/client');
+    (sendEmail as jest.Mock).mockResolvedValueOnce({
+      success: false,
+      error: 'Email not configured',
+    });
+    const { sendEmailPreview } = await import('@/lib/email/previews');
+
+    await expect(sendEmailPreview('welcome', {}, 'admin@example.com')).rejects.toThrow(
+      'Email not configured'
+    );
+  });
+});
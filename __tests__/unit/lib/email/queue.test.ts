@@ -0,0 +1,213 @@
+/**
+ * Unit tests for the database-backed email queue
+ */
+
+import { createMockSupabaseClient, createChainableMock } from '@/lib/test/mocks';
+
+const mockSupabaseClient = createMockSupabaseClient();
+const mockRpc = jest.fn();
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(() => Promise.resolve({ ...mockSupabaseClient, rpc: mockRpc })),
+  createServiceClient: jest.fn(() => Promise.resolve({ ...mockSupabaseClient, rpc: mockRpc })),
+}));
+
+jest.mock('@/lib/email/client', () => ({
+  sendEmail: jest.fn(),
+}));
+
+const email = { to: 'sam@example.com', subject: 'Hello', html: '<p>Hi</p>' };
+
+const job = (overrides: Record<string, unknown> = {}) => ({
+  id: 'job-1',
+  idempotency_key: null,
+  recipient: 'sam@example.com',
+  subject: 'Hello',
+  options: email,
+  status: 'processing',
+  attempts: 1,
+  max_attempts: 5,
+  ...overrides,
+});
+
+describe('Email queue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockSupabaseClient.from as jest.Mock).mockReturnValue(mockSupabaseClient._query);
+  });
+
+  describe('queueEmail', () => {
+    it('stores the email with its idempotency key', async () => {
+      const insertQuery = createChainableMock({ data: { id: 'job-1' }, error: null });
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(insertQuery);
+
+      const { queueEmail } = await import('@/lib/email/queue');
+
+      const id = await queueEmail(email, { idempotencyKey: 'welcome:user-1' });
+
+      expect(id).toBe('job-1');
+      expect(insertQuery.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          idempotency_key: 'welcome:user-1',
+          recipient: 'sam@example.com',
+          subject: 'Hello',
+          options: email,
+          max_attempts: 5,
+        })
+      );
+    });
+
+    it('returns the existing email when the idempotency key was already used', async () => {
+      const lookupQuery = createChainableMock({ data: { id: 'job-0' }, error: null });
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(
+          createChainableMock({ data: null, error: { code: '23505', message: 'duplicate key' } })
+        )
+        .mockReturnValueOnce(lookupQuery);
+
+      const { queueEmail } = await import('@/lib/email/queue');
+
+      await expect(queueEmail(email, { idempotencyKey: 'welcome:user-1' })).resolves.toBe('job-0');
+      expect(lookupQuery.eq).toHaveBeenCalledWith('idempotency_key', 'welcome:user-1');
+    });
+
+    it('throws when the email cannot be stored', async () => {
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(
+        createChainableMock({ data: null, error: { message: 'connection refused' } })
+      );
+
+      const { queueEmail } = await import('@/lib/email/queue');
+
+      await expect(queueEmail(email)).rejects.toThrow('Failed to queue email');
+    });
+  });
+
+  describe('processBatch', () => {
+    it('marks sent emails with the provider message id', async () => {
+      mockRpc.mockResolvedValueOnce({ data: [job()], error: null });
+      const updateQuery = createChainableMock({ data: null, error: null });
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(updateQuery);
+
+      const { sendEmail } = await import('@/lib/email/client');
+      (sendEmail as jest.Mock).mockResolvedValueOnce({ success: true, id: 'resend-1' });
+
+      const { emailQueue } = await import('@/lib/email/queue');
+
+      const result = await emailQueue.processBatch();
+
+      expect(result).toEqual({ processed: 1, succeeded: 1, failed: 0 });
+      expect(mockRpc).toHaveBeenCalledWith('claim_email_jobs', { p_limit: 10 });
+      expect(updateQuery.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'sent', message_id: 'resend-1' })
+      );
+    });
+
+    it('puts failed emails back with exponential backoff', async () => {
+      mockRpc.mockResolvedValueOnce({ data: [job({ attempts: 3 })], error: null });
+      const updateQuery = createChainableMock({ data: null, error: null });
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(updateQuery);
+
+      const { sendEmail } = await import('@/lib/email/client');
+      (sendEmail as jest.Mock).mockResolvedValueOnce({ success: false, error: 'Rate limited' });
+
+      const { emailQueue } = await import('@/lib/email/queue');
+
+      const before = Date.now();
+      const result = await emailQueue.processBatch();
+
+      expect(result).toEqual({ processed: 1, succeeded: 0, failed: 0 });
+
+      const [[update]] = (updateQuery.update as jest.Mock).mock.calls;
+      expect(update).toMatchObject({ status: 'pending', last_error: 'Rate limited' });
+      // Third attempt: 30s * 2^2
+      expect(new Date(update.next_attempt_at).getTime() - before).toBeGreaterThanOrEqual(120_000);
+      expect(new Date(update.next_attempt_at).getTime() - before).toBeLessThan(125_000);
+    });
+
+    it('dead-letters emails that used up their attempts', async () => {
+      mockRpc.mockResolvedValueOnce({ data: [job({ attempts: 5 })], error: null });
+      const updateQuery = createChainableMock({ data: null, error: null });
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(updateQuery);
+
+      const { sendEmail } = await import('@/lib/email/client');
+      (sendEmail as jest.Mock).mockResolvedValueOnce({ success: false, error: 'Invalid address' });
+
+      const { emailQueue } = await import('@/lib/email/queue');
+
+      const result = await emailQueue.processBatch();
+
+      expect(result).toEqual({ processed: 1, succeeded: 0, failed: 1 });
+      expect(updateQuery.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'dead', last_error: 'Invalid address' })
+      );
+    });
+
+    it('dead-letters emails to suppressed addresses without retrying', async () => {
+      mockRpc.mockResolvedValueOnce({ data: [job({ attempts: 1 })], error: null });
+      const updateQuery = createChainableMock({ data: null, error: null });
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(updateQuery);
+
+      const { sendEmail } = await import('@/lib/email/client');
+      (sendEmail as jest.Mock).mockResolvedValueOnce({
+        success: false,
+        error: 'Recipient suppressed after a bounce or complaint',
+        suppressed: true,
+      });
+
+      const { emailQueue } = await import('@/lib/email/queue');
+
+      const result = await emailQueue.processBatch();
+
+      expect(result).toEqual({ processed: 1, succeeded: 0, failed: 1 });
+      expect(updateQuery.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'dead' }));
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('doubles up to an hour', async () => {
+      const { emailQueue } = await import('@/lib/email/queue');
+
+      expect(emailQueue.getRetryDelay(1)).toBe(30_000);
+      expect(emailQueue.getRetryDelay(2)).toBe(60_000);
+      expect(emailQueue.getRetryDelay(20)).toBe(60 * 60 * 1000);
+    });
+  });
+
+  describe('retryDeadEmails', () => {
+    it('only requeues dead emails, with fresh attempts', async () => {
+      const updateQuery = createChainableMock({ data: [{ id: 'job-1' }], error: null });
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(updateQuery);
+
+      const { retryDeadEmails } = await import('@/lib/email/queue');
+
+      await expect(retryDeadEmails('job-1')).resolves.toBe(1);
+      expect(updateQuery.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'pending', attempts: 0, last_error: null })
+      );
+      expect(updateQuery.eq).toHaveBeenCalledWith('status', 'dead');
+    });
+  });
+
+  describe('getQueueStats', () => {
+    it('totals the counts per status', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: [
+          { status: 'pending', count: '2' },
+          { status: 'sent', count: '40' },
+          { status: 'dead', count: '1' },
+        ],
+        error: null,
+      });
+
+      const { getQueueStats } = await import('@/lib/email/queue');
+
+      await expect(getQueueStats()).resolves.toEqual({
+        total: 43,
+        pending: 2,
+        processing: 0,
+        sent: 40,
+        dead: 1,
+      });
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for the email suppression list and its checks before sending
+ */
+
+import { createMockSupabaseClient, createChainableMock } from '@/lib/test/mocks';
+
+const mockSupabaseClient = createMockSupabaseClient();
+const mockSend = jest.fn();
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(() => Promise.resolve(mockSupabaseClient)),
+  createServiceClient: jest.fn(() => Promise.resolve(mockSupabaseClient)),
+}));
+
+jest.mock('@/lib/email/transports', () => ({
+  getEmailTransport: () => ({ name: 'file', isConfigured: () => true, send: mockSend }),
+}));
+
+const email = { subject: 'Hello', html: '<p>Hi</p>' };
+
+function suppressed(...emails: string[]) {
+  const query = createChainableMock({ data: emails.map((e) => ({ email: e })), error: null });
+  (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(query);
+  return query;
+}
+
+describe('Email suppressions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockSupabaseClient.from as jest.Mock).mockReturnValue(mockSupabaseClient._query);
+    mockSend.mockResolvedValue({ success: true, id: 'message-1' });
+  });
+
+  describe('sendEmail', () => {
+    it('does not send to a suppressed address', async () => {
+      const query = suppressed('sam@example.com');
+      const { sendEmail } = await import('@/lib/email/client');
+
+      const result = await sendEmail({ ...email, to: 'Sam <Sam@example.com>' });
+
+      expect(result).toMatchObject({ success: false, suppressed: true });
+      expect(query.in).toHaveBeenCalledWith('email', ['sam@example.com']);
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+
+    it('drops suppressed addresses from a list of recipients', async () => {
+      suppressed('sam@example.com');
+      const { sendEmail } = await import('@/lib/email/client');
+
+      await expect(
+        sendEmail({ ...email, to: ['sam@example.com', 'alex@example.com'] })
+      ).resolves.toEqual({ success: true, id: 'message-1' });
+      expect(mockSend).toHaveBeenCalledWith(expect.objectContaining({ to: ['alex@example.com'] }));
+    });
+
+    it('still sends when the list cannot be read', async () => {
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(
+        createChainableMock({ data: null, error: { message: 'connection refused' } })
+      );
+      const { sendEmail } = await import('@/lib/email/client');
+
+      await expect(sendEmail({ ...email, to: 'sam@example.com' })).resolves.toMatchObject({
+        success: true,
+      });
+    });
+  });
+
+  describe('sendBulkEmail', () => {
+    it('skips suppressed recipients and reports them as failed', async () => {
+      suppressed('sam@example.com');
+      const onResult = jest.fn();
+      const { sendBulkEmail } = await import('@/lib/email/client');
+
+      const result = await sendBulkEmail(['sam@example.com', 'alex@example.com'], email, onResult);
+
+      expect(result).toEqual({ sent: 1, failed: 1 });
+      expect(mockSend).toHaveBeenCalledTimes(1);
+      expect(mockSend).toHaveBeenCalledWith(expect.objectContaining({ to: 'alex@example.com' }));
+      expect(onResult).toHaveBeenCalledWith(
+        'sam@example.com',
+        expect.objectContaining({ suppressed: true })
+      );
+    });
+  });
+
+  describe('removeSuppression', () => {
+    it('throws not found for an address that is not suppressed', async () => {
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(
+        createChainableMock({ data: [], error: null })
+      );
+      const { removeSuppression } = await import('@/lib/email/suppressions');
+
+      await expect(removeSuppression('sam@example.com')).rejects.toThrow('not found');
+    });
+  });
+});
@@ -9,7 +9,10 @@ import {
   postPublishedEmail,
   newCommentEmail,
   newsletterWelcomeEmail,
+  newsletterCampaignEmail,
   passwordResetEmail,
+  weeklyDigestEmail,
+  accountSuspendedEmail,
 } from '@/lib/email/templates';
 
 describe('Email Templates', () => {
@@ -109,15 +112,18 @@ describe('Email Templates', () => {
   });
 
   describe('newsletterWelcomeEmail', () => {
-    it('should confirm subscription', () => {
-      const { html, subject } = newsletterWelcomeEmail('test@example.com');
+    const confirmUrl = 'https://example.com/newsletter/confirm?token=abc.def';
+
+    it('should ask the subscriber to confirm', () => {
+      const { html, subject } = newsletterWelcomeEmail('test@example.com', confirmUrl);
 
       expect(subject.toLowerCase()).toContain('subscri');
       expect(html).toContain('newsletter');
+      expect(html).toContain(confirmUrl);
     });
 
     it('should include unsubscribe option', () => {
-      const { html } = newsletterWelcomeEmail('test@example.com');
+      const { html } = newsletterWelcomeEmail('test@example.com', confirmUrl);
 
       // Email should mention unsubscribe even if link is in footer
       expect(html.toLowerCase()).toMatch(/unsubscribe|manage|preferences/);
@@ -140,6 +146,91 @@ describe('Email Templates', () => {
     });
   });
 
+  describe('weeklyDigestEmail', () => {
+    const digest = {
+      recommended: [
+        {
+          title: 'Rent <b>rises</b>',
+          slug: 'rent-rises',
+          excerpt: null,
+          category_name: 'Housing',
+          author_name: 'Alex',
+        },
+      ],
+      trending: [],
+      replies: [],
+      stats: null,
+    };
+
+    it('should escape post titles and use the signed unsubscribe link in the footer', () => {
+      const unsubscribeUrl = 'https://example.com/unsubscribe?token=abc.def';
+      const { html } = weeklyDigestEmail('Sam', digest, unsubscribeUrl);
+
+      expect(html).toContain('Rent &lt;b&gt;rises&lt;/b&gt;');
+      expect(html).not.toContain('/unsubscribe"');
+      expect(html.split(unsubscribeUrl).length - 1).toBe(2);
+    });
+
+    it('should only include contributor stats when present', () => {
+      const unsubscribeUrl = 'https://example.com/unsubscribe?token=abc.def';
+      const stats = {
+        weekViews: 1500,
+        weekReactions: 12,
+        totalViews: 9000,
+        totalReactions: 300,
+        publishedPosts: 4,
+      };
+
+      expect(weeklyDigestEmail('Sam', digest, unsubscribeUrl).html).not.toContain(
+        'this week</span>'
+      );
+      expect(weeklyDigestEmail('Sam', { ...digest, stats }, unsubscribeUrl).html).toContain(
+        '1,500'
+      );
+    });
+  });
+
+  describe('newsletterCampaignEmail', () => {
+    it('should split the intro into escaped paragraphs and list the posts', () => {
+      const unsubscribeUrl = 'https://example.com/unsubscribe?token=abc.def';
+      const { html, subject } = newsletterCampaignEmail(
+        { subject: 'March roundup', intro: 'First <b>paragraph</b>\n\nSecond paragraph' },
+        [
+          {
+            title: 'Rent rises',
+            slug: 'rent-rises',
+            excerpt: null,
+            category_name: null,
+            author_name: null,
+          },
+        ],
+        unsubscribeUrl
+      );
+
+      expect(subject).toBe('March roundup');
+      expect(html).toContain('First &lt;b&gt;paragraph&lt;/b&gt;');
+      expect(html.match(/Second paragraph/g)).toHaveLength(1);
+      expect(html).toContain('/articles/rent-rises');
+      expect(html).toContain(unsubscribeUrl);
+    });
+  });
+
+  describe('accountSuspendedEmail', () => {
+    it('should escape the moderator-entered reason', () => {
+      const { html, subject } = accountSuspendedEmail(
+        'Sam',
+        'Posted <a href="https://evil.example">links</a>',
+        null
+      );
+
+      expect(subject).toBe('Your account has been banned');
+      expect(html).toContain(
+        'Posted &lt;a href=&quot;https://evil.example&quot;&gt;links&lt;/a&gt;'
+      );
+      expect(html).not.toContain('<a href="https://evil.example">');
+    });
+  });
+
   describe('Email HTML structure', () => {
     it('all templates should produce valid HTML', () => {
       const templates = [
@@ -148,7 +239,7 @@ describe('Email Templates', () => {
         applicationRejectedEmail('User'),
         postPublishedEmail('User', 'Title', 'slug'),
         newCommentEmail('A', 'B', 'T', 'slug', 'preview'),
-        newsletterWelcomeEmail('test@example.com'),
+        newsletterWelcomeEmail('test@example.com', 'https://example.com/confirm'),
         passwordResetEmail('https://example.com'),
       ];
 
@@ -168,7 +259,7 @@ describe('Email Templates', () => {
       const templates = [
         welcomeEmail('User'),
         applicationApprovedEmail('User'),
-        newsletterWelcomeEmail('test@example.com'),
+        newsletterWelcomeEmail('test@example.com', 'https://example.com/confirm'),
       ];
 
       for (const { html } of templates) {
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for signed email links
+ */
+
+import {
+  createUnsubscribeToken,
+  createNewsletterUnsubscribeToken,
+  createNewsletterConfirmToken,
+  verifyUnsubscribeToken,
+  verifyNewsletterConfirmToken,
+  listUnsubscribeHeaders,
+} from '@/lib/email/tokens';
+
+describe('Email tokens', () => {
+  beforeEach(() => {
+    process.env.EMAIL_TOKEN_SECRET = 'test-email-token-secret';
+  });
+
+  describe('unsubscribe tokens', () => {
+    it('round-trips a user and email category', () => {
+      const token = createUnsubscribeToken('user-1', 'weekly_digest');
+
+      expect(verifyUnsubscribeToken(token)).toEqual({
+        type: 'user',
+        userId: 'user-1',
+        category: 'weekly_digest',
+      });
+    });
+
+    it('round-trips a newsletter subscriber', () => {
+      const token = createNewsletterUnsubscribeToken('subscriber-1');
+
+      expect(verifyUnsubscribeToken(token)).toEqual({
+        type: 'newsletter',
+        subscriberId: 'subscriber-1',
+      });
+    });
+
+    it('rejects tampered tokens', () => {
+      const [, signature] = createUnsubscribeToken('user-1', 'weekly_digest').split('.');
+      const forged = `${Buffer.from('user:user-2:weekly_digest').toString('base64url')}.${signature}`;
+
+      expect(verifyUnsubscribeToken(forged)).toBeNull();
+      expect(verifyUnsubscribeToken('not-a-token')).toBeNull();
+    });
+
+    it('rejects tokens signed with another secret', () => {
+      const token = createNewsletterUnsubscribeToken('subscriber-1');
+      process.env.EMAIL_TOKEN_SECRET = 'rotated-secret';
+
+      expect(verifyUnsubscribeToken(token)).toBeNull();
+    });
+
+    it('does not accept confirmation tokens', () => {
+      const token = createNewsletterConfirmToken('subscriber-1');
+
+      expect(verifyUnsubscribeToken(token)).toBeNull();
+    });
+
+    it('builds RFC 8058 one-click headers pointing at the API', () => {
+      const headers = listUnsubscribeHeaders('abc.def');
+
+      expect(headers['List-Unsubscribe']).toMatch(
+        /^<https?:\/\/.+\/api\/unsubscribe\?token=abc\.def>$/
+      );
+      expect(headers['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+    });
+  });
+
+  describe('newsletter confirmation tokens', () => {
+    const issued = new Date('2026-03-01T12:00:00.000Z');
+
+    it('accepts tokens up to a week old', () => {
+      const token = createNewsletterConfirmToken('subscriber-1', issued);
+
+      expect(verifyNewsletterConfirmToken(token, new Date('2026-03-08T11:00:00.000Z'))).toBe(
+        'subscriber-1'
+      );
+    });
+
+    it('rejects expired tokens', () => {
+      const token = createNewsletterConfirmToken('subscriber-1', issued);
+
+      expect(verifyNewsletterConfirmToken(token, new Date('2026-03-08T13:00:00.000Z'))).toBeNull();
+    });
+
+    it('does not accept unsubscribe tokens', () => {
+      const token = createNewsletterUnsubscribeToken('subscriber-1');
+
+      expect(verifyNewsletterConfirmToken(token)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Unit tests for MIME building and the SMTP and file email transports
+ */
+
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import { buildMimeMessage, htmlToText } from '@/lib/email/mime';
+import { createFileTransport } from '@/lib/email/transports/file';
+import { createSmtpTransport } from '@/lib/email/transports/smtp';
+
+const email = {
+  from: 'Scroungers <hello@scroungers.co>',
+  to: 'Sam <sam@example.com>',
+  subject: 'Your post is live',
+  html: '<p>Hello <a href="https://scroungers.co/articles/rent">Rent</a></p>\n.hidden',
+};
+
+function decodeParts(raw: string): string[] {
+  return [...raw.matchAll(/base64\r\n\r\n([\s\S]*?)\r\n--/g)].map(([, body]) =>
+    Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString()
+  );
+}
+
+/**
+ * Minimal SMTP server that records the dialogue and the message it receives
+ */
+function startSmtpServer(): Promise<{
+  port: number;
+  commands: string[];
+  messages: string[];
+  close: () => Promise<void>;
+}> {
+  const commands: string[] = [];
+  const messages: string[] = [];
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+
+    socket.write('220 test.local ESMTP\r\n');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+
+      while (buffer.includes('\r\n')) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          messages.push(buffer.slice(0, end + 2));
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write('250 2.0.0 queued as ABC123\r\n');
+          continue;
+        }
+
+        const index = buffer.indexOf('\r\n');
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        commands.push(line);
+
+        if (line.startsWith('EHLO')) {
+          socket.write('250-test.local\r\n250-AUTH PLAIN LOGIN\r\n250 8BITMIME\r\n');
+        } else if (line.startsWith('AUTH PLAIN')) {
+          socket.write('235 2.7.0 Authenticated\r\n');
+        } else if (line.startsWith('RCPT') && line.includes('blocked')) {
+          socket.write('550 5.1.1 Mailbox unavailable\r\n');
+        } else if (line.startsWith('MAIL') || line.startsWith('RCPT')) {
+          socket.write('250 OK\r\n');
+        } else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('500 Unknown command\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        port: (server.address() as net.AddressInfo).port,
+        commands,
+        messages,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+describe('Email transports', () => {
+  describe('buildMimeMessage', () => {
+    it('builds a multipart message with HTML and plain-text parts', () => {
+      const message = buildMimeMessage(email.from, {
+        ...email,
+        headers: { 'List-Unsubscribe': '<https://scroungers.co/api/unsubscribe?token=abc>' },
+      });
+
+      expect(message.from).toBe('hello@scroungers.co');
+      expect(message.recipients).toEqual(['sam@example.com']);
+      expect(message.messageId).toMatch(/^<[\w-]+@scroungers\.co>$/);
+      expect(message.raw).toContain('From: Scroungers <hello@scroungers.co>\r\n');
+      expect(message.raw).toContain('Subject: Your post is live\r\n');
+      expect(message.raw).toContain(
+        'List-Unsubscribe: <https://scroungers.co/api/unsubscribe?token=abc>\r\n'
+      );
+      expect(message.raw).toContain('multipart/alternative');
+
+      const [text, html] = decodeParts(message.raw);
+      expect(text).toBe('Hello Rent (https://scroungers.co/articles/rent)\n\n.hidden');
+      expect(html).toBe(email.html);
+    });
+
+    it('encodes non-ASCII subjects and display names', () => {
+      const message = buildMimeMessage('Scroungers ✨ <hello@scroungers.co>', {
+        ...email,
+        subject: 'Café news',
+      });
+
+      expect(message.raw).toContain(
+        `Subject: =?UTF-8?B?${Buffer.from('Café news').toString('base64')}?=`
+      );
+      expect(message.raw).toContain(
+        `From: =?UTF-8?B?${Buffer.from('Scroungers ✨').toString('base64')}?= <hello@scroungers.co>`
+      );
+    });
+  });
+
+  describe('header injection', () => {
+    it('rejects recipients containing line breaks', () => {
+      expect(() =>
+        buildMimeMessage(email.from, { ...email, to: 'sam@example.com>\r\nRCPT TO:<x@evil.test' })
+      ).toThrow('Invalid To header: contains a line break');
+    });
+
+    it('rejects reply-to addresses and custom header values containing line breaks', () => {
+      expect(() =>
+        buildMimeMessage(email.from, { ...email, replyTo: 'a@example.com\nBcc: x@evil.test' })
+      ).toThrow('Invalid Reply-To header: contains a line break');
+      expect(() =>
+        buildMimeMessage(email.from, {
+          ...email,
+          headers: { 'List-Unsubscribe': '<https://x>\r\nBcc: x@evil.test' },
+        })
+      ).toThrow('Invalid List-Unsubscribe header: contains a line break');
+    });
+  });
+
+  describe('htmlToText', () => {
+    it('keeps paragraphs and link targets', () => {
+      expect(htmlToText('<h1>Hi</h1><p>Read <a href="https://x.co">this</a> &amp; more</p>')).toBe(
+        'Hi\nRead this (https://x.co) & more'
+      );
+    });
+
+    it('decodes entities once', () => {
+      expect(htmlToText('<p>Food &bull; by Jo &#8212; it&#x27;s &amp;lt;great&amp;gt;</p>')).toBe(
+        "Food • by Jo — it's &lt;great&gt;"
+      );
+    });
+  });
+
+  describe('file transport', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(path.join(os.tmpdir(), 'emails-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('writes each email to a .eml file', async () => {
+      const transport = createFileTransport(directory);
+
+      const result = await transport.send(email);
+
+      const files = await readdir(directory);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/-your-post-is-live-[\w-]+\.eml$/);
+      expect(result).toEqual({ success: true, id: path.join(directory, files[0]) });
+
+      const raw = await readFile(path.join(directory, files[0]), 'utf8');
+      expect(raw).toContain('Subject: Your post is live');
+    });
+  });
+
+  describe('SMTP transport', () => {
+    it('authenticates and delivers the message', async () => {
+      const server = await startSmtpServer();
+
+      try {
+        const transport = createSmtpTransport({
+          host: '127.0.0.1',
+          port: server.port,
+          secure: false,
+          requireTls: false,
+          user: 'mailer',
+          password: 'secret',
+        });
+
+        const result = await transport.send(email);
+
+        expect(result.success).toBe(true);
+        expect(result.id).toMatch(/^<[\w-]+@scroungers\.co>$/);
+        expect(server.commands).toEqual([
+          expect.stringMatching(/^EHLO /),
+          `AUTH PLAIN ${Buffer.from('\0mailer\0secret').toString('base64')}`,
+          'MAIL FROM:<hello@scroungers.co>',
+          'RCPT TO:<sam@example.com>',
+          'DATA',
+          'QUIT',
+        ]);
+
+        const [received] = server.messages;
+        expect(received).toContain(`Message-ID: ${result.id}`);
+        expect(decodeParts(received)[1]).toBe(email.html);
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('refuses to authenticate or send when the server does not offer STARTTLS', async () => {
+      const server = await startSmtpServer();
+
+      try {
+        const transport = createSmtpTransport({
+          host: '127.0.0.1',
+          port: server.port,
+          secure: false,
+          user: 'mailer',
+          password: 'secret',
+        });
+
+        await expect(transport.send(email)).rejects.toThrow(
+          'SMTP server does not offer STARTTLS; refusing to send without TLS'
+        );
+        expect(server.commands).toEqual([expect.stringMatching(/^EHLO /)]);
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('is not configured without a host', () => {
+      expect(createSmtpTransport({ port: 587, secure: false }).isConfigured()).toBe(false);
+    });
+
+    it('reports the server reply when a command is refused', async () => {
+      const server = await startSmtpServer();
+
+      try {
+        const transport = createSmtpTransport({
+          host: '127.0.0.1',
+          port: server.port,
+          secure: false,
+          requireTls: false,
+          user: 'mailer',
+          password: 'secret',
+        });
+
+        await expect(transport.send({ ...email, to: 'blocked@example.com' })).rejects.toThrow(
+          'SMTP RCPT failed: 550 5.1.1 Mailbox unavailable'
+        );
+        expect(server.messages).toHaveLength(0);
+      } finally {
+        await server.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for bounce and complaint webhooks
+ */
+
+import { createHmac } from 'crypto';
+import { ApiError } from '@/lib/api/response';
+import { emailWebhookEventSchema } from '@/lib/api/validation';
+
+jest.mock('@/lib/email/suppressions', () => ({
+  suppressEmail: jest.fn(),
+}));
+
+jest.mock('@/lib/newsletter', () => ({
+  stopNewsletterForAddress: jest.fn(() => Promise.resolve(true)),
+}));
+
+const SECRET = Buffer.from('test-webhook-secret').toString('base64');
+const now = new Date('2026-03-02T10:00:00Z');
+const timestamp = String(now.getTime() / 1000);
+
+function signedHeaders(body: string, overrides: Record<string, string> = {}): Headers {
+  const signature = createHmac('sha256', Buffer.from(SECRET, 'base64'))
+    .update(`msg_1.${timestamp}.${body}`)
+    .digest('base64');
+
+  return new Headers({
+    'svix-id': 'msg_1',
+    'svix-timestamp': timestamp,
+    'svix-signature': `v1,${signature}`,
+    ...overrides,
+  });
+}
+
+const event = (payload: Record<string, unknown>) => emailWebhookEventSchema.parse(payload);
+
+describe('Email webhooks', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.EMAIL_WEBHOOK_SECRET = `whsec_${SECRET}`;
+  });
+
+  describe('verifyWebhookSignature', () => {
+    const body = JSON.stringify({ type: 'email.bounced', data: { to: ['sam@example.com'] } });
+
+    it('accepts a correctly signed body', async () => {
+      const { verifyWebhookSignature } = await import('@/lib/email/webhooks');
+
+      expect(() => verifyWebhookSignature(body, signedHeaders(body), now)).not.toThrow();
+    });
+
+    it('accepts any of several signatures, for secret rotation', async () => {
+      const { verifyWebhookSignature } = await import('@/lib/email/webhooks');
+      const valid = signedHeaders(body).get('svix-signature');
+
+      expect(() =>
+        verifyWebhookSignature(
+          body,
+          signedHeaders(body, { 'svix-signature': `v1,b2xkLXNpZ25hdHVyZQ== ${valid}` }),
+          now
+        )
+      ).not.toThrow();
+    });
+
+    it('rejects a tampered body', async () => {
+      const { verifyWebhookSignature } = await import('@/lib/email/webhooks');
+
+      expect(() =>
+        verifyWebhookSignature(body.replace('sam@', 'alex@'), signedHeaders(body), now)
+      ).toThrow('Invalid webhook signature');
+    });
+
+    it('rejects old timestamps', async () => {
+      const { verifyWebhookSignature } = await import('@/lib/email/webhooks');
+
+      expect(() =>
+        verifyWebhookSignature(body, signedHeaders(body), new Date(now.getTime() + 10 * 60 * 1000))
+      ).toThrow('Webhook timestamp is too old');
+    });
+
+    it('is forbidden when no secret is configured', async () => {
+      delete process.env.EMAIL_WEBHOOK_SECRET;
+      const { verifyWebhookSignature } = await import('@/lib/email/webhooks');
+
+      expect(() => verifyWebhookSignature(body, signedHeaders(body), now)).toThrow(ApiError);
+    });
+  });
+
+  describe('handleEmailWebhookEvent', () => {
+    it('suppresses hard-bounced addresses and marks their subscription bounced', async () => {
+      const { suppressEmail } = await import('@/lib/email/suppressions');
+      const { stopNewsletterForAddress } = await import('@/lib/newsletter');
+      const { handleEmailWebhookEvent } = await import('@/lib/email/webhooks');
+
+      const result = await handleEmailWebhookEvent(
+        event({
+          type: 'email.bounced',
+          data: {
+            email_id: 'email-1',
+            to: ['Sam <Sam@Example.com>'],
+            bounce: { type: 'Permanent', subType: 'General', message: 'Mailbox does not exist' },
+          },
+        })
+      );
+
+      expect(result).toEqual({ reason: 'bounce', suppressed: ['sam@example.com'] });
+      expect(suppressEmail).toHaveBeenCalledWith('sam@example.com', 'bounce', {
+        detail: 'General: Mailbox does not exist',
+        providerEmailId: 'email-1',
+      });
+      expect(stopNewsletterForAddress).toHaveBeenCalledWith('sam@example.com', 'bounce');
+    });
+
+    it('unsubscribes addresses that complained', async () => {
+      const { suppressEmail } = await import('@/lib/email/suppressions');
+      const { stopNewsletterForAddress } = await import('@/lib/newsletter');
+      const { handleEmailWebhookEvent } = await import('@/lib/email/webhooks');
+
+      await handleEmailWebhookEvent(
+        event({ type: 'email.complained', data: { to: 'sam@example.com' } })
+      );
+
+      expect(suppressEmail).toHaveBeenCalledWith(
+        'sam@example.com',
+        'complaint',
+        expect.objectContaining({ detail: 'Marked as spam' })
+      );
+      expect(stopNewsletterForAddress).toHaveBeenCalledWith('sam@example.com', 'complaint');
+    });
+
+    it('ignores soft bounces and other events', async () => {
+      const { suppressEmail } = await import('@/lib/email/suppressions');
+      const { handleEmailWebhookEvent } = await import('@/lib/email/webhooks');
+
+      await expect(
+        handleEmailWebhookEvent(
+          event({
+            type: 'email.bounced',
+            data: { to: ['sam@example.com'], bounce: { type: 'Transient' } },
+          })
+        )
+      ).resolves.toEqual({ reason: null, suppressed: [] });
+      await handleEmailWebhookEvent(
+        event({ type: 'email.delivered', data: { to: ['sam@example.com'] } })
+      );
+
+      expect(suppressEmail).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for audio processing (probe parsing, loudness, waveform peaks)
+ */
+
+import { createMockSupabaseClient } from '@/lib/test/mocks';
+
+const mockSupabaseClient = createMockSupabaseClient();
+const mockRpc = jest.fn();
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(() => Promise.resolve({ ...mockSupabaseClient, rpc: mockRpc })),
+  createServiceClient: jest.fn(() => Promise.resolve({ ...mockSupabaseClient, rpc: mockRpc })),
+}));
+
+jest.mock('@/lib/r2/client', () => ({
+  downloadFileToPath: jest.fn(),
+  uploadFile: jest.fn(),
+}));
+
+jest.mock('@/lib/config', () => ({
+  config: { ffmpegPath: '/nonexistent/ffmpeg', ffprobePath: '/nonexistent/ffprobe' },
+}));
+
+function samples(...values: number[]): Buffer {
+  const buffer = Buffer.alloc(values.length * 2);
+  values.forEach((value, i) => buffer.writeInt16LE(value, i * 2));
+  return buffer;
+}
+
+const measurement = {
+  input_i: '-27.61',
+  input_tp: '-4.47',
+  input_lra: '18.06',
+  input_thresh: '-39.20',
+  target_offset: '0.58',
+};
+
+describe('Audio processing', () => {
+  describe('parseAudioProbe', () => {
+    it('reads the duration and channel count', async () => {
+      const { parseAudioProbe } = await import('@/lib/media/audio');
+
+      const probe = parseAudioProbe({
+        format: { duration: '1803.52' },
+        streams: [{ codec_type: 'video' }, { codec_type: 'audio', channels: 1 }],
+      });
+
+      expect(probe).toEqual({ duration: 1803.52, channels: 1 });
+    });
+
+    it('rejects files without an audio stream', async () => {
+      const { parseAudioProbe } = await import('@/lib/media/audio');
+
+      expect(() => parseAudioProbe({ streams: [{ codec_type: 'video' }] })).toThrow(
+        'No audio stream found'
+      );
+    });
+  });
+
+  describe('parseLoudness', () => {
+    it('reads the report at the end of the output', async () => {
+      const { parseLoudness } = await import('@/lib/media/audio');
+
+      const stderr = [
+        'Input #0, mp3, from source:',
+        '[Parsed_loudnorm_0 @ 0x5581] ',
+        JSON.stringify(measurement, null, 2),
+        '',
+      ].join('\n');
+
+      expect(parseLoudness(stderr)).toEqual(measurement);
+    });
+
+    it('fails when no report was printed', async () => {
+      const { parseLoudness } = await import('@/lib/media/audio');
+
+      expect(() => parseLoudness('Conversion failed!')).toThrow(
+        'Loudness measurement not found in ffmpeg output'
+      );
+    });
+  });
+
+  describe('loudnormFilter', () => {
+    it('measures on the first pass', async () => {
+      const { loudnormFilter } = await import('@/lib/media/audio');
+
+      expect(loudnormFilter()).toBe('loudnorm=I=-16:TP=-1.5:LRA=11:print_format=json');
+    });
+
+    it('applies the measurements on the second pass', async () => {
+      const { loudnormFilter } = await import('@/lib/media/audio');
+
+      expect(loudnormFilter(measurement)).toBe(
+        'loudnorm=I=-16:TP=-1.5:LRA=11:measured_I=-27.61:measured_TP=-4.47:' +
+          'measured_LRA=18.06:measured_thresh=-39.20:offset=0.58:linear=true'
+      );
+    });
+  });
+
+  describe('createPeakCollector', () => {
+    it('keeps the loudest sample in each run', async () => {
+      const { createPeakCollector } = await import('@/lib/media/audio');
+
+      const collector = createPeakCollector(2);
+      collector.push(samples(100, -16384, 32767, 0, -8192));
+
+      expect(collector.finish()).toEqual([0.5, 1, 0.25]);
+    });
+
+    it('joins samples split across chunks', async () => {
+      const { createPeakCollector } = await import('@/lib/media/audio');
+
+      const data = samples(0, -16384);
+      const collector = createPeakCollector(2);
+      collector.push(data.subarray(0, 3));
+      collector.push(data.subarray(3));
+
+      expect(collector.finish()).toEqual([0.5]);
+    });
+  });
+
+  describe('processPendingAudio', () => {
+    it('leaves audio pending where ffmpeg is not installed', async () => {
+      const { processPendingAudio } = await import('@/lib/media/audio');
+
+      await expect(processPendingAudio()).resolves.toEqual({
+        processed: 0,
+        succeeded: 0,
+        failed: 0,
+      });
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+  });
+});
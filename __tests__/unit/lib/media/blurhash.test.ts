@@ -0,0 +1,56 @@
+/**
+ * Unit tests for blurhash encoding and decoding
+ */
+
+import { encodeBlurhash, decodeBlurhash } from '@/lib/media/blurhash';
+
+function solid(width: number, height: number, [r, g, b]: number[]): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels.set([r, g, b, 255], i);
+  }
+  return pixels;
+}
+
+describe('blurhash', () => {
+  it('encodes to the documented length for the component count', () => {
+    const hash = encodeBlurhash(solid(16, 8, [200, 40, 40]), 16, 8, 4, 3);
+
+    expect(hash).toHaveLength(4 + 2 * 4 * 3);
+  });
+
+  it('decodes a solid colour back to (nearly) the same colour', () => {
+    const hash = encodeBlurhash(solid(64, 64, [200, 40, 40]), 64, 64);
+    const pixels = decodeBlurhash(hash, 32, 32);
+
+    expect(pixels).toHaveLength(32 * 32 * 4);
+    const average = [0, 1, 2, 3].map((channel) => {
+      let sum = 0;
+      for (let i = channel; i < pixels.length; i += 4) sum += pixels[i];
+      return sum / (32 * 32);
+    });
+    expect(average[0]).toBeCloseTo(200, -1);
+    expect(average[1]).toBeCloseTo(40, -1);
+    expect(average[2]).toBeCloseTo(40, -1);
+    expect(average[3]).toBe(255);
+  });
+
+  it('keeps a left-to-right gradient', () => {
+    const width = 32;
+    const pixels = new Uint8ClampedArray(width * 4 * 4);
+    for (let y = 0; y < 4; y++) {
+      for (let x = 0; x < width; x++) {
+        const shade = Math.round((x / (width - 1)) * 255);
+        pixels.set([shade, shade, shade, 255], (x + y * width) * 4);
+      }
+    }
+
+    const decoded = decodeBlurhash(encodeBlurhash(pixels, width, 4), 8, 1);
+
+    expect(decoded[0]).toBeLessThan(decoded[7 * 4]);
+  });
+
+  it('rejects a hash of the wrong length', () => {
+    expect(() => decodeBlurhash('LEHV6nWB2y', 4, 4)).toThrow('Invalid blurhash');
+  });
+});
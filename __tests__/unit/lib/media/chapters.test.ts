@@ -0,0 +1,79 @@
+/**
+ * Unit tests for chapter markers and timestamps
+ */
+
+import {
+  chapterAt,
+  formatChapterList,
+  parseChapterList,
+  parseTimestamp,
+} from '@/lib/media/chapters';
+
+describe('Chapters', () => {
+  describe('parseTimestamp', () => {
+    it('reads seconds, clock times and unit times', () => {
+      expect(parseTimestamp('750')).toBe(750);
+      expect(parseTimestamp('12:30')).toBe(750);
+      expect(parseTimestamp('1:02:03')).toBe(3723);
+      expect(parseTimestamp('1h2m3s')).toBe(3723);
+      expect(parseTimestamp('12m30s')).toBe(750);
+    });
+
+    it('rejects anything else', () => {
+      expect(parseTimestamp('')).toBeNull();
+      expect(parseTimestamp('12:75')).toBeNull();
+      expect(parseTimestamp('1:60:00')).toBeNull();
+      expect(parseTimestamp('soon')).toBeNull();
+    });
+  });
+
+  describe('parseChapterList', () => {
+    it('reads one chapter per line in start order', () => {
+      const text = ['12:30 - The interview', '', '0:00 Introduction', '1:02:03: Outro'].join('\n');
+
+      expect(parseChapterList(text)).toEqual({
+        chapters: [
+          { start: 0, title: 'Introduction' },
+          { start: 750, title: 'The interview' },
+          { start: 3723, title: 'Outro' },
+        ],
+        invalid: [],
+      });
+    });
+
+    it('reports lines it cannot read', () => {
+      const { chapters, invalid } = parseChapterList('0:00 Intro\nno time here\n5:00\n');
+
+      expect(chapters).toEqual([{ start: 0, title: 'Intro' }]);
+      expect(invalid).toEqual([2, 3]);
+    });
+
+    it('reads back what formatChapterList writes', () => {
+      const chapters = [
+        { start: 0, title: 'Intro' },
+        { start: 3723, title: 'Outro' },
+      ];
+
+      expect(formatChapterList(chapters)).toBe('0:00 Intro\n1:02:03 Outro');
+      expect(parseChapterList(formatChapterList(chapters)).chapters).toEqual(chapters);
+    });
+  });
+
+  describe('chapterAt', () => {
+    const chapters = [
+      { start: 10, title: 'One' },
+      { start: 60, title: 'Two' },
+    ];
+
+    it('finds the chapter playing at a time', () => {
+      expect(chapterAt(chapters, 10)).toBe(0);
+      expect(chapterAt(chapters, 59.9)).toBe(0);
+      expect(chapterAt(chapters, 600)).toBe(1);
+    });
+
+    it('returns -1 before the first chapter', () => {
+      expect(chapterAt(chapters, 5)).toBe(-1);
+      expect(chapterAt([], 5)).toBe(-1);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for running ffmpeg (time limits, input restrictions)
+ */
+
+import { chmod, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// Stands in for an ffmpeg stuck on a hostile file
+const mockFfmpegPath = path.join(tmpdir(), `stalled-ffmpeg-${process.pid}`);
+
+jest.mock('@/lib/config', () => ({
+  config: { ffmpegPath: mockFfmpegPath, ffprobePath: mockFfmpegPath },
+}));
+
+describe('ffmpeg', () => {
+  beforeAll(async () => {
+    await writeFile(mockFfmpegPath, '#!/bin/sh\nexec sleep 30\n');
+    await chmod(mockFfmpegPath, 0o755);
+  });
+
+  afterAll(async () => {
+    await rm(mockFfmpegPath, { force: true });
+  });
+
+  describe('inputArgs', () => {
+    it('reads only local files in the given containers', async () => {
+      const { inputArgs, VIDEO_FORMATS } = await import('@/lib/media/ffmpeg');
+
+      expect(inputArgs('/tmp/source', VIDEO_FORMATS)).toEqual([
+        '-protocol_whitelist',
+        'file',
+        '-format_whitelist',
+        'mov,mp4,matroska,webm,avi',
+        '-i',
+        '/tmp/source',
+      ]);
+    });
+  });
+
+  describe('AUDIO_FORMATS', () => {
+    it('whitelists a demuxer for every audio type accepted at upload', async () => {
+      const { MEDIA_CONSTRAINTS } = await import('@/lib/constants');
+      const { AUDIO_DEMUXERS, AUDIO_FORMATS } = await import('@/lib/media/ffmpeg');
+
+      for (const type of MEDIA_CONSTRAINTS.allowedAudioTypes) {
+        expect(AUDIO_FORMATS.split(',')).toContain(AUDIO_DEMUXERS[type]);
+      }
+    });
+  });
+
+  describe('run limits', () => {
+    it('kills a run that outlasts its time limit', async () => {
+      const { ffmpeg } = await import('@/lib/media/ffmpeg');
+
+      await expect(ffmpeg([], { timeoutMs: 100 })).rejects.toThrow('timed out after 0s');
+    });
+
+    it('does not start a run with no time left', async () => {
+      const { ffmpeg } = await import('@/lib/media/ffmpeg');
+
+      await expect(ffmpeg([], { timeoutMs: 0 })).rejects.toThrow('was not started: no time left');
+    });
+  });
+});
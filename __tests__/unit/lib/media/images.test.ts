@@ -0,0 +1,182 @@
+/**
+ * Unit tests for image processing (resized variants, metadata stripping)
+ */
+
+import sharp from 'sharp';
+import { createMockSupabaseClient, createChainableMock } from '@/lib/test/mocks';
+
+const mockSupabaseClient = createMockSupabaseClient();
+const mockRpc = jest.fn();
+const mockDownloadFile = jest.fn();
+const mockUploadFile = jest.fn();
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(() => Promise.resolve({ ...mockSupabaseClient, rpc: mockRpc })),
+  createServiceClient: jest.fn(() => Promise.resolve({ ...mockSupabaseClient, rpc: mockRpc })),
+}));
+
+jest.mock('@/lib/r2/client', () => ({
+  downloadFile: (...args: unknown[]) => mockDownloadFile(...args),
+  uploadFile: (...args: unknown[]) => mockUploadFile(...args),
+}));
+
+const variantUrl = (width: number, format: string) => `https://cdn.test/${width}.${format}`;
+
+function photo(width: number, height: number) {
+  return sharp({
+    create: { width, height, channels: 3, background: { r: 180, g: 90, b: 40 } },
+  });
+}
+
+const media = {
+  id: 'media-1',
+  url: 'https://cdn.test/image/user-1/photo.jpg',
+  storage_key: 'image/user-1/photo.jpg',
+  mime_type: 'image/jpeg',
+  media_type: 'image',
+  thumbnail_url: null,
+  processing_attempts: 1,
+};
+
+describe('Image processing', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockSupabaseClient.from as jest.Mock).mockReturnValue(mockSupabaseClient._query);
+    mockUploadFile.mockResolvedValue('https://cdn.test/uploaded');
+  });
+
+  describe('variantWidths', () => {
+    it('never enlarges and includes the original width below the largest size', async () => {
+      const { variantWidths } = await import('@/lib/media/images');
+
+      expect(variantWidths(800)).toEqual([320, 640, 800]);
+      expect(variantWidths(640)).toEqual([320, 640]);
+      expect(variantWidths(4000)).toEqual([320, 640, 960, 1280, 1920]);
+    });
+  });
+
+  describe('processImage', () => {
+    it('writes WebP and AVIF variants at each width', async () => {
+      const input = await photo(1000, 500).jpeg().toBuffer();
+      const { processImage } = await import('@/lib/media/images');
+
+      const result = await processImage(input, 'image/jpeg', variantUrl);
+
+      expect(result).toMatchObject({ width: 1000, height: 500, stripped: null });
+      expect(result.blurhash).toHaveLength(28);
+      expect(result.variants.map((v) => `${v.width}.${v.format}`)).toEqual([
+        '320.avif',
+        '320.webp',
+        '640.avif',
+        '640.webp',
+        '960.avif',
+        '960.webp',
+        '1000.avif',
+        '1000.webp',
+      ]);
+      expect(result.variants[2]).toMatchObject({
+        height: 320,
+        url: 'https://cdn.test/640.avif',
+      });
+
+      const webp = await sharp(result.files[1].data).metadata();
+      expect(webp).toMatchObject({ format: 'webp', width: 320, height: 160 });
+    }, 30000);
+
+    it('strips EXIF and GPS metadata from the original', async () => {
+      const input = await photo(400, 300)
+        .jpeg()
+        .withExif({
+          IFD0: { Make: 'Phone' },
+          IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '51/1 30/1 0/1' },
+        })
+        .toBuffer();
+      expect((await sharp(input).metadata()).exif).toBeDefined();
+      const { processImage } = await import('@/lib/media/images');
+
+      const result = await processImage(input, 'image/jpeg', variantUrl);
+
+      expect(result.stripped).not.toBeNull();
+      const stripped = await sharp(result.stripped as Buffer).metadata();
+      expect(stripped.format).toBe('jpeg');
+      expect(stripped.exif).toBeUndefined();
+      for (const file of result.files) {
+        expect((await sharp(file.data).metadata()).exif).toBeUndefined();
+      }
+    }, 30000);
+
+    it('applies the EXIF orientation before resizing', async () => {
+      const input = await photo(400, 200).jpeg().withMetadata({ orientation: 6 }).toBuffer();
+      const { processImage } = await import('@/lib/media/images');
+
+      const result = await processImage(input, 'image/jpeg', variantUrl);
+
+      expect(result).toMatchObject({ width: 200, height: 400 });
+      expect(result.variants[0]).toMatchObject({ width: 200, height: 400 });
+    }, 30000);
+  });
+
+  describe('processPendingImages', () => {
+    it('uploads variants and marks the image ready', async () => {
+      mockRpc.mockResolvedValueOnce({ data: [media], error: null });
+      mockDownloadFile.mockResolvedValueOnce(await photo(700, 350).jpeg().toBuffer());
+      const update = createChainableMock({ data: null, error: null });
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(update);
+      const { processPendingImages } = await import('@/lib/media/images');
+
+      const result = await processPendingImages();
+
+      expect(result).toEqual({ processed: 1, succeeded: 1, failed: 0 });
+      expect(mockRpc).toHaveBeenCalledWith('claim_media_processing', {
+        p_media_type: 'image',
+        p_limit: 5,
+      });
+      expect(mockUploadFile).toHaveBeenCalledWith(
+        expect.any(Buffer),
+        'variants/media-1/640.webp',
+        'image/webp',
+        expect.stringContaining('immutable')
+      );
+      expect(update.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          width: 700,
+          height: 350,
+          processing_status: 'ready',
+          thumbnail_url: 'https://cdn.test/variants/media-1/640.webp',
+          variants: expect.arrayContaining([
+            expect.objectContaining({
+              format: 'avif',
+              width: 700,
+              url: 'https://cdn.test/variants/media-1/700.avif',
+            }),
+          ]),
+        })
+      );
+      expect(update.eq).toHaveBeenCalledWith('id', 'media-1');
+    }, 30000);
+
+    it('puts a failed image back in the queue until it runs out of attempts', async () => {
+      mockRpc.mockResolvedValueOnce({
+        data: [media, { ...media, id: 'media-2', processing_attempts: 3 }],
+        error: null,
+      });
+      mockDownloadFile.mockRejectedValue(new Error('NoSuchKey'));
+      const retry = createChainableMock({ data: null, error: null });
+      const giveUp = createChainableMock({ data: null, error: null });
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(retry).mockReturnValueOnce(giveUp);
+      const { processPendingImages } = await import('@/lib/media/images');
+
+      const result = await processPendingImages();
+
+      expect(result).toEqual({ processed: 2, succeeded: 0, failed: 1 });
+      expect(retry.update).toHaveBeenCalledWith({
+        processing_status: 'pending',
+        processing_error: 'NoSuchKey',
+      });
+      expect(giveUp.update).toHaveBeenCalledWith({
+        processing_status: 'failed',
+        processing_error: 'NoSuchKey',
+      });
+    });
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Unit tests for upload completion, multipart uploads and the abandoned upload sweeper
+ */
+
+import { createMockSupabaseClient, createChainableMock } from '@/lib/test/mocks';
+
+const mockSupabaseClient = createMockSupabaseClient();
+const mockGetFileMetadata = jest.fn();
+const mockDeleteFile = jest.fn();
+const mockListUploadedParts = jest.fn();
+const mockCompleteMultipartUpload = jest.fn();
+const mockAbortMultipartUpload = jest.fn();
+const mockListMultipartUploads = jest.fn();
+const mockGeneratePresignedPartUrl = jest.fn();
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(() => Promise.resolve(mockSupabaseClient)),
+  createServiceClient: jest.fn(() => Promise.resolve(mockSupabaseClient)),
+}));
+
+jest.mock('@/lib/r2/client', () => ({
+  getFileMetadata: (...args: unknown[]) => mockGetFileMetadata(...args),
+  deleteFile: (...args: unknown[]) => mockDeleteFile(...args),
+  listUploadedParts: (...args: unknown[]) => mockListUploadedParts(...args),
+  completeMultipartUpload: (...args: unknown[]) => mockCompleteMultipartUpload(...args),
+  abortMultipartUpload: (...args: unknown[]) => mockAbortMultipartUpload(...args),
+  listMultipartUploads: (...args: unknown[]) => mockListMultipartUploads(...args),
+  generatePresignedPartUrl: (...args: unknown[]) => mockGeneratePresignedPartUrl(...args),
+  isNotFoundError: jest.requireActual('@/lib/r2/client').isNotFoundError,
+}));
+
+const media = {
+  id: 'media-1',
+  uploader_id: 'user-1',
+  storage_key: 'video/user-1/clip.mp4',
+  mime_type: 'video/mp4',
+  file_size: 1024,
+  media_type: 'video',
+  processing_status: 'uploading',
+  multipart_upload_id: null,
+};
+
+// 25MB in 10MB parts: 3 parts
+const multipartMedia = {
+  ...media,
+  file_size: 25 * 1024 * 1024,
+  multipart_upload_id: 'upload-1',
+};
+
+const parts = [1, 2, 3].map((partNumber) => ({
+  partNumber,
+  etag: `"etag-${partNumber}"`,
+  size: 1,
+}));
+
+function returns(data: unknown, error: unknown = null) {
+  const query = createChainableMock({ data, error });
+  (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(query);
+  return query;
+}
+
+describe('Media uploads', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockSupabaseClient.from as jest.Mock).mockReturnValue(mockSupabaseClient._query);
+    mockDeleteFile.mockResolvedValue(undefined);
+    mockAbortMultipartUpload.mockResolvedValue(undefined);
+    mockListMultipartUploads.mockResolvedValue([]);
+  });
+
+  describe('completeUpload', () => {
+    it('queues a video for transcoding once the stored object matches', async () => {
+      const lookup = returns(media);
+      const update = returns({ ...media, processing_status: 'pending' });
+      mockGetFileMetadata.mockResolvedValueOnce({ contentLength: 1024, contentType: 'video/mp4' });
+      const { completeUpload } = await import('@/lib/media/uploads');
+
+      const result = await completeUpload('media-1', 'user-1');
+
+      expect(result.processing_status).toBe('pending');
+      expect(lookup.eq).toHaveBeenCalledWith('uploader_id', 'user-1');
+      expect(mockGetFileMetadata).toHaveBeenCalledWith('video/user-1/clip.mp4');
+      expect(update.update).toHaveBeenCalledWith({ processing_status: 'pending' });
+      expect(update.eq).toHaveBeenCalledWith('processing_status', 'uploading');
+    });
+
+    it('queues an image for processing', async () => {
+      const image = { ...media, media_type: 'image', mime_type: 'image/png' };
+      returns(image);
+      const update = returns({ ...image, processing_status: 'pending' });
+      mockGetFileMetadata.mockResolvedValueOnce({ contentLength: 1024, contentType: 'image/png' });
+      const { completeUpload } = await import('@/lib/media/uploads');
+
+      await completeUpload('media-1', 'user-1');
+
+      expect(update.update).toHaveBeenCalledWith({ processing_status: 'pending' });
+    });
+
+    it('returns an already completed upload unchanged', async () => {
+      returns({ ...media, processing_status: 'ready' });
+      const { completeUpload } = await import('@/lib/media/uploads');
+
+      await expect(completeUpload('media-1', 'user-1')).resolves.toMatchObject({
+        processing_status: 'ready',
+      });
+      expect(mockGetFileMetadata).not.toHaveBeenCalled();
+    });
+
+    it("throws not found for someone else's upload", async () => {
+      returns(null, { code: 'PGRST116' });
+      const { completeUpload } = await import('@/lib/media/uploads');
+
+      await expect(completeUpload('media-1', 'user-2')).rejects.toThrow('Media not found');
+    });
+
+    it('keeps the row for a retry when the object has not arrived', async () => {
+      returns(media);
+      mockGetFileMetadata.mockRejectedValueOnce(
+        Object.assign(new Error('NotFound'), { name: 'NotFound' })
+      );
+      const { completeUpload } = await import('@/lib/media/uploads');
+
+      await expect(completeUpload('media-1', 'user-1')).rejects.toThrow('not been uploaded yet');
+      expect(mockDeleteFile).not.toHaveBeenCalled();
+    });
+
+    it('deletes an upload whose size does not match', async () => {
+      returns(media);
+      const remove = returns(null);
+      mockGetFileMetadata.mockResolvedValueOnce({ contentLength: 99, contentType: 'video/mp4' });
+      const { completeUpload } = await import('@/lib/media/uploads');
+
+      await expect(completeUpload('media-1', 'user-1')).rejects.toThrow(
+        'size 99 does not match 1024'
+      );
+      expect(mockDeleteFile).toHaveBeenCalledWith('video/user-1/clip.mp4');
+      expect(remove.delete).toHaveBeenCalled();
+      expect(remove.eq).toHaveBeenCalledWith('id', 'media-1');
+    });
+
+    it('rejects a different content type', async () => {
+      returns(media);
+      returns(null);
+      mockGetFileMetadata.mockResolvedValueOnce({ contentLength: 1024, contentType: 'text/html' });
+      const { completeUpload } = await import('@/lib/media/uploads');
+
+      await expect(completeUpload('media-1', 'user-1')).rejects.toThrow('content type text/html');
+    });
+  });
+
+  describe('multipart uploads', () => {
+    it('lists the parts already stored so the browser can resume', async () => {
+      returns(multipartMedia);
+      mockListUploadedParts.mockResolvedValueOnce(parts.slice(0, 2));
+      const { getMultipartProgress } = await import('@/lib/media/uploads');
+
+      await expect(getMultipartProgress('media-1', 'user-1')).resolves.toEqual({
+        partSize: 10 * 1024 * 1024,
+        partCount: 3,
+        uploadedParts: [1, 2],
+      });
+      expect(mockListUploadedParts).toHaveBeenCalledWith('video/user-1/clip.mp4', 'upload-1');
+    });
+
+    it('presigns the requested parts', async () => {
+      returns(multipartMedia);
+      mockGeneratePresignedPartUrl.mockImplementation(
+        (_key: string, _id: string, n: number) => `https://r2.test/part-${n}`
+      );
+      const { presignUploadParts } = await import('@/lib/media/uploads');
+
+      await expect(presignUploadParts('media-1', 'user-1', [2, 3])).resolves.toEqual([
+        { partNumber: 2, url: 'https://r2.test/part-2' },
+        { partNumber: 3, url: 'https://r2.test/part-3' },
+      ]);
+    });
+
+    it('rejects part numbers past the end of the file', async () => {
+      returns(multipartMedia);
+      const { presignUploadParts } = await import('@/lib/media/uploads');
+
+      await expect(presignUploadParts('media-1', 'user-1', [4])).rejects.toThrow(
+        'This upload has 3 parts'
+      );
+    });
+
+    it('refuses an upload that is not in progress', async () => {
+      returns({ ...multipartMedia, processing_status: 'ready' });
+      const { presignUploadParts } = await import('@/lib/media/uploads');
+
+      await expect(presignUploadParts('media-1', 'user-1', [1])).rejects.toThrow('not in progress');
+    });
+
+    it('joins the parts when every part has arrived', async () => {
+      returns(multipartMedia);
+      const update = returns({ ...multipartMedia, processing_status: 'pending' });
+      mockListUploadedParts.mockResolvedValueOnce(parts);
+      mockGetFileMetadata.mockResolvedValueOnce({
+        contentLength: 25 * 1024 * 1024,
+        contentType: 'video/mp4',
+      });
+      const { completeUpload } = await import('@/lib/media/uploads');
+
+      await completeUpload('media-1', 'user-1');
+
+      expect(mockCompleteMultipartUpload).toHaveBeenCalledWith(
+        'video/user-1/clip.mp4',
+        'upload-1',
+        parts
+      );
+      expect(update.update).toHaveBeenCalledWith({
+        processing_status: 'pending',
+        multipart_upload_id: null,
+      });
+    });
+
+    it('does not complete while parts are missing', async () => {
+      returns(multipartMedia);
+      mockListUploadedParts.mockResolvedValueOnce(parts.slice(0, 1));
+      const { completeUpload } = await import('@/lib/media/uploads');
+
+      await expect(completeUpload('media-1', 'user-1')).rejects.toThrow(
+        '2 of 3 parts have not been uploaded yet'
+      );
+      expect(mockCompleteMultipartUpload).not.toHaveBeenCalled();
+    });
+
+    it('aborts a cancelled upload and deletes its row', async () => {
+      returns(multipartMedia);
+      const remove = returns(null);
+      const { abortUpload } = await import('@/lib/media/uploads');
+
+      await abortUpload('media-1', 'user-1');
+
+      expect(mockAbortMultipartUpload).toHaveBeenCalledWith('video/user-1/clip.mp4', 'upload-1');
+      expect(remove.delete).toHaveBeenCalled();
+    });
+  });
+
+  describe('sweepAbandonedUploads', () => {
+    it('deletes rows and objects left uploading past the timeout', async () => {
+      const lookup = returns([
+        { id: 'media-1', storage_key: 'video/user-1/a.mp4' },
+        { id: 'media-2', storage_key: null },
+      ]);
+      const now = new Date('2026-10-19T12:00:00Z');
+      const { sweepAbandonedUploads } = await import('@/lib/media/uploads');
+
+      const result = await sweepAbandonedUploads(now);
+
+      expect(result).toEqual({ deleted: 2, failed: 0, aborted: 0 });
+      expect(lookup.eq).toHaveBeenCalledWith('processing_status', 'uploading');
+      expect(lookup.lt).toHaveBeenCalledWith('created_at', '2026-10-19T06:00:00.000Z');
+      expect(mockDeleteFile).toHaveBeenCalledTimes(1);
+      expect(mockDeleteFile).toHaveBeenCalledWith('video/user-1/a.mp4');
+    });
+
+    it('carries on past a row that fails to delete', async () => {
+      returns([
+        { id: 'media-1', storage_key: 'a' },
+        { id: 'media-2', storage_key: 'b' },
+      ]);
+      mockDeleteFile.mockRejectedValueOnce(new Error('R2 unavailable'));
+      const { sweepAbandonedUploads } = await import('@/lib/media/uploads');
+
+      await expect(sweepAbandonedUploads()).resolves.toEqual({
+        deleted: 1,
+        failed: 1,
+        aborted: 0,
+      });
+    });
+
+    it('gives multipart uploads longer and aborts stale ones left in R2', async () => {
+      const lookup = returns([]);
+      mockListMultipartUploads.mockResolvedValueOnce([
+        { key: 'video/old.mp4', uploadId: 'old', initiated: new Date('2026-10-16T12:00:00Z') },
+        { key: 'video/new.mp4', uploadId: 'new', initiated: new Date('2026-10-19T11:00:00Z') },
+      ]);
+      const { sweepAbandonedUploads } = await import('@/lib/media/uploads');
+
+      const result = await sweepAbandonedUploads(new Date('2026-10-19T12:00:00Z'));
+
+      expect(result).toEqual({ deleted: 0, failed: 0, aborted: 1 });
+      expect(lookup.or).toHaveBeenCalledWith(
+        'multipart_upload_id.is.null,created_at.lt.2026-10-17T12:00:00.000Z'
+      );
+      expect(mockAbortMultipartUpload).toHaveBeenCalledTimes(1);
+      expect(mockAbortMultipartUpload).toHaveBeenCalledWith('video/old.mp4', 'old');
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for video transcoding (probe parsing, HLS ladder, playlists)
+ */
+
+import { createMockSupabaseClient } from '@/lib/test/mocks';
+
+const mockSupabaseClient = createMockSupabaseClient();
+const mockRpc = jest.fn();
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(() => Promise.resolve({ ...mockSupabaseClient, rpc: mockRpc })),
+  createServiceClient: jest.fn(() => Promise.resolve({ ...mockSupabaseClient, rpc: mockRpc })),
+}));
+
+jest.mock('@/lib/r2/client', () => ({
+  downloadFileToPath: jest.fn(),
+  uploadFile: jest.fn(),
+}));
+
+jest.mock('@/lib/config', () => ({
+  config: { ffmpegPath: '/nonexistent/ffmpeg', ffprobePath: '/nonexistent/ffprobe' },
+}));
+
+function probeOutput(stream: Record<string, unknown>, audio = true) {
+  return {
+    format: { duration: '93.44' },
+    streams: [
+      { codec_type: 'video', width: 1920, height: 1080, ...stream },
+      ...(audio ? [{ codec_type: 'audio' }] : []),
+    ],
+  };
+}
+
+describe('Video transcoding', () => {
+  describe('parseProbe', () => {
+    it('reads the duration, size and audio stream', async () => {
+      const { parseProbe } = await import('@/lib/media/video');
+
+      expect(parseProbe(probeOutput({}))).toEqual({
+        duration: 93.44,
+        width: 1920,
+        height: 1080,
+        hasAudio: true,
+      });
+    });
+
+    it('swaps the size of video stored sideways', async () => {
+      const { parseProbe } = await import('@/lib/media/video');
+
+      const probe = parseProbe(probeOutput({ side_data_list: [{ rotation: -90 }] }, false));
+
+      expect(probe).toMatchObject({ width: 1080, height: 1920, hasAudio: false });
+    });
+
+    it('rejects files without a video stream', async () => {
+      const { parseProbe } = await import('@/lib/media/video');
+
+      expect(() => parseProbe({ streams: [{ codec_type: 'audio' }] })).toThrow(
+        'No video stream found'
+      );
+    });
+  });
+
+  describe('renditionLadder', () => {
+    it('never enlarges a video', async () => {
+      const { renditionLadder } = await import('@/lib/media/video');
+
+      expect(renditionLadder(1280, 720).map((r) => r.name)).toEqual(['720p', '480p', '360p']);
+    });
+
+    it('keeps the aspect ratio with even dimensions', async () => {
+      const { renditionLadder } = await import('@/lib/media/video');
+
+      const [, , sd] = renditionLadder(1920, 1080);
+
+      expect(sd).toEqual({ name: '480p', width: 854, height: 480, videoBitrate: 1400 });
+    });
+
+    it('matches portrait video on its width', async () => {
+      const { renditionLadder } = await import('@/lib/media/video');
+
+      const [largest] = renditionLadder(1080, 1920);
+
+      expect(largest).toMatchObject({ name: '1080p', width: 1080, height: 1920 });
+    });
+
+    it('keeps a tiny video at its own size', async () => {
+      const { renditionLadder } = await import('@/lib/media/video');
+
+      expect(renditionLadder(320, 241)).toEqual([
+        { name: '242p', width: 322, height: 242, videoBitrate: 800 },
+      ]);
+    });
+  });
+
+  describe('masterPlaylist', () => {
+    it('lists each rendition with its bandwidth and resolution', async () => {
+      const { masterPlaylist, renditionLadder } = await import('@/lib/media/video');
+
+      const playlist = masterPlaylist(renditionLadder(854, 480), true);
+
+      expect(playlist).toBe(
+        [
+          '#EXTM3U',
+          '#EXT-X-VERSION:3',
+          '#EXT-X-STREAM-INF:BANDWIDTH=1668000,RESOLUTION=854x480',
+          '480p/index.m3u8',
+          '#EXT-X-STREAM-INF:BANDWIDTH=1008000,RESOLUTION=640x360',
+          '360p/index.m3u8',
+          '',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('posterTime', () => {
+    it('takes the poster a little way in', async () => {
+      const { posterTime } = await import('@/lib/media/video');
+
+      expect(posterTime(20)).toBe(2);
+      expect(posterTime(600)).toBe(5);
+    });
+  });
+
+  describe('processPendingVideos', () => {
+    it('leaves videos pending where ffmpeg is not installed', async () => {
+      const { processPendingVideos } = await import('@/lib/media/video');
+
+      await expect(processPendingVideos()).resolves.toEqual({
+        processed: 0,
+        succeeded: 0,
+        failed: 0,
+      });
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for @mention parsing and notifications
+ */
+
+import {
+  extractMentions,
+  extractMentionsFromHtml,
+  splitMentions,
+  linkMentionsInHtml,
+  getActiveMention,
+} from '@/lib/mentions/parse';
+
+const mockRpc = jest.fn();
+const mockDispatchNotification = jest.fn().mockResolvedValue({ notified: true, emailed: false });
+
+jest.mock('@/lib/supabase/server', () => ({
+  createServiceClient: jest.fn(() => Promise.resolve({ rpc: mockRpc })),
+}));
+
+jest.mock('@/lib/notifications', () => ({
+  dispatchNotification: (...args: unknown[]) => mockDispatchNotification(...args),
+}));
+
+describe('Mention parsing', () => {
+  describe('extractMentions', () => {
+    it('returns unique lowercased usernames in order', () => {
+      expect(extractMentions('Thanks @Sam_Jones and @alex, cc @sam_jones')).toEqual([
+        'sam_jones',
+        'alex',
+      ]);
+    });
+
+    it('ignores emails, short handles and paths', () => {
+      expect(extractMentions('mail sam@example.com, @ab, @@twice or /users/@someone')).toEqual([]);
+    });
+  });
+
+  describe('extractMentionsFromHtml', () => {
+    it('skips code blocks and tags', () => {
+      const html =
+        '<p>Hi <strong>@reader_one</strong></p><pre><code>@decorator</code></pre><p><code>@inline</code></p>';
+
+      expect(extractMentionsFromHtml(html)).toEqual(['reader_one']);
+    });
+  });
+
+  describe('splitMentions', () => {
+    it('splits text around mentions', () => {
+      expect(splitMentions('Hey @sam!')).toEqual([
+        { type: 'text', value: 'Hey ' },
+        { type: 'mention', value: '@sam', username: 'sam' },
+        { type: 'text', value: '!' },
+      ]);
+    });
+
+    it('leaves unknown usernames as text', () => {
+      expect(splitMentions('@sam and @nobody', ['sam'])).toEqual([
+        { type: 'mention', value: '@sam', username: 'sam' },
+        { type: 'text', value: ' and @nobody' },
+      ]);
+    });
+  });
+
+  describe('linkMentionsInHtml', () => {
+    it('links known usernames outside links and code', () => {
+      const html = '<p>@sam wrote <a href="/x">@sam</a> and <code>@sam</code>, not @nobody</p>';
+
+      expect(linkMentionsInHtml(html, ['sam'])).toBe(
+        '<p><a href="/contributors/sam" class="mention" data-mention="sam">@sam</a> wrote <a href="/x">@sam</a> and <code>@sam</code>, not @nobody</p>'
+      );
+    });
+
+    it('is idempotent', () => {
+      const once = linkMentionsInHtml('<p>Hi @sam</p>', ['sam']);
+
+      expect(linkMentionsInHtml(once, ['sam'])).toBe(once);
+    });
+  });
+
+  describe('getActiveMention', () => {
+    it('finds the mention being typed', () => {
+      expect(getActiveMention('Thanks @sa')).toEqual({ query: 'sa', start: 7 });
+      expect(getActiveMention('@')).toEqual({ query: '', start: 0 });
+    });
+
+    it('returns null once the mention is finished or inside an email', () => {
+      expect(getActiveMention('Thanks @sam ')).toBeNull();
+      expect(getActiveMention('sam@exam')).toBeNull();
+    });
+  });
+});
+
+describe('Mention notifications', () => {
+  const source = {
+    actorId: 'author-1',
+    actorName: 'Alex',
+    postId: 'post-1',
+    postTitle: 'The Queue',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('resolveMentions', () => {
+    it('skips the lookup when nothing is mentioned', async () => {
+      const { resolveMentions } = await import('@/lib/mentions');
+
+      expect(await resolveMentions([])).toEqual([]);
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it('returns an empty list when the lookup fails', async () => {
+      mockRpc.mockResolvedValueOnce({ data: null, error: { message: 'boom' } });
+
+      const { resolveMentions } = await import('@/lib/mentions');
+
+      expect(await resolveMentions(['sam'])).toEqual([]);
+      expect(mockRpc).toHaveBeenCalledWith('resolve_mentions', { p_usernames: ['sam'] });
+    });
+  });
+
+  describe('notifyMentions', () => {
+    it('skips the author, opted-out users and users already notified', async () => {
+      const { notifyMentions } = await import('@/lib/mentions');
+
+      await notifyMentions(
+        [
+          { id: 'author-1', username: 'alex', notify: true },
+          { id: 'user-2', username: 'quiet', notify: false },
+          { id: 'user-3', username: 'old', notify: true },
+          { id: 'user-4', username: 'sam', notify: true },
+        ],
+        { ...source, commentId: 'comment-1', excerpt: 'Nice one @sam' },
+        ['OLD']
+      );
+
+      expect(mockDispatchNotification).toHaveBeenCalledTimes(1);
+      expect(mockDispatchNotification).toHaveBeenCalledWith({
+        userId: 'user-4',
+        notification: {
+          type: 'mention',
+          title: 'Alex mentioned you in a comment',
+          message: 'Nice one @sam',
+          postId: 'post-1',
+          commentId: 'comment-1',
+          actorId: 'author-1',
+          metadata: { post_title: 'The Queue' },
+        },
+      });
+    });
+
+    it('names the post for mentions in post content', async () => {
+      const { notifyMentions } = await import('@/lib/mentions');
+
+      await notifyMentions([{ id: 'user-4', username: 'sam', notify: true }], source);
+
+      expect(mockDispatchNotification).toHaveBeenCalledWith({
+        userId: 'user-4',
+        notification: expect.objectContaining({ title: 'Alex mentioned you in "The Queue"' }),
+      });
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for the unified moderation queue
+ */
+
+import { createMockSupabaseClient } from '@/lib/test/mocks';
+import type { ModerationQueueSources } from '@/lib/moderation';
+
+const mockSupabaseClient = createMockSupabaseClient();
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn().mockResolvedValue(mockSupabaseClient),
+}));
+
+jest.mock('@/lib/cache', () => ({
+  invalidatePosts: jest.fn(),
+}));
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const emptySources = (): ModerationQueueSources => ({
+  pendingPosts: [],
+  flaggedComments: [],
+  reports: [],
+  applications: [],
+  assignments: [],
+  reporterTrust: {},
+});
+
+const report = (overrides: Record<string, unknown>) =>
+  ({
+    id: 'report-x',
+    reporter_id: 'reporter-1',
+    post_id: null,
+    comment_id: null,
+    user_id: null,
+    reason: 'spam',
+    status: 'pending',
+    created_at: daysAgo(0),
+    post: null,
+    comment: null,
+    reported_user: null,
+    ...overrides,
+  }) as unknown as ModerationQueueSources['reports'][number];
+
+describe('Moderation queue', () => {
+  describe('scoreQueueItem', () => {
+    it('weights reports by reporter trust and caps age', async () => {
+      const { scoreQueueItem } = await import('@/lib/moderation');
+
+      expect(scoreQueueItem({ reporterTrust: [], waitingSince: daysAgo(1) }, NOW)).toBe(2);
+      expect(scoreQueueItem({ reporterTrust: [], waitingSince: daysAgo(30) }, NOW)).toBe(14);
+      expect(scoreQueueItem({ reporterTrust: [1, 0.5], waitingSince: daysAgo(0) }, NOW)).toBe(15);
+    });
+  });
+
+  describe('buildModerationQueue', () => {
+    it('merges reports into the item for the reported content', async () => {
+      const { buildModerationQueue } = await import('@/lib/moderation');
+      const sources = emptySources();
+
+      sources.flaggedComments = [
+        {
+          id: 'comment-1',
+          content: 'Buy cheap followers',
+          created_at: daysAgo(2),
+          updated_at: daysAgo(1),
+          author: { id: 'u1', username: 'spammer', display_name: null, avatar_url: null },
+        } as unknown as ModerationQueueSources['flaggedComments'][number],
+      ];
+      sources.reports = [
+        report({ id: 'r1', comment_id: 'comment-1', reporter_id: 'a', created_at: daysAgo(1) }),
+        report({ id: 'r2', comment_id: 'comment-1', reporter_id: 'b', reason: 'off_topic', created_at: daysAgo(3) }),
+      ];
+
+      const queue = buildModerationQueue(sources, NOW);
+
+      expect(queue).toHaveLength(1);
+      expect(queue[0].key).toBe('comment:comment-1');
+      expect(queue[0].report_count).toBe(2);
+      expect(queue[0].reasons).toEqual(['Flagged', 'Reported: spam', 'Reported: off topic']);
+      // Waiting since the oldest report, not the flag
+      expect(queue[0].waiting_since).toBe(daysAgo(3));
+    });
+
+    it('ranks trusted reports above old unreported items', async () => {
+      const { buildModerationQueue } = await import('@/lib/moderation');
+      const sources = emptySources();
+
+      sources.pendingPosts = [
+        {
+          id: 'post-1',
+          title: 'Old draft',
+          excerpt: null,
+          created_at: daysAgo(4),
+          author: { id: 'u1', username: 'writer', display_name: 'Writer' },
+        } as unknown as ModerationQueueSources['pendingPosts'][number],
+      ];
+      sources.reports = [
+        report({ user_id: 'user-9', reporter_id: 'trusted', reported_user: { username: 'troll' } }),
+        report({ id: 'r2', user_id: 'user-9', reporter_id: 'noisy' }),
+      ];
+      sources.reporterTrust = { trusted: 0.9, noisy: 0.1 };
+
+      const queue = buildModerationQueue(sources, NOW);
+
+      expect(queue.map((item) => item.key)).toEqual(['user:user-9', 'post:post-1']);
+      expect(queue[0].href).toBe('/contributors/troll');
+      expect(queue[0].priority).toBe(10);
+      expect(queue[1].priority).toBe(8);
+    });
+
+    it('attaches assignments to their items', async () => {
+      const { buildModerationQueue } = await import('@/lib/moderation');
+      const sources = emptySources();
+
+      sources.applications = [
+        {
+          id: 'app-1',
+          full_name: 'Sam Jones',
+          first_piece_pitch: 'A piece about PIP assessments',
+          created_at: daysAgo(1),
+        } as unknown as ModerationQueueSources['applications'][number],
+      ];
+      sources.assignments = [
+        {
+          item_type: 'application',
+          item_id: 'app-1',
+          moderator_id: 'mod-1',
+          assigned_by: 'mod-1',
+          assigned_at: daysAgo(0),
+          moderator: { id: 'mod-1', username: 'ed', display_name: 'Ed' },
+        },
+      ];
+
+      const [item] = buildModerationQueue(sources, NOW);
+
+      expect(item.title).toBe('Application from Sam Jones');
+      expect(item.assignment).toEqual({ moderator_id: 'mod-1', name: 'Ed', assigned_at: daysAgo(0) });
+    });
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Unit tests for newsletter campaigns
+ */
+
+import { createMockSupabaseClient, createChainableMock } from '@/lib/test/mocks';
+
+const mockSupabaseClient = createMockSupabaseClient();
+const mockRpc = jest.fn();
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(() => Promise.resolve({ ...mockSupabaseClient, rpc: mockRpc })),
+  createServiceClient: jest.fn(() => Promise.resolve({ ...mockSupabaseClient, rpc: mockRpc })),
+}));
+
+jest.mock('@/lib/email/client', () => ({
+  sendEmail: jest.fn().mockResolvedValue({ success: true, id: 'email-1' }),
+  sendBulkEmail: jest.fn(),
+}));
+
+jest.mock('@/lib/audit', () => ({
+  recordAuditEvent: jest.fn(),
+}));
+
+const draft = {
+  id: 'campaign-1',
+  subject: 'March roundup',
+  intro: 'Hello readers',
+  post_ids: ['post-2', 'post-1'],
+  status: 'draft',
+  created_by: 'admin-1',
+  created_at: '2026-03-01T00:00:00.000Z',
+  updated_at: '2026-03-01T00:00:00.000Z',
+  sent_at: null,
+  completed_at: null,
+};
+
+const posts = [
+  {
+    id: 'post-1',
+    title: 'First Post',
+    slug: 'first-post',
+    excerpt: null,
+    author: { display_name: 'Alex', username: 'alex' },
+    category: null,
+  },
+  {
+    id: 'post-2',
+    title: 'Second Post',
+    slug: 'second-post',
+    excerpt: null,
+    author: null,
+    category: { name: 'Housing' },
+  },
+];
+
+function mockTables(tables: Record<string, ReturnType<typeof createChainableMock>>) {
+  (mockSupabaseClient.from as jest.Mock).mockImplementation(
+    (table: string) => tables[table] ?? createChainableMock()
+  );
+}
+
+describe('Newsletter campaigns', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.EMAIL_TOKEN_SECRET = 'test-email-token-secret';
+    mockRpc.mockResolvedValue({ data: [], error: null });
+  });
+
+  describe('updateCampaign', () => {
+    it('refuses to edit campaigns that have started sending', async () => {
+      mockTables({
+        newsletter_campaigns: createChainableMock({
+          data: { ...draft, status: 'sending' },
+          error: null,
+        }),
+      });
+
+      const { updateCampaign } = await import('@/lib/newsletter/campaigns');
+
+      await expect(updateCampaign('campaign-1', { subject: 'New' })).rejects.toMatchObject({
+        code: 'CONFLICT',
+      });
+    });
+  });
+
+  describe('renderCampaign', () => {
+    it('lists posts in the order they were picked', async () => {
+      mockTables({ posts: createChainableMock({ data: posts, error: null }) });
+
+      const { renderCampaign } = await import('@/lib/newsletter/campaigns');
+
+      const { html } = await renderCampaign(draft);
+
+      expect(html.indexOf('Second Post')).toBeLessThan(html.indexOf('First Post'));
+      expect(html).toContain('Hello readers');
+    });
+  });
+
+  describe('sendCampaignTest', () => {
+    it('sends a marked copy to the given address', async () => {
+      mockTables({
+        newsletter_campaigns: createChainableMock({ data: draft, error: null }),
+        posts: createChainableMock({ data: posts, error: null }),
+      });
+
+      const { sendCampaignTest } = await import('@/lib/newsletter/campaigns');
+      const { sendEmail } = await import('@/lib/email/client');
+
+      await sendCampaignTest('campaign-1', 'admin@example.com');
+
+      expect(sendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'admin@example.com', subject: '[Test] March roundup' })
+      );
+    });
+  });
+
+  describe('sendCampaign', () => {
+    it('queues deliveries, then moves the draft to sending and audits it', async () => {
+      const campaigns = createChainableMock({ data: draft, error: null });
+      campaigns.then.mockImplementation((resolve) =>
+        resolve({ data: [{ id: 'campaign-1' }], error: null })
+      );
+      mockTables({ newsletter_campaigns: campaigns });
+      mockRpc.mockImplementation((name: string) =>
+        Promise.resolve({ data: name === 'queue_newsletter_campaign' ? 42 : [], error: null })
+      );
+
+      const { sendCampaign } = await import('@/lib/newsletter/campaigns');
+      const { recordAuditEvent } = await import('@/lib/audit');
+
+      const result = await sendCampaign('campaign-1', 'admin-1');
+
+      expect(result).toEqual({ queued: 42 });
+      expect(mockRpc).toHaveBeenCalledWith('queue_newsletter_campaign', {
+        p_campaign_id: 'campaign-1',
+      });
+      expect(campaigns.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'sending' }));
+      expect(campaigns.eq).toHaveBeenCalledWith('status', 'draft');
+      expect(recordAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'admin.bulk_action',
+          actorId: 'admin-1',
+          target: { type: 'newsletter_campaign', id: 'campaign-1' },
+        })
+      );
+    });
+
+    it('refuses campaigns that were already sent', async () => {
+      mockTables({
+        newsletter_campaigns: createChainableMock({
+          data: { ...draft, status: 'sent' },
+          error: null,
+        }),
+      });
+
+      const { sendCampaign } = await import('@/lib/newsletter/campaigns');
+
+      await expect(sendCampaign('campaign-1', 'admin-1')).rejects.toMatchObject({
+        code: 'CONFLICT',
+      });
+      expect(mockRpc).not.toHaveBeenCalledWith('queue_newsletter_campaign', expect.anything());
+    });
+  });
+
+  describe('sendCampaignBatch', () => {
+    it('sends claimed deliveries with per-subscriber unsubscribe links and records each result', async () => {
+      const deliveries = createChainableMock({ data: null, error: null });
+      mockTables({
+        newsletter_campaigns: createChainableMock({ data: draft, error: null }),
+        newsletter_campaign_deliveries: deliveries,
+        posts: createChainableMock({ data: posts, error: null }),
+      });
+      mockRpc.mockImplementation((name: string) => {
+        switch (name) {
+          case 'claim_campaign_deliveries':
+            return Promise.resolve({
+              data: [
+                {
+                  id: 'delivery-1',
+                  campaign_id: 'campaign-1',
+                  subscriber_id: 'subscriber-1',
+                  email: 'sam@example.com',
+                  subscriber_status: 'active',
+                },
+                {
+                  id: 'delivery-2',
+                  campaign_id: 'campaign-1',
+                  subscriber_id: 'subscriber-2',
+                  email: 'jo@example.com',
+                  subscriber_status: 'active',
+                },
+                {
+                  id: 'delivery-3',
+                  campaign_id: 'campaign-1',
+                  subscriber_id: 'subscriber-3',
+                  email: 'gone@example.com',
+                  subscriber_status: 'unsubscribed',
+                },
+              ],
+              error: null,
+            });
+          case 'complete_newsletter_campaigns':
+            return Promise.resolve({ data: ['campaign-1'], error: null });
+          default:
+            return Promise.resolve({ data: null, error: null });
+        }
+      });
+
+      const { sendBulkEmail } = await import('@/lib/email/client');
+      (sendBulkEmail as jest.Mock).mockImplementation(
+        async (
+          recipients: string[],
+          options: (to: string) => { headers?: Record<string, string> },
+          onResult: (to: string, result: { success: boolean; error?: string }) => Promise<void>
+        ) => {
+          for (const to of recipients) {
+            options(to);
+            await onResult(
+              to,
+              to === 'jo@example.com'
+                ? { success: false, error: 'Mailbox full' }
+                : { success: true }
+            );
+          }
+          return { sent: 1, failed: 1 };
+        }
+      );
+
+      const { sendCampaignBatch } = await import('@/lib/newsletter/campaigns');
+
+      const result = await sendCampaignBatch();
+
+      expect(result).toEqual({ sent: 1, failed: 2, completed: ['campaign-1'] });
+
+      const [[recipients, options]] = (sendBulkEmail as jest.Mock).mock.calls;
+      expect(recipients).toEqual(['sam@example.com', 'jo@example.com']);
+
+      const sam = options('sam@example.com');
+      const jo = options('jo@example.com');
+      expect(sam.headers['List-Unsubscribe']).toMatch(/\/api\/unsubscribe\?token=/);
+      expect(sam.headers['List-Unsubscribe']).not.toBe(jo.headers['List-Unsubscribe']);
+      expect(sam.html).toContain('First Post');
+
+      expect(deliveries.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'failed', error: 'unsubscribed' })
+      );
+      expect(deliveries.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'sent', error: null })
+      );
+      expect(deliveries.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'failed', error: 'Mailbox full' })
+      );
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for newsletter double opt-in and unsubscribe tokens
+ */
+
+import { createMockSupabaseClient, createChainableMock } from '@/lib/test/mocks';
+
+const mockSupabaseClient = createMockSupabaseClient();
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(() => Promise.resolve(mockSupabaseClient)),
+  createServiceClient: jest.fn(() => Promise.resolve(mockSupabaseClient)),
+}));
+
+jest.mock('@/lib/email/queue', () => ({
+  queueEmail: jest.fn(),
+  startEmailQueue: jest.fn(),
+}));
+
+describe('Newsletter', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.EMAIL_TOKEN_SECRET = 'test-email-token-secret';
+  });
+
+  describe('subscribeToNewsletter', () => {
+    it('adds new addresses as pending and emails a confirmation link', async () => {
+      const insertQuery = createChainableMock({ data: { id: 'subscriber-1' }, error: null });
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(createChainableMock({ data: null, error: null }))
+        .mockReturnValueOnce(insertQuery);
+
+      const { subscribeToNewsletter } = await import('@/lib/newsletter');
+      const { queueEmail } = await import('@/lib/email/queue');
+
+      await subscribeToNewsletter('Sam@Example.com', 'homepage');
+
+      expect(insertQuery.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ email: 'sam@example.com', status: 'pending', source: 'homepage' })
+      );
+      expect(queueEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'sam@example.com',
+          html: expect.stringMatching(/\/newsletter\/confirm\?token=[\w-]+\.[\w-]+/),
+        })
+      );
+    });
+
+    it('refuses addresses that are already active', async () => {
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(
+        createChainableMock({ data: { id: 'subscriber-1', status: 'active' }, error: null })
+      );
+
+      const { subscribeToNewsletter } = await import('@/lib/newsletter');
+
+      await expect(subscribeToNewsletter('sam@example.com', 'homepage')).rejects.toMatchObject({
+        code: 'CONFLICT',
+      });
+    });
+
+    it('does not resend a confirmation sent in the last few minutes', async () => {
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(
+        createChainableMock({
+          data: {
+            id: 'subscriber-1',
+            status: 'pending',
+            confirmation_sent_at: new Date(Date.now() - 60000).toISOString(),
+          },
+          error: null,
+        })
+      );
+
+      const { subscribeToNewsletter } = await import('@/lib/newsletter');
+      const { queueEmail } = await import('@/lib/email/queue');
+
+      await subscribeToNewsletter('sam@example.com', 'homepage');
+
+      expect(mockSupabaseClient.from).toHaveBeenCalledTimes(1);
+      expect(queueEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmNewsletterSubscription', () => {
+    it('activates only pending subscribers', async () => {
+      const updateQuery = createChainableMock({ data: [{ id: 'subscriber-1' }], error: null });
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(updateQuery);
+
+      const { confirmNewsletterSubscription } = await import('@/lib/newsletter');
+      const { createNewsletterConfirmToken } = await import('@/lib/email/tokens');
+
+      const confirmed = await confirmNewsletterSubscription(
+        createNewsletterConfirmToken('subscriber-1')
+      );
+
+      expect(confirmed).toBe(true);
+      expect(updateQuery.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'active' })
+      );
+      expect(updateQuery.eq).toHaveBeenCalledWith('id', 'subscriber-1');
+      expect(updateQuery.eq).toHaveBeenCalledWith('status', 'pending');
+    });
+
+    it('rejects unsubscribe tokens', async () => {
+      const { confirmNewsletterSubscription } = await import('@/lib/newsletter');
+      const { createNewsletterUnsubscribeToken } = await import('@/lib/email/tokens');
+
+      await expect(
+        confirmNewsletterSubscription(createNewsletterUnsubscribeToken('subscriber-1'))
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+      expect(mockSupabaseClient.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unsubscribeNewsletterEmail', () => {
+    it("refuses a token issued for another subscriber's address", async () => {
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(
+        createChainableMock({ data: { id: 'subscriber-2' }, error: null })
+      );
+
+      const { unsubscribeNewsletterEmail } = await import('@/lib/newsletter');
+      const { createNewsletterUnsubscribeToken } = await import('@/lib/email/tokens');
+
+      await expect(
+        unsubscribeNewsletterEmail(
+          'someone-else@example.com',
+          createNewsletterUnsubscribeToken('subscriber-1')
+        )
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+      expect(mockSupabaseClient.from).toHaveBeenCalledTimes(1);
+    });
+
+    it('unsubscribes the matching subscriber', async () => {
+      const updateQuery = createChainableMock({ data: null, error: null });
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(createChainableMock({ data: { id: 'subscriber-1' }, error: null }))
+        .mockReturnValueOnce(updateQuery);
+
+      const { unsubscribeNewsletterEmail } = await import('@/lib/newsletter');
+      const { createNewsletterUnsubscribeToken } = await import('@/lib/email/tokens');
+
+      await unsubscribeNewsletterEmail(
+        'sam@example.com',
+        createNewsletterUnsubscribeToken('subscriber-1')
+      );
+
+      expect(updateQuery.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'unsubscribed' })
+      );
+    });
+  });
+
+  describe('newsletterEmailOptions', () => {
+    it('adds the subscriber unsubscribe link and one-click headers', async () => {
+      const { newsletterEmailOptions } = await import('@/lib/newsletter');
+
+      const options = newsletterEmailOptions(
+        { id: 'subscriber-1', email: 'sam@example.com' },
+        (unsubscribeUrl) => ({
+          subject: 'March roundup',
+          html: `<a href="${unsubscribeUrl}">Unsubscribe</a>`,
+        })
+      );
+
+      expect(options.to).toBe('sam@example.com');
+      expect(options.html).toMatch(/\/unsubscribe\?token=/);
+      expect(options.headers?.['List-Unsubscribe']).toMatch(/\/api\/unsubscribe\?token=/);
+      expect(options.headers?.['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+    });
+  });
+});
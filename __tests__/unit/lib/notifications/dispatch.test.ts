@@ -0,0 +1,132 @@
+/**
+ * Unit tests for preference-aware notification dispatch
+ */
+
+import { createMockSupabaseClient, createChainableMock } from '@/lib/test/mocks';
+
+const mockSupabaseClient = createMockSupabaseClient();
+const mockRpc = jest.fn().mockResolvedValue({ data: 'notification-1', error: null });
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(() => Promise.resolve({ ...mockSupabaseClient, rpc: mockRpc })),
+  createServiceClient: jest.fn(() => Promise.resolve(mockSupabaseClient)),
+}));
+
+jest.mock('@/lib/email/queue', () => ({
+  queueEmail: jest.fn(),
+  startEmailQueue: jest.fn(),
+}));
+
+const profile = { email: 'sam@example.com', display_name: 'Sam', username: 'sam' };
+
+function mockRecipient(preferences: Record<string, boolean> | null) {
+  (mockSupabaseClient.from as jest.Mock)
+    .mockReturnValueOnce(createChainableMock({ data: profile, error: null }))
+    .mockReturnValueOnce(createChainableMock({ data: preferences, error: null }));
+}
+
+const followNotification = {
+  type: 'follow' as const,
+  title: 'Alex started following you',
+  actorId: 'user-1',
+};
+
+const publishedEmail = {
+  category: 'post_published' as const,
+  build: (recipient: { name: string }) => ({
+    subject: 'Your post is live!',
+    html: `<p>Hey ${recipient.name}</p>`,
+  }),
+};
+
+describe('Notification dispatch', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('delivers with default preferences when the user has no row', async () => {
+    mockRecipient(null);
+
+    const { dispatchNotification } = await import('@/lib/notifications');
+    const { queueEmail } = await import('@/lib/email/queue');
+
+    const result = await dispatchNotification({
+      userId: 'user-2',
+      notification: followNotification,
+      email: publishedEmail,
+    });
+
+    expect(result).toEqual({ notified: true, emailed: true });
+    expect(mockRpc).toHaveBeenCalledWith(
+      'create_notification',
+      expect.objectContaining({ p_user_id: 'user-2', p_type: 'follow' })
+    );
+    expect(queueEmail).toHaveBeenCalledWith(
+      {
+        to: 'sam@example.com',
+        subject: 'Your post is live!',
+        html: '<p>Hey Sam</p>',
+        tags: [{ name: 'type', value: 'post_published' }],
+      },
+      { idempotencyKey: undefined }
+    );
+  });
+
+  it('skips channels the user has turned off', async () => {
+    mockRecipient({ notify_new_follower: false, email_post_published: false });
+
+    const { dispatchNotification } = await import('@/lib/notifications');
+    const { queueEmail } = await import('@/lib/email/queue');
+
+    const result = await dispatchNotification({
+      userId: 'user-2',
+      notification: followNotification,
+      email: publishedEmail,
+    });
+
+    expect(result).toEqual({ notified: false, emailed: false });
+    expect(mockRpc).not.toHaveBeenCalled();
+    expect(queueEmail).not.toHaveBeenCalled();
+  });
+
+  it('always delivers notification types without a toggle', async () => {
+    mockRecipient({ notify_new_follower: false });
+
+    const { dispatchNotification } = await import('@/lib/notifications');
+
+    const result = await dispatchNotification({
+      userId: 'user-2',
+      notification: { type: 'post_published', title: 'Your post has been published!' },
+    });
+
+    expect(result.notified).toBe(true);
+  });
+
+  it('does not notify users about their own actions', async () => {
+    const { dispatchNotification } = await import('@/lib/notifications');
+
+    const result = await dispatchNotification({
+      userId: 'user-1',
+      notification: followNotification,
+    });
+
+    expect(result).toEqual({ notified: false, emailed: false });
+    expect(mockSupabaseClient.from).not.toHaveBeenCalled();
+  });
+
+  it('sends nothing when the recipient cannot be loaded', async () => {
+    (mockSupabaseClient.from as jest.Mock)
+      .mockReturnValueOnce(createChainableMock({ data: null, error: { code: 'PGRST116' } }))
+      .mockReturnValueOnce(createChainableMock({ data: null, error: null }));
+
+    const { dispatchNotification } = await import('@/lib/notifications');
+
+    const result = await dispatchNotification({
+      userId: 'missing',
+      notification: followNotification,
+    });
+
+    expect(result).toEqual({ notified: false, emailed: false });
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for post revision diffing
+ */
+
+import { contentToBlocks, diffBlocks, diffRevisions } from '@/lib/revisions';
+
+const snapshot = (content: unknown, title = 'Title') => ({
+  title,
+  subtitle: null,
+  excerpt: null,
+  content,
+  content_html: null,
+});
+
+describe('Revision diffing', () => {
+  describe('contentToBlocks', () => {
+    it('splits HTML into top-level elements', () => {
+      const blocks = contentToBlocks(
+        '<h2>Intro</h2><p>One <strong>two</strong></p><ul><li><ul><li>nested</li></ul></li></ul><img src="/a.png">'
+      );
+
+      expect(blocks.map((b) => b.type)).toEqual(['h2', 'p', 'ul', 'img']);
+      expect(blocks[1].text).toBe('One two');
+      expect(blocks[2].text).toBe('nested');
+      expect(blocks[3].text).toBe('[img] /a.png');
+    });
+
+    it('unwraps the { text } wrapper written by createPost', () => {
+      const blocks = contentToBlocks({ text: '<p>Hello &amp; welcome</p>' });
+
+      expect(blocks).toHaveLength(1);
+      expect(blocks[0].text).toBe('Hello & welcome');
+    });
+
+    it('reads TipTap JSON documents', () => {
+      const blocks = contentToBlocks({
+        type: 'doc',
+        content: [
+          { type: 'heading', attrs: { level: 2 }, content: [{ type: 'text', text: 'Intro' }] },
+          { type: 'paragraph', content: [{ type: 'text', text: 'Body' }] },
+        ],
+      });
+
+      expect(blocks.map((b) => [b.type, b.text])).toEqual([
+        ['heading', 'Intro'],
+        ['paragraph', 'Body'],
+      ]);
+    });
+
+    it('returns no blocks for empty content', () => {
+      expect(contentToBlocks(null)).toEqual([]);
+      expect(contentToBlocks('')).toEqual([]);
+    });
+  });
+
+  describe('diffBlocks', () => {
+    it('reports added, removed and changed blocks around unchanged ones', () => {
+      const before = contentToBlocks('<p>Keep</p><p>Old</p><h2>Gone</h2>');
+      const after = contentToBlocks('<p>Keep</p><p>New</p><blockquote>Quote</blockquote>');
+
+      const changes = diffBlocks(before, after);
+
+      expect(changes.map((c) => c.op)).toEqual(['equal', 'changed', 'removed', 'added']);
+    });
+
+    it('treats formatting-only edits as changes', () => {
+      const changes = diffBlocks(
+        contentToBlocks('<p>Text</p>'),
+        contentToBlocks('<p><em>Text</em></p>')
+      );
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].op).toBe('changed');
+    });
+  });
+
+  describe('diffRevisions', () => {
+    it('includes field changes and block stats', () => {
+      const diff = diffRevisions(
+        snapshot('<p>A</p>', 'Old title'),
+        snapshot('<p>A</p><p>B</p>', 'New title')
+      );
+
+      expect(diff.fields).toEqual([{ field: 'title', before: 'Old title', after: 'New title' }]);
+      expect(diff.stats).toEqual({ added: 1, removed: 0, changed: 0 });
+    });
+
+    it('prefers content_html over content when both are set', () => {
+      const diff = diffRevisions(
+        { ...snapshot(null), content_html: '<p>Old body</p>' },
+        { ...snapshot(null), content_html: '<p>New body</p>' }
+      );
+
+      expect(diff.stats).toEqual({ added: 0, removed: 0, changed: 1 });
+    });
+
+    it('returns an empty diff for identical revisions', () => {
+      const diff = diffRevisions(snapshot('<p>A</p>'), snapshot({ text: '<p>A</p>' }));
+
+      expect(diff.fields).toEqual([]);
+      expect(diff.stats).toEqual({ added: 0, removed: 0, changed: 0 });
+    });
+  });
+});
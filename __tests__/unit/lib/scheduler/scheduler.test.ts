@@ -0,0 +1,103 @@
+/**
+ * Unit tests for scheduled post publishing
+ */
+
+import { createMockSupabaseClient, createChainableMock } from '@/lib/test/mocks';
+
+const mockSupabaseClient = createMockSupabaseClient();
+const mockRpc = jest.fn().mockResolvedValue({ data: 'notification-1', error: null });
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(() => Promise.resolve(mockSupabaseClient)),
+  createServiceClient: jest.fn(() => Promise.resolve({ ...mockSupabaseClient, rpc: mockRpc })),
+}));
+
+jest.mock('@/lib/cache', () => ({
+  invalidatePosts: jest.fn(),
+}));
+
+jest.mock('@/lib/notifications', () => ({
+  dispatchNotification: jest.fn().mockResolvedValue({ notified: true, emailed: true }),
+}));
+
+const duePost = {
+  id: 'post-1',
+  title: 'Universal Credit Explained',
+  slug: 'universal-credit-explained',
+  author_id: 'author-1',
+  scheduled_for: '2026-01-01T09:00:00.000Z',
+  excerpt: null,
+  mentions: [],
+  author: { display_name: 'Author', username: 'author' },
+};
+
+describe('Scheduled publishing', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('publishes due posts, notifies the author and invalidates post caches', async () => {
+    const selectQuery = createChainableMock({ data: [duePost], error: null });
+    const updateQuery = createChainableMock({ data: [{ id: duePost.id }], error: null });
+    (mockSupabaseClient.from as jest.Mock)
+      .mockReturnValueOnce(selectQuery)
+      .mockReturnValueOnce(updateQuery);
+
+    const { publishScheduledPosts } = await import('@/lib/scheduler');
+    const { invalidatePosts } = await import('@/lib/cache');
+    const { dispatchNotification } = await import('@/lib/notifications');
+
+    const result = await publishScheduledPosts(new Date('2026-01-01T09:01:00.000Z'));
+
+    expect(result).toEqual({ published: ['post-1'], failed: [] });
+    expect(updateQuery.update).toHaveBeenCalledWith({
+      status: 'published',
+      published_at: duePost.scheduled_for,
+    });
+    expect(updateQuery.eq).toHaveBeenCalledWith('status', 'scheduled');
+    expect(dispatchNotification).toHaveBeenCalledWith({
+      userId: 'author-1',
+      notification: expect.objectContaining({ type: 'post_published', postId: 'post-1' }),
+      email: expect.objectContaining({ category: 'post_published' }),
+    });
+    expect(mockRpc).toHaveBeenCalledWith(
+      'log_audit_event',
+      expect.objectContaining({ p_action: 'post.publish', p_actor_id: null, p_target_id: 'post-1' })
+    );
+    expect(invalidatePosts).toHaveBeenCalled();
+  });
+
+  it('skips posts already claimed by another run', async () => {
+    const selectQuery = createChainableMock({ data: [duePost], error: null });
+    const updateQuery = createChainableMock({ data: [], error: null });
+    (mockSupabaseClient.from as jest.Mock)
+      .mockReturnValueOnce(selectQuery)
+      .mockReturnValueOnce(updateQuery);
+
+    const { publishScheduledPosts } = await import('@/lib/scheduler');
+    const { dispatchNotification } = await import('@/lib/notifications');
+
+    const result = await publishScheduledPosts();
+
+    expect(result).toEqual({ published: [], failed: [] });
+    expect(mockRpc).not.toHaveBeenCalled();
+    expect(dispatchNotification).not.toHaveBeenCalled();
+  });
+
+  it('records failures without stopping the run', async () => {
+    const secondPost = { ...duePost, id: 'post-2' };
+    const selectQuery = createChainableMock({ data: [duePost, secondPost], error: null });
+    const failingUpdate = createChainableMock({ data: null, error: { code: '42501', message: 'denied' } });
+    const okUpdate = createChainableMock({ data: [{ id: 'post-2' }], error: null });
+    (mockSupabaseClient.from as jest.Mock)
+      .mockReturnValueOnce(selectQuery)
+      .mockReturnValueOnce(failingUpdate)
+      .mockReturnValueOnce(okUpdate);
+
+    const { publishScheduledPosts } = await import('@/lib/scheduler');
+
+    const result = await publishScheduledPosts();
+
+    expect(result).toEqual({ published: ['post-2'], failed: ['post-1'] });
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Unit tests for account status enforcement
+ */
+
+import { resolveAccountStatus, getAccountRestriction } from '@/lib/security/account-status';
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+describe('Account status', () => {
+  it('treats expired suspensions as active', () => {
+    expect(resolveAccountStatus({ status: 'suspended', suspended_until: '2026-03-10T11:59:00.000Z' }, NOW)).toBe(
+      'active'
+    );
+    expect(resolveAccountStatus({ status: 'suspended', suspended_until: '2026-03-11T00:00:00.000Z' }, NOW)).toBe(
+      'suspended'
+    );
+    expect(resolveAccountStatus({ status: null, suspended_until: null }, NOW)).toBe('active');
+  });
+
+  it('gives suspended users read-only access', () => {
+    const suspended = { status: 'suspended' as const, suspended_until: '2026-03-17T12:00:00.000Z' };
+
+    expect(getAccountRestriction(suspended, 'GET', NOW)).toBeNull();
+    expect(getAccountRestriction(suspended, 'post', NOW)).toMatch(/suspended until/);
+    expect(getAccountRestriction(suspended, 'DELETE', NOW)).toMatch(/suspended until/);
+  });
+
+  it('refuses every request from banned users', () => {
+    const banned = { status: 'banned' as const, suspended_until: null };
+
+    expect(getAccountRestriction(banned, 'GET', NOW)).toBe('This account has been banned');
+    expect(getAccountRestriction({ status: 'active', suspended_until: null }, 'POST', NOW)).toBeNull();
+  });
+});
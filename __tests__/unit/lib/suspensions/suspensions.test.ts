@@ -0,0 +1,145 @@
+/**
+ * Unit tests for account suspensions
+ */
+
+import { createMockSupabaseClient, createChainableMock } from '@/lib/test/mocks';
+
+const mockSupabaseClient = createMockSupabaseClient();
+const mockRpc = jest.fn().mockResolvedValue({ data: 'log-1', error: null });
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(() => Promise.resolve(mockSupabaseClient)),
+  createServiceClient: jest.fn(() => Promise.resolve({ ...mockSupabaseClient, rpc: mockRpc })),
+}));
+
+jest.mock('@/lib/email/queue', () => ({
+  queueEmail: jest.fn(),
+  startEmailQueue: jest.fn(),
+}));
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+const profile = (overrides: Record<string, unknown> = {}) => ({
+  id: 'user-1',
+  username: 'sam',
+  display_name: 'Sam',
+  email: 'sam@example.com',
+  role: 'reader',
+  status: 'active',
+  suspended_until: null,
+  suspension_reason: null,
+  ...overrides,
+});
+
+describe('Suspensions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('suspendUser', () => {
+    it('suspends for the given number of days, audits and emails the user', async () => {
+      const suspended = profile({
+        status: 'suspended',
+        suspended_until: '2026-03-17T12:00:00.000Z',
+        suspension_reason: 'Repeated personal attacks',
+      });
+      const updateQuery = createChainableMock({ data: null, error: null });
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(createChainableMock({ data: profile(), error: null }))
+        .mockReturnValueOnce(updateQuery)
+        .mockReturnValueOnce(createChainableMock({ data: suspended, error: null }));
+
+      const { suspendUser } = await import('@/lib/suspensions');
+      const { queueEmail } = await import('@/lib/email/queue');
+
+      await suspendUser({
+        userId: 'user-1',
+        moderatorId: 'admin-1',
+        durationDays: 7,
+        reason: 'Repeated personal attacks',
+        now: NOW,
+      });
+
+      expect(updateQuery.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'suspended',
+          suspended_until: '2026-03-17T12:00:00.000Z',
+          suspension_reason: 'Repeated personal attacks',
+          suspended_by: 'admin-1',
+        })
+      );
+      expect(mockRpc).toHaveBeenCalledWith(
+        'log_audit_event',
+        expect.objectContaining({ p_action: 'user.suspend', p_actor_id: 'admin-1', p_target_id: 'user-1' })
+      );
+      expect(queueEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'sam@example.com', subject: 'Your account has been suspended' })
+      );
+    });
+
+    it('refuses to suspend admins', async () => {
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(
+        createChainableMock({ data: profile({ role: 'admin' }), error: null })
+      );
+
+      const { suspendUser } = await import('@/lib/suspensions');
+
+      await expect(
+        suspendUser({ userId: 'user-1', moderatorId: 'admin-1', durationDays: 1, reason: 'Testing suspension' })
+      ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+  });
+
+  describe('banUser', () => {
+    it('bans indefinitely and audits it as a ban', async () => {
+      const banned = profile({ status: 'banned', suspension_reason: 'Spam account' });
+      (mockSupabaseClient.from as jest.Mock)
+        .mockReturnValueOnce(createChainableMock({ data: profile(), error: null }))
+        .mockReturnValueOnce(createChainableMock({ data: null, error: null }))
+        .mockReturnValueOnce(createChainableMock({ data: banned, error: null }));
+
+      const { banUser } = await import('@/lib/suspensions');
+
+      await banUser({ userId: 'user-1', moderatorId: 'admin-1', reason: 'Spam account' });
+
+      expect(mockRpc).toHaveBeenCalledWith(
+        'log_audit_event',
+        expect.objectContaining({ p_action: 'user.ban', p_actor_id: 'admin-1', p_target_id: 'user-1' })
+      );
+    });
+  });
+
+  describe('reinstateUser', () => {
+    it('rejects users who are not suspended', async () => {
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(
+        createChainableMock({ data: profile(), error: null })
+      );
+
+      const { reinstateUser } = await import('@/lib/suspensions');
+
+      await expect(reinstateUser({ userId: 'user-1', moderatorId: 'admin-1' })).rejects.toMatchObject({
+        code: 'CONFLICT',
+      });
+    });
+  });
+
+  describe('reinstateExpiredSuspensions', () => {
+    it('reactivates expired suspensions and audits each one', async () => {
+      const sweep = createChainableMock({ data: [{ id: 'user-1' }, { id: 'user-2' }], error: null });
+      (mockSupabaseClient.from as jest.Mock).mockReturnValueOnce(sweep);
+
+      const { reinstateExpiredSuspensions } = await import('@/lib/suspensions');
+
+      const result = await reinstateExpiredSuspensions(NOW);
+
+      expect(result).toEqual({ reinstated: ['user-1', 'user-2'] });
+      expect(sweep.eq).toHaveBeenCalledWith('status', 'suspended');
+      expect(sweep.lte).toHaveBeenCalledWith('suspended_until', NOW.toISOString());
+      expect(mockRpc).toHaveBeenCalledTimes(2);
+      expect(mockRpc).toHaveBeenCalledWith(
+        'log_audit_event',
+        expect.objectContaining({ p_action: 'user.reactivate', p_actor_id: null })
+      );
+    });
+  });
+});
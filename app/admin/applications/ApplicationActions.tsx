@@ -3,41 +3,36 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { toast } from 'react-hot-toast';
-import { createClient } from '@/lib/supabase/client';
+import { fetchWithCsrf } from '@/lib/security/csrf-client';
 
 interface ApplicationActionsProps {
   applicationId: string;
-  userId: string;
 }
 
-export default function ApplicationActions({ applicationId, userId }: ApplicationActionsProps) {
+export default function ApplicationActions({ applicationId }: ApplicationActionsProps) {
   const [loading, setLoading] = useState(false);
   const [showRejectModal, setShowRejectModal] = useState(false);
   const [rejectReason, setRejectReason] = useState('');
   const router = useRouter();
-  const supabase = createClient();
+
+  // Reviews go through the API so they are audited and the applicant's role is updated server-side
+  const review = async (action: 'approve' | 'reject', notes?: string) => {
+    const response = await fetchWithCsrf(`/api/admin/applications/${applicationId}/review`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, notes }),
+    });
+
+    if (!response.ok) {
+      const { error } = await response.json();
+      throw new Error(error?.message || `Failed to ${action} application`);
+    }
+  };
 
   const handleApprove = async () => {
     setLoading(true);
     try {
-      // Update application status - using type assertion to bypass strict typing
-      const { error: appError } = await (supabase as any)
-        .from('contributor_applications')
-        .update({
-          status: 'approved',
-          reviewed_at: new Date().toISOString(),
-        })
-        .eq('id', applicationId);
-
-      if (appError) throw appError;
-
-      // Update user role to contributor
-      const { error: profileError } = await (supabase as any)
-        .from('profiles')
-        .update({ role: 'contributor' })
-        .eq('id', userId);
-
-      if (profileError) throw profileError;
+      await review('approve');
 
       toast.success('Application approved! User is now a contributor.');
       router.refresh();
@@ -57,16 +52,7 @@ export default function ApplicationActions({ applicationId, userId }: Applicatio
 
     setLoading(true);
     try {
-      const { error } = await (supabase as any)
-        .from('contributor_applications')
-        .update({
-          status: 'rejected',
-          reviewed_at: new Date().toISOString(),
-          reviewer_notes: rejectReason,
-        })
-        .eq('id', applicationId);
-
-      if (error) throw error;
+      await review('reject', rejectReason);
 
       toast.success('Application rejected');
       setShowRejectModal(false);
@@ -244,7 +244,7 @@ export default async function ApplicationsPage() {
 
               {/* Actions */}
               {app.status === 'pending' && app.user_id && (
-                <ApplicationActions applicationId={app.id} userId={app.user_id} />
+                <ApplicationActions applicationId={app.id} />
               )}
 
               {app.status !== 'pending' && app.reviewed_at && (
@@ -0,0 +1,239 @@
+import Link from 'next/link';
+import { createClient } from '@/lib/supabase/server';
+import { listAuditLogs, AUDIT_ACTIONS, type AuditLogWithActor } from '@/lib/db';
+import { listAuditLogsSchema } from '@/lib/api';
+import { formatRelativeTime } from '@/lib/utils';
+
+type AuditSearchParams = Record<string, string | string[] | undefined>;
+
+const fieldStyle = {
+  background: 'var(--background)',
+  borderColor: 'var(--border)',
+  color: 'var(--foreground)',
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function AuditChanges({ log }: { log: AuditLogWithActor }) {
+  const before = (log.metadata.before ?? {}) as Record<string, unknown>;
+  const after = (log.metadata.after ?? {}) as Record<string, unknown>;
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  if (keys.length === 0) {
+    return <span style={{ opacity: 0.5 }}>—</span>;
+  }
+
+  return (
+    <ul className="space-y-0.5">
+      {keys.map((key) => (
+        <li key={key}>
+          <span style={{ opacity: 0.6 }}>{key}:</span> {formatValue(before[key])} → {formatValue(after[key])}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default async function AdminAuditPage({
+  searchParams,
+}: {
+  searchParams: Promise<AuditSearchParams>;
+}) {
+  const supabase = await createClient();
+  const raw = await searchParams;
+
+  // Ignore malformed filters rather than erroring the page
+  const parsed = listAuditLogsSchema.safeParse(raw);
+  const params = parsed.success ? parsed.data : listAuditLogsSchema.parse({});
+  const action = params.action?.[0];
+
+  const [{ logs, total }, { data: actors }] = await Promise.all([
+    listAuditLogs({
+      actorId: params.actor,
+      actions: action ? [action] : undefined,
+      targetType: params.target_type,
+      targetId: params.target_id,
+      from: params.from,
+      to: params.to,
+      page: params.page,
+      limit: params.limit,
+    }),
+    supabase
+      .from('profiles')
+      .select('id, username, display_name')
+      .in('role', ['editor', 'admin', 'superadmin'])
+      .order('display_name'),
+  ]);
+
+  const totalPages = Math.max(1, Math.ceil(total / params.limit));
+
+  const pageHref = (page: number) => {
+    const query = new URLSearchParams();
+    if (params.actor) query.set('actor', params.actor);
+    if (action) query.set('action', action);
+    if (params.from) query.set('from', params.from);
+    if (params.to) query.set('to', params.to);
+    query.set('page', String(page));
+    return `/admin/audit?${query.toString()}`;
+  };
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1
+          className="text-3xl font-bold"
+          style={{ fontFamily: 'var(--font-kindergarten)', color: 'var(--accent)' }}
+        >
+          Audit Log
+        </h1>
+        <p style={{ color: 'var(--foreground)', opacity: 0.7, fontFamily: 'var(--font-body)' }}>
+          Who changed what, and when. {total} {total === 1 ? 'entry' : 'entries'}.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <form
+        method="get"
+        className="flex flex-wrap items-end gap-4 p-4 rounded-lg mb-6"
+        style={{ background: 'var(--surface)', border: '1px solid var(--border)' }}
+      >
+        <select name="actor" defaultValue={params.actor || ''} className="px-4 py-2 rounded-lg border" style={fieldStyle}>
+          <option value="">All actors</option>
+          {(actors || []).map((actor) => (
+            <option key={actor.id} value={actor.id}>
+              {actor.display_name || actor.username}
+            </option>
+          ))}
+        </select>
+        <select name="action" defaultValue={action || ''} className="px-4 py-2 rounded-lg border" style={fieldStyle}>
+          <option value="">All actions</option>
+          {AUDIT_ACTIONS.map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+        <label className="text-sm" style={{ color: 'var(--foreground)' }}>
+          <span className="block mb-1 opacity-70">From</span>
+          <input type="date" name="from" defaultValue={params.from || ''} className="px-4 py-2 rounded-lg border" style={fieldStyle} />
+        </label>
+        <label className="text-sm" style={{ color: 'var(--foreground)' }}>
+          <span className="block mb-1 opacity-70">To</span>
+          <input type="date" name="to" defaultValue={params.to || ''} className="px-4 py-2 rounded-lg border" style={fieldStyle} />
+        </label>
+        <button
+          type="submit"
+          className="px-4 py-2 rounded-lg font-medium"
+          style={{ background: 'var(--primary)', color: 'var(--background)' }}
+        >
+          Filter
+        </button>
+        <Link href="/admin/audit" className="px-2 py-2 text-sm" style={{ color: 'var(--primary)' }}>
+          Clear
+        </Link>
+      </form>
+
+      {/* Log table */}
+      {logs.length > 0 ? (
+        <div
+          className="rounded-lg border overflow-hidden"
+          style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+        >
+          <div
+            className="hidden md:grid md:grid-cols-6 gap-4 p-4 text-sm font-medium"
+            style={{ background: 'var(--surface-elevated)', color: 'var(--foreground)', opacity: 0.7 }}
+          >
+            <div>When</div>
+            <div>Actor</div>
+            <div>Action</div>
+            <div>Target</div>
+            <div>Change</div>
+            <div>Request</div>
+          </div>
+
+          <div className="divide-y" style={{ borderColor: 'var(--border)' }}>
+            {logs.map((log) => (
+              <div
+                key={log.id}
+                className="p-4 text-sm md:grid md:grid-cols-6 md:gap-4 md:items-start space-y-1 md:space-y-0"
+                style={{ color: 'var(--foreground)' }}
+              >
+                <div title={new Date(log.created_at).toISOString()} style={{ opacity: 0.7 }}>
+                  {formatRelativeTime(log.created_at)}
+                </div>
+                <div>
+                  {log.actor
+                    ? log.actor.display_name || log.actor.username
+                    : log.actor_email || <span style={{ opacity: 0.5 }}>System</span>}
+                  {log.actor_role && (
+                    <span className="block text-xs" style={{ opacity: 0.5 }}>
+                      {log.actor_role}
+                    </span>
+                  )}
+                </div>
+                <div className="font-medium">{log.action}</div>
+                <div className="break-all">
+                  {log.target_type ? (
+                    <>
+                      {log.target_type}
+                      <span className="block text-xs font-mono" style={{ opacity: 0.5 }}>
+                        {log.target_id}
+                      </span>
+                    </>
+                  ) : (
+                    <span style={{ opacity: 0.5 }}>—</span>
+                  )}
+                </div>
+                <div className="break-all">
+                  <AuditChanges log={log} />
+                </div>
+                <div className="text-xs font-mono break-all" style={{ opacity: 0.6 }}>
+                  {log.request_id || '—'}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div
+          className="p-12 rounded-lg border text-center"
+          style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+        >
+          <span className="text-6xl block mb-4">🗂️</span>
+          <h2
+            className="text-xl font-bold mb-2"
+            style={{ fontFamily: 'var(--font-kindergarten)', color: 'var(--foreground)' }}
+          >
+            No audit entries match these filters
+          </h2>
+        </div>
+      )}
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between mt-6 text-sm" style={{ color: 'var(--foreground)' }}>
+          {params.page > 1 ? (
+            <Link href={pageHref(params.page - 1)} style={{ color: 'var(--primary)' }}>
+              ← Newer
+            </Link>
+          ) : (
+            <span />
+          )}
+          <span style={{ opacity: 0.6 }}>
+            Page {params.page} of {totalPages}
+          </span>
+          {params.page < totalPages ? (
+            <Link href={pageHref(params.page + 1)} style={{ color: 'var(--primary)' }}>
+              Older →
+            </Link>
+          ) : (
+            <span />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import { fetchWithCsrf } from '@/lib/security/csrf-client';
+
+interface RetryEmailButtonProps {
+  /** Omit to retry every dead email */
+  emailId?: string;
+  label?: string;
+}
+
+export default function RetryEmailButton({ emailId, label = 'Retry' }: RetryEmailButtonProps) {
+  const [loading, setLoading] = useState(false);
+  const router = useRouter();
+
+  const handleRetry = async () => {
+    setLoading(true);
+    try {
+      const response = await fetchWithCsrf('/api/admin/email-queue/retry', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: emailId }),
+      });
+
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error?.message || 'Failed to retry');
+      }
+
+      const { retried } = body.data as { retried: number };
+      toast.success(retried === 1 ? 'Email requeued' : `${retried} emails requeued`);
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to retry');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={() => void handleRetry()}
+      disabled={loading}
+      className="px-3 py-1 rounded-lg text-sm font-medium disabled:opacity-50"
+      style={{ background: 'var(--primary)', color: 'var(--background)' }}
+    >
+      {loading ? 'Retrying...' : label}
+    </button>
+  );
+}
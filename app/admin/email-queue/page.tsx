@@ -0,0 +1,131 @@
+import Link from 'next/link';
+import { getQueueStats, listEmailJobs, type EmailJobStatus } from '@/lib/email/queue';
+import { listEmailQueueSchema } from '@/lib/api';
+import { formatRelativeTime } from '@/lib/utils';
+import RetryEmailButton from './RetryEmailButton';
+
+type EmailQueueSearchParams = Record<string, string | string[] | undefined>;
+
+const statuses: { value: EmailJobStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'processing', label: 'Sending' },
+  { value: 'sent', label: 'Sent' },
+  { value: 'dead', label: 'Dead' },
+];
+
+export default async function AdminEmailQueuePage({
+  searchParams,
+}: {
+  searchParams: Promise<EmailQueueSearchParams>;
+}) {
+  // Ignore malformed filters rather than erroring the page
+  const parsed = listEmailQueueSchema.safeParse(await searchParams);
+  const params = parsed.success ? parsed.data : listEmailQueueSchema.parse({});
+
+  const [stats, emails] = await Promise.all([
+    getQueueStats(),
+    listEmailJobs(params.status, params.limit),
+  ]);
+
+  return (
+    <div>
+      <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1
+            className="text-3xl font-bold"
+            style={{ fontFamily: 'var(--font-kindergarten)', color: 'var(--accent)' }}
+          >
+            Email Queue
+          </h1>
+          <p style={{ color: 'var(--foreground)', opacity: 0.7, fontFamily: 'var(--font-body)' }}>
+            Outgoing email. Failed sends are retried with backoff; emails that run out of attempts
+            are dead and wait here for a retry.
+          </p>
+        </div>
+        {stats.dead > 0 && <RetryEmailButton label={`Retry all ${stats.dead} dead`} />}
+      </div>
+
+      {/* Stats / filters */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+        {[
+          { value: undefined, label: 'All', count: stats.total },
+          ...statuses.map((s) => ({ ...s, count: stats[s.value] })),
+        ].map((status) => {
+          const active = params.status === status.value;
+          return (
+            <Link
+              key={status.label}
+              href={
+                status.value ? `/admin/email-queue?status=${status.value}` : '/admin/email-queue'
+              }
+              className="p-4 rounded-lg border"
+              style={{
+                background: active ? 'var(--surface-elevated)' : 'var(--surface)',
+                borderColor: active ? 'var(--primary)' : 'var(--border)',
+                color: 'var(--foreground)',
+              }}
+            >
+              <div className="text-2xl font-bold">{status.count}</div>
+              <div className="text-sm" style={{ opacity: 0.7 }}>
+                {status.label}
+              </div>
+            </Link>
+          );
+        })}
+      </div>
+
+      {emails.length > 0 ? (
+        <div
+          className="rounded-lg border overflow-hidden divide-y"
+          style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+        >
+          {emails.map((email) => (
+            <div
+              key={email.id}
+              className="p-4 text-sm md:grid md:grid-cols-6 md:gap-4 md:items-start space-y-1 md:space-y-0"
+              style={{ color: 'var(--foreground)' }}
+            >
+              <div title={new Date(email.created_at).toISOString()} style={{ opacity: 0.7 }}>
+                {formatRelativeTime(email.created_at)}
+              </div>
+              <div className="md:col-span-2 min-w-0">
+                <div className="font-medium truncate">{email.subject}</div>
+                <div className="truncate" style={{ opacity: 0.6 }}>
+                  {email.recipient}
+                </div>
+              </div>
+              <div>
+                <span className="capitalize">{email.status}</span>
+                <span className="block text-xs" style={{ opacity: 0.5 }}>
+                  {email.attempts}/{email.max_attempts} attempts
+                  {email.status === 'pending' &&
+                    email.attempts > 0 &&
+                    `, next try ${email.next_attempt_at.slice(11, 16)} UTC`}
+                </span>
+              </div>
+              <div className="text-xs break-all" style={{ opacity: 0.7 }}>
+                {email.last_error || '—'}
+              </div>
+              <div className="md:text-right">
+                {email.status === 'dead' && <RetryEmailButton emailId={email.id} />}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div
+          className="p-12 rounded-lg border text-center"
+          style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+        >
+          <span className="text-6xl block mb-4">📭</span>
+          <h2
+            className="text-xl font-bold mb-2"
+            style={{ fontFamily: 'var(--font-kindergarten)', color: 'var(--foreground)' }}
+          >
+            No emails here
+          </h2>
+        </div>
+      )}
+    </div>
+  );
+}
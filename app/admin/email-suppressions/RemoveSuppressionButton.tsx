@@ -0,0 +1,51 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import { fetchWithCsrf } from '@/lib/security/csrf-client';
+
+interface RemoveSuppressionButtonProps {
+  email: string;
+}
+
+export default function RemoveSuppressionButton({ email }: RemoveSuppressionButtonProps) {
+  const [loading, setLoading] = useState(false);
+  const router = useRouter();
+
+  const handleRemove = async () => {
+    if (!confirm(`Send email to ${email} again?`)) return;
+
+    setLoading(true);
+    try {
+      const response = await fetchWithCsrf('/api/admin/email-suppressions', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error?.message || 'Failed to remove');
+      }
+
+      toast.success(`${email} can receive email again`);
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={() => void handleRemove()}
+      disabled={loading}
+      className="px-3 py-1 rounded-lg text-sm font-medium border disabled:opacity-50"
+      style={{ borderColor: 'var(--border)', color: 'var(--foreground)' }}
+    >
+      {loading ? 'Removing...' : 'Remove'}
+    </button>
+  );
+}
@@ -0,0 +1,145 @@
+import Link from 'next/link';
+import {
+  getSuppressionCounts,
+  listSuppressions,
+  type SuppressionReason,
+} from '@/lib/email/suppressions';
+import { listEmailSuppressionsSchema } from '@/lib/api';
+import { formatRelativeTime } from '@/lib/utils';
+import RemoveSuppressionButton from './RemoveSuppressionButton';
+
+type EmailSuppressionsSearchParams = Record<string, string | string[] | undefined>;
+
+const reasons: { value: SuppressionReason; label: string }[] = [
+  { value: 'bounce', label: 'Bounced' },
+  { value: 'complaint', label: 'Complained' },
+];
+
+export default async function AdminEmailSuppressionsPage({
+  searchParams,
+}: {
+  searchParams: Promise<EmailSuppressionsSearchParams>;
+}) {
+  // Ignore malformed filters rather than erroring the page
+  const parsed = listEmailSuppressionsSchema.safeParse(await searchParams);
+  const params = parsed.success ? parsed.data : listEmailSuppressionsSchema.parse({});
+
+  const [counts, suppressions] = await Promise.all([
+    getSuppressionCounts(),
+    listSuppressions(params),
+  ]);
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1
+          className="text-3xl font-bold"
+          style={{ fontFamily: 'var(--font-kindergarten)', color: 'var(--accent)' }}
+        >
+          Suppressed Emails
+        </h1>
+        <p style={{ color: 'var(--foreground)', opacity: 0.7, fontFamily: 'var(--font-body)' }}>
+          Addresses that hard-bounced or marked our email as spam. Nothing is sent to them until
+          they are removed here.
+        </p>
+      </div>
+
+      {/* Stats / filters */}
+      <div className="grid grid-cols-3 gap-4 mb-6">
+        {[
+          { value: undefined, label: 'All', count: counts.total },
+          ...reasons.map((r) => ({
+            ...r,
+            count: counts[r.value],
+          })),
+        ].map((reason) => {
+          const active = params.reason === reason.value;
+          return (
+            <Link
+              key={reason.label}
+              href={
+                reason.value
+                  ? `/admin/email-suppressions?reason=${reason.value}`
+                  : '/admin/email-suppressions'
+              }
+              className="p-4 rounded-lg border"
+              style={{
+                background: active ? 'var(--surface-elevated)' : 'var(--surface)',
+                borderColor: active ? 'var(--primary)' : 'var(--border)',
+                color: 'var(--foreground)',
+              }}
+            >
+              <div className="text-2xl font-bold">{reason.count}</div>
+              <div className="text-sm" style={{ opacity: 0.7 }}>
+                {reason.label}
+              </div>
+            </Link>
+          );
+        })}
+      </div>
+
+      <form className="mb-6 flex gap-2">
+        {params.reason && <input type="hidden" name="reason" value={params.reason} />}
+        <input
+          type="search"
+          name="search"
+          defaultValue={params.search}
+          placeholder="Search addresses"
+          className="flex-1 px-3 py-2 rounded-lg border"
+          style={{
+            background: 'var(--surface)',
+            borderColor: 'var(--border)',
+            color: 'var(--foreground)',
+          }}
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 rounded-lg font-medium"
+          style={{ background: 'var(--primary)', color: 'var(--background)' }}
+        >
+          Search
+        </button>
+      </form>
+
+      {suppressions.length > 0 ? (
+        <div
+          className="rounded-lg border overflow-hidden divide-y"
+          style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+        >
+          {suppressions.map((suppression) => (
+            <div
+              key={suppression.email}
+              className="p-4 text-sm md:grid md:grid-cols-6 md:gap-4 md:items-start space-y-1 md:space-y-0"
+              style={{ color: 'var(--foreground)' }}
+            >
+              <div title={new Date(suppression.updated_at).toISOString()} style={{ opacity: 0.7 }}>
+                {formatRelativeTime(suppression.updated_at)}
+              </div>
+              <div className="md:col-span-2 font-medium break-all">{suppression.email}</div>
+              <div>{suppression.reason === 'complaint' ? 'Complained' : 'Bounced'}</div>
+              <div className="text-xs break-all" style={{ opacity: 0.7 }}>
+                {suppression.detail || '—'}
+              </div>
+              <div className="md:text-right">
+                <RemoveSuppressionButton email={suppression.email} />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div
+          className="p-12 rounded-lg border text-center"
+          style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+        >
+          <span className="text-6xl block mb-4">✅</span>
+          <h2
+            className="text-xl font-bold mb-2"
+            style={{ fontFamily: 'var(--font-kindergarten)', color: 'var(--foreground)' }}
+          >
+            No suppressed addresses
+          </h2>
+        </div>
+      )}
+    </div>
+  );
+}
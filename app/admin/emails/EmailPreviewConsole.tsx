@@ -0,0 +1,215 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import type { EmailTemplatePreview, RenderedEmail } from '@/lib/email/previews';
+import { fetchWithCsrf } from '@/lib/security/csrf-client';
+
+interface EmailPreviewConsoleProps {
+  template: EmailTemplatePreview;
+  /** The template rendered with its sample data */
+  initial: RenderedEmail;
+}
+
+const widths = {
+  mobile: { label: 'Mobile', px: 375 },
+  desktop: { label: 'Desktop', px: 720 },
+};
+
+type Width = keyof typeof widths;
+
+const fieldStyle = {
+  background: 'var(--background)',
+  borderColor: 'var(--border)',
+  color: 'var(--foreground)',
+};
+
+export default function EmailPreviewConsole({ template, initial }: EmailPreviewConsoleProps) {
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(template.fields.map((field) => [field.name, field.sample]))
+  );
+  const [edited, setEdited] = useState(false);
+  const [rendered, setRendered] = useState(initial);
+  const [width, setWidth] = useState<Width>('desktop');
+  const [sending, setSending] = useState(false);
+
+  // Re-render shortly after the sample data stops changing
+  useEffect(() => {
+    if (!edited) return;
+
+    const timeout = setTimeout(() => {
+      void (async () => {
+        try {
+          const response = await fetchWithCsrf('/api/admin/emails/preview', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ template: template.id, data: values }),
+          });
+
+          const body = await response.json();
+          if (!response.ok) {
+            throw new Error(body.error?.message || 'Failed to render preview');
+          }
+
+          setRendered(body.data as RenderedEmail);
+        } catch (error) {
+          toast.error(error instanceof Error ? error.message : 'Failed to render preview');
+        }
+      })();
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [edited, template.id, values]);
+
+  const updateField = (name: string, value: string) => {
+    setValues((prev) => ({ ...prev, [name]: value }));
+    setEdited(true);
+  };
+
+  const resetFields = () => {
+    setValues(Object.fromEntries(template.fields.map((field) => [field.name, field.sample])));
+    setRendered(initial);
+    setEdited(false);
+  };
+
+  const sendTest = async () => {
+    setSending(true);
+    try {
+      const response = await fetchWithCsrf('/api/admin/emails/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ template: template.id, data: values }),
+      });
+
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error?.message || 'Failed to send test email');
+      }
+
+      toast.success(body.data.message);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send test email');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Sample data */}
+      <div
+        className="p-6 rounded-lg border space-y-4"
+        style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+      >
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-xl font-bold" style={{ color: 'var(--foreground)' }}>
+            {template.name}
+          </h2>
+          <div className="flex gap-2">
+            <button
+              onClick={resetFields}
+              disabled={!edited}
+              className="px-4 py-2 rounded-lg border text-sm font-medium disabled:opacity-50"
+              style={{ borderColor: 'var(--border)', color: 'var(--foreground)' }}
+            >
+              Reset sample data
+            </button>
+            <button
+              onClick={() => void sendTest()}
+              disabled={sending}
+              className="px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+              style={{ background: 'var(--primary)', color: 'var(--background)' }}
+            >
+              {sending ? 'Sending...' : 'Send test to me'}
+            </button>
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {template.fields.map((field) => (
+            <label
+              key={field.name}
+              className={`block text-sm ${field.type === 'textarea' ? 'md:col-span-2' : ''}`}
+              style={{ color: 'var(--foreground)' }}
+            >
+              <span className="block mb-1 font-medium">{field.label}</span>
+              {field.type === 'textarea' ? (
+                <textarea
+                  value={values[field.name] ?? ''}
+                  onChange={(e) => updateField(field.name, e.target.value)}
+                  rows={4}
+                  className="w-full px-3 py-2 rounded-lg border font-mono text-xs"
+                  style={fieldStyle}
+                />
+              ) : (
+                <input
+                  type={field.type}
+                  value={values[field.name] ?? ''}
+                  onChange={(e) => updateField(field.name, e.target.value)}
+                  className="w-full px-3 py-2 rounded-lg border"
+                  style={fieldStyle}
+                />
+              )}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Preview */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm" style={{ color: 'var(--foreground)' }}>
+          <span style={{ opacity: 0.6 }}>Subject:</span>{' '}
+          <span className="font-medium">{rendered.subject}</span>
+        </p>
+        <div className="flex gap-2">
+          {(Object.keys(widths) as Width[]).map((key) => (
+            <button
+              key={key}
+              onClick={() => setWidth(key)}
+              className="px-3 py-1 rounded-lg border text-sm"
+              style={{
+                borderColor: width === key ? 'var(--primary)' : 'var(--border)',
+                color: width === key ? 'var(--primary)' : 'var(--foreground)',
+              }}
+            >
+              {widths[key].label} ({widths[key].px}px)
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col xl:flex-row gap-6">
+        <div className="min-w-0 overflow-x-auto">
+          <h3 className="text-sm font-medium mb-2" style={{ color: 'var(--foreground)' }}>
+            HTML
+          </h3>
+          <iframe
+            title={`${template.name} HTML preview`}
+            srcDoc={rendered.html}
+            sandbox=""
+            className="h-[700px] rounded-lg border"
+            style={{
+              width: widths[width].px,
+              borderColor: 'var(--border)',
+              background: '#ffffff',
+            }}
+          />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h3 className="text-sm font-medium mb-2" style={{ color: 'var(--foreground)' }}>
+            Plain text
+          </h3>
+          <pre
+            className="h-[700px] overflow-auto p-4 rounded-lg border text-xs whitespace-pre-wrap"
+            style={{
+              ...fieldStyle,
+              maxWidth: widths[width].px,
+            }}
+          >
+            {rendered.text}
+          </pre>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import Link from 'next/link';
+import { listEmailPreviews, renderEmailPreview } from '@/lib/email/previews';
+import EmailPreviewConsole from './EmailPreviewConsole';
+
+export default async function AdminEmailsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ template?: string }>;
+}) {
+  const templates = listEmailPreviews();
+  const { template: requested } = await searchParams;
+  const template = templates.find((t) => t.id === requested) ?? templates[0];
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1
+          className="text-3xl font-bold"
+          style={{ fontFamily: 'var(--font-kindergarten)', color: 'var(--accent)' }}
+        >
+          Email Templates
+        </h1>
+        <p style={{ color: 'var(--foreground)', opacity: 0.7, fontFamily: 'var(--font-body)' }}>
+          Preview every email with sample data and send yourself a test copy.
+        </p>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        <nav className="lg:w-64 flex-shrink-0">
+          <div
+            className="rounded-lg border overflow-hidden divide-y"
+            style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+          >
+            {templates.map((t) => {
+              const active = t.id === template.id;
+              return (
+                <Link
+                  key={t.id}
+                  href={`/admin/emails?template=${t.id}`}
+                  className="block p-3"
+                  style={{
+                    background: active ? 'var(--surface-elevated)' : undefined,
+                    color: active ? 'var(--primary)' : 'var(--foreground)',
+                  }}
+                >
+                  <div className="text-sm font-medium">{t.name}</div>
+                  <div className="text-xs" style={{ opacity: 0.6 }}>
+                    {t.description}
+                  </div>
+                </Link>
+              );
+            })}
+          </div>
+        </nav>
+
+        <div className="flex-1 min-w-0">
+          <EmailPreviewConsole
+            key={template.id}
+            template={template}
+            initial={renderEmailPreview(template.id)}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,445 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import { formatRelativeTime } from '@/lib/utils';
+import type { ModerationAction, ModerationQueueItem } from '@/lib/moderation';
+
+interface Moderator {
+  id: string;
+  username: string | null;
+  display_name: string | null;
+}
+
+interface ModerationQueueProps {
+  items: ModerationQueueItem[];
+  currentUserId: string;
+  moderators: Moderator[];
+}
+
+type Filter = 'all' | 'me' | 'unassigned';
+
+const typeIcons: Record<ModerationQueueItem['type'], string> = {
+  post: '📝',
+  comment: '💬',
+  user: '👤',
+  application: '📋',
+};
+
+const shortcuts: [string, string][] = [
+  ['j / ↓', 'Next item'],
+  ['k / ↑', 'Previous item'],
+  ['a', 'Approve'],
+  ['r', 'Reject (with reason)'],
+  ['h', 'Hide'],
+  ['m', 'Assign to me'],
+  ['u', 'Release'],
+  ['o', 'Open content'],
+];
+
+// Actions that don't apply to an item type
+const unsupported: Partial<Record<ModerationQueueItem['type'], ModerationAction[]>> = {
+  user: ['hide'],
+  application: ['hide'],
+};
+
+export default function ModerationQueue({ items: initialItems, currentUserId, moderators }: ModerationQueueProps) {
+  const router = useRouter();
+  const [items, setItems] = useState(initialItems);
+  const [filter, setFilter] = useState<Filter>('all');
+  const [selected, setSelected] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [rejecting, setRejecting] = useState<ModerationQueueItem | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+
+  // Server refreshes replace the local list
+  const [prevInitial, setPrevInitial] = useState(initialItems);
+  if (initialItems !== prevInitial) {
+    setPrevInitial(initialItems);
+    setItems(initialItems);
+  }
+
+  const visible = items.filter((item) => {
+    if (filter === 'me') return item.assignment?.moderator_id === currentUserId;
+    if (filter === 'unassigned') return !item.assignment;
+    return true;
+  });
+  const current = visible[Math.min(selected, visible.length - 1)] as ModerationQueueItem | undefined;
+
+  const isHeldByOther = (item: ModerationQueueItem) =>
+    !!item.assignment && item.assignment.moderator_id !== currentUserId;
+
+  const runAction = useCallback(
+    async (item: ModerationQueueItem, action: ModerationAction, reason?: string) => {
+      if (unsupported[item.type]?.includes(action)) {
+        toast.error(`Can't ${action} this item`);
+        return;
+      }
+
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/admin/moderation/${item.type}/${item.id}/action`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action, reason: reason || undefined }),
+        });
+
+        if (!response.ok) {
+          const { error } = await response.json();
+          throw new Error(error?.message || `Failed to ${action} item`);
+        }
+
+        toast.success(`${item.title}: ${action === 'hide' ? 'hidden' : `${action}d`}`);
+        setItems((prev) => prev.filter((i) => i.key !== item.key));
+        router.refresh();
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : `Failed to ${action} item`);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [router]
+  );
+
+  const assign = useCallback(
+    async (item: ModerationQueueItem, moderatorId: string | null) => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/admin/moderation/${item.type}/${item.id}/assign`, {
+          method: moderatorId ? 'POST' : 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          body: moderatorId ? JSON.stringify({ moderator_id: moderatorId }) : undefined,
+        });
+
+        if (!response.ok) {
+          const { error } = await response.json();
+          throw new Error(error?.message || 'Failed to update assignment');
+        }
+
+        toast.success(moderatorId ? 'Item assigned' : 'Item released');
+        router.refresh();
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to update assignment');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [router]
+  );
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || rejecting || loading) return;
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+      switch (e.key) {
+        case 'j':
+        case 'ArrowDown':
+          e.preventDefault();
+          setSelected((i) => Math.min(i + 1, visible.length - 1));
+          break;
+        case 'k':
+        case 'ArrowUp':
+          e.preventDefault();
+          setSelected((i) => Math.max(i - 1, 0));
+          break;
+        case 'a':
+          if (current) void runAction(current, 'approve');
+          break;
+        case 'r':
+          if (current) {
+            setRejectReason('');
+            setRejecting(current);
+          }
+          break;
+        case 'h':
+          if (current) void runAction(current, 'hide');
+          break;
+        case 'm':
+          if (current) void assign(current, currentUserId);
+          break;
+        case 'u':
+          if (current?.assignment) void assign(current, null);
+          break;
+        case 'o':
+          if (current?.href) window.open(current.href, '_blank');
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [current, visible.length, rejecting, loading, currentUserId, runAction, assign]);
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-6">
+      <div className="flex-1 min-w-0">
+        {/* Filters */}
+        <div
+          className="flex flex-wrap gap-2 p-4 rounded-lg mb-6"
+          style={{ background: 'var(--surface)', border: '1px solid var(--border)' }}
+        >
+          {(['all', 'me', 'unassigned'] as Filter[]).map((f) => (
+            <button
+              key={f}
+              onClick={() => {
+                setFilter(f);
+                setSelected(0);
+              }}
+              className="px-4 py-2 rounded-lg text-sm capitalize"
+              style={{
+                background: filter === f ? 'var(--primary)' : 'var(--background)',
+                color: filter === f ? 'var(--background)' : 'var(--foreground)',
+                border: '1px solid var(--border)',
+              }}
+            >
+              {f === 'me' ? 'Assigned to me' : f}
+            </button>
+          ))}
+        </div>
+
+        {visible.length > 0 ? (
+          <div
+            className="rounded-lg border overflow-hidden divide-y"
+            style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+          >
+            {visible.map((item, index) => {
+              const isSelected = item.key === current?.key;
+
+              return (
+                <div
+                  key={item.key}
+                  onClick={() => setSelected(index)}
+                  className="p-4 cursor-pointer transition-colors"
+                  style={{
+                    background: isSelected ? 'var(--surface-elevated)' : 'transparent',
+                    borderLeft: `3px solid ${isSelected ? 'var(--primary)' : 'transparent'}`,
+                    opacity: isHeldByOther(item) ? 0.6 : 1,
+                  }}
+                >
+                  <div className="flex items-start gap-4">
+                    <span className="text-2xl flex-shrink-0">{typeIcons[item.type]}</span>
+                    <div className="min-w-0 flex-1">
+                      <h3
+                        className="font-medium truncate"
+                        style={{ color: 'var(--foreground)', fontFamily: 'var(--font-body)' }}
+                      >
+                        {item.title}
+                      </h3>
+                      {item.summary && (
+                        <p className="text-sm mt-1 line-clamp-2" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                          {item.summary}
+                        </p>
+                      )}
+                      <div
+                        className="flex flex-wrap items-center gap-2 text-xs mt-2"
+                        style={{ color: 'var(--foreground)', opacity: 0.6 }}
+                      >
+                        {item.reasons.map((reason) => (
+                          <span
+                            key={reason}
+                            className="px-2 py-0.5 rounded-full"
+                            style={{ background: 'var(--background)', border: '1px solid var(--border)' }}
+                          >
+                            {reason}
+                          </span>
+                        ))}
+                        {item.report_count > 1 && <span>{item.report_count} reports</span>}
+                        <span>waiting {formatRelativeTime(item.waiting_since)}</span>
+                      </div>
+                    </div>
+                    <div className="text-right flex-shrink-0 text-xs" style={{ color: 'var(--foreground)' }}>
+                      <div className="font-bold" style={{ color: 'var(--secondary)' }}>
+                        {item.priority.toFixed(1)}
+                      </div>
+                      {item.assignment && (
+                        <div className="mt-1" style={{ opacity: 0.6 }}>
+                          {item.assignment.moderator_id === currentUserId ? 'You' : item.assignment.name}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div
+            className="p-12 rounded-lg border text-center"
+            style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+          >
+            <span className="text-6xl block mb-4">✅</span>
+            <h2
+              className="text-xl font-bold mb-2"
+              style={{ fontFamily: 'var(--font-kindergarten)', color: 'var(--foreground)' }}
+            >
+              Queue is clear
+            </h2>
+            <p style={{ color: 'var(--foreground)', opacity: 0.6, fontFamily: 'var(--font-body)' }}>
+              Nothing needs moderating right now.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Selected item + shortcuts */}
+      <aside className="lg:w-72 flex-shrink-0 space-y-6">
+        {current && (
+          <div
+            className="p-4 rounded-lg border space-y-3"
+            style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+          >
+            <h3 className="font-bold truncate" style={{ color: 'var(--foreground)' }}>
+              {current.title}
+            </h3>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => void runAction(current, 'approve')}
+                disabled={loading}
+                className="px-3 py-1.5 rounded-lg text-sm font-medium disabled:opacity-50"
+                style={{ background: 'var(--primary)', color: 'var(--background)' }}
+              >
+                ✓ Approve
+              </button>
+              <button
+                onClick={() => {
+                  setRejectReason('');
+                  setRejecting(current);
+                }}
+                disabled={loading}
+                className="px-3 py-1.5 rounded-lg text-sm font-medium disabled:opacity-50"
+                style={{ border: '1px solid var(--accent)', color: 'var(--accent)' }}
+              >
+                ✕ Reject
+              </button>
+              {!unsupported[current.type]?.includes('hide') && (
+                <button
+                  onClick={() => void runAction(current, 'hide')}
+                  disabled={loading}
+                  className="px-3 py-1.5 rounded-lg text-sm font-medium disabled:opacity-50"
+                  style={{ border: '1px solid var(--secondary)', color: 'var(--secondary)' }}
+                >
+                  Hide
+                </button>
+              )}
+            </div>
+            <label className="block text-xs" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+              Assigned to
+              <select
+                value={current.assignment?.moderator_id ?? ''}
+                onChange={(e) => void assign(current, e.target.value || null)}
+                disabled={loading}
+                className="mt-1 w-full px-3 py-2 rounded-lg border text-sm"
+                style={{
+                  background: 'var(--background)',
+                  borderColor: 'var(--border)',
+                  color: 'var(--foreground)',
+                }}
+              >
+                <option value="">Unassigned</option>
+                {moderators.map((moderator) => (
+                  <option key={moderator.id} value={moderator.id}>
+                    {moderator.id === currentUserId ? 'Me' : moderator.display_name || moderator.username}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {current.href && (
+              <a
+                href={current.href}
+                target="_blank"
+                rel="noreferrer"
+                className="text-sm"
+                style={{ color: 'var(--primary)' }}
+              >
+                Open →
+              </a>
+            )}
+          </div>
+        )}
+
+        <div
+          className="p-4 rounded-lg border text-sm"
+          style={{ background: 'var(--surface)', borderColor: 'var(--border)', color: 'var(--foreground)' }}
+        >
+          <h3 className="font-bold mb-2">Keyboard shortcuts</h3>
+          <dl className="space-y-1">
+            {shortcuts.map(([key, label]) => (
+              <div key={key} className="flex justify-between gap-4">
+                <dt>
+                  <kbd className="px-1.5 rounded" style={{ background: 'var(--background)', border: '1px solid var(--border)' }}>
+                    {key}
+                  </kbd>
+                </dt>
+                <dd style={{ opacity: 0.7 }}>{label}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      </aside>
+
+      {/* Reject reason modal */}
+      {rejecting && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center"
+          style={{ background: 'rgba(0,0,0,0.5)' }}
+          onClick={() => setRejecting(null)}
+        >
+          <form
+            className="p-6 rounded-lg w-full max-w-md"
+            style={{ background: 'var(--surface)', border: '1px solid var(--border)' }}
+            onClick={(e) => e.stopPropagation()}
+            onSubmit={(e) => {
+              e.preventDefault();
+              const item = rejecting;
+              setRejecting(null);
+              void runAction(item, 'reject', rejectReason.trim());
+            }}
+          >
+            <h3
+              className="text-lg font-bold mb-4"
+              style={{ color: 'var(--accent)', fontFamily: 'var(--font-kindergarten)' }}
+            >
+              Reject: {rejecting.title}
+            </h3>
+            <textarea
+              autoFocus
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && setRejecting(null)}
+              placeholder="Reason (shared with the author where applicable)"
+              rows={4}
+              maxLength={500}
+              className="w-full p-3 rounded-lg border mb-4 resize-none"
+              style={{
+                background: 'var(--background)',
+                borderColor: 'var(--border)',
+                color: 'var(--foreground)',
+              }}
+            />
+            <div className="flex gap-3 justify-end">
+              <button
+                type="button"
+                onClick={() => setRejecting(null)}
+                className="px-4 py-2 rounded-lg"
+                style={{ border: '1px solid var(--border)', color: 'var(--foreground)' }}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 rounded-lg"
+                style={{ background: 'var(--accent)', color: 'var(--background)' }}
+              >
+                Reject
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
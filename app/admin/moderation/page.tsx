@@ -0,0 +1,40 @@
+import { createClient } from '@/lib/supabase/server';
+import { getModerationQueue } from '@/lib/moderation';
+import ModerationQueue from './ModerationQueue';
+
+export default async function ModerationPage() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const [{ items, total }, { data: moderators }] = await Promise.all([
+    getModerationQueue({ moderatorId: user?.id, limit: 200 }),
+    supabase
+      .from('profiles')
+      .select('id, username, display_name')
+      .in('role', ['editor', 'admin', 'superadmin'])
+      .order('display_name'),
+  ]);
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1
+          className="text-3xl font-bold"
+          style={{ fontFamily: 'var(--font-kindergarten)', color: 'var(--accent)' }}
+        >
+          Moderation Queue
+        </h1>
+        <p style={{ color: 'var(--foreground)', opacity: 0.7, fontFamily: 'var(--font-body)' }}>
+          Pending posts, flagged comments, reports and applications, most urgent first.
+          {total > items.length && ` Showing ${items.length} of ${total}.`}
+        </p>
+      </div>
+
+      <ModerationQueue
+        items={items}
+        currentUserId={user?.id ?? ''}
+        moderators={moderators || []}
+      />
+    </div>
+  );
+}
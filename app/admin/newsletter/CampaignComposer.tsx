@@ -0,0 +1,332 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import { formatRelativeTime } from '@/lib/utils';
+import { fetchWithCsrf } from '@/lib/security/csrf-client';
+import type { NewsletterCampaignWithStats } from '@/lib/newsletter/campaigns';
+
+interface PostOption {
+  id: string;
+  title: string;
+  published_at: string | null;
+}
+
+interface CampaignComposerProps {
+  campaigns: NewsletterCampaignWithStats[];
+  posts: PostOption[];
+  subscriberCount: number;
+}
+
+const MAX_POSTS = 12;
+
+const statusColors: Record<NewsletterCampaignWithStats['status'], string> = {
+  draft: 'var(--foreground)',
+  sending: 'var(--secondary)',
+  sent: 'var(--primary)',
+};
+
+const fieldStyle = {
+  background: 'var(--background)',
+  borderColor: 'var(--border)',
+  color: 'var(--foreground)',
+};
+
+export default function CampaignComposer({
+  campaigns,
+  posts,
+  subscriberCount,
+}: CampaignComposerProps) {
+  const router = useRouter();
+  const [campaignId, setCampaignId] = useState<string | null>(null);
+  const [subject, setSubject] = useState('');
+  const [intro, setIntro] = useState('');
+  const [postIds, setPostIds] = useState<string[]>([]);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const editing = campaigns.find((c) => c.id === campaignId);
+  const readOnly = editing ? editing.status !== 'draft' : false;
+
+  const openCampaign = (campaign: NewsletterCampaignWithStats | null) => {
+    setCampaignId(campaign?.id ?? null);
+    setSubject(campaign?.subject ?? '');
+    setIntro(campaign?.intro ?? '');
+    setPostIds(campaign?.post_ids ?? []);
+    setPreview(null);
+  };
+
+  const togglePost = (id: string) => {
+    setPostIds((prev) =>
+      prev.includes(id) ? prev.filter((p) => p !== id) : [...prev, id].slice(0, MAX_POSTS)
+    );
+  };
+
+  const request = async (url: string, init?: RequestInit) => {
+    const response = await fetchWithCsrf(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' },
+    });
+    const body = await response.json();
+
+    if (!response.ok) {
+      throw new Error(body.error?.message || 'Request failed');
+    }
+
+    return body.data;
+  };
+
+  // Drafts are saved before every action so previews and sends match the form
+  const save = async (): Promise<string> => {
+    if (readOnly && campaignId) return campaignId;
+
+    const payload = JSON.stringify({ subject, intro, post_ids: postIds });
+    const campaign = campaignId
+      ? await request(`/api/admin/newsletter/campaigns/${campaignId}`, {
+          method: 'PUT',
+          body: payload,
+        })
+      : await request('/api/admin/newsletter/campaigns', { method: 'POST', body: payload });
+
+    setCampaignId(campaign.id);
+    return campaign.id;
+  };
+
+  const run = async (action: () => Promise<string | void>, fallback: string) => {
+    if (!subject.trim()) {
+      toast.error('Add a subject first');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const message = await action();
+      if (message) toast.success(message);
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : fallback);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = () =>
+    run(async () => {
+      await save();
+      return 'Draft saved';
+    }, 'Failed to save draft');
+
+  const handlePreview = () =>
+    run(async () => {
+      const id = await save();
+      const { preview: html } = await request(`/api/admin/newsletter/campaigns/${id}`);
+      setPreview(html);
+    }, 'Failed to load preview');
+
+  const handleTest = () =>
+    run(async () => {
+      const id = await save();
+      const { message } = await request(`/api/admin/newsletter/campaigns/${id}/test`, {
+        method: 'POST',
+      });
+      return message;
+    }, 'Failed to send test email');
+
+  const handleSend = () => {
+    if (!confirm(`Send "${subject}" to ${subscriberCount} subscribers? This cannot be undone.`)) {
+      return;
+    }
+
+    return run(async () => {
+      const id = await save();
+      const { message } = await request(`/api/admin/newsletter/campaigns/${id}/send`, {
+        method: 'POST',
+      });
+      return message;
+    }, 'Failed to send campaign');
+  };
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-6">
+      {/* Composer */}
+      <div className="flex-1 min-w-0 space-y-6">
+        <div
+          className="p-6 rounded-lg border space-y-4"
+          style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+        >
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-bold" style={{ color: 'var(--foreground)' }}>
+              {editing ? editing.subject : 'New campaign'}
+            </h2>
+            {editing && (
+              <button
+                onClick={() => openCampaign(null)}
+                className="px-3 py-1 rounded-lg text-sm"
+                style={{ border: '1px solid var(--border)', color: 'var(--foreground)' }}
+              >
+                New campaign
+              </button>
+            )}
+          </div>
+
+          <label className="block">
+            <span
+              className="block text-sm mb-1"
+              style={{ color: 'var(--foreground)', opacity: 0.7 }}
+            >
+              Subject
+            </span>
+            <input
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              disabled={readOnly}
+              maxLength={200}
+              className="w-full p-3 rounded-lg border"
+              style={fieldStyle}
+            />
+          </label>
+
+          <label className="block">
+            <span
+              className="block text-sm mb-1"
+              style={{ color: 'var(--foreground)', opacity: 0.7 }}
+            >
+              Intro (blank lines start a new paragraph)
+            </span>
+            <textarea
+              value={intro}
+              onChange={(e) => setIntro(e.target.value)}
+              disabled={readOnly}
+              rows={8}
+              maxLength={10000}
+              className="w-full p-3 rounded-lg border resize-y"
+              style={fieldStyle}
+            />
+          </label>
+
+          <fieldset>
+            <legend className="text-sm mb-2" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+              Posts ({postIds.length}/{MAX_POSTS}, in the order picked)
+            </legend>
+            <div
+              className="max-h-72 overflow-y-auto rounded-lg border divide-y"
+              style={{ borderColor: 'var(--border)' }}
+            >
+              {posts.map((post) => (
+                <label
+                  key={post.id}
+                  className="flex items-center gap-3 p-3 cursor-pointer"
+                  style={{ color: 'var(--foreground)' }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={postIds.includes(post.id)}
+                    onChange={() => togglePost(post.id)}
+                    disabled={readOnly}
+                  />
+                  <span className="flex-1 truncate">{post.title}</span>
+                  {post.published_at && (
+                    <span className="text-xs" style={{ opacity: 0.6 }}>
+                      {formatRelativeTime(post.published_at)}
+                    </span>
+                  )}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <div className="flex flex-wrap gap-2">
+            {!readOnly && (
+              <button
+                onClick={() => void handleSave()}
+                disabled={loading}
+                className="px-4 py-2 rounded-lg text-sm"
+                style={{ border: '1px solid var(--border)', color: 'var(--foreground)' }}
+              >
+                Save draft
+              </button>
+            )}
+            <button
+              onClick={() => void handlePreview()}
+              disabled={loading}
+              className="px-4 py-2 rounded-lg text-sm"
+              style={{ border: '1px solid var(--border)', color: 'var(--foreground)' }}
+            >
+              Preview
+            </button>
+            <button
+              onClick={() => void handleTest()}
+              disabled={loading}
+              className="px-4 py-2 rounded-lg text-sm"
+              style={{ border: '1px solid var(--border)', color: 'var(--foreground)' }}
+            >
+              Send test to me
+            </button>
+            {!readOnly && (
+              <button
+                onClick={() => void handleSend()}
+                disabled={loading || subscriberCount === 0}
+                className="px-4 py-2 rounded-lg text-sm font-medium"
+                style={{ background: 'var(--primary)', color: 'var(--background)' }}
+              >
+                Send to {subscriberCount} subscribers
+              </button>
+            )}
+          </div>
+        </div>
+
+        {preview && (
+          <iframe
+            title="Newsletter preview"
+            srcDoc={preview}
+            sandbox=""
+            className="w-full h-[700px] rounded-lg border"
+            style={{ borderColor: 'var(--border)', background: '#ffffff' }}
+          />
+        )}
+      </div>
+
+      {/* Campaigns */}
+      <aside className="lg:w-80 flex-shrink-0">
+        <div
+          className="rounded-lg border overflow-hidden divide-y"
+          style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+        >
+          {campaigns.length > 0 ? (
+            campaigns.map((campaign) => (
+              <button
+                key={campaign.id}
+                onClick={() => openCampaign(campaign)}
+                className="block w-full p-4 text-left"
+                style={{
+                  background:
+                    campaign.id === campaignId ? 'var(--surface-elevated)' : 'transparent',
+                  color: 'var(--foreground)',
+                }}
+              >
+                <div className="font-medium truncate">{campaign.subject}</div>
+                <div className="flex flex-wrap gap-2 text-xs mt-1" style={{ opacity: 0.7 }}>
+                  <span className="capitalize" style={{ color: statusColors[campaign.status] }}>
+                    {campaign.status}
+                  </span>
+                  <span>{formatRelativeTime(campaign.sent_at ?? campaign.created_at)}</span>
+                </div>
+                {campaign.status !== 'draft' && (
+                  <div className="text-xs mt-1" style={{ opacity: 0.7 }}>
+                    {campaign.stats.sent} sent · {campaign.stats.queued} queued ·{' '}
+                    {campaign.stats.failed} failed
+                  </div>
+                )}
+              </button>
+            ))
+          ) : (
+            <p className="p-4 text-sm" style={{ color: 'var(--foreground)', opacity: 0.6 }}>
+              No campaigns yet.
+            </p>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
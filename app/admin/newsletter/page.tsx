@@ -0,0 +1,44 @@
+import { createClient } from '@/lib/supabase/server';
+import { listCampaigns } from '@/lib/newsletter/campaigns';
+import CampaignComposer from './CampaignComposer';
+
+export default async function NewsletterPage() {
+  const supabase = await createClient();
+
+  const [campaigns, { data: posts }, { count: subscriberCount }] = await Promise.all([
+    listCampaigns(),
+    supabase
+      .from('posts')
+      .select('id, title, published_at')
+      .eq('status', 'published')
+      .order('published_at', { ascending: false })
+      .limit(30),
+    supabase
+      .from('newsletter_subscribers')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'active'),
+  ]);
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1
+          className="text-3xl font-bold"
+          style={{ fontFamily: 'var(--font-kindergarten)', color: 'var(--accent)' }}
+        >
+          Newsletter
+        </h1>
+        <p style={{ color: 'var(--foreground)', opacity: 0.7, fontFamily: 'var(--font-body)' }}>
+          Compose a newsletter from recent posts, send yourself a test, then send it to{' '}
+          {subscriberCount ?? 0} active subscribers.
+        </p>
+      </div>
+
+      <CampaignComposer
+        campaigns={campaigns}
+        posts={posts || []}
+        subscriberCount={subscriberCount ?? 0}
+      />
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { toast } from 'react-hot-toast';
 import { createClient } from '@/lib/supabase/client';
+import { fetchWithCsrf } from '@/lib/security/csrf-client';
 
 interface PostModerationActionsProps {
   postId: string;
@@ -20,15 +21,17 @@ export default function PostModerationActions({ postId, postTitle }: PostModerat
   const handlePublish = async () => {
     setLoading(true);
     try {
-      const { error } = await supabase
-        .from('posts')
-        .update({
-          status: 'published',
-          published_at: new Date().toISOString(),
-        })
-        .eq('id', postId);
+      // Publish through the moderation API so the change is audited
+      const response = await fetchWithCsrf(`/api/admin/posts/${postId}/moderate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'approve' }),
+      });
 
-      if (error) throw error;
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to publish post');
+      }
 
       toast.success(`"${postTitle}" has been published!`);
       router.refresh();
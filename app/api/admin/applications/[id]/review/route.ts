@@ -7,6 +7,8 @@ import {
   requireEditor,
 } from '@/lib/api';
 import { approveApplication, rejectApplication } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/audit';
+import { withRouteHandler } from '@/lib/api/route-wrapper';
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -15,7 +17,7 @@ interface RouteContext {
 // ============================================================================
 // POST /api/admin/applications/[id]/review - Review an application
 // ============================================================================
-export async function POST(request: NextRequest, context: RouteContext) {
+const postHandler = async (request: NextRequest, context: RouteContext) => {
   try {
     const { user } = await requireEditor();
     const { id } = await context.params;
@@ -30,6 +32,19 @@ export async function POST(request: NextRequest, context: RouteContext) {
       application = await rejectApplication(id, user.id, body.notes);
     }
 
+    // approve/reject only succeed on pending applications
+    await recordAuditEvent({
+      action: body.action === 'approve' ? 'application.approve' : 'application.reject',
+      actorId: user.id,
+      target: { type: 'application', id },
+      before: { status: 'pending' },
+      after: { status: application.status },
+      metadata: {
+        applicant_id: application.user_id,
+        ...(body.notes && { notes: body.notes }),
+      },
+    });
+
     return success({
       application,
       message: `Application ${body.action}d successfully`,
@@ -37,10 +52,6 @@ export async function POST(request: NextRequest, context: RouteContext) {
   } catch (err) {
     return handleApiError(err);
   }
-}
-
-
-
-
-
+};
 
+export const POST = withRouteHandler(postHandler, { logRequest: true });
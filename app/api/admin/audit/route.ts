@@ -0,0 +1,38 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, parseParams, listAuditLogsSchema, requireAdmin } from '@/lib/api';
+import { listAuditLogs } from '@/lib/db';
+
+// ============================================================================
+// GET /api/admin/audit - Browse the audit log (admin only)
+// ============================================================================
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin();
+
+    const { searchParams } = new URL(request.url);
+    const params = parseParams(searchParams, listAuditLogsSchema);
+
+    const { logs, total } = await listAuditLogs({
+      actorId: params.actor,
+      actions: params.action,
+      targetType: params.target_type,
+      targetId: params.target_id,
+      from: params.from,
+      to: params.to,
+      page: params.page,
+      limit: params.limit,
+    });
+
+    return success({
+      logs,
+      pagination: {
+        page: params.page,
+        limit: params.limit,
+        total,
+        totalPages: Math.ceil(total / params.limit),
+      },
+    });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
@@ -0,0 +1,22 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, parseBody, retryEmailSchema, requireAdmin } from '@/lib/api';
+import { retryDeadEmails } from '@/lib/email/queue';
+import { withRouteHandler } from '@/lib/api/route-wrapper';
+
+// ============================================================================
+// POST /api/admin/email-queue/retry - Requeue dead emails (admin only)
+// ============================================================================
+const postHandler = async (request: NextRequest) => {
+  try {
+    await requireAdmin();
+
+    const { id } = await parseBody(request, retryEmailSchema);
+    const retried = await retryDeadEmails(id);
+
+    return success({ retried });
+  } catch (err) {
+    return handleApiError(err);
+  }
+};
+
+export const POST = withRouteHandler(postHandler, { logRequest: true });
@@ -0,0 +1,30 @@
+import { type NextRequest } from 'next/server';
+import {
+  success,
+  handleApiError,
+  parseParams,
+  listEmailQueueSchema,
+  requireAdmin,
+} from '@/lib/api';
+import { getQueueStats, listEmailJobs } from '@/lib/email/queue';
+
+// ============================================================================
+// GET /api/admin/email-queue - Queue stats and recent emails (admin only)
+// ============================================================================
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin();
+
+    const { searchParams } = new URL(request.url);
+    const params = parseParams(searchParams, listEmailQueueSchema);
+
+    const [stats, emails] = await Promise.all([
+      getQueueStats(),
+      listEmailJobs(params.status, params.limit),
+    ]);
+
+    return success({ stats, emails });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
@@ -0,0 +1,55 @@
+import { type NextRequest } from 'next/server';
+import {
+  success,
+  handleApiError,
+  parseBody,
+  parseParams,
+  listEmailSuppressionsSchema,
+  removeEmailSuppressionSchema,
+  requireAdmin,
+} from '@/lib/api';
+import {
+  getSuppressionCounts,
+  listSuppressions,
+  removeSuppression,
+} from '@/lib/email/suppressions';
+import { withRouteHandler } from '@/lib/api/route-wrapper';
+
+// ============================================================================
+// GET /api/admin/email-suppressions - Bounced and complained addresses (admin only)
+// ============================================================================
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin();
+
+    const { searchParams } = new URL(request.url);
+    const params = parseParams(searchParams, listEmailSuppressionsSchema);
+
+    const [counts, suppressions] = await Promise.all([
+      getSuppressionCounts(),
+      listSuppressions(params),
+    ]);
+
+    return success({ counts, suppressions });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
+
+// ============================================================================
+// DELETE /api/admin/email-suppressions - Let an address receive email again (admin only)
+// ============================================================================
+const deleteHandler = async (request: NextRequest) => {
+  try {
+    await requireAdmin();
+
+    const { email } = await parseBody(request, removeEmailSuppressionSchema);
+    await removeSuppression(email);
+
+    return success({ email });
+  } catch (err) {
+    return handleApiError(err);
+  }
+};
+
+export const DELETE = withRouteHandler(deleteHandler, { logRequest: true });
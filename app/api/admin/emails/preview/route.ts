@@ -0,0 +1,21 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, parseBody, emailPreviewSchema, requireAdmin } from '@/lib/api';
+import { renderEmailPreview } from '@/lib/email/previews';
+import { withRouteHandler } from '@/lib/api/route-wrapper';
+
+// ============================================================================
+// POST /api/admin/emails/preview - Render a template with sample data (admin only)
+// ============================================================================
+const postHandler = async (request: NextRequest) => {
+  try {
+    await requireAdmin();
+
+    const { template, data } = await parseBody(request, emailPreviewSchema);
+
+    return success(renderEmailPreview(template, data));
+  } catch (err) {
+    return handleApiError(err);
+  }
+};
+
+export const POST = withRouteHandler(postHandler);
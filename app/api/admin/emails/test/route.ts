@@ -0,0 +1,30 @@
+import { type NextRequest } from 'next/server';
+import {
+  success,
+  handleApiError,
+  parseBody,
+  emailPreviewSchema,
+  requireAdmin,
+  rateLimitByUser,
+} from '@/lib/api';
+import { sendEmailPreview } from '@/lib/email/previews';
+import { withRouteHandler } from '@/lib/api/route-wrapper';
+
+// ============================================================================
+// POST /api/admin/emails/test - Email a rendered template to yourself (admin only)
+// ============================================================================
+const postHandler = async (request: NextRequest) => {
+  try {
+    const { user } = await requireAdmin();
+    rateLimitByUser(user.id, { maxRequests: 10, windowMs: 60 * 60 * 1000 });
+
+    const { template, data } = await parseBody(request, emailPreviewSchema);
+    await sendEmailPreview(template, data, user.email);
+
+    return success({ message: `Test email sent to ${user.email}` });
+  } catch (err) {
+    return handleApiError(err);
+  }
+};
+
+export const POST = withRouteHandler(postHandler, { logRequest: true });
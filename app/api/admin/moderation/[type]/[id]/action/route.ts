@@ -0,0 +1,44 @@
+import { type NextRequest } from 'next/server';
+import {
+  success,
+  handleApiError,
+  parseBody,
+  moderationActionSchema,
+  moderationItemTypeSchema,
+  requireEditor,
+  ApiError,
+} from '@/lib/api';
+import { applyModerationAction } from '@/lib/moderation';
+
+interface RouteContext {
+  params: Promise<{ type: string; id: string }>;
+}
+
+// ============================================================================
+// POST /api/admin/moderation/[type]/[id]/action - Approve, reject or hide an item
+// ============================================================================
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { user } = await requireEditor();
+    const { type, id } = await context.params;
+
+    const itemType = moderationItemTypeSchema.safeParse(type);
+    if (!itemType.success) {
+      throw ApiError.notFound('Moderation item type');
+    }
+
+    const body = await parseBody(request, moderationActionSchema);
+
+    await applyModerationAction({
+      type: itemType.data,
+      id,
+      action: body.action,
+      moderatorId: user.id,
+      reason: body.reason,
+    });
+
+    return success({ message: `Item ${body.action === 'hide' ? 'hidden' : `${body.action}d`}` });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
@@ -0,0 +1,69 @@
+import { type NextRequest } from 'next/server';
+import {
+  success,
+  handleApiError,
+  parseBody,
+  assignModerationSchema,
+  moderationItemTypeSchema,
+  requireEditor,
+  ApiError,
+} from '@/lib/api';
+import { assignModerationItem, releaseModerationItem } from '@/lib/db';
+
+interface RouteContext {
+  params: Promise<{ type: string; id: string }>;
+}
+
+async function parseItem(context: RouteContext) {
+  const { type, id } = await context.params;
+  const parsed = moderationItemTypeSchema.safeParse(type);
+
+  if (!parsed.success) {
+    throw ApiError.notFound('Moderation item type');
+  }
+
+  return { type: parsed.data, id };
+}
+
+// ============================================================================
+// POST /api/admin/moderation/[type]/[id]/assign - Assign an item to a moderator
+// ============================================================================
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { user } = await requireEditor();
+    const { type, id } = await parseItem(context);
+
+    const body = await parseBody(request, assignModerationSchema);
+
+    if (body.force && user.role !== 'admin' && user.role !== 'superadmin') {
+      throw ApiError.forbidden('Only admins can take over assigned items');
+    }
+
+    const assignment = await assignModerationItem(type, id, body.moderator_id ?? user.id, user.id, {
+      force: body.force,
+    });
+
+    return success({ assignment });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
+
+// ============================================================================
+// DELETE /api/admin/moderation/[type]/[id]/assign - Release an item
+// ============================================================================
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { user } = await requireEditor();
+    const { type, id } = await parseItem(context);
+
+    // Admins can release items held by anyone
+    await releaseModerationItem(type, id, user.id, {
+      force: user.role === 'admin' || user.role === 'superadmin',
+    });
+
+    return success({ message: 'Item released' });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
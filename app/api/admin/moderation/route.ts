@@ -0,0 +1,26 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, parseParams, moderationQueueSchema, requireEditor } from '@/lib/api';
+import { getModerationQueue } from '@/lib/moderation';
+
+// ============================================================================
+// GET /api/admin/moderation - Unified moderation queue
+// ============================================================================
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireEditor();
+
+    const { searchParams } = new URL(request.url);
+    const params = parseParams(searchParams, moderationQueueSchema);
+
+    const { items, total } = await getModerationQueue({
+      type: params.type,
+      assigned: params.assigned,
+      moderatorId: user.id,
+      limit: params.limit,
+    });
+
+    return success({ items, total });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
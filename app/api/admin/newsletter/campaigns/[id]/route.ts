@@ -0,0 +1,44 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, parseBody, updateCampaignSchema, requireAdmin } from '@/lib/api';
+import { getCampaign, renderCampaign, updateCampaign } from '@/lib/newsletter/campaigns';
+import { withRouteHandler } from '@/lib/api/route-wrapper';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// GET /api/admin/newsletter/campaigns/[id] - Get a campaign with its rendered preview (admin only)
+// ============================================================================
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    await requireAdmin();
+
+    const { id } = await context.params;
+    const campaign = await getCampaign(id);
+    const { html } = await renderCampaign(campaign);
+
+    return success({ campaign, preview: html });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
+
+// ============================================================================
+// PUT /api/admin/newsletter/campaigns/[id] - Edit a draft campaign (admin only)
+// ============================================================================
+const putHandler = async (request: NextRequest, context: RouteContext) => {
+  try {
+    await requireAdmin();
+
+    const { id } = await context.params;
+    const body = await parseBody(request, updateCampaignSchema);
+    const campaign = await updateCampaign(id, body);
+
+    return success(campaign);
+  } catch (err) {
+    return handleApiError(err);
+  }
+};
+
+export const PUT = withRouteHandler(putHandler, { logRequest: true });
@@ -0,0 +1,26 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, requireAdmin } from '@/lib/api';
+import { sendCampaign } from '@/lib/newsletter/campaigns';
+import { withRouteHandler } from '@/lib/api/route-wrapper';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// POST /api/admin/newsletter/campaigns/[id]/send - Send a draft to all active subscribers (admin only)
+// ============================================================================
+const postHandler = async (request: NextRequest, context: RouteContext) => {
+  try {
+    const { user } = await requireAdmin();
+
+    const { id } = await context.params;
+    const { queued } = await sendCampaign(id, user.id);
+
+    return success({ queued, message: `Campaign queued for ${queued} subscribers` });
+  } catch (err) {
+    return handleApiError(err);
+  }
+};
+
+export const POST = withRouteHandler(postHandler, { logRequest: true });
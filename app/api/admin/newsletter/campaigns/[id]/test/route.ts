@@ -0,0 +1,27 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, requireAdmin, rateLimitByUser } from '@/lib/api';
+import { sendCampaignTest } from '@/lib/newsletter/campaigns';
+import { withRouteHandler } from '@/lib/api/route-wrapper';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// POST /api/admin/newsletter/campaigns/[id]/test - Email the campaign to yourself (admin only)
+// ============================================================================
+const postHandler = async (request: NextRequest, context: RouteContext) => {
+  try {
+    const { user } = await requireAdmin();
+    rateLimitByUser(user.id, { maxRequests: 10, windowMs: 60 * 60 * 1000 });
+
+    const { id } = await context.params;
+    await sendCampaignTest(id, user.email);
+
+    return success({ message: `Test email sent to ${user.email}` });
+  } catch (err) {
+    return handleApiError(err);
+  }
+};
+
+export const POST = withRouteHandler(postHandler, { logRequest: true });
@@ -0,0 +1,44 @@
+import { type NextRequest } from 'next/server';
+import {
+  success,
+  created,
+  handleApiError,
+  parseBody,
+  createCampaignSchema,
+  requireAdmin,
+} from '@/lib/api';
+import { createCampaign, listCampaigns } from '@/lib/newsletter/campaigns';
+import { withRouteHandler } from '@/lib/api/route-wrapper';
+
+// ============================================================================
+// GET /api/admin/newsletter/campaigns - List campaigns with delivery stats (admin only)
+// ============================================================================
+export async function GET() {
+  try {
+    await requireAdmin();
+
+    const campaigns = await listCampaigns();
+
+    return success(campaigns);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
+
+// ============================================================================
+// POST /api/admin/newsletter/campaigns - Create a draft campaign (admin only)
+// ============================================================================
+const postHandler = async (request: NextRequest) => {
+  try {
+    const { user } = await requireAdmin();
+
+    const body = await parseBody(request, createCampaignSchema);
+    const campaign = await createCampaign(body, user.id);
+
+    return created(campaign);
+  } catch (err) {
+    return handleApiError(err);
+  }
+};
+
+export const POST = withRouteHandler(postHandler, { logRequest: true });
@@ -1,6 +1,8 @@
 import { type NextRequest } from 'next/server';
 import { success, handleApiError, parseBody, moderatePostSchema, requireEditor } from '@/lib/api';
-import { updatePostStatus, toggleFeatured } from '@/lib/db';
+import { getPostById, updatePostStatus, toggleFeatured } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/audit';
+import { withRouteHandler } from '@/lib/api/route-wrapper';
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -9,16 +11,17 @@ interface RouteContext {
 // ============================================================================
 // POST /api/admin/posts/[id]/moderate - Moderate a post
 // ============================================================================
-export async function POST(request: NextRequest, context: RouteContext) {
+const postHandler = async (request: NextRequest, context: RouteContext) => {
   try {
     const { id } = await context.params;
-    await requireEditor();
+    const { user } = await requireEditor();
 
     const body = await parseBody(request, moderatePostSchema.omit({ post_id: true }));
 
     let post;
 
     switch (body.action) {
+      // Status changes are audited by updatePostStatus
       case 'approve':
         post = await updatePostStatus(id, 'published');
         break;
@@ -30,20 +33,24 @@ export async function POST(request: NextRequest, context: RouteContext) {
         break;
 
       case 'feature':
-        post = await toggleFeatured(id);
-        if (!post.is_featured) {
-          // If we wanted to feature but it got unfeatured, feature it again
-          post = await toggleFeatured(id);
-        }
-        break;
+      case 'unfeature': {
+        const featured = body.action === 'feature';
+        post = await getPostById(id);
 
-      case 'unfeature':
-        post = await toggleFeatured(id);
-        if (post.is_featured) {
-          // If we wanted to unfeature but it got featured, unfeature it again
+        if (post.is_featured !== featured) {
           post = await toggleFeatured(id);
+
+          await recordAuditEvent({
+            action: 'post.feature',
+            actorId: user.id,
+            target: { type: 'post', id },
+            before: { is_featured: !featured },
+            after: { is_featured: featured },
+            metadata: { title: post.title },
+          });
         }
         break;
+      }
 
       case 'archive':
         post = await updatePostStatus(id, 'archived');
@@ -60,10 +67,6 @@ export async function POST(request: NextRequest, context: RouteContext) {
   } catch (err) {
     return handleApiError(err);
   }
-}
-
-
-
-
-
+};
 
+export const POST = withRouteHandler(postHandler, { logRequest: true });
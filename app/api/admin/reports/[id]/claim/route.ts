@@ -0,0 +1,23 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, requireEditor } from '@/lib/api';
+import { claimReport } from '@/lib/db';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// POST /api/admin/reports/[id]/claim - Claim a pending report for review
+// ============================================================================
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { user } = await requireEditor();
+    const { id } = await context.params;
+
+    const report = await claimReport(id, user.id);
+
+    return success({ report, message: 'Report claimed' });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
@@ -0,0 +1,37 @@
+import { type NextRequest } from 'next/server';
+import {
+  success,
+  handleApiError,
+  parseBody,
+  reviewReportSchema,
+  requireEditor,
+} from '@/lib/api';
+import { resolveReport, dismissReport } from '@/lib/db';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// POST /api/admin/reports/[id]/review - Resolve or dismiss a report
+// ============================================================================
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { user } = await requireEditor();
+    const { id } = await context.params;
+
+    const body = await parseBody(request, reviewReportSchema);
+
+    const report =
+      body.action === 'resolve'
+        ? await resolveReport(id, user.id, body.resolution as string, body.notes)
+        : await dismissReport(id, user.id, body.notes);
+
+    return success({
+      report,
+      message: body.action === 'resolve' ? 'Report resolved' : 'Report dismissed',
+    });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
@@ -0,0 +1,23 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, requireEditor } from '@/lib/api';
+import { getReportById } from '@/lib/db';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// GET /api/admin/reports/[id] - Get a single report
+// ============================================================================
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    await requireEditor();
+
+    const { id } = await context.params;
+    const report = await getReportById(id);
+
+    return success(report);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
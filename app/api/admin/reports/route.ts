@@ -0,0 +1,38 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, parseParams, listReportsSchema, requireEditor } from '@/lib/api';
+import { listReports, getReportStats } from '@/lib/db';
+
+// ============================================================================
+// GET /api/admin/reports - List content reports
+// ============================================================================
+export async function GET(request: NextRequest) {
+  try {
+    await requireEditor();
+
+    const { searchParams } = new URL(request.url);
+    const params = parseParams(searchParams, listReportsSchema);
+
+    const [{ reports, total }, stats] = await Promise.all([
+      listReports({
+        status: params.status,
+        targetType: params.target_type,
+        page: params.page,
+        limit: params.limit,
+      }),
+      getReportStats(),
+    ]);
+
+    return success({
+      reports,
+      pagination: {
+        page: params.page,
+        limit: params.limit,
+        total,
+        totalPages: Math.ceil(total / params.limit),
+      },
+      stats,
+    });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
@@ -0,0 +1,31 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, parseBody, banUserSchema, requireAdmin } from '@/lib/api';
+import { banUser } from '@/lib/suspensions';
+import { withRouteHandler } from '@/lib/api/route-wrapper';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// POST /api/admin/users/[id]/ban - Ban a user (admin only)
+// ============================================================================
+const postHandler = async (request: NextRequest, context: RouteContext) => {
+  try {
+    const { user } = await requireAdmin();
+    const { id } = await context.params;
+
+    const body = await parseBody(request, banUserSchema.omit({ user_id: true }));
+
+    const profile = await banUser({ userId: id, moderatorId: user.id, reason: body.reason });
+
+    return success({
+      profile,
+      message: 'User banned',
+    });
+  } catch (err) {
+    return handleApiError(err);
+  }
+};
+
+export const POST = withRouteHandler(postHandler, { logRequest: true });
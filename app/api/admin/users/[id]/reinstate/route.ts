@@ -0,0 +1,29 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, requireAdmin } from '@/lib/api';
+import { reinstateUser } from '@/lib/suspensions';
+import { withRouteHandler } from '@/lib/api/route-wrapper';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// POST /api/admin/users/[id]/reinstate - Lift a suspension or ban (admin only)
+// ============================================================================
+const postHandler = async (request: NextRequest, context: RouteContext) => {
+  try {
+    const { user } = await requireAdmin();
+    const { id } = await context.params;
+
+    const profile = await reinstateUser({ userId: id, moderatorId: user.id });
+
+    return success({
+      profile,
+      message: 'User reinstated',
+    });
+  } catch (err) {
+    return handleApiError(err);
+  }
+};
+
+export const POST = withRouteHandler(postHandler, { logRequest: true });
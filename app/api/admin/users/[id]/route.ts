@@ -8,6 +8,8 @@ import {
   ApiError,
 } from '@/lib/api';
 import { getProfileById, updateUserRole } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/audit';
+import { withRouteHandler } from '@/lib/api/route-wrapper';
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -32,7 +34,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
 // ============================================================================
 // PUT /api/admin/users/[id] - Update user role (admin only)
 // ============================================================================
-export async function PUT(request: NextRequest, context: RouteContext) {
+const putHandler = async (request: NextRequest, context: RouteContext) => {
   try {
     const { user: adminUser } = await requireAdmin();
     const { id } = await context.params;
@@ -44,8 +46,20 @@ export async function PUT(request: NextRequest, context: RouteContext) {
 
     const body = await parseBody(request, updateUserRoleSchema.omit({ user_id: true }));
 
+    const previous = await getProfileById(id);
     const profile = await updateUserRole(id, body.role);
 
+    if (previous.role !== profile.role) {
+      await recordAuditEvent({
+        action: 'user.role_change',
+        actorId: adminUser.id,
+        target: { type: 'user', id },
+        before: { role: previous.role },
+        after: { role: profile.role },
+        metadata: { username: profile.username },
+      });
+    }
+
     return success({
       profile,
       message: `User role updated to ${body.role}`,
@@ -53,10 +67,6 @@ export async function PUT(request: NextRequest, context: RouteContext) {
   } catch (err) {
     return handleApiError(err);
   }
-}
-
-
-
-
-
+};
 
+export const PUT = withRouteHandler(putHandler, { logRequest: true });
@@ -0,0 +1,36 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, parseBody, suspendUserSchema, requireAdmin } from '@/lib/api';
+import { suspendUser } from '@/lib/suspensions';
+import { withRouteHandler } from '@/lib/api/route-wrapper';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// POST /api/admin/users/[id]/suspend - Suspend a user (admin only)
+// ============================================================================
+const postHandler = async (request: NextRequest, context: RouteContext) => {
+  try {
+    const { user } = await requireAdmin();
+    const { id } = await context.params;
+
+    const body = await parseBody(request, suspendUserSchema.omit({ user_id: true }));
+
+    const profile = await suspendUser({
+      userId: id,
+      moderatorId: user.id,
+      durationDays: body.duration_days,
+      reason: body.reason,
+    });
+
+    return success({
+      profile,
+      message: `User suspended until ${profile.suspended_until}`,
+    });
+  } catch (err) {
+    return handleApiError(err);
+  }
+};
+
+export const POST = withRouteHandler(postHandler, { logRequest: true });
@@ -0,0 +1,65 @@
+import { type NextRequest } from 'next/server';
+import {
+  success,
+  handleApiError,
+  parseBody,
+  requireAuth,
+  rateLimitByUser,
+  updateBookmarkSchema,
+} from '@/lib/api';
+import { getBookmark, updateBookmark, deleteBookmark } from '@/lib/db';
+
+interface RouteContext {
+  params: Promise<{ postId: string }>;
+}
+
+// ============================================================================
+// GET /api/bookmarks/[postId] - Whether the current user has saved a post
+// ============================================================================
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { user } = await requireAuth();
+    const { postId } = await context.params;
+
+    const bookmark = await getBookmark(user.id, postId);
+
+    return success({ bookmarked: !!bookmark, bookmark });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
+
+// ============================================================================
+// PATCH /api/bookmarks/[postId] - Move a bookmark to a collection or edit its note
+// ============================================================================
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { user } = await requireAuth();
+    const { postId } = await context.params;
+
+    const body = await parseBody(request, updateBookmarkSchema);
+    const bookmark = await updateBookmark(user.id, postId, body);
+
+    return success(bookmark);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
+
+// ============================================================================
+// DELETE /api/bookmarks/[postId] - Remove a saved post
+// ============================================================================
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { user } = await requireAuth();
+
+    rateLimitByUser(user.id, { maxRequests: 60, windowMs: 60000 });
+
+    const { postId } = await context.params;
+    await deleteBookmark(user.id, postId);
+
+    return success({ bookmarked: false });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
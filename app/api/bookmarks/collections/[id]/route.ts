@@ -0,0 +1,46 @@
+import { type NextRequest } from 'next/server';
+import {
+  success,
+  handleApiError,
+  parseBody,
+  requireAuth,
+  bookmarkCollectionSchema,
+} from '@/lib/api';
+import { updateCollection, deleteCollection } from '@/lib/db';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// PUT /api/bookmarks/collections/[id] - Rename a collection
+// ============================================================================
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const { user } = await requireAuth();
+    const { id } = await context.params;
+
+    const body = await parseBody(request, bookmarkCollectionSchema);
+    await updateCollection(user.id, id, body);
+
+    return success({ id, ...body });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
+
+// ============================================================================
+// DELETE /api/bookmarks/collections/[id] - Delete a collection, keeping its bookmarks
+// ============================================================================
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { user } = await requireAuth();
+    const { id } = await context.params;
+
+    await deleteCollection(user.id, id);
+
+    return success({ deleted: true });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
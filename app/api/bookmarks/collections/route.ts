@@ -0,0 +1,44 @@
+import { type NextRequest } from 'next/server';
+import {
+  success,
+  created,
+  handleApiError,
+  parseBody,
+  requireAuth,
+  rateLimitByUser,
+  bookmarkCollectionSchema,
+} from '@/lib/api';
+import { listCollections, createCollection } from '@/lib/db';
+
+// ============================================================================
+// GET /api/bookmarks/collections - List the current user's collections
+// ============================================================================
+export async function GET() {
+  try {
+    const { user } = await requireAuth();
+
+    const collections = await listCollections(user.id);
+
+    return success(collections);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
+
+// ============================================================================
+// POST /api/bookmarks/collections - Create a collection
+// ============================================================================
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireAuth();
+
+    rateLimitByUser(user.id, { maxRequests: 20, windowMs: 60000 });
+
+    const body = await parseBody(request, bookmarkCollectionSchema);
+    const collection = await createCollection(user.id, body);
+
+    return created(collection);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
@@ -0,0 +1,53 @@
+import { type NextRequest } from 'next/server';
+import {
+  created,
+  paginated,
+  handleApiError,
+  parseBody,
+  parseParams,
+  requireAuth,
+  rateLimitByUser,
+  createBookmarkSchema,
+  listBookmarksSchema,
+} from '@/lib/api';
+import { listBookmarks, createBookmark } from '@/lib/db';
+
+// ============================================================================
+// GET /api/bookmarks - List the current user's saved posts
+// ============================================================================
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth();
+
+    const { searchParams } = new URL(request.url);
+    const params = parseParams(searchParams, listBookmarksSchema);
+
+    const { bookmarks, total } = await listBookmarks(user.id, params);
+
+    return paginated(bookmarks, {
+      page: params.page,
+      limit: params.limit,
+      total,
+    });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
+
+// ============================================================================
+// POST /api/bookmarks - Save a post
+// ============================================================================
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireAuth();
+
+    rateLimitByUser(user.id, { maxRequests: 60, windowMs: 60000 });
+
+    const body = await parseBody(request, createBookmarkSchema);
+    const bookmark = await createBookmark(user.id, body);
+
+    return created(bookmark);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
@@ -0,0 +1,52 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, requireAuth, rateLimitByUser, ApiError } from '@/lib/api';
+import { getCategoryBySlug, followCategory, unfollowCategory } from '@/lib/db';
+
+interface RouteContext {
+  params: Promise<{ slug: string }>;
+}
+
+async function getCategoryId(context: RouteContext): Promise<string> {
+  const { slug } = await context.params;
+  const category = await getCategoryBySlug(slug);
+
+  if (!category) {
+    throw ApiError.notFound('Category');
+  }
+
+  return category.id;
+}
+
+// ============================================================================
+// POST /api/categories/[slug]/follow - Follow a category
+// ============================================================================
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { user } = await requireAuth();
+
+    rateLimitByUser(user.id, { maxRequests: 30, windowMs: 60000 });
+
+    await followCategory(user.id, await getCategoryId(context));
+
+    return success({ following: true });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
+
+// ============================================================================
+// DELETE /api/categories/[slug]/follow - Unfollow a category
+// ============================================================================
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { user } = await requireAuth();
+
+    rateLimitByUser(user.id, { maxRequests: 30, windowMs: 60000 });
+
+    await unfollowCategory(user.id, await getCategoryId(context));
+
+    return success({ following: false });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
@@ -0,0 +1,21 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, requireCronSecret } from '@/lib/api';
+import { reinstateExpiredSuspensions } from '@/lib/suspensions';
+
+// ============================================================================
+// POST /api/cron/expire-suspensions - Reinstate users whose suspension has ended
+// ============================================================================
+export async function POST(request: NextRequest) {
+  try {
+    requireCronSecret(request);
+
+    const result = await reinstateExpiredSuspensions();
+
+    return success({
+      reinstated: result.reinstated.length,
+      userIds: result.reinstated,
+    });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
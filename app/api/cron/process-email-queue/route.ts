@@ -0,0 +1,18 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, requireCronSecret } from '@/lib/api';
+import { processEmailQueue } from '@/lib/email/queue';
+
+// ============================================================================
+// POST /api/cron/process-email-queue - Send queued emails that are due
+// ============================================================================
+export async function POST(request: NextRequest) {
+  try {
+    requireCronSecret(request);
+
+    const result = await processEmailQueue();
+
+    return success(result);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
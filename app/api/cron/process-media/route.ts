@@ -0,0 +1,22 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, requireCronSecret } from '@/lib/api';
+import { processPendingImages } from '@/lib/media/images';
+import { processPendingVideos } from '@/lib/media/video';
+import { processPendingAudio } from '@/lib/media/audio';
+
+// ============================================================================
+// POST /api/cron/process-media - Generate image variants and transcode video and audio
+// ============================================================================
+export async function POST(request: NextRequest) {
+  try {
+    requireCronSecret(request);
+
+    const images = await processPendingImages();
+    const videos = await processPendingVideos();
+    const audio = await processPendingAudio();
+
+    return success({ images, videos, audio });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
@@ -0,0 +1,22 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, requireCronSecret } from '@/lib/api';
+import { publishScheduledPosts } from '@/lib/scheduler';
+
+// ============================================================================
+// POST /api/cron/publish-scheduled - Publish scheduled posts that are due
+// ============================================================================
+export async function POST(request: NextRequest) {
+  try {
+    requireCronSecret(request);
+
+    const result = await publishScheduledPosts();
+
+    return success({
+      published: result.published.length,
+      failed: result.failed.length,
+      postIds: result.published,
+    });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
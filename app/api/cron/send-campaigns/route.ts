@@ -0,0 +1,22 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, requireCronSecret } from '@/lib/api';
+import { sendCampaignBatch } from '@/lib/newsletter/campaigns';
+
+// ============================================================================
+// POST /api/cron/send-campaigns - Send the next batch of newsletter campaign emails
+// ============================================================================
+export async function POST(request: NextRequest) {
+  try {
+    requireCronSecret(request);
+
+    const result = await sendCampaignBatch();
+
+    return success({
+      sent: result.sent,
+      failed: result.failed,
+      completed: result.completed.length,
+    });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
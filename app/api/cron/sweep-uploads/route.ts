@@ -0,0 +1,18 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, requireCronSecret } from '@/lib/api';
+import { sweepAbandonedUploads } from '@/lib/media/uploads';
+
+// ============================================================================
+// POST /api/cron/sweep-uploads - Delete uploads that were never completed
+// ============================================================================
+export async function POST(request: NextRequest) {
+  try {
+    requireCronSecret(request);
+
+    const result = await sweepAbandonedUploads();
+
+    return success(result);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
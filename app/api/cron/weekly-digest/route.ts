@@ -0,0 +1,22 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, requireCronSecret } from '@/lib/api';
+import { sendWeeklyDigests } from '@/lib/digest';
+
+// ============================================================================
+// POST /api/cron/weekly-digest - Email this week's digest to opted-in users
+// ============================================================================
+export async function POST(request: NextRequest) {
+  try {
+    requireCronSecret(request);
+
+    const result = await sendWeeklyDigests();
+
+    return success({
+      sent: result.sent.length,
+      skipped: result.skipped.length,
+      failed: result.failed.length,
+    });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
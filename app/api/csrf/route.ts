@@ -0,0 +1,19 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError } from '@/lib/api';
+import { withRouteHandler } from '@/lib/api/route-wrapper';
+import { getCsrfToken } from '@/lib/security/csrf';
+
+// ============================================================================
+// GET /api/csrf - Issue a CSRF token for the x-csrf-token header
+// ============================================================================
+const getHandler = async (_request: NextRequest) => {
+  try {
+    const token = await getCsrfToken();
+
+    return success({ token });
+  } catch (err) {
+    return handleApiError(err);
+  }
+};
+
+export const GET = withRouteHandler(getHandler, { logRequest: false });
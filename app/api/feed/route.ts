@@ -0,0 +1,36 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, parseParams, paginationSchema, requireAuth } from '@/lib/api';
+import { getFeed } from '@/lib/db';
+
+// ============================================================================
+// GET /api/feed - Published posts from followed contributors and categories
+// ============================================================================
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth();
+
+    const { searchParams } = new URL(request.url);
+    const params = parseParams(searchParams, paginationSchema);
+
+    const { posts, total, following } = await getFeed(user.id, {
+      page: params.page,
+      limit: params.limit,
+    });
+
+    return success({
+      posts,
+      pagination: {
+        page: params.page,
+        limit: params.limit,
+        total,
+        totalPages: Math.ceil(total / params.limit),
+      },
+      following: {
+        contributors: following.author_ids.length,
+        categories: following.category_ids.length,
+      },
+    });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
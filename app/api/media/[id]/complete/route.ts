@@ -0,0 +1,25 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, requireAuth, rateLimitByUser } from '@/lib/api';
+import { completeUpload } from '@/lib/media/uploads';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// POST /api/media/[id]/complete - Confirm an upload has reached storage
+// ============================================================================
+export async function POST(_request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const { user } = await requireAuth();
+
+    rateLimitByUser(user.id, { maxRequests: 60, windowMs: 3600000 });
+
+    const media = await completeUpload(id, user.id);
+
+    return success({ media });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
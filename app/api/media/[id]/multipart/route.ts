@@ -0,0 +1,65 @@
+import { type NextRequest } from 'next/server';
+import {
+  success,
+  handleApiError,
+  parseBody,
+  presignPartsSchema,
+  requireAuth,
+  rateLimitByUser,
+} from '@/lib/api';
+import { abortUpload, getMultipartProgress, presignUploadParts } from '@/lib/media/uploads';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// GET /api/media/[id]/multipart - Parts uploaded so far, to resume an upload
+// ============================================================================
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const { user } = await requireAuth();
+
+    const progress = await getMultipartProgress(id, user.id);
+
+    return success(progress);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
+
+// ============================================================================
+// POST /api/media/[id]/multipart - Presigned URLs for the given parts
+// ============================================================================
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const { user } = await requireAuth();
+
+    rateLimitByUser(user.id, { maxRequests: 300, windowMs: 3600000 });
+
+    const { partNumbers } = await parseBody(request, presignPartsSchema);
+    const parts = await presignUploadParts(id, user.id, partNumbers);
+
+    return success({ parts });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
+
+// ============================================================================
+// DELETE /api/media/[id]/multipart - Cancel the upload and delete its parts
+// ============================================================================
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const { user } = await requireAuth();
+
+    await abortUpload(id, user.id);
+
+    return success({ message: 'Upload cancelled' });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
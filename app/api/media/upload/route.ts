@@ -1,6 +1,7 @@
 import { type NextRequest } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { r2Client } from '@/lib/r2/client';
+import { r2Client, createMultipartUpload } from '@/lib/r2/client';
+import { MULTIPART_THRESHOLD, multipartPartCount, multipartPartSize } from '@/lib/media/multipart';
 import { PutObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { success, handleApiError, badRequest } from '@/lib/api';
@@ -10,13 +11,14 @@ import { sanitizeFilename } from '@/lib/security/sanitize';
 import { generateRequestId, createContext, clearContext } from '@/lib/logger/context';
 import { logger } from '@/lib/logger';
 import { applySecurityHeaders } from '@/lib/security/headers';
+import { MEDIA_CONSTRAINTS } from '@/lib/constants';
 
 const BUCKET_NAME = process.env.R2_BUCKET_NAME!;
 const MAX_FILE_SIZE = 500 * 1024 * 1024; // 500MB
 
-const ALLOWED_TYPES = {
+const ALLOWED_TYPES: Record<string, readonly string[]> = {
   video: ['video/mp4', 'video/webm', 'video/quicktime', 'video/x-msvideo'],
-  audio: ['audio/mpeg', 'audio/wav', 'audio/ogg', 'audio/aac', 'audio/mp4'],
+  audio: MEDIA_CONSTRAINTS.allowedAudioTypes,
   image: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/avif'],
 };
 
@@ -40,7 +42,7 @@ export async function POST(request: NextRequest) {
     await rateLimitByUser(user.id, { maxRequests: 20, windowMs: 3600000 });
 
     const body = await request.json();
-    const { fileName, fileType, fileSize, mediaType } = body;
+    const { fileName, fileType, fileSize, mediaType, multipart } = body;
 
     // Validate file size
     if (fileSize > MAX_FILE_SIZE) {
@@ -58,19 +60,31 @@ export async function POST(request: NextRequest) {
     const timestamp = Date.now();
     const key = `${mediaType}/${user.id}/${timestamp}-${sanitizedName}`;
 
-    // Generate presigned URL for upload
-    const putCommand = new PutObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-      ContentType: fileType,
-      ContentLength: fileSize,
-      Metadata: {
-        userId: user.id,
-        originalName: fileName,
-      },
-    });
-
-    const uploadUrl = await getSignedUrl(r2Client, putCommand, { expiresIn: 3600 });
+    const metadata = {
+      userId: user.id,
+      originalName: fileName,
+    };
+
+    // Large video and audio go up in parts the browser can resume; parts are
+    // presigned on request through /api/media/[id]/multipart
+    const useMultipart = Boolean(multipart) && mediaType !== 'image' && fileSize > MULTIPART_THRESHOLD;
+    let uploadUrl: string | null = null;
+    let multipartUploadId: string | null = null;
+
+    if (useMultipart) {
+      multipartUploadId = await createMultipartUpload(key, fileType, metadata);
+    } else {
+      // Generate presigned URL for upload
+      const putCommand = new PutObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: key,
+        ContentType: fileType,
+        ContentLength: fileSize,
+        Metadata: metadata,
+      });
+
+      uploadUrl = await getSignedUrl(r2Client, putCommand, { expiresIn: 3600 });
+    }
 
     // Generate the public URL
     const publicUrl = `${process.env.R2_PUBLIC_URL}/${key}`;
@@ -90,6 +104,7 @@ export async function POST(request: NextRequest) {
         storage_key: key,
         url: publicUrl,
         processing_status: 'uploading',
+        multipart_upload_id: multipartUploadId,
       })
       .select()
       .single();
@@ -108,6 +123,9 @@ export async function POST(request: NextRequest) {
       mediaId: media.id,
       publicUrl,
       key,
+      multipart: useMultipart
+        ? { partSize: multipartPartSize(fileSize), partCount: multipartPartCount(fileSize) }
+        : null,
     }, 201);
 
     return applySecurityHeaders(response);
@@ -117,62 +135,3 @@ export async function POST(request: NextRequest) {
     clearContext(requestId);
   }
 }
-
-// Confirm upload completion
-export async function PUT(request: NextRequest) {
-  const requestId = generateRequestId();
-  const startTime = Date.now();
-
-  try {
-    const { requireAuth } = await import('@/lib/api/middleware');
-    const { user } = await requireAuth();
-
-    createContext(requestId, 'PUT', '/api/media/upload', {
-      ip: request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown',
-      userAgent: request.headers.get('user-agent') || undefined,
-      userId: user.id,
-    });
-
-    logger.info('Media upload confirmation', { method: 'PUT', path: '/api/media/upload', userId: user.id }, requestId);
-
-    const body = await request.json();
-    const { mediaId } = body;
-
-    if (!mediaId) {
-      return badRequest('mediaId is required');
-    }
-
-    const supabase = await createClient();
-
-    // Update media status
-    const { data, error } = await supabase
-      .from('media')
-      .update({ processing_status: 'ready' })
-      .eq('id', mediaId)
-      .eq('uploader_id', user.id)
-      .select()
-      .single();
-
-    if (error) {
-      logger.error('Failed to confirm upload', error, { mediaId, userId: user.id }, requestId);
-      throw error;
-    }
-
-    const duration = Date.now() - startTime;
-    logger.performance('mediaUploadConfirm', duration, { mediaId }, requestId);
-    logger.info('Media upload confirmed', { mediaId }, requestId);
-
-    const response = success({ media: data });
-    return applySecurityHeaders(response);
-  } catch (err) {
-    return handleApiError(err, requestId);
-  } finally {
-    clearContext(requestId);
-  }
-}
-
-
-
-
-
-
@@ -1,98 +1,43 @@
-import { createClient } from '@/lib/supabase/server';
-import { NextResponse } from 'next/server';
-import { logger } from '@/lib/logger';
-import { parseBody, newsletterSubscribeSchema, newsletterUnsubscribeSchema } from '@/lib/api';
-
-export async function POST(request: Request) {
-  const { email, source } = await parseBody(request, newsletterSubscribeSchema);
-
-  const supabase = await createClient();
-
-  // Check if already subscribed
-  const { data: existing } = await supabase
-    .from('newsletter_subscribers')
-    .select('id, status')
-    .eq('email', email.toLowerCase())
-    .single();
-
-  if (existing) {
-    if (existing.status === 'active') {
-      return NextResponse.json({ error: 'This email is already subscribed' }, { status: 409 });
-    } else {
-      // Reactivate subscription
-      const { error } = await supabase
-        .from('newsletter_subscribers')
-        .update({ status: 'active', resubscribed_at: new Date().toISOString() })
-        .eq('id', existing.id);
-
-      if (error) {
-        return NextResponse.json(
-          { error: 'Failed to resubscribe. Please try again.' },
-          { status: 500 }
-        );
-      }
-
-      return NextResponse.json(
-        { success: true, message: 'Welcome back! You\'ve been resubscribed.' },
-        { status: 200 }
-      );
-    }
+import { type NextRequest } from 'next/server';
+import {
+  success,
+  handleApiError,
+  parseBody,
+  parseParams,
+  rateLimitByIp,
+  newsletterSubscribeSchema,
+  newsletterUnsubscribeSchema,
+} from '@/lib/api';
+import { subscribeToNewsletter, unsubscribeNewsletterEmail } from '@/lib/newsletter';
+
+// ============================================================================
+// POST /api/newsletter - Subscribe; the subscription starts once confirmed
+// ============================================================================
+export async function POST(request: NextRequest) {
+  try {
+    rateLimitByIp(request, { maxRequests: 5, windowMs: 3600000 });
+
+    const { email, source } = await parseBody(request, newsletterSubscribeSchema);
+
+    await subscribeToNewsletter(email, source);
+
+    return success({ message: 'Check your inbox for a link to confirm your subscription.' }, 202);
+  } catch (err) {
+    return handleApiError(err);
   }
-
-  // Create new subscription
-  const { error } = await supabase
-    .from('newsletter_subscribers')
-    .insert({
-      email: email.toLowerCase(),
-      status: 'active',
-      source: source || 'website',
-    });
-
-  if (error) {
-    logger.error('Newsletter subscription error', error, { email });
-    return NextResponse.json(
-      { error: 'Failed to subscribe. Please try again.' },
-      { status: 500 }
-    );
-  }
-
-  return NextResponse.json(
-    { success: true, message: 'Thanks for subscribing! Check your inbox for updates.' },
-    { status: 201 }
-  );
 }
 
-// Unsubscribe
-export async function DELETE(request: Request) {
-  const { searchParams } = new URL(request.url);
-  const params = newsletterUnsubscribeSchema.safeParse({
-    email: searchParams.get('email'),
-    token: searchParams.get('token') || undefined,
-  });
-
-  if (!params.success) {
-    return NextResponse.json({ error: 'Email is required' }, { status: 400 });
-  }
+// ============================================================================
+// DELETE /api/newsletter?email=&token= - Unsubscribe with the token from an email
+// ============================================================================
+export async function DELETE(request: NextRequest) {
+  try {
+    const { email, token } = parseParams(request.nextUrl.searchParams, newsletterUnsubscribeSchema);
 
-  const email = params.data.email;
-  const supabase = await createClient();
+    await unsubscribeNewsletterEmail(email, token);
 
-  const { error } = await supabase
-    .from('newsletter_subscribers')
-    .update({ status: 'unsubscribed', unsubscribed_at: new Date().toISOString() })
-    .eq('email', email.toLowerCase());
-
-  if (error) {
-    logger.error('Newsletter unsubscribe error', error, { email });
-    return NextResponse.json(
-      { error: 'Failed to unsubscribe. Please try again.' },
-      { status: 500 }
-    );
+    return success({ message: 'You have been unsubscribed.' });
+  } catch (err) {
+    return handleApiError(err);
   }
-
-  return NextResponse.json(
-    { success: true, message: 'You have been unsubscribed.' },
-    { status: 200 }
-  );
 }
-
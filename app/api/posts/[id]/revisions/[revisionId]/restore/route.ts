@@ -0,0 +1,31 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, requirePostOwnership, rateLimitByUser } from '@/lib/api';
+import { restorePostRevision } from '@/lib/db';
+import { invalidatePosts } from '@/lib/cache';
+
+interface RouteContext {
+  params: Promise<{ id: string; revisionId: string }>;
+}
+
+// ============================================================================
+// POST /api/posts/[id]/revisions/[revisionId]/restore - Restore an earlier revision
+// ============================================================================
+export async function POST(_request: NextRequest, context: RouteContext) {
+  try {
+    const { id, revisionId } = await context.params;
+    const { user } = await requirePostOwnership(id);
+
+    rateLimitByUser(user.id, { maxRequests: 10, windowMs: 60000 });
+
+    const post = await restorePostRevision(id, revisionId);
+
+    invalidatePosts();
+
+    return success({
+      post,
+      message: 'Revision restored',
+    });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
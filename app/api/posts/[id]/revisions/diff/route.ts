@@ -0,0 +1,42 @@
+import { type NextRequest } from 'next/server';
+import {
+  success,
+  handleApiError,
+  parseParams,
+  revisionDiffSchema,
+  requirePostOwnership,
+  ApiError,
+} from '@/lib/api';
+import { getPostRevision, getLatestPostRevision } from '@/lib/db';
+import { diffRevisions } from '@/lib/revisions';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// GET /api/posts/[id]/revisions/diff?from=&to= - Structural diff between revisions
+// ============================================================================
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    await requirePostOwnership(id);
+
+    const { from, to } = parseParams(request.nextUrl.searchParams, revisionDiffSchema);
+
+    const fromRevision = await getPostRevision(id, from);
+    const toRevision = to ? await getPostRevision(id, to) : await getLatestPostRevision(id);
+
+    if (!toRevision) {
+      throw ApiError.notFound('Revision');
+    }
+
+    return success({
+      from: { id: fromRevision.id, revision_number: fromRevision.revision_number },
+      to: { id: toRevision.id, revision_number: toRevision.revision_number },
+      ...diffRevisions(fromRevision, toRevision),
+    });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
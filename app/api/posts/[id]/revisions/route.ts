@@ -0,0 +1,23 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, requirePostOwnership } from '@/lib/api';
+import { getPostRevisions } from '@/lib/db';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// GET /api/posts/[id]/revisions - List revisions of a post, newest first
+// ============================================================================
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    await requirePostOwnership(id);
+
+    const revisions = await getPostRevisions(id);
+
+    return success(revisions);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
@@ -52,8 +52,9 @@ const putHandler = async (request: NextRequest, context: RouteContext) => {
     // Rate limit
     rateLimitByUser(user.id, { maxRequests: 30, windowMs: 60000 });
 
-    // Parse and validate body
-    const body = await parseBody(request, updatePostSchema.omit({ id: true }));
+    // Parse and validate body. Status changes go through /status, which
+    // checks who may publish and records them in the audit log.
+    const body = await parseBody(request, updatePostSchema.omit({ id: true, status: true }));
 
     // Update the post
     const post = await updatePost(id, body);
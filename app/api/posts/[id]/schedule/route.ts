@@ -0,0 +1,74 @@
+import { type NextRequest } from 'next/server';
+import {
+  success,
+  handleApiError,
+  parseBody,
+  reschedulePostSchema,
+  requirePostOwnership,
+  rateLimitByUser,
+  ApiError,
+} from '@/lib/api';
+import { reschedulePost, cancelScheduledPost } from '@/lib/db';
+import { withRouteHandler } from '@/lib/api/route-wrapper';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// PUT /api/posts/[id]/schedule - Reschedule a scheduled post (editors/admins)
+// ============================================================================
+const putHandler = async (request: NextRequest, context: RouteContext) => {
+  try {
+    const { id } = await context.params;
+    const { user } = await requirePostOwnership(id);
+
+    // Moving the publish time is scheduling, so it needs the same privileges
+    if (!['editor', 'admin'].includes(user.role)) {
+      throw ApiError.forbidden('Only editors and admins can schedule posts');
+    }
+
+    rateLimitByUser(user.id, { maxRequests: 20, windowMs: 60000 });
+
+    const body = await parseBody(request, reschedulePostSchema);
+
+    const post = await reschedulePost(id, body.scheduled_for);
+
+    return success(post);
+  } catch (err) {
+    return handleApiError(err);
+  }
+};
+
+// ============================================================================
+// DELETE /api/posts/[id]/schedule - Cancel scheduling (returns post to draft)
+// ============================================================================
+const deleteHandler = async (_request: NextRequest, context: RouteContext) => {
+  try {
+    const { id } = await context.params;
+
+    // Owners may take their own post back to draft even though only editors
+    // can choose when it goes out
+    const { user } = await requirePostOwnership(id);
+
+    rateLimitByUser(user.id, { maxRequests: 20, windowMs: 60000 });
+
+    const post = await cancelScheduledPost(id);
+
+    return success({
+      post,
+      message: 'Scheduled publish cancelled',
+    });
+  } catch (err) {
+    return handleApiError(err);
+  }
+};
+
+export const PUT = withRouteHandler(putHandler, {
+  logRequest: true,
+  csrf: true,
+});
+export const DELETE = withRouteHandler(deleteHandler, {
+  logRequest: true,
+  csrf: true,
+});
@@ -50,6 +50,13 @@ export async function PUT(request: NextRequest, context: RouteContext) {
         }
         throw ApiError.forbidden('Only editors and admins can publish posts');
       }
+    } else if (body.status === 'scheduled') {
+      // Scheduling is deferred publishing, so it needs the same privileges
+      const { user } = await requirePostOwnership(id);
+
+      if (!['editor', 'admin'].includes(user.role)) {
+        throw ApiError.forbidden('Only editors and admins can schedule posts');
+      }
     } else if (body.status === 'rejected') {
       // Only editors/admins can reject
       await requireEditor();
@@ -0,0 +1,42 @@
+import { type NextRequest } from 'next/server';
+import {
+  success,
+  handleApiError,
+  parseBody,
+  createReportSchema,
+  requireAuth,
+  rateLimitByUser,
+} from '@/lib/api';
+import { createReport } from '@/lib/db';
+
+// ============================================================================
+// POST /api/reports - Report a post, comment or user
+// ============================================================================
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireAuth();
+
+    // Rate limit reporting
+    rateLimitByUser(user.id, { maxRequests: 10, windowMs: 3600000 }); // 10 per hour
+
+    const body = await parseBody(request, createReportSchema);
+
+    const report = await createReport({
+      reporter_id: user.id,
+      target_type: body.target_type,
+      target_id: body.target_id,
+      reason: body.reason,
+      description: body.description,
+    });
+
+    return success(
+      {
+        report: { id: report.id, status: report.status },
+        message: 'Thanks - a moderator will review your report',
+      },
+      201
+    );
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
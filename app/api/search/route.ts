@@ -1,83 +1,72 @@
 import { type NextRequest } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
-import { success, ApiError, parseParams, searchSchema } from '@/lib/api';
+import { success, parseParams, searchSchema } from '@/lib/api';
 import { withRouteHandler } from '@/lib/api/route-wrapper';
-import { logger } from '@/lib/logger';
-import type { ContentType } from '@/types/database';
+import {
+  searchPosts,
+  searchProfiles,
+  getPostSearchFacets,
+  type FacetCount,
+  type PostSearchFilters,
+  type SearchFacets,
+} from '@/lib/db';
+
+// Long-tail facets (tags, authors) are trimmed to the top values
+const MAX_FACET_VALUES = 15;
+
+/**
+ * Trim a facet to its top values, keeping anything the reader has selected
+ */
+function topValues(values: FacetCount[], selected: string[] = []): FacetCount[] {
+  const top = values.slice(0, MAX_FACET_VALUES);
+  const missing = values.slice(MAX_FACET_VALUES).filter((v) => selected.includes(v.value));
+  return [...top, ...missing];
+}
 
 export const GET = withRouteHandler(async (request: NextRequest) => {
   const { searchParams } = new URL(request.url);
   const params = parseParams(searchParams, searchSchema);
-  const query = params.q;
-  const type = params.content_type;
-  const category = searchParams.get('category');
-  const page = params.page;
-  const limit = params.limit;
-
-  const offset = (page - 1) * limit;
-  const supabase = await createClient();
-
-  // Build search query
-  let dbQuery = supabase
-    .from('posts')
-    .select(
-      `
-      id,
-      title,
-      slug,
-      excerpt,
-      content_type,
-      featured_image_url,
-      reading_time,
-      published_at,
-      reaction_count,
-      view_count,
-      author:profiles(id, username, display_name, avatar_url),
-      category:categories(id, name, slug)
-    `,
-      { count: 'exact' }
-    )
-    .eq('status', 'published')
-    .or(`title.ilike.%${query}%,excerpt.ilike.%${query}%`)
-    .order('published_at', { ascending: false })
-    .range(offset, offset + limit - 1);
+  const { q: query, type, page, limit } = params;
 
-  // Apply filters
-  if (type) {
-    dbQuery = dbQuery.eq('content_type', type as ContentType);
-  }
+  const filters: PostSearchFilters = {
+    contentTypes: params.content_type,
+    categories: params.category,
+    tags: params.tag,
+    authors: params.author,
+    published: params.published,
+  };
 
-  if (category) {
-    const { data: categoryData, error: categoryError } = await supabase
-      .from('categories')
-      .select('id')
-      .eq('slug', category)
-      .single();
+  const includePosts = type !== 'users';
+  const includeUsers = type !== 'posts';
 
-    if (categoryError) {
-      logger.error('Category lookup failed in search', categoryError, { category });
-    }
+  const [posts, facets, users] = await Promise.all([
+    includePosts ? searchPosts({ query, filters, page, limit }) : null,
+    includePosts ? getPostSearchFacets(query, filters) : null,
+    includeUsers ? searchProfiles({ query, page, limit }) : null,
+  ]);
 
-    if (categoryData) {
-      dbQuery = dbQuery.eq('category_id', categoryData.id);
-    }
-  }
+  // Pagination follows posts unless only users were requested
+  const total = (includePosts ? posts?.total : users?.total) ?? 0;
 
-  const { data: posts, error, count } = await dbQuery;
-
-  if (error) {
-    logger.error('Search query error', error, { query, type, category });
-    throw new ApiError('Failed to execute search', 'DATABASE_ERROR', { error: error.message });
-  }
+  const trimmedFacets: SearchFacets | null = facets && {
+    ...facets,
+    category: topValues(facets.category, filters.categories),
+    tag: topValues(facets.tag, filters.tags),
+    author: topValues(facets.author, filters.authors),
+  };
 
   return success({
-    results: posts,
+    results: posts?.results ?? [],
+    users: users?.users ?? [],
+    facets: trimmedFacets,
+    totals: {
+      posts: posts?.total ?? 0,
+      users: users?.total ?? 0,
+    },
     pagination: {
       page,
       limit,
-      total: count || 0,
-      totalPages: Math.ceil((count || 0) / limit),
+      total,
+      totalPages: Math.ceil(total / limit),
     },
   });
 }, { logRequest: true });
-
@@ -0,0 +1,45 @@
+import { type NextRequest } from 'next/server';
+import { success, parseParams, searchSuggestSchema } from '@/lib/api';
+import { withRouteHandler } from '@/lib/api/route-wrapper';
+import { getCachedSearchSuggestions } from '@/lib/cache';
+import type { SearchSuggestions } from '@/lib/db';
+import { logger } from '@/lib/logger';
+
+// Suggestions are only useful while the reader is still typing; past this
+// budget we answer empty and let the in-flight lookup warm the cache instead
+const SUGGEST_BUDGET_MS = 300;
+
+const EMPTY_SUGGESTIONS: SearchSuggestions = { posts: [], tags: [], categories: [], users: [] };
+
+// ============================================================================
+// GET /api/search/suggest?q= - Search-as-you-type suggestions
+// ============================================================================
+export const GET = withRouteHandler(
+  async (request: NextRequest) => {
+    const { q, limit } = parseParams(request.nextUrl.searchParams, searchSuggestSchema);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const budget = new Promise<null>((resolve) => {
+      timer = setTimeout(() => resolve(null), SUGGEST_BUDGET_MS);
+    });
+
+    const lookup = getCachedSearchSuggestions(q, limit);
+    // The lookup may settle after we've answered; keep its failure out of unhandled rejections
+    lookup.catch((err) => logger.error('Search suggestion lookup failed', err, { q }));
+
+    const suggestions = await Promise.race([lookup, budget]);
+    clearTimeout(timer);
+
+    if (!suggestions) {
+      logger.warn('Search suggestions exceeded latency budget', { q, budgetMs: SUGGEST_BUDGET_MS });
+    }
+
+    return success(
+      { query: q, ...(suggestions ?? EMPTY_SUGGESTIONS), partial: !suggestions },
+      200,
+      // Suggestions are public; let browsers and the CDN absorb repeat keystrokes
+      { 'Cache-Control': 'public, max-age=30, stale-while-revalidate=60' }
+    );
+  },
+  { logRequest: false }
+);
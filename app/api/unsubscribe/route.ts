@@ -0,0 +1,41 @@
+import { type NextRequest } from 'next/server';
+import {
+  success,
+  handleApiError,
+  parseParams,
+  rateLimitByIp,
+  emailUnsubscribeSchema,
+  ApiError,
+} from '@/lib/api';
+import { verifyUnsubscribeToken } from '@/lib/email/tokens';
+import { unsubscribeFromEmail } from '@/lib/notifications';
+import { unsubscribeFromNewsletter } from '@/lib/newsletter';
+
+// ============================================================================
+// POST /api/unsubscribe?token= - Turn off an email category from a signed link
+// ============================================================================
+// The token travels in the query string so mail clients' one-click
+// unsubscribe (RFC 8058) can POST to the same URL as the unsubscribe page.
+export async function POST(request: NextRequest) {
+  try {
+    rateLimitByIp(request, { maxRequests: 20, windowMs: 60000 });
+
+    const { token } = parseParams(request.nextUrl.searchParams, emailUnsubscribeSchema);
+
+    const unsubscribe = verifyUnsubscribeToken(token);
+    if (!unsubscribe) {
+      throw ApiError.badRequest('This unsubscribe link is invalid');
+    }
+
+    if (unsubscribe.type === 'newsletter') {
+      await unsubscribeFromNewsletter(unsubscribe.subscriberId);
+      return success({ category: 'newsletter' });
+    }
+
+    await unsubscribeFromEmail(unsubscribe.userId, unsubscribe.category);
+
+    return success({ category: unsubscribe.category });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
@@ -0,0 +1,47 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, requireAuth, rateLimitByUser } from '@/lib/api';
+import { getProfileByUsername, followUser, unfollowUser } from '@/lib/db';
+
+interface RouteContext {
+  params: Promise<{ username: string }>;
+}
+
+// ============================================================================
+// POST /api/users/[username]/follow - Follow a contributor
+// ============================================================================
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { user } = await requireAuth();
+
+    rateLimitByUser(user.id, { maxRequests: 30, windowMs: 60000 });
+
+    const { username } = await context.params;
+    const profile = await getProfileByUsername(username);
+
+    const state = await followUser(user.id, profile.id);
+
+    return success(state);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
+
+// ============================================================================
+// DELETE /api/users/[username]/follow - Unfollow a contributor
+// ============================================================================
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { user } = await requireAuth();
+
+    rateLimitByUser(user.id, { maxRequests: 30, windowMs: 60000 });
+
+    const { username } = await context.params;
+    const profile = await getProfileByUsername(username);
+
+    const state = await unfollowUser(user.id, profile.id);
+
+    return success(state);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
@@ -0,0 +1,44 @@
+import { type NextRequest } from 'next/server';
+import {
+  success,
+  handleApiError,
+  parseBody,
+  requireAuth,
+  rateLimitByUser,
+  updatePreferencesSchema,
+} from '@/lib/api';
+import { getUserPreferences, updateUserPreferences } from '@/lib/db';
+
+// ============================================================================
+// GET /api/users/me/preferences - Get notification, email and privacy settings
+// ============================================================================
+export async function GET() {
+  try {
+    const { user } = await requireAuth();
+
+    const preferences = await getUserPreferences(user.id);
+
+    return success(preferences);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
+
+// ============================================================================
+// PUT /api/users/me/preferences - Update settings (only the fields sent)
+// ============================================================================
+export async function PUT(request: NextRequest) {
+  try {
+    const { user } = await requireAuth();
+
+    rateLimitByUser(user.id, { maxRequests: 30, windowMs: 60000 });
+
+    const input = await parseBody(request, updatePreferencesSchema);
+
+    const preferences = await updateUserPreferences(user.id, input);
+
+    return success(preferences);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
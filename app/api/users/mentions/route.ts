@@ -0,0 +1,30 @@
+import { type NextRequest } from 'next/server';
+import {
+  success,
+  handleApiError,
+  parseParams,
+  requireAuth,
+  rateLimitByUser,
+  mentionSuggestSchema,
+} from '@/lib/api';
+import { getMentionSuggestions } from '@/lib/db';
+
+// ============================================================================
+// GET /api/users/mentions?q= - Username suggestions for the @mention picker
+// ============================================================================
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireAuth();
+
+    // One request per keystroke pause; generous, but stops username scraping
+    rateLimitByUser(user.id, { maxRequests: 120, windowMs: 60000 });
+
+    const { q, limit } = parseParams(request.nextUrl.searchParams, mentionSuggestSchema);
+
+    const users = await getMentionSuggestions(q, limit);
+
+    return success({ query: q, users });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
@@ -0,0 +1,27 @@
+import { type NextRequest } from 'next/server';
+import { success, handleApiError, ApiError, emailWebhookEventSchema } from '@/lib/api';
+import { handleEmailWebhookEvent, verifyWebhookSignature } from '@/lib/email/webhooks';
+
+// ============================================================================
+// POST /api/webhooks/email - Bounce and complaint events from the email provider
+// ============================================================================
+export async function POST(request: NextRequest) {
+  try {
+    // The signature covers the exact bytes sent, so read the body as text
+    const body = await request.text();
+    verifyWebhookSignature(body, request.headers);
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      throw ApiError.badRequest('Invalid JSON body');
+    }
+
+    const result = await handleEmailWebhookEvent(emailWebhookEventSchema.parse(payload));
+
+    return success(result);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
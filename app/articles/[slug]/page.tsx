@@ -7,6 +7,16 @@ import gsap from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
 import Nav from '@/app/components/Nav';
 import Footer from '@/app/components/layout/Footer';
+import BookmarkButton from '@/app/components/content/BookmarkButton';
+import MentionTextarea from '@/app/components/content/MentionTextarea';
+import MentionText from '@/app/components/content/MentionText';
+import ResponsiveImage from '@/app/components/media/ResponsiveImage';
+import VideoPlayer from '@/app/components/media/VideoPlayer';
+import AudioPlayer from '@/app/components/media/AudioPlayer';
+import type { ResponsiveImageData } from '@/lib/media/responsive';
+import type { AudioPlaybackData, VideoPlaybackData } from '@/lib/media/playback';
+import type { Chapter } from '@/lib/media/chapters';
+import type { PostWithAuthor } from '@/types';
 import { formatDate, getInitials } from '@/lib/utils';
 import { REACTION_TYPES } from '@/lib/constants';
 import { prefersReducedMotion, EASING, DURATION, getDuration } from '@/lib/animations/gsap-config';
@@ -55,9 +65,18 @@ const mockArticle = {
     
     <p>Until then, I'll be here. Number 1,203 in the queue. Waiting.</p>
   `,
-  content_type: 'written' as const,
+  content_type: 'written' as PostWithAuthor['content_type'],
   featured_image_url:
     'https://images.unsplash.com/photo-1558618666-fcd25c85cd64?w=1200&h=630&fit=crop&q=80', // Abstract architectural drawing
+  // Set by the posts API once an uploaded featured image has been processed
+  featured_image: null as ResponsiveImageData | null,
+  media_url: null as string | null,
+  media_thumbnail_url: null as string | null,
+  // Set by the posts API once a video post's upload has been transcoded
+  video: null as VideoPlaybackData | null,
+  // Set by the posts API once an audio post's upload has been normalised
+  audio: null as AudioPlaybackData | null,
+  chapters: [] as Chapter[],
   published_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
   reading_time: 8,
   view_count: 1234,
@@ -88,7 +107,8 @@ const mockComments = [
     replies: [
       {
         id: 'cm1-r1',
-        content: "Solidarity mate. We're all in this together.",
+        content: "@davenumber7 Solidarity mate. We're all in this together.",
+        mentions: ['davenumber7'],
         created_at: new Date(Date.now() - 15 * 60 * 1000).toISOString(),
         author: { display_name: 'Eyup Lovely', username: 'eyup_lovely', avatar_url: null },
         is_author_reply: true,
@@ -349,6 +369,10 @@ export default function ArticlePage() {
   const articleRef = useRef<HTMLElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
 
+  // Falls back to the original upload until the transcoded renditions exist
+  const videoSrc = mockArticle.video?.src ?? mockArticle.media_url;
+  const audioSrc = mockArticle.audio?.src ?? mockArticle.media_url;
+
   // Track active section for TOC
   useEffect(() => {
     const observer = new IntersectionObserver(
@@ -531,8 +555,9 @@ export default function ArticlePage() {
                     </div>
                   </Link>
 
-                  {/* Share buttons */}
-                  <div className="ml-auto">
+                  {/* Save and share buttons */}
+                  <div className="ml-auto flex items-center gap-2">
+                    <BookmarkButton postId={mockArticle.id} />
                     <ShareButtons
                       title={mockArticle.title}
                       url={typeof window !== 'undefined' ? window.location.href : ''}
@@ -541,6 +566,49 @@ export default function ArticlePage() {
                 </div>
               </header>
 
+              {/* Video, played from its transcoded renditions once processed */}
+              {mockArticle.content_type === 'video' && videoSrc && (
+                <div className="mb-12">
+                  <VideoPlayer
+                    src={videoSrc}
+                    hls={mockArticle.video?.hls}
+                    poster={
+                      mockArticle.video?.poster ?? mockArticle.media_thumbnail_url ?? undefined
+                    }
+                    title={mockArticle.title}
+                  />
+                </div>
+              )}
+
+              {/* Audio, with its waveform and chapters once processed */}
+              {mockArticle.content_type === 'audio' && audioSrc && (
+                <div className="mb-12">
+                  <AudioPlayer
+                    src={audioSrc}
+                    title={mockArticle.title}
+                    artist={mockArticle.author.display_name}
+                    coverImage={mockArticle.featured_image_url || undefined}
+                    peaksUrl={mockArticle.audio?.peaks}
+                    chapters={mockArticle.chapters}
+                  />
+                </div>
+              )}
+
+              {/* Hero Image */}
+              {!['video', 'audio'].includes(mockArticle.content_type) &&
+                mockArticle.featured_image_url && (
+                  <figure className="mb-12 rounded-2xl overflow-hidden">
+                    <ResponsiveImage
+                      image={mockArticle.featured_image}
+                      src={mockArticle.featured_image_url}
+                      alt={mockArticle.title}
+                      sizes="(max-width: 768px) 100vw, 768px"
+                      className="w-full h-auto"
+                      priority
+                    />
+                  </figure>
+                )}
+
               {/* Article Content */}
               <div
                 ref={contentRef}
@@ -740,9 +808,9 @@ export default function ArticlePage() {
 
                 {/* Comment form */}
                 <div className="mb-8">
-                  <textarea
+                  <MentionTextarea
                     value={commentText}
-                    onChange={(e) => setCommentText(e.target.value)}
+                    onChange={setCommentText}
                     placeholder="Join the conversation..."
                     rows={3}
                     className="w-full p-4 rounded-xl border outline-none resize-none transition-all focus:border-[var(--primary)]"
@@ -809,7 +877,7 @@ export default function ArticlePage() {
                               opacity: 0.9,
                             }}
                           >
-                            {comment.content}
+                            <MentionText text={comment.content} />
                           </p>
 
                           {/* Replies */}
@@ -858,7 +926,7 @@ export default function ArticlePage() {
                                   opacity: 0.9,
                                 }}
                               >
-                                {reply.content}
+                                <MentionText text={reply.content} mentions={reply.mentions} />
                               </p>
                             </div>
                           ))}
@@ -3,6 +3,7 @@ import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import Nav from '../../components/Nav';
 import Footer from '../../components/layout/Footer';
+import FollowButton from '../../components/content/FollowButton';
 import { formatRelativeTime, getContentTypeIcon } from '@/lib/utils';
 
 interface CategoryPost {
@@ -49,6 +50,21 @@ export default async function CategoryPage({ params }: { params: Promise<{ categ
     .eq('status', 'published')
     .order('published_at', { ascending: false });
 
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  let viewerFollows = false;
+  if (user) {
+    const { data: follow } = await supabase
+      .from('category_follows')
+      .select('category_id')
+      .eq('user_id', user.id)
+      .eq('category_id', category.id)
+      .maybeSingle();
+    viewerFollows = !!follow;
+  }
+
   return (
     <>
       <Nav />
@@ -76,6 +92,14 @@ export default async function CategoryPage({ params }: { params: Promise<{ categ
             <p className="mt-4" style={{ color: 'var(--secondary)' }}>
               {category.post_count || posts?.length || 0} posts
             </p>
+            <div className="mt-6">
+              <FollowButton
+                endpoint={`/api/categories/${category.slug}/follow`}
+                initialFollowing={viewerFollows}
+                signedIn={!!user}
+                label="Follow category"
+              />
+            </div>
           </div>
 
           {/* Posts grid */}
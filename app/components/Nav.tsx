@@ -1,6 +1,7 @@
 'use client';
 import { useEffect, useRef, useState, useCallback } from 'react';
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 import gsap from 'gsap';
 import {
   EASING,
@@ -11,6 +12,7 @@ import {
 } from '@/lib/animations/gsap-config';
 import { useAuth } from '@/lib/hooks/useAuth';
 import { getInitials } from '@/lib/utils';
+import type { SearchSuggestions } from '@/lib/db/search';
 
 interface NavLink {
   label: string;
@@ -26,6 +28,20 @@ const navLinks: NavLink[] = [
   { label: 'Apply', href: '/apply' },
 ];
 
+// Wait for a pause in typing before asking for suggestions
+const SUGGEST_DEBOUNCE_MS = 150;
+
+const suggestionGroups: {
+  key: keyof SearchSuggestions;
+  title: string;
+  href: (slug: string) => string;
+}[] = [
+  { key: 'posts', title: 'Articles', href: (slug) => `/articles/${slug}` },
+  { key: 'tags', title: 'Tags', href: (slug) => `/tags/${slug}` },
+  { key: 'categories', title: 'Categories', href: (slug) => `/categories/${slug}` },
+  { key: 'users', title: 'Contributors', href: (slug) => `/contributors/${slug}` },
+];
+
 export default function Nav() {
   const navRef = useRef<HTMLElement>(null);
   const logoRef = useRef<HTMLButtonElement>(null);
@@ -299,6 +315,11 @@ export default function Nav() {
           ))}
         </div>
 
+        {/* Search */}
+        <div className="hidden lg:block ml-auto mr-6">
+          <SearchBox />
+        </div>
+
         {/* Auth buttons / User menu */}
         <div className="hidden sm:flex items-center gap-4">
           {loading ? (
@@ -491,6 +512,166 @@ function NavItem({
   );
 }
 
+// Search box with search-as-you-type suggestions
+function SearchBox({ onNavigate }: { onNavigate?: () => void }) {
+  const router = useRouter();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<SearchSuggestions | null>(null);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+
+  // Debounce keystrokes and abort stale requests so a slow response can't
+  // overwrite suggestions for what the reader has typed since
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch(`/api/search/suggest?q=${encodeURIComponent(q)}`, { signal: controller.signal })
+        .then((response) => (response.ok ? response.json() : null))
+        .then((body) => {
+          if (body) {
+            setSuggestions(body.data);
+            setHighlighted(-1);
+          }
+        })
+        .catch(() => {
+          // Aborted or offline - keep the previous suggestions
+        });
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  // Close the dropdown on outside click
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  // Suggestions for a cleared box are stale, so hide rather than refetch
+  const items = suggestions && query.trim()
+    ? suggestionGroups.flatMap((group) =>
+        suggestions[group.key].map((s) => ({
+          key: `${group.key}:${s.slug}`,
+          group: group.title,
+          label: s.label,
+          href: group.href(s.slug),
+        }))
+      )
+    : [];
+
+  const go = (href: string) => {
+    setOpen(false);
+    setQuery('');
+    onNavigate?.();
+    router.push(href);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const item = items[highlighted];
+    if (item) {
+      go(item.href);
+    } else if (query.trim()) {
+      go(`/search?q=${encodeURIComponent(query.trim())}`);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setOpen(true);
+      setHighlighted((i) => Math.min(i + 1, items.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((i) => Math.max(i - 1, -1));
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const showDropdown = open && items.length > 0;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <form onSubmit={handleSubmit} role="search">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search..."
+          aria-label="Search"
+          role="combobox"
+          aria-expanded={showDropdown}
+          aria-controls="nav-search-suggestions"
+          aria-autocomplete="list"
+          className="w-48 xl:w-64 px-4 py-1.5 rounded-full border text-sm outline-none transition-all focus:border-[var(--secondary)]"
+          style={{
+            background: 'var(--surface)',
+            borderColor: 'var(--border)',
+            color: 'var(--foreground)',
+            fontFamily: 'var(--font-body)',
+          }}
+        />
+      </form>
+
+      {showDropdown && (
+        <ul
+          id="nav-search-suggestions"
+          role="listbox"
+          className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto rounded-lg border py-2 z-50"
+          style={{
+            background: 'var(--surface-elevated)',
+            borderColor: 'var(--border)',
+            boxShadow: '0 10px 30px rgba(0, 0, 0, 0.2)',
+          }}
+        >
+          {items.map((item, index) => (
+            <li
+              key={item.key}
+              role="option"
+              aria-selected={index === highlighted}
+              onMouseDown={(e) => {
+                // Navigate before the input blur closes the dropdown
+                e.preventDefault();
+                go(item.href);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className="px-4 py-2 cursor-pointer text-sm flex items-center justify-between gap-3"
+              style={{
+                background: index === highlighted ? 'var(--surface)' : 'transparent',
+                color: 'var(--foreground)',
+                fontFamily: 'var(--font-body)',
+              }}
+            >
+              <span className="truncate">{item.label}</span>
+              <span className="text-xs flex-shrink-0" style={{ opacity: 0.5 }}>
+                {item.group}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 // Mobile menu component
 function MobileMenu({
   isOpen,
@@ -553,6 +734,9 @@ function MobileMenu({
       }}
     >
       <div ref={linksRef} className="flex flex-col gap-8 text-center">
+        <div className="mobile-link">
+          <SearchBox onNavigate={onClose} />
+        </div>
         {links.map((link) => (
           <div key={link.label} className="mobile-link">
             {link.href ? (
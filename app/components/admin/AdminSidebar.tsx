@@ -20,6 +20,7 @@ const sidebarSections: SidebarSection[] = [
     title: 'Moderation',
     items: [
       { label: 'Overview', href: '/admin', icon: '📊' },
+      { label: 'Queue', href: '/admin/moderation', icon: '🚦' },
       { label: 'Applications', href: '/admin/applications', icon: '📋' },
       { label: 'All Posts', href: '/admin/posts', icon: '📝' },
       { label: 'Comments', href: '/admin/comments', icon: '💬' },
@@ -31,12 +32,17 @@ const sidebarSections: SidebarSection[] = [
       { label: 'Users', href: '/admin/users', icon: '👥' },
       { label: 'Categories', href: '/admin/categories', icon: '🏷️' },
       { label: 'Media', href: '/admin/media', icon: '🎬' },
+      { label: 'Newsletter', href: '/admin/newsletter', icon: '📰' },
+      { label: 'Email Queue', href: '/admin/email-queue', icon: '📮' },
+      { label: 'Email Templates', href: '/admin/emails', icon: '✉️' },
+      { label: 'Suppressions', href: '/admin/email-suppressions', icon: '🚫' },
     ],
   },
   {
     title: 'Insights',
     items: [
       { label: 'Analytics', href: '/admin/analytics', icon: '📈' },
+      { label: 'Audit Log', href: '/admin/audit', icon: '🗂️' },
       { label: 'Settings', href: '/admin/settings', icon: '⚙️' },
     ],
   },
@@ -3,6 +3,9 @@ import Link from "next/link";
 import Image from "next/image";
 import { useRef, useEffect } from "react";
 import gsap from "gsap";
+import BookmarkButton from "./BookmarkButton";
+import ResponsiveImage from "@/app/components/media/ResponsiveImage";
+import type { ResponsiveImageData } from "@/lib/media/responsive";
 
 interface ArticleCardProps {
   slug: string;
@@ -13,7 +16,12 @@ interface ArticleCardProps {
   date: string;
   category: string;
   imageUrl: string;
+  /** Processed variants of imageUrl (post.featured_image), served via srcset */
+  image?: ResponsiveImageData | null;
   contentType?: "written" | "video" | "audio" | "visual";
+  /** Shows the bookmark toggle when set */
+  postId?: string;
+  bookmarked?: boolean;
 }
 
 export default function ArticleCard({
@@ -25,7 +33,10 @@ export default function ArticleCard({
   date,
   category,
   imageUrl,
+  image,
   contentType = "written",
+  postId,
+  bookmarked,
 }: ArticleCardProps) {
   const cardRef = useRef<HTMLElement>(null);
 
@@ -100,12 +111,23 @@ export default function ArticleCard({
 
       {/* Image */}
       <Link href={`/articles/${slug}`} className="block relative aspect-[16/9] overflow-hidden">
-        <Image
-          src={imageUrl}
-          alt={title}
-          fill
-          className="card-image object-cover transition-transform duration-300"
-        />
+        {image ? (
+          <ResponsiveImage
+            image={image}
+            src={imageUrl}
+            alt={title}
+            fill
+            sizes="(max-width: 768px) 100vw, (max-width: 1024px) 50vw, 33vw"
+            className="card-image object-cover transition-transform duration-300"
+          />
+        ) : (
+          <Image
+            src={imageUrl}
+            alt={title}
+            fill
+            className="card-image object-cover transition-transform duration-300"
+          />
+        )}
         <div className="absolute inset-0 bg-gradient-to-t from-[var(--background-card)] to-transparent opacity-60" />
         <span className="absolute top-3 left-3 bg-[var(--accent)] text-white text-xs font-bold px-2 py-1 rounded">
           {category}
@@ -137,17 +159,22 @@ export default function ArticleCard({
             <span>{date}</span>
           </div>
           
-          {authorKofi && (
-            <a
-              href={`https://ko-fi.com/${authorKofi}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-[var(--accent)] hover:text-[var(--primary)] font-medium transition-colors"
-              onClick={(e) => e.stopPropagation()}
-            >
-              ☕ Support
-            </a>
-          )}
+          <div className="flex items-center gap-3">
+            {authorKofi && (
+              <a
+                href={`https://ko-fi.com/${authorKofi}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-[var(--accent)] hover:text-[var(--primary)] font-medium transition-colors"
+                onClick={(e) => e.stopPropagation()}
+              >
+                ☕ Support
+              </a>
+            )}
+            {postId && (
+              <BookmarkButton postId={postId} initialBookmarked={bookmarked} className="!p-1.5" />
+            )}
+          </div>
         </div>
       </div>
     </article>
@@ -0,0 +1,102 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+
+interface BookmarkButtonProps {
+  postId: string;
+  /** Leave undefined to look the state up for the signed-in reader */
+  initialBookmarked?: boolean;
+  className?: string;
+}
+
+export default function BookmarkButton({
+  postId,
+  initialBookmarked,
+  className = '',
+}: BookmarkButtonProps) {
+  const [bookmarked, setBookmarked] = useState(initialBookmarked ?? false);
+  const [loading, setLoading] = useState(false);
+  const router = useRouter();
+  const pathname = usePathname();
+
+  useEffect(() => {
+    if (initialBookmarked !== undefined) return;
+
+    let cancelled = false;
+    void fetch(`/api/bookmarks/${postId}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((body) => {
+        if (!cancelled && body) setBookmarked(body.data.bookmarked);
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [postId, initialBookmarked]);
+
+  const toggle = async () => {
+    setLoading(true);
+    try {
+      const response = bookmarked
+        ? await fetch(`/api/bookmarks/${postId}`, { method: 'DELETE' })
+        : await fetch('/api/bookmarks', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ post_id: postId }),
+          });
+
+      if (response.status === 401) {
+        router.push(`/login?redirect=${encodeURIComponent(pathname)}`);
+        return;
+      }
+
+      // 409 means it was already saved elsewhere
+      if (!response.ok && response.status !== 409) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to update bookmark');
+      }
+
+      setBookmarked(!bookmarked);
+      toast.success(bookmarked ? 'Removed from saved' : 'Saved for later');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update bookmark');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        // Cards wrap this button in links
+        e.preventDefault();
+        e.stopPropagation();
+        void toggle();
+      }}
+      disabled={loading}
+      aria-pressed={bookmarked}
+      aria-label={bookmarked ? 'Remove from saved' : 'Save for later'}
+      title={bookmarked ? 'Remove from saved' : 'Save for later'}
+      className={`p-2.5 rounded-xl border transition-all hover:border-[var(--primary)] hover:bg-[var(--surface)] disabled:opacity-50 ${className}`}
+      style={{
+        borderColor: bookmarked ? 'var(--primary)' : 'var(--border)',
+        color: bookmarked ? 'var(--primary)' : 'var(--foreground)',
+      }}
+    >
+      <svg
+        width="18"
+        height="18"
+        viewBox="0 0 24 24"
+        fill={bookmarked ? 'currentColor' : 'none'}
+        stroke="currentColor"
+        strokeWidth="2"
+      >
+        <path d="M19 21l-7-5-7 5V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2z" />
+      </svg>
+    </button>
+  );
+}
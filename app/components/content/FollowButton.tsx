@@ -0,0 +1,71 @@
+'use client';
+
+import { useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+
+interface FollowButtonProps {
+  /** Follow endpoint: POST follows, DELETE unfollows */
+  endpoint: string;
+  initialFollowing: boolean;
+  signedIn: boolean;
+  label?: string;
+}
+
+export default function FollowButton({
+  endpoint,
+  initialFollowing,
+  signedIn,
+  label = 'Follow',
+}: FollowButtonProps) {
+  const [following, setFollowing] = useState(initialFollowing);
+  const [loading, setLoading] = useState(false);
+  const router = useRouter();
+  const pathname = usePathname();
+
+  const toggle = async () => {
+    if (!signedIn) {
+      router.push(`/login?redirect=${encodeURIComponent(pathname)}`);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch(endpoint, { method: following ? 'DELETE' : 'POST' });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to update follow');
+      }
+
+      setFollowing(!following);
+      // Refresh server-rendered follower counts
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update follow');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={() => void toggle()}
+      disabled={loading}
+      aria-pressed={following}
+      className="inline-flex items-center gap-2 px-6 py-3 rounded-lg font-medium border transition-colors disabled:opacity-50"
+      style={
+        following
+          ? { borderColor: 'var(--primary)', color: 'var(--primary)' }
+          : {
+              background: 'var(--primary)',
+              borderColor: 'var(--primary)',
+              color: 'var(--background)',
+            }
+      }
+    >
+      {following ? '✓ Following' : `+ ${label}`}
+    </button>
+  );
+}
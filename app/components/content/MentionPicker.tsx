@@ -0,0 +1,76 @@
+'use client';
+
+import type { MentionSuggestion } from '@/lib/db/search';
+import { getInitials } from '@/lib/utils';
+
+interface MentionPickerProps {
+  id?: string;
+  users: MentionSuggestion[];
+  highlighted: number;
+  onSelect: (username: string) => void;
+  onHighlight: (index: number) => void;
+}
+
+// Dropdown of matching usernames, shown while an @mention is being typed.
+// The host positions it and owns keyboard navigation.
+export default function MentionPicker({
+  id,
+  users,
+  highlighted,
+  onSelect,
+  onHighlight,
+}: MentionPickerProps) {
+  if (users.length === 0) return null;
+
+  return (
+    <ul
+      id={id}
+      role="listbox"
+      aria-label="Mention someone"
+      className="absolute z-40 mt-1 w-64 max-w-full overflow-hidden rounded-xl border shadow-lg"
+      style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+    >
+      {users.map((user, index) => (
+        <li
+          key={user.username}
+          role="option"
+          aria-selected={index === highlighted}
+          // Keep focus in the editor so the caret position survives the click
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onSelect(user.username);
+          }}
+          onMouseEnter={() => onHighlight(index)}
+          className="flex cursor-pointer items-center gap-3 px-3 py-2"
+          style={{
+            background: index === highlighted ? 'var(--surface-elevated)' : undefined,
+            fontFamily: 'var(--font-body)',
+          }}
+        >
+          <span
+            className="flex h-7 w-7 flex-shrink-0 items-center justify-center overflow-hidden rounded-full text-xs font-bold"
+            style={{ background: 'var(--background)', color: 'var(--primary)' }}
+          >
+            {user.avatar_url ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={user.avatar_url} alt="" className="h-full w-full object-cover" />
+            ) : (
+              getInitials(user.display_name || user.username)
+            )}
+          </span>
+          <span className="min-w-0">
+            <span className="block truncate text-sm" style={{ color: 'var(--foreground)' }}>
+              {user.display_name || user.username}
+            </span>
+            <span
+              className="block truncate text-xs"
+              style={{ color: 'var(--foreground)', opacity: 0.6 }}
+            >
+              @{user.username}
+            </span>
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,30 @@
+import Link from 'next/link';
+import { splitMentions } from '@/lib/mentions/parse';
+
+interface MentionTextProps {
+  text: string;
+  /** Resolved usernames; when given, other @handles stay plain text */
+  mentions?: string[];
+}
+
+// Plain comment text with @mentions linked to profiles
+export default function MentionText({ text, mentions }: MentionTextProps) {
+  return (
+    <>
+      {splitMentions(text, mentions).map((segment, index) =>
+        segment.type === 'mention' ? (
+          <Link
+            key={index}
+            href={`/contributors/${segment.username}`}
+            className="mention font-semibold hover:underline"
+            style={{ color: 'var(--primary)' }}
+          >
+            {segment.value}
+          </Link>
+        ) : (
+          segment.value
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { useId, useRef, useState, type TextareaHTMLAttributes } from 'react';
+import MentionPicker from './MentionPicker';
+import { useMentionSuggestions } from '@/lib/hooks/useMentionSuggestions';
+import { getActiveMention } from '@/lib/mentions/parse';
+
+interface MentionTextareaProps extends Omit<
+  TextareaHTMLAttributes<HTMLTextAreaElement>,
+  'value' | 'onChange'
+> {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Textarea that suggests usernames while an @mention is being typed
+export default function MentionTextarea({ value, onChange, ...props }: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const listboxId = useId();
+  const [mention, setMention] = useState<{ query: string; start: number; end: number } | null>(
+    null
+  );
+  const [highlighted, setHighlighted] = useState(0);
+  const users = useMentionSuggestions(mention?.query ?? null);
+
+  const trackCaret = (textarea: HTMLTextAreaElement) => {
+    const caret = textarea.selectionStart;
+    const active =
+      caret === textarea.selectionEnd ? getActiveMention(textarea.value.slice(0, caret)) : null;
+
+    setMention(active && { ...active, end: caret });
+    setHighlighted(0);
+  };
+
+  const select = (username: string) => {
+    if (!mention) return;
+
+    const inserted = `@${username} `;
+    onChange(value.slice(0, mention.start) + inserted + value.slice(mention.end));
+    setMention(null);
+
+    const caret = mention.start + inserted.length;
+    requestAnimationFrame(() => textareaRef.current?.setSelectionRange(caret, caret));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (users.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((i) => Math.min(i + 1, users.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((i) => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      select(users[highlighted]?.username ?? users[0].username);
+    } else if (e.key === 'Escape') {
+      setMention(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        {...props}
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          trackCaret(e.target);
+        }}
+        onClick={(e) => trackCaret(e.currentTarget)}
+        onKeyUp={(e) => {
+          if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') trackCaret(e.currentTarget);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setMention(null)}
+        role="combobox"
+        aria-controls={listboxId}
+        aria-expanded={users.length > 0}
+        aria-autocomplete="list"
+      />
+      <MentionPicker
+        id={listboxId}
+        users={users}
+        highlighted={highlighted}
+        onSelect={select}
+        onHighlight={setHighlighted}
+      />
+    </div>
+  );
+}
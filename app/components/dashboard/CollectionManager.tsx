@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+
+interface CollectionManagerProps {
+  /** The collection being viewed, which can be deleted */
+  current: { id: string; name: string } | null;
+}
+
+export default function CollectionManager({ current }: CollectionManagerProps) {
+  const [name, setName] = useState('');
+  const [loading, setLoading] = useState(false);
+  const router = useRouter();
+
+  const createCollection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch('/api/bookmarks/collections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error?.message || 'Failed to create collection');
+      }
+
+      setName('');
+      router.push(`/dashboard/saved?collection=${body.data.id}`);
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create collection');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const deleteCollection = async () => {
+    if (!current) return;
+    if (!confirm(`Delete "${current.name}"? Its saved posts will be kept.`)) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/bookmarks/collections/${current.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to delete collection');
+      }
+
+      router.push('/dashboard/saved');
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete collection');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <form onSubmit={(e) => void createCollection(e)} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="New collection, e.g. Housing"
+          maxLength={60}
+          className="px-4 py-2 rounded-lg border"
+          style={{
+            background: 'var(--background)',
+            borderColor: 'var(--border)',
+            color: 'var(--foreground)',
+          }}
+        />
+        <button
+          type="submit"
+          disabled={loading || !name.trim()}
+          className="px-4 py-2 rounded-lg disabled:opacity-50"
+          style={{
+            background: 'var(--primary)',
+            color: 'var(--background)',
+            fontFamily: 'var(--font-body)',
+          }}
+        >
+          Add
+        </button>
+      </form>
+      {current && (
+        <button
+          type="button"
+          onClick={() => void deleteCollection()}
+          disabled={loading}
+          className="px-4 py-2 rounded-lg border disabled:opacity-50"
+          style={{
+            borderColor: 'var(--border)',
+            color: 'var(--foreground)',
+            fontFamily: 'var(--font-body)',
+          }}
+        >
+          Delete collection
+        </button>
+      )}
+    </div>
+  );
+}
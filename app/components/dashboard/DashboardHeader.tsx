@@ -43,7 +43,7 @@ export default function DashboardHeader({ user, profile }: DashboardHeaderProps)
     >
       {/* Logo */}
       <Link
-        href="/dashboard"
+        href={profile.role === 'reader' ? '/dashboard/saved' : '/dashboard'}
         className="flex items-center gap-3"
       >
         <div className="flex flex-col items-center">
@@ -83,18 +83,20 @@ export default function DashboardHeader({ user, profile }: DashboardHeaderProps)
       {/* Right section */}
       <div className="flex items-center gap-4">
         {/* Quick actions */}
-        <Link
-          href="/dashboard/posts/new"
-          className="hidden sm:flex items-center gap-2 px-4 py-2 rounded-lg transition-colors"
-          style={{ 
-            background: 'var(--primary)', 
-            color: 'var(--background)',
-            fontFamily: 'var(--font-body)'
-          }}
-        >
-          <span>✨</span>
-          <span>New Post</span>
-        </Link>
+        {profile.role !== 'reader' && (
+          <Link
+            href="/dashboard/posts/new"
+            className="hidden sm:flex items-center gap-2 px-4 py-2 rounded-lg transition-colors"
+            style={{ 
+              background: 'var(--primary)', 
+              color: 'var(--background)',
+              fontFamily: 'var(--font-body)'
+            }}
+          >
+            <span>✨</span>
+            <span>New Post</span>
+          </Link>
+        )}
 
         {/* User dropdown */}
         <div ref={dropdownRef} className="relative">
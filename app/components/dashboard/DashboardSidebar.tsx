@@ -16,20 +16,28 @@ interface SidebarSection {
   items: SidebarItem[];
 }
 
+const CONTRIBUTOR_ROLES = ['contributor', 'admin'];
+
 const sidebarSections: SidebarSection[] = [
   {
     title: 'Content',
     items: [
-      { label: 'Overview', href: '/dashboard', icon: '📊' },
-      { label: 'My Posts', href: '/dashboard/posts', icon: '📝' },
-      { label: 'Create New', href: '/dashboard/posts/new', icon: '✨' },
-      { label: 'Media Library', href: '/dashboard/media', icon: '🎬' },
+      { label: 'Overview', href: '/dashboard', icon: '📊', roles: CONTRIBUTOR_ROLES },
+      { label: 'My Posts', href: '/dashboard/posts', icon: '📝', roles: CONTRIBUTOR_ROLES },
+      { label: 'Create New', href: '/dashboard/posts/new', icon: '✨', roles: CONTRIBUTOR_ROLES },
+      { label: 'Media Library', href: '/dashboard/media', icon: '🎬', roles: CONTRIBUTOR_ROLES },
     ],
   },
   {
     title: 'Insights',
     items: [
-      { label: 'Analytics', href: '/dashboard/analytics', icon: '📈' },
+      { label: 'Analytics', href: '/dashboard/analytics', icon: '📈', roles: CONTRIBUTOR_ROLES },
+    ],
+  },
+  {
+    title: 'Reading',
+    items: [
+      { label: 'Saved', href: '/dashboard/saved', icon: '🔖' },
     ],
   },
   {
@@ -0,0 +1,127 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import type { NotificationPreferences } from '@/lib/db/preferences';
+
+type PreferenceKey = keyof NotificationPreferences;
+
+const groups: {
+  title: string;
+  description: string;
+  items: { key: PreferenceKey; label: string }[];
+}[] = [
+  {
+    title: 'In-app notifications',
+    description: 'What shows up under the bell.',
+    items: [
+      { key: 'notify_new_comment', label: 'Comments on my posts' },
+      { key: 'notify_comment_reply', label: 'Replies to my comments' },
+      { key: 'notify_new_reaction', label: 'Reactions to my posts' },
+      { key: 'notify_new_follower', label: 'New followers' },
+      { key: 'notify_mentions', label: 'When someone @mentions me' },
+    ],
+  },
+  {
+    title: 'Email',
+    description: 'What we send to your inbox. Account and security emails always go out.',
+    items: [
+      { key: 'email_new_comment', label: 'Comments on my posts' },
+      { key: 'email_comment_reply', label: 'Replies to my comments' },
+      { key: 'email_new_reaction', label: 'Reactions to my posts' },
+      { key: 'email_post_published', label: 'My post is published' },
+      { key: 'email_post_rejected', label: 'My post needs changes' },
+      { key: 'email_weekly_digest', label: 'Weekly digest' },
+      { key: 'email_newsletter', label: 'Newsletter' },
+      { key: 'email_announcements', label: 'Announcements' },
+    ],
+  },
+];
+
+// Notification and email toggles; each change saves on its own
+export default function NotificationSettings() {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [saving, setSaving] = useState<PreferenceKey | null>(null);
+
+  useEffect(() => {
+    fetch('/api/users/me/preferences')
+      .then((response) => (response.ok ? response.json() : Promise.reject(new Error())))
+      .then((body) => setPreferences(body.data))
+      .catch(() => setFailed(true));
+  }, []);
+
+  const toggle = async (key: PreferenceKey) => {
+    if (!preferences) return;
+
+    const previous = preferences;
+    setPreferences({ ...preferences, [key]: !preferences[key] });
+    setSaving(key);
+
+    try {
+      const response = await fetch('/api/users/me/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ [key]: !previous[key] }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to save setting');
+      }
+    } catch (error) {
+      setPreferences(previous);
+      toast.error(error instanceof Error ? error.message : 'Failed to save setting');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div
+      className="p-6 rounded-lg border space-y-6"
+      style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+    >
+      <h2
+        className="text-lg font-bold"
+        style={{ color: 'var(--foreground)', fontFamily: 'var(--font-kindergarten)' }}
+      >
+        Notifications
+      </h2>
+
+      {!preferences ? (
+        <p className="text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+          {failed ? 'Could not load your settings. Refresh to try again.' : 'Loading...'}
+        </p>
+      ) : (
+        groups.map((group) => (
+          <fieldset key={group.title}>
+            <legend className="font-medium" style={{ color: 'var(--foreground)' }}>
+              {group.title}
+            </legend>
+            <p className="text-sm mb-3" style={{ color: 'var(--foreground)', opacity: 0.6 }}>
+              {group.description}
+            </p>
+            <div className="space-y-2">
+              {group.items.map((item) => (
+                <label
+                  key={item.key}
+                  className="flex items-center gap-3 text-sm cursor-pointer"
+                  style={{ color: 'var(--foreground)' }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={preferences[item.key]}
+                    disabled={saving === item.key}
+                    onChange={() => void toggle(item.key)}
+                  />
+                  {item.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+
+interface SavedBookmarkActionsProps {
+  postId: string;
+  collectionId: string | null;
+  collections: { id: string; name: string }[];
+}
+
+// Move a saved post between collections, or remove it
+export default function SavedBookmarkActions({
+  postId,
+  collectionId,
+  collections,
+}: SavedBookmarkActionsProps) {
+  const [loading, setLoading] = useState(false);
+  const router = useRouter();
+
+  const request = async (init: RequestInit, failure: string) => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/bookmarks/${postId}`, init);
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || failure);
+      }
+
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : failure);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const move = (value: string) =>
+    request(
+      {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ collection_id: value || null }),
+      },
+      'Failed to move bookmark'
+    );
+
+  return (
+    <div className="flex items-center gap-2 ml-4">
+      {collections.length > 0 && (
+        <select
+          value={collectionId ?? ''}
+          onChange={(e) => void move(e.target.value)}
+          disabled={loading}
+          aria-label="Collection"
+          className="px-3 py-1.5 rounded-lg border text-sm"
+          style={{
+            background: 'var(--background)',
+            borderColor: 'var(--border)',
+            color: 'var(--foreground)',
+          }}
+        >
+          <option value="">No collection</option>
+          {collections.map((collection) => (
+            <option key={collection.id} value={collection.id}>
+              {collection.name}
+            </option>
+          ))}
+        </select>
+      )}
+      <button
+        type="button"
+        onClick={() => void request({ method: 'DELETE' }, 'Failed to remove bookmark')}
+        disabled={loading}
+        className="p-2 rounded-lg hover:bg-[var(--background)] transition-colors disabled:opacity-50"
+        title="Remove from saved"
+        aria-label="Remove from saved"
+      >
+        🗑️
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+interface ChapterListInputProps {
+  /** Chapters as written, one "timestamp title" per line */
+  value: string;
+  onChange: (value: string) => void;
+  /** Line numbers parseChapterList could not read */
+  invalid: number[];
+}
+
+export default function ChapterListInput({ value, onChange, invalid }: ChapterListInputProps) {
+  return (
+    <div>
+      <label className="block text-sm font-medium mb-2" style={{ color: 'var(--foreground)' }}>
+        Chapters
+      </label>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={'0:00 Introduction\n12:30 The interview'}
+        rows={4}
+        className="w-full p-3 rounded-lg border font-mono text-sm"
+        style={{
+          background: 'var(--background)',
+          borderColor: 'var(--border)',
+          color: 'var(--foreground)',
+        }}
+      />
+      {invalid.length > 0 ? (
+        <p className="mt-1 text-sm" style={{ color: '#ef4444' }}>
+          Can&apos;t read line{invalid.length > 1 && 's'} {invalid.join(', ')}. Use one chapter per
+          line, e.g. &quot;12:30 The interview&quot;.
+        </p>
+      ) : (
+        <p className="mt-1 text-xs" style={{ color: 'var(--foreground)', opacity: 0.6 }}>
+          One per line: a start time and a title. Listeners can jump to each chapter.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useEditor, EditorContent } from '@tiptap/react';
+import { useEditor, EditorContent, type Editor } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import Placeholder from '@tiptap/extension-placeholder';
 import CharacterCount from '@tiptap/extension-character-count';
@@ -8,7 +8,10 @@ import Link from '@tiptap/extension-link';
 import Image from '@tiptap/extension-image';
 import Underline from '@tiptap/extension-underline';
 import Youtube from '@tiptap/extension-youtube';
-import { useCallback, useState, type ReactNode } from 'react';
+import { useCallback, useEffect, useRef, useState, type ReactNode } from 'react';
+import MentionPicker from '@/app/components/content/MentionPicker';
+import { useMentionSuggestions } from '@/lib/hooks/useMentionSuggestions';
+import { getActiveMention } from '@/lib/mentions/parse';
 
 // SVG Icons for toolbar
 const Icons = {
@@ -168,6 +171,24 @@ function ToolbarDivider() {
   );
 }
 
+// The @mention being typed at the caret, outside code blocks
+function findActiveMention(editor: Editor): { query: string; from: number; to: number } | null {
+  const { selection } = editor.state;
+  const { $from } = selection;
+  if (!selection.empty || $from.parent.type.name === 'codeBlock') return null;
+
+  // Inline nodes (images, hard breaks) count as one character, like in the document
+  const textBefore = $from.parent.textBetween(0, $from.parentOffset, undefined, '\ufffc');
+  const active = getActiveMention(textBefore);
+  if (!active) return null;
+
+  return {
+    query: active.query,
+    from: $from.pos - (textBefore.length - active.start),
+    to: $from.pos,
+  };
+}
+
 interface TipTapEditorProps {
   content: string;
   onChange: (html: string) => void;
@@ -183,6 +204,23 @@ export default function TipTapEditor({
 }: TipTapEditorProps) {
   const [linkUrl, setLinkUrl] = useState('');
   const [showLinkModal, setShowLinkModal] = useState(false);
+  const [mention, setMention] = useState<{
+    query: string;
+    from: number;
+    to: number;
+    coords: { left: number; bottom: number };
+  } | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const mentionUsers = useMentionSuggestions(mention?.query ?? null);
+
+  const trackMention = (editor: Editor) => {
+    const active = findActiveMention(editor);
+    setMention(active && { ...active, coords: editor.view.coordsAtPos(active.from) });
+    setMentionIndex(0);
+  };
+
+  // The editor's key handler is bound once, so it reads the picker through a ref
+  const mentionKeysRef = useRef<(event: KeyboardEvent) => boolean>(() => false);
 
   const editor = useEditor({
     extensions: [
@@ -220,8 +258,12 @@ export default function TipTapEditor({
     content,
     onUpdate: ({ editor }) => {
       onChange(editor.getHTML());
+      trackMention(editor);
     },
+    onSelectionUpdate: ({ editor }) => trackMention(editor),
+    onBlur: () => setMention(null),
     editorProps: {
+      handleKeyDown: (_view, event) => mentionKeysRef.current(event),
       attributes: {
         class: 'prose prose-invert max-w-none min-h-[200px] sm:min-h-[300px] lg:min-h-[400px] focus:outline-none p-4 sm:p-6',
         style: 'color: var(--foreground); font-family: var(--font-body); letter-spacing: -0.02em;',
@@ -243,6 +285,40 @@ export default function TipTapEditor({
     setShowLinkModal(false);
   }, [editor, linkUrl]);
 
+  const selectMention = useCallback(
+    (username: string) => {
+      if (!editor || !mention) return;
+
+      editor
+        .chain()
+        .focus()
+        .deleteRange({ from: mention.from, to: mention.to })
+        .insertContent(`@${username} `)
+        .run();
+      setMention(null);
+    },
+    [editor, mention]
+  );
+
+  useEffect(() => {
+    mentionKeysRef.current = (event) => {
+      if (mentionUsers.length === 0) return false;
+
+      if (event.key === 'ArrowDown') {
+        setMentionIndex((i) => Math.min(i + 1, mentionUsers.length - 1));
+      } else if (event.key === 'ArrowUp') {
+        setMentionIndex((i) => Math.max(i - 1, 0));
+      } else if (event.key === 'Enter' || event.key === 'Tab') {
+        selectMention((mentionUsers[mentionIndex] ?? mentionUsers[0]).username);
+      } else if (event.key === 'Escape') {
+        setMention(null);
+      } else {
+        return false;
+      }
+      return true;
+    };
+  }, [mentionUsers, mentionIndex, selectMention]);
+
   const addImage = useCallback(() => {
     if (!editor) return;
     const url = window.prompt('Enter image URL:');
@@ -403,6 +479,18 @@ export default function TipTapEditor({
       {/* Editor content */}
       <EditorContent editor={editor} />
 
+      {/* Mention picker, fixed under the @ so the editor's overflow can't clip it */}
+      {mention && mentionUsers.length > 0 && (
+        <div className="fixed z-40" style={{ left: mention.coords.left, top: mention.coords.bottom }}>
+          <MentionPicker
+            users={mentionUsers}
+            highlighted={mentionIndex}
+            onSelect={selectMention}
+            onHighlight={setMentionIndex}
+          />
+        </div>
+      )}
+
       {/* Footer with stats */}
       <div
         className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2 sm:gap-4 px-4 sm:px-6 py-3 sm:py-4 text-xs border-t"
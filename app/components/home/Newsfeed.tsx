@@ -6,11 +6,35 @@ import { ScrollTrigger } from 'gsap/ScrollTrigger';
 import Link from 'next/link';
 import { formatRelativeTime, getContentTypeIcon } from '@/lib/utils';
 import { FloatingParticles } from '@/app/components/effects/Particles';
+import type { PostWithDetails } from '@/lib/db/posts';
 
 gsap.registerPlugin(ScrollTrigger);
 
+interface CardPost {
+  id: string;
+  title: string;
+  slug: string;
+  excerpt: string | null;
+  content_type: 'written' | 'video' | 'audio' | 'visual';
+  featured_image_url: string | null;
+  published_at: string;
+  reaction_count: number;
+  comment_count: number;
+  reading_time?: number | null;
+  media_duration?: number | null;
+  author: {
+    display_name: string;
+    username: string | null;
+    kofi_username: string | null;
+    avatar_url: string | null;
+  };
+  category: { name: string; slug: string; color: string };
+}
+
+type FeedTab = 'latest' | 'following';
+
 // Mock data - abstract titles and drawings/illustrations - replace with Supabase data
-const mockPosts = [
+const mockPosts: CardPost[] = [
   {
     id: '1',
     title: 'The Queue That Never Moves',
@@ -96,6 +120,33 @@ const mockPosts = [
   },
 ];
 
+// Map an /api/feed post onto the card shape
+function toCardPost(post: PostWithDetails): CardPost {
+  return {
+    id: post.id,
+    title: post.title,
+    slug: post.slug,
+    excerpt: post.excerpt,
+    content_type: post.content_type,
+    featured_image_url: post.featured_image_url,
+    published_at: post.published_at || post.created_at,
+    reaction_count: post.reaction_count,
+    comment_count: post.comment_count,
+    reading_time: post.reading_time,
+    author: {
+      display_name: post.author?.display_name || post.author?.username || 'Anonymous',
+      username: post.author?.username ?? null,
+      kofi_username: post.author?.kofi_username ?? null,
+      avatar_url: post.author?.avatar_url ?? null,
+    },
+    category: {
+      name: post.category?.name || 'Uncategorised',
+      slug: post.category?.slug || '',
+      color: post.category?.color || '#32CD32',
+    },
+  };
+}
+
 // Format duration to human readable
 function formatDuration(seconds: number): string {
   const mins = Math.floor(seconds / 60);
@@ -116,7 +167,7 @@ function getInitials(name: string): string {
 }
 
 interface PostCardProps {
-  post: (typeof mockPosts)[0];
+  post: CardPost;
   featured?: boolean;
 }
 
@@ -205,7 +256,7 @@ function PostCard({ post, featured = false }: PostCardProps) {
         </span>
 
         {/* Duration/Reading time badge */}
-        {'reading_time' in post && post.reading_time && (
+        {post.reading_time && (
           <span
             className="absolute bottom-3 right-3 px-2 py-1 rounded text-xs font-medium"
             style={{ background: 'rgba(0,0,0,0.7)', color: 'var(--foreground)' }}
@@ -213,7 +264,7 @@ function PostCard({ post, featured = false }: PostCardProps) {
             {post.reading_time} min read
           </span>
         )}
-        {'media_duration' in post && post.media_duration && (
+        {post.media_duration && (
           <span
             className="absolute bottom-3 right-3 px-2 py-1 rounded text-xs font-medium"
             style={{ background: 'rgba(0,0,0,0.7)', color: 'var(--foreground)' }}
@@ -339,6 +390,39 @@ export default function Newsfeed() {
   const sectionRef = useRef<HTMLElement>(null);
   const headingRef = useRef<HTMLHeadingElement>(null);
   const cardsRef = useRef<HTMLDivElement>(null);
+  const [tab, setTab] = useState<FeedTab>('latest');
+  const [feedPosts, setFeedPosts] = useState<CardPost[] | null>(null);
+  const [feedState, setFeedState] = useState<'idle' | 'loading' | 'signed-out' | 'error'>('idle');
+
+  const loadFeed = async () => {
+    setFeedState('loading');
+    try {
+      const response = await fetch('/api/feed?limit=8');
+
+      if (response.status === 401) {
+        setFeedState('signed-out');
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('Failed to load feed');
+      }
+
+      const { data } = await response.json();
+      setFeedPosts((data.posts as PostWithDetails[]).map(toCardPost));
+      setFeedState('idle');
+    } catch {
+      setFeedState('error');
+    }
+  };
+
+  const selectTab = (next: FeedTab) => {
+    setTab(next);
+    if (next === 'following' && feedPosts === null) {
+      void loadFeed();
+    }
+  };
+
+  const posts = tab === 'latest' ? mockPosts : feedPosts || [];
 
   useEffect(() => {
     const ctx = gsap.context(() => {
@@ -402,8 +486,28 @@ export default function Newsfeed() {
                 textShadow: '0 0 20px var(--glow-secondary), 0 2px 4px rgba(0,0,0,0.3)',
               }}
             >
-              latest articles
+              {tab === 'latest' ? 'latest articles' : 'following'}
             </h2>
+            <div className="flex gap-2 mt-4" role="tablist">
+              {(['latest', 'following'] as const).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  role="tab"
+                  aria-selected={tab === value}
+                  onClick={() => selectTab(value)}
+                  className="px-4 py-1.5 rounded-full border text-sm capitalize transition-colors"
+                  style={{
+                    borderColor: tab === value ? 'var(--primary)' : 'var(--border)',
+                    background: tab === value ? 'var(--primary)' : 'transparent',
+                    color: tab === value ? 'var(--background)' : 'var(--foreground)',
+                    fontFamily: 'var(--font-body)',
+                  }}
+                >
+                  {value}
+                </button>
+              ))}
+            </div>
           </div>
           <Link
             href="/articles"
@@ -429,13 +533,39 @@ export default function Newsfeed() {
           </Link>
         </div>
 
+        {tab === 'following' && feedState !== 'idle' && (
+          <p
+            className="mb-6 text-center"
+            style={{ color: 'var(--foreground)', opacity: 0.7, fontFamily: 'var(--font-body)' }}
+          >
+            {feedState === 'loading' && 'Loading your feed...'}
+            {feedState === 'error' && 'Could not load your feed. Please try again later.'}
+            {feedState === 'signed-out' && (
+              <>
+                <Link href="/login?redirect=/" style={{ color: 'var(--primary)' }}>
+                  Sign in
+                </Link>{' '}
+                to see posts from the contributors and categories you follow.
+              </>
+            )}
+          </p>
+        )}
+        {tab === 'following' && feedState === 'idle' && feedPosts?.length === 0 && (
+          <p
+            className="mb-6 text-center"
+            style={{ color: 'var(--foreground)', opacity: 0.7, fontFamily: 'var(--font-body)' }}
+          >
+            Nothing here yet. Follow contributors and categories to build your feed.
+          </p>
+        )}
+
         {/* Grid */}
         <div
           ref={cardsRef}
           className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6"
           style={{ perspective: '2000px' }}
         >
-          {mockPosts.map((post, i) => (
+          {posts.map((post, i) => (
             <div
               key={post.id}
               className={`post-card ${i === 0 ? 'md:col-span-2 lg:col-span-2 lg:row-span-2' : ''}`}
@@ -181,13 +181,28 @@ export default function Newsletter() {
 
     setLoading(true);
 
-    // Simulate API call - will be replaced with real endpoint
-    await new Promise((resolve) => setTimeout(resolve, 1500));
+    try {
+      const response = await fetch("/api/newsletter", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, source: "homepage" }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || "Failed to subscribe");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to subscribe");
+      shakeInput();
+      setLoading(false);
+      return;
+    }
 
     setSubscribed(true);
     setLoading(false);
     setShowConfetti(true);
-    toast.success("Welcome to the margins!");
+    toast.success("Almost there! Check your inbox.");
 
     // Clear confetti after animation
     setTimeout(() => setShowConfetti(false), 3000);
@@ -220,7 +235,7 @@ export default function Newsletter() {
               color: "var(--primary)",
             }}
           >
-            You&apos;re In!
+            Almost In!
           </h3>
           <p
             className="text-lg"
@@ -233,7 +248,7 @@ export default function Newsletter() {
             We&apos;ll keep you updated with the latest from the margins.
             <br />
             <span style={{ opacity: 0.6 }}>
-              Check your inbox for a welcome message.
+              Check your inbox and confirm your email to finish subscribing.
             </span>
           </p>
         </div>
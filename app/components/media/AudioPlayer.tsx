@@ -1,22 +1,38 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { formatDuration } from '@/lib/utils';
+import { chapterAt, parseTimestamp, type Chapter } from '@/lib/media/chapters';
+import type { AudioPeaks } from '@/lib/media/playback';
 
 interface AudioPlayerProps {
   src: string;
   title?: string;
   artist?: string;
   coverImage?: string;
+  /** Peaks file written by audio processing, drawn as a waveform */
+  peaksUrl?: string | null;
+  chapters?: Chapter[];
 }
 
-export default function AudioPlayer({ src, title, artist, coverImage }: AudioPlayerProps) {
+// Waveform bars drawn, whatever the number of peaks in the file
+const WAVEFORM_BARS = 120;
+
+export default function AudioPlayer({
+  src,
+  title,
+  artist,
+  coverImage,
+  peaksUrl,
+  chapters = [],
+}: AudioPlayerProps) {
   const audioRef = useRef<HTMLAudioElement>(null);
   const [playing, setPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [volume, setVolume] = useState(1);
   const [playbackRate, setPlaybackRate] = useState(1);
+  const [peaks, setPeaks] = useState<number[] | null>(null);
 
   useEffect(() => {
     const audio = audioRef.current;
@@ -37,6 +53,54 @@ export default function AudioPlayer({ src, title, artist, coverImage }: AudioPla
     };
   }, []);
 
+  // Deep links such as ?t=12:30 start playback from that point
+  useEffect(() => {
+    const audio = audioRef.current;
+    const start = parseTimestamp(new URLSearchParams(window.location.search).get('t') || '');
+    if (!audio || start === null) return;
+
+    const seek = () => {
+      audio.currentTime = start;
+    };
+
+    if (audio.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      seek();
+      return;
+    }
+
+    audio.addEventListener('loadedmetadata', seek, { once: true });
+    return () => audio.removeEventListener('loadedmetadata', seek);
+  }, [src]);
+
+  useEffect(() => {
+    if (!peaksUrl) return;
+
+    let cancelled = false;
+    fetch(peaksUrl)
+      .then((response) => (response.ok ? (response.json() as Promise<AudioPeaks>) : null))
+      .then((data) => {
+        if (!cancelled && data?.peaks.length) setPeaks(data.peaks);
+      })
+      // The plain progress bar is shown instead
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [peaksUrl]);
+
+  // Loudest peak in each bar's share of the file
+  const bars = useMemo(() => {
+    if (!peaks) return null;
+
+    const count = Math.min(WAVEFORM_BARS, peaks.length);
+    return Array.from({ length: count }, (_, i) => {
+      const from = Math.floor((i * peaks.length) / count);
+      const to = Math.floor(((i + 1) * peaks.length) / count);
+      return Math.max(...peaks.slice(from, to));
+    });
+  }, [peaks]);
+
   const togglePlay = () => {
     const audio = audioRef.current;
     if (!audio) return;
@@ -76,6 +140,24 @@ export default function AudioPlayer({ src, title, artist, coverImage }: AudioPla
     }
   };
 
+  const seekTo = (seconds: number) => {
+    if (audioRef.current) {
+      audioRef.current.currentTime = seconds;
+      setCurrentTime(seconds);
+    }
+  };
+
+  // Jump to a chapter and put its start in the URL, so the link can be shared
+  const playChapter = (chapter: Chapter) => {
+    seekTo(chapter.start);
+
+    const url = new URL(window.location.href);
+    url.searchParams.set('t', formatDuration(chapter.start));
+    window.history.replaceState(null, '', url);
+
+    if (!playing) togglePlay();
+  };
+
   const skip = (seconds: number) => {
     if (audioRef.current) {
       audioRef.current.currentTime = Math.max(0, Math.min(duration, currentTime + seconds));
@@ -83,6 +165,7 @@ export default function AudioPlayer({ src, title, artist, coverImage }: AudioPla
   };
 
   const progress = duration > 0 ? (currentTime / duration) * 100 : 0;
+  const currentChapter = chapterAt(chapters, currentTime);
 
   return (
     <div
@@ -118,20 +201,63 @@ export default function AudioPlayer({ src, title, artist, coverImage }: AudioPla
               {artist}
             </p>
           )}
+          {currentChapter >= 0 && (
+            <p className="text-xs truncate mt-1" style={{ color: 'var(--primary)' }}>
+              {chapters[currentChapter].title}
+            </p>
+          )}
 
-          {/* Progress bar */}
+          {/* Progress bar: a waveform once processed, with chapter markers */}
           <div className="mt-3">
-            <input
-              type="range"
-              min="0"
-              max={duration || 0}
-              value={currentTime}
-              onChange={handleSeek}
-              className="w-full h-2 rounded-full appearance-none cursor-pointer"
-              style={{
-                background: `linear-gradient(to right, var(--primary) ${progress}%, var(--border) ${progress}%)`,
-              }}
-            />
+            <div className={`relative ${bars ? 'h-12' : ''}`}>
+              {bars && (
+                <div className="absolute inset-0 flex items-center gap-px" aria-hidden="true">
+                  {bars.map((peak, i) => (
+                    <div
+                      key={i}
+                      className="flex-1 rounded-full"
+                      style={{
+                        height: `${Math.max(4, peak * 100)}%`,
+                        background: (i / bars.length) * 100 < progress ? 'var(--primary)' : 'var(--border)',
+                      }}
+                    />
+                  ))}
+                </div>
+              )}
+              {duration > 0 &&
+                chapters.map((chapter) => (
+                  <div
+                    key={chapter.start}
+                    className="absolute top-0 bottom-0 w-0.5 pointer-events-none"
+                    style={{
+                      left: `${(chapter.start / duration) * 100}%`,
+                      background: 'var(--foreground)',
+                      opacity: 0.4,
+                    }}
+                    aria-hidden="true"
+                  />
+                ))}
+              <input
+                type="range"
+                min="0"
+                max={duration || 0}
+                value={currentTime}
+                onChange={handleSeek}
+                aria-label="Seek"
+                className={
+                  bars
+                    ? 'absolute inset-0 w-full h-full opacity-0 cursor-pointer'
+                    : 'w-full h-2 rounded-full appearance-none cursor-pointer'
+                }
+                style={
+                  bars
+                    ? undefined
+                    : {
+                        background: `linear-gradient(to right, var(--primary) ${progress}%, var(--border) ${progress}%)`,
+                      }
+                }
+              />
+            </div>
             <div className="flex justify-between text-xs mt-1" style={{ color: 'var(--foreground)', opacity: 0.5 }}>
               <span>{formatDuration(Math.floor(currentTime))}</span>
               <span>{formatDuration(Math.floor(duration))}</span>
@@ -202,6 +328,29 @@ export default function AudioPlayer({ src, title, artist, coverImage }: AudioPla
           </div>
         </div>
       </div>
+
+      {/* Chapters */}
+      {chapters.length > 0 && (
+        <ol className="mt-4 border-t pt-3 space-y-1" style={{ borderColor: 'var(--border)' }}>
+          {chapters.map((chapter, i) => (
+            <li key={chapter.start}>
+              <button
+                onClick={() => playChapter(chapter)}
+                className="w-full flex items-baseline gap-3 text-left text-sm px-2 py-1 rounded hover:bg-[var(--background)]"
+                style={{
+                  color: i === currentChapter ? 'var(--primary)' : 'var(--foreground)',
+                }}
+                aria-current={i === currentChapter ? 'true' : undefined}
+              >
+                <span className="font-mono text-xs" style={{ opacity: 0.6 }}>
+                  {formatDuration(chapter.start)}
+                </span>
+                <span className="truncate">{chapter.title}</span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
     </div>
   );
 }
@@ -2,6 +2,8 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import Image from 'next/image';
+import ResponsiveImage from './ResponsiveImage';
+import type { ResponsiveImageData } from '@/lib/media/responsive';
 
 interface GalleryImage {
   id: string;
@@ -10,6 +12,8 @@ interface GalleryImage {
   caption?: string;
   width?: number;
   height?: number;
+  /** Processed variants of src, served via srcset */
+  responsive?: ResponsiveImageData | null;
 }
 
 interface ImageGalleryProps {
@@ -73,13 +77,24 @@ export default function ImageGallery({ images, columns = 3 }: ImageGalleryProps)
             className="relative aspect-square rounded-lg overflow-hidden group cursor-pointer"
             style={{ background: 'var(--surface)' }}
           >
-            <Image
-              src={image.src}
-              alt={image.alt}
-              fill
-              className="object-cover transition-transform duration-300 group-hover:scale-110"
-              sizes="(max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw"
-            />
+            {image.responsive ? (
+              <ResponsiveImage
+                image={image.responsive}
+                src={image.src}
+                alt={image.alt}
+                fill
+                className="object-cover transition-transform duration-300 group-hover:scale-110"
+                sizes="(max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw"
+              />
+            ) : (
+              <Image
+                src={image.src}
+                alt={image.alt}
+                fill
+                className="object-cover transition-transform duration-300 group-hover:scale-110"
+                sizes="(max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw"
+              />
+            )}
             <div
               className="absolute inset-0 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-end"
               style={{ background: 'linear-gradient(to top, rgba(0,0,0,0.7), transparent)' }}
@@ -146,14 +161,25 @@ export default function ImageGallery({ images, columns = 3 }: ImageGalleryProps)
             className="relative max-w-[90vw] max-h-[90vh]"
             onClick={(e) => e.stopPropagation()}
           >
-            <Image
-              src={images[activeIndex].src}
-              alt={images[activeIndex].alt}
-              width={images[activeIndex].width || 1200}
-              height={images[activeIndex].height || 800}
-              className="max-h-[80vh] w-auto object-contain"
-              priority
-            />
+            {images[activeIndex].responsive ? (
+              <ResponsiveImage
+                image={images[activeIndex].responsive}
+                src={images[activeIndex].src}
+                alt={images[activeIndex].alt}
+                sizes="90vw"
+                className="max-h-[80vh] w-auto object-contain"
+                priority
+              />
+            ) : (
+              <Image
+                src={images[activeIndex].src}
+                alt={images[activeIndex].alt}
+                width={images[activeIndex].width || 1200}
+                height={images[activeIndex].height || 800}
+                className="max-h-[80vh] w-auto object-contain"
+                priority
+              />
+            )}
 
             {/* Caption */}
             {images[activeIndex].caption && (
@@ -3,6 +3,8 @@
 import { useState, useRef, useCallback } from 'react';
 import { toast } from 'react-hot-toast';
 import { formatFileSize } from '@/lib/utils';
+import { MULTIPART_THRESHOLD } from '@/lib/media/multipart';
+import { ResumableUpload, UploadPausedError, type UploadedMedia } from '@/lib/media/resumable-upload';
 
 interface MediaUploaderProps {
   mediaType: 'video' | 'audio' | 'image';
@@ -43,7 +45,11 @@ export default function MediaUploader({
   const [uploading, setUploading] = useState(false);
   const [progress, setProgress] = useState(0);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [paused, setPaused] = useState(false);
+  // Progress of an earlier upload of the selected file that can be resumed
+  const [resumeFrom, setResumeFrom] = useState<number | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const resumableRef = useRef<ResumableUpload | null>(null);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -75,6 +81,25 @@ export default function MediaUploader({
     [maxSize, mediaType]
   );
 
+  // Large video and audio go up in resumable parts
+  const selectFile = useCallback(
+    (file: File) => {
+      setSelectedFile(file);
+      setPaused(false);
+
+      if (mediaType !== 'image' && file.size > MULTIPART_THRESHOLD) {
+        const upload = new ResumableUpload(file, mediaType, setProgress);
+        resumableRef.current = upload;
+        setResumeFrom(upload.resumable ? upload.progress : null);
+        setProgress(upload.progress);
+      } else {
+        resumableRef.current = null;
+        setResumeFrom(null);
+      }
+    },
+    [mediaType]
+  );
+
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault();
@@ -83,102 +108,138 @@ export default function MediaUploader({
 
       const file = e.dataTransfer.files[0];
       if (file && validateFile(file)) {
-        setSelectedFile(file);
+        selectFile(file);
       }
     },
-    [validateFile]
+    [validateFile, selectFile]
   );
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file && validateFile(file)) {
-      setSelectedFile(file);
+      selectFile(file);
     }
   };
 
-  const uploadFile = async () => {
-    if (!selectedFile) return;
+  // Single presigned PUT, for images and smaller files
+  const uploadWhole = async (file: File): Promise<UploadedMedia> => {
+    // 1. Get presigned URL
+    const presignResponse = await fetch('/api/media/upload', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        fileName: file.name,
+        fileType: file.type,
+        fileSize: file.size,
+        mediaType,
+      }),
+    });
+
+    if (!presignResponse.ok) {
+      const error = await presignResponse.json();
+      throw new Error(error.error?.message || 'Failed to get upload URL');
+    }
 
-    setUploading(true);
-    setProgress(0);
+    const { data } = await presignResponse.json();
+    const { uploadUrl, mediaId, publicUrl } = data;
 
-    try {
-      // 1. Get presigned URL
-      const presignResponse = await fetch('/api/media/upload', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          fileName: selectedFile.name,
-          fileType: selectedFile.type,
-          fileSize: selectedFile.size,
-          mediaType,
-        }),
-      });
+    // 2. Upload to R2
+    const xhr = new XMLHttpRequest();
 
-      if (!presignResponse.ok) {
-        const error = await presignResponse.json();
-        throw new Error(error.error || 'Failed to get upload URL');
+    xhr.upload.addEventListener('progress', (e) => {
+      if (e.lengthComputable) {
+        setProgress(Math.round((e.loaded / e.total) * 100));
       }
+    });
 
-      const { uploadUrl, mediaId, publicUrl } = await presignResponse.json();
+    await new Promise<void>((resolve, reject) => {
+      xhr.open('PUT', uploadUrl);
+      xhr.setRequestHeader('Content-Type', file.type);
 
-      // 2. Upload to R2
-      const xhr = new XMLHttpRequest();
-      
-      xhr.upload.addEventListener('progress', (e) => {
-        if (e.lengthComputable) {
-          setProgress(Math.round((e.loaded / e.total) * 100));
+      xhr.onload = () => {
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve();
+        } else {
+          reject(new Error('Upload failed'));
         }
-      });
+      };
 
-      await new Promise<void>((resolve, reject) => {
-        xhr.open('PUT', uploadUrl);
-        xhr.setRequestHeader('Content-Type', selectedFile.type);
-        
-        xhr.onload = () => {
-          if (xhr.status >= 200 && xhr.status < 300) {
-            resolve();
-          } else {
-            reject(new Error('Upload failed'));
-          }
-        };
-        
-        xhr.onerror = () => reject(new Error('Upload failed'));
-        xhr.send(selectedFile);
-      });
+      xhr.onerror = () => reject(new Error('Upload failed'));
+      xhr.send(file);
+    });
 
-      // 3. Confirm upload
-      const confirmResponse = await fetch('/api/media/upload', {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ mediaId }),
-      });
+    // 3. Confirm upload (checks the file reached storage intact)
+    const confirmResponse = await fetch(`/api/media/${mediaId}/complete`, {
+      method: 'POST',
+    });
 
-      if (!confirmResponse.ok) {
-        throw new Error('Failed to confirm upload');
-      }
+    if (!confirmResponse.ok) {
+      const error = await confirmResponse.json().catch(() => ({}));
+      throw new Error(error.error?.message || 'Failed to confirm upload');
+    }
+
+    return { id: mediaId, url: publicUrl };
+  };
+
+  const uploadFile = async () => {
+    if (!selectedFile) return;
+
+    setUploading(true);
+    setPaused(false);
+    if (!resumableRef.current) {
+      setProgress(0);
+    }
+
+    try {
+      const media = resumableRef.current
+        ? await resumableRef.current.start()
+        : await uploadWhole(selectedFile);
 
       toast.success('Upload complete!');
       onUploadComplete({
-        id: mediaId,
-        url: publicUrl,
+        id: media.id,
+        url: media.url,
         fileName: selectedFile.name,
         fileType: selectedFile.type,
         fileSize: selectedFile.size,
       });
 
+      resumableRef.current = null;
+      setResumeFrom(null);
       setSelectedFile(null);
       setProgress(0);
     } catch (error) {
+      if (error instanceof UploadPausedError) return;
+
       console.error('Upload error:', error);
       toast.error(error instanceof Error ? error.message : 'Upload failed');
+
+      // Parts already stored are kept, so offer to carry on
+      if (resumableRef.current?.resumable) {
+        setResumeFrom(resumableRef.current.progress);
+      }
     } finally {
       setUploading(false);
     }
   };
 
+  const pauseUpload = () => {
+    resumableRef.current?.pause();
+    setPaused(true);
+  };
+
+  const cancelUpload = async () => {
+    await resumableRef.current?.cancel();
+    removeFile();
+  };
+
+  // Deselects the file; an unfinished resumable upload can still be resumed
+  // by choosing the same file again
   const removeFile = () => {
+    resumableRef.current = null;
     setSelectedFile(null);
+    setPaused(false);
+    setResumeFrom(null);
     setProgress(0);
     if (inputRef.current) {
       inputRef.current.value = '';
@@ -229,7 +290,7 @@ export default function MediaUploader({
                 {formatFileSize(selectedFile.size)}
               </p>
             </div>
-            {!uploading && (
+            {!uploading && !paused && (
               <button
                 onClick={(e) => {
                   e.stopPropagation();
@@ -249,7 +310,7 @@ export default function MediaUploader({
       </div>
 
       {/* Progress bar */}
-      {uploading && (
+      {(uploading || paused) && (
         <div className="space-y-2">
           <div className="h-2 rounded-full overflow-hidden" style={{ background: 'var(--border)' }}>
             <div
@@ -258,19 +319,52 @@ export default function MediaUploader({
             />
           </div>
           <p className="text-sm text-center" style={{ color: 'var(--foreground)', opacity: 0.6 }}>
-            Uploading... {progress}%
+            {paused ? `Paused at ${progress}%` : `Uploading... ${progress}%`}
           </p>
         </div>
       )}
 
+      {/* Pause (resumable uploads only) */}
+      {uploading && resumableRef.current && (
+        <button
+          onClick={pauseUpload}
+          className="w-full py-3 rounded-lg font-medium transition-colors border"
+          style={{ borderColor: 'var(--border)', color: 'var(--foreground)' }}
+        >
+          Pause
+        </button>
+      )}
+
+      {/* Resume or cancel a paused upload */}
+      {paused && !uploading && (
+        <div className="flex gap-3">
+          <button
+            onClick={() => void uploadFile()}
+            className="flex-1 py-3 rounded-lg font-medium transition-colors"
+            style={{ background: 'var(--primary)', color: 'var(--background)' }}
+          >
+            Resume
+          </button>
+          <button
+            onClick={() => void cancelUpload()}
+            className="flex-1 py-3 rounded-lg font-medium transition-colors border"
+            style={{ borderColor: 'var(--border)', color: 'var(--foreground)' }}
+          >
+            Cancel upload
+          </button>
+        </div>
+      )}
+
       {/* Upload button */}
-      {selectedFile && !uploading && (
+      {selectedFile && !uploading && !paused && (
         <button
           onClick={() => void uploadFile()}
           className="w-full py-3 rounded-lg font-medium transition-colors"
           style={{ background: 'var(--primary)', color: 'var(--background)' }}
         >
-          Upload {TYPE_LABELS[mediaType]}
+          {resumeFrom !== null
+            ? `Resume upload (${resumeFrom}% done)`
+            : `Upload ${TYPE_LABELS[mediaType]}`}
         </button>
       )}
     </div>
@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { decodeBlurhash } from '@/lib/media/blurhash';
+import { IMAGE_FORMATS, type ResponsiveImageData } from '@/lib/media/responsive';
+
+interface ResponsiveImageProps {
+  /** Processed variants; when missing the plain `src` is shown */
+  image?: ResponsiveImageData | null;
+  src: string;
+  alt: string;
+  /** Rendered width of the image, e.g. "(max-width: 768px) 100vw, 50vw" */
+  sizes: string;
+  className?: string;
+  /** Fill the (positioned) parent instead of using the image's own size */
+  fill?: boolean;
+  priority?: boolean;
+}
+
+// Decoded small and stretched by CSS; the blur hides the low resolution
+const PLACEHOLDER_SIZE = 32;
+
+function blurhashToDataUrl(hash: string): string | null {
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = PLACEHOLDER_SIZE;
+    canvas.height = PLACEHOLDER_SIZE;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    const pixels = decodeBlurhash(hash, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE);
+    context.putImageData(new ImageData(pixels, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE), 0, 0);
+    return canvas.toDataURL();
+  } catch {
+    return null;
+  }
+}
+
+export default function ResponsiveImage({
+  image,
+  src,
+  alt,
+  sizes,
+  className = '',
+  fill = false,
+  priority = false,
+}: ResponsiveImageProps) {
+  const imgRef = useRef<HTMLImageElement>(null);
+  const blurhash = image?.blurhash;
+
+  // Show the blurhash behind the image until it has loaded
+  useEffect(() => {
+    const img = imgRef.current;
+    if (!img || !blurhash || img.complete) return;
+
+    const placeholder = blurhashToDataUrl(blurhash);
+    if (placeholder) {
+      img.style.backgroundImage = `url(${placeholder})`;
+    }
+  }, [blurhash]);
+
+  return (
+    <picture className={fill ? 'absolute inset-0' : undefined}>
+      {IMAGE_FORMATS.map((format) =>
+        image?.sources[format] ? (
+          <source
+            key={format}
+            type={`image/${format}`}
+            srcSet={image.sources[format]}
+            sizes={sizes}
+          />
+        ) : null
+      )}
+      <img
+        ref={imgRef}
+        src={image?.src || src}
+        alt={alt}
+        width={fill ? undefined : image?.width}
+        height={fill ? undefined : image?.height}
+        loading={priority ? 'eager' : 'lazy'}
+        fetchPriority={priority ? 'high' : undefined}
+        decoding="async"
+        onLoad={(e) => {
+          e.currentTarget.style.backgroundImage = '';
+        }}
+        className={`bg-cover bg-center ${fill ? 'h-full w-full' : ''} ${className}`}
+      />
+    </picture>
+  );
+}
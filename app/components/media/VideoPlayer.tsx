@@ -1,15 +1,19 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
+import type Hls from 'hls.js';
 import { formatDuration } from '@/lib/utils';
 
 interface VideoPlayerProps {
+  /** Progressive file, played when HLS is unavailable or fails */
   src: string;
+  /** HLS master playlist for adaptive streaming */
+  hls?: string | null;
   poster?: string;
   title?: string;
 }
 
-export default function VideoPlayer({ src, poster, title }: VideoPlayerProps) {
+export default function VideoPlayer({ src, hls, poster, title }: VideoPlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [playing, setPlaying] = useState(false);
@@ -49,6 +53,50 @@ export default function VideoPlayer({ src, poster, title }: VideoPlayerProps) {
     };
   }, []);
 
+  // Safari plays HLS natively; other browsers stream it through hls.js
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !hls) return;
+
+    if (video.canPlayType('application/vnd.apple.mpegurl')) {
+      video.src = hls;
+      return;
+    }
+
+    let player: Hls | null = null;
+    let cancelled = false;
+
+    const fallBack = () => {
+      player?.destroy();
+      player = null;
+      video.src = src;
+    };
+
+    import('hls.js')
+      .then(({ default: HlsPlayer }) => {
+        if (cancelled) return;
+        if (!HlsPlayer.isSupported()) {
+          fallBack();
+          return;
+        }
+
+        player = new HlsPlayer({ capLevelToPlayerSize: true });
+        player.on(HlsPlayer.Events.ERROR, (_event, data) => {
+          if (data.fatal) fallBack();
+        });
+        player.loadSource(hls);
+        player.attachMedia(video);
+      })
+      .catch(() => {
+        if (!cancelled) fallBack();
+      });
+
+    return () => {
+      cancelled = true;
+      player?.destroy();
+    };
+  }, [hls, src]);
+
   const togglePlay = () => {
     const video = videoRef.current;
     if (!video) return;
@@ -138,7 +186,7 @@ export default function VideoPlayer({ src, poster, title }: VideoPlayerProps) {
       {/* Video */}
       <video
         ref={videoRef}
-        src={src}
+        src={hls ? undefined : src}
         poster={poster}
         className="w-full aspect-video"
         onClick={togglePlay}
@@ -3,6 +3,7 @@ import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import Nav from '../../components/Nav';
 import Footer from '../../components/layout/Footer';
+import FollowButton from '../../components/content/FollowButton';
 import { getInitials, formatRelativeTime, getContentTypeIcon } from '@/lib/utils';
 
 interface ContributorPost {
@@ -55,6 +56,21 @@ export default async function ContributorProfilePage({ params }: { params: Promi
     .eq('status', 'published')
     .order('published_at', { ascending: false });
 
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  let viewerFollows = false;
+  if (user && user.id !== contributor.id) {
+    const { data: follow } = await supabase
+      .from('follows')
+      .select('follower_id')
+      .eq('follower_id', user.id)
+      .eq('following_id', contributor.id)
+      .maybeSingle();
+    viewerFollows = !!follow;
+  }
+
   return (
     <>
       <Nav />
@@ -120,10 +136,29 @@ export default async function ContributorProfilePage({ params }: { params: Promi
                 </p>
                 <p className="text-sm" style={{ color: 'var(--foreground)', opacity: 0.6 }}>Stars</p>
               </div>
+              <div className="text-center">
+                <p className="text-3xl font-bold" style={{ color: 'var(--primary)' }}>
+                  {contributor.follower_count || 0}
+                </p>
+                <p className="text-sm" style={{ color: 'var(--foreground)', opacity: 0.6 }}>Followers</p>
+              </div>
+              <div className="text-center">
+                <p className="text-3xl font-bold" style={{ color: 'var(--secondary)' }}>
+                  {contributor.following_count || 0}
+                </p>
+                <p className="text-sm" style={{ color: 'var(--foreground)', opacity: 0.6 }}>Following</p>
+              </div>
             </div>
 
             {/* Links */}
             <div className="flex justify-center gap-4 flex-wrap">
+              {user?.id !== contributor.id && contributor.role !== 'reader' && (
+                <FollowButton
+                  endpoint={`/api/users/${contributor.username}/follow`}
+                  initialFollowing={viewerFollows}
+                  signedIn={!!user}
+                />
+              )}
               {contributor.kofi_username && (
                 <a
                   href={`https://ko-fi.com/${contributor.kofi_username}`}
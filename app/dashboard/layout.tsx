@@ -26,10 +26,7 @@ export default async function DashboardLayout({
     redirect('/auth/login');
   }
 
-  // Contributors and admins only
-  if (!['contributor', 'admin'].includes(profile.role)) {
-    redirect('/apply');
-  }
+  // Readers are limited to their saved posts and profile by the session middleware
 
   return (
     <div className="min-h-screen" style={{ background: 'var(--background)' }}>
@@ -0,0 +1,158 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import TipTapEditor from '@/app/components/editor/TipTapEditor';
+import ChapterListInput from '@/app/components/editor/ChapterListInput';
+import { formatChapterList, parseChapterList, type Chapter } from '@/lib/media/chapters';
+import { fetchWithCsrf } from '@/lib/security/csrf-client';
+import type { ContentType } from '@/types/database';
+
+interface PostEditFormProps {
+  post: {
+    id: string;
+    title: string;
+    subtitle: string | null;
+    excerpt: string | null;
+    content_html: string | null;
+    content_type: ContentType;
+    chapters: Chapter[];
+  };
+}
+
+const inputStyle = {
+  background: 'var(--background)',
+  borderColor: 'var(--border)',
+  color: 'var(--foreground)',
+};
+
+export default function PostEditForm({ post }: PostEditFormProps) {
+  const router = useRouter();
+  const [title, setTitle] = useState(post.title);
+  const [subtitle, setSubtitle] = useState(post.subtitle ?? '');
+  const [excerpt, setExcerpt] = useState(post.excerpt ?? '');
+  const [content, setContent] = useState(post.content_html ?? '');
+  const [chapterText, setChapterText] = useState(formatChapterList(post.chapters));
+  const [saving, setSaving] = useState(false);
+
+  const isAudio = post.content_type === 'audio';
+  const chapterList = parseChapterList(isAudio ? chapterText : '');
+
+  const handleSave = async () => {
+    if (!title.trim()) {
+      toast.error('Please fill in the required fields');
+      return;
+    }
+
+    if (chapterList.invalid.length > 0) {
+      toast.error('Please fix the chapter list');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetchWithCsrf(`/api/posts/${post.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title,
+          subtitle: subtitle || null,
+          excerpt: excerpt || null,
+          content: content || null,
+          ...(isAudio && { chapters: chapterList.chapters }),
+        }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to save post');
+      }
+
+      toast.success('Post saved');
+      router.push('/dashboard/posts');
+      router.refresh();
+    } catch (error) {
+      console.error('Save post error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save post');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Title */}
+      <div>
+        <label className="block text-sm font-medium mb-2" style={{ color: 'var(--foreground)' }}>
+          Title *
+        </label>
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          className="w-full p-3 rounded-lg border"
+          style={inputStyle}
+        />
+      </div>
+
+      {/* Subtitle */}
+      <div>
+        <label className="block text-sm font-medium mb-2" style={{ color: 'var(--foreground)' }}>
+          Subtitle
+        </label>
+        <input
+          type="text"
+          value={subtitle}
+          onChange={(e) => setSubtitle(e.target.value)}
+          placeholder="Optional subtitle..."
+          className="w-full p-3 rounded-lg border"
+          style={inputStyle}
+        />
+      </div>
+
+      {/* Chapters for audio */}
+      {isAudio && (
+        <ChapterListInput
+          value={chapterText}
+          onChange={setChapterText}
+          invalid={chapterList.invalid}
+        />
+      )}
+
+      {/* Body for written content or description for media */}
+      <div>
+        <label className="block text-sm font-medium mb-2" style={{ color: 'var(--foreground)' }}>
+          {post.content_type === 'written' ? 'Content' : 'Description'}
+        </label>
+        <TipTapEditor content={content} onChange={setContent} />
+      </div>
+
+      {/* Excerpt */}
+      <div>
+        <label className="block text-sm font-medium mb-2" style={{ color: 'var(--foreground)' }}>
+          Excerpt
+        </label>
+        <textarea
+          value={excerpt}
+          onChange={(e) => setExcerpt(e.target.value)}
+          placeholder="A brief summary for previews..."
+          rows={3}
+          className="w-full p-3 rounded-lg border resize-none"
+          style={inputStyle}
+        />
+      </div>
+
+      <div className="flex justify-end pt-6 border-t" style={{ borderColor: 'var(--border)' }}>
+        <button
+          onClick={() => void handleSave()}
+          disabled={saving}
+          className="px-6 py-3 rounded-lg font-medium disabled:opacity-50"
+          style={{ background: 'var(--primary)', color: 'var(--background)' }}
+        >
+          {saving ? 'Saving...' : 'Save Changes'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { createClient } from '@/lib/supabase/server';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import type { Chapter } from '@/lib/media/chapters';
+import PostEditForm from './PostEditForm';
+
+export default async function EditPostPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return null; // Will be redirected by layout
+  }
+
+  const [{ data: post }, { data: profile }] = await Promise.all([
+    supabase
+      .from('posts')
+      .select('id, title, subtitle, excerpt, content_html, content_type, chapters, author_id')
+      .eq('id', id)
+      .single(),
+    supabase.from('profiles').select('role').eq('id', user.id).single(),
+  ]);
+
+  const isPrivileged = ['editor', 'admin'].includes(profile?.role ?? '');
+  if (!post || (post.author_id !== user.id && !isPrivileged)) {
+    notFound();
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <h1
+          className="text-3xl font-bold"
+          style={{
+            fontFamily: 'var(--font-kindergarten)',
+            color: 'var(--primary)',
+          }}
+        >
+          Edit Post
+        </h1>
+        <Link
+          href="/dashboard/posts"
+          className="px-4 py-2 rounded-lg border flex-shrink-0"
+          style={{
+            borderColor: 'var(--border)',
+            color: 'var(--foreground)',
+            fontFamily: 'var(--font-body)',
+          }}
+        >
+          ← All Posts
+        </Link>
+      </div>
+
+      <PostEditForm
+        post={{
+          id: post.id,
+          title: post.title,
+          subtitle: post.subtitle,
+          excerpt: post.excerpt,
+          content_html: post.content_html,
+          content_type: post.content_type,
+          chapters: (post.chapters ?? []) as unknown as Chapter[],
+        }}
+      />
+    </div>
+  );
+}
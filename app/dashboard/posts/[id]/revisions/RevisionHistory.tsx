@@ -0,0 +1,244 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import type { PostRevisionSummary } from '@/lib/db/revisions';
+import type { BlockChange, RevisionDiff } from '@/lib/revisions';
+import { formatRelativeTime } from '@/lib/utils';
+
+interface RevisionHistoryProps {
+  postId: string;
+  revisions: PostRevisionSummary[];
+}
+
+const changeStyles: Record<BlockChange['op'], { background: string; marker: string }> = {
+  equal: { background: 'transparent', marker: ' ' },
+  added: { background: 'rgba(34, 197, 94, 0.15)', marker: '+' },
+  removed: { background: 'rgba(239, 68, 68, 0.15)', marker: '−' },
+  changed: { background: 'rgba(234, 179, 8, 0.15)', marker: '~' },
+};
+
+function editorName(revision: PostRevisionSummary): string {
+  return revision.editor?.display_name || revision.editor?.username || 'Unknown';
+}
+
+export default function RevisionHistory({ postId, revisions }: RevisionHistoryProps) {
+  const router = useRouter();
+  const latest = revisions[0];
+  const [fromId, setFromId] = useState(revisions[1]?.id ?? latest.id);
+  const [toId, setToId] = useState(latest.id);
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState<string | null>(null);
+
+  const handleCompare = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/posts/${postId}/revisions/diff?from=${fromId}&to=${toId}`);
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to compare revisions');
+      }
+
+      const { data } = await response.json();
+      setDiff(data);
+    } catch (error) {
+      console.error('Revision diff error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to compare revisions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (revision: PostRevisionSummary) => {
+    if (
+      !confirm(
+        `Restore revision #${revision.revision_number}? The current version stays in history.`
+      )
+    ) {
+      return;
+    }
+
+    setRestoring(revision.id);
+    try {
+      const response = await fetch(`/api/posts/${postId}/revisions/${revision.id}/restore`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to restore revision');
+      }
+
+      toast.success(`Restored revision #${revision.revision_number}`);
+      setDiff(null);
+      router.refresh();
+    } catch (error) {
+      console.error('Restore revision error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore revision');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const selectStyle = {
+    background: 'var(--background)',
+    borderColor: 'var(--border)',
+    color: 'var(--foreground)',
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+      {/* Revision list */}
+      <div
+        className="rounded-lg border overflow-hidden self-start"
+        style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+      >
+        <div className="divide-y" style={{ borderColor: 'var(--border)' }}>
+          {revisions.map((revision) => (
+            <div key={revision.id} className="flex items-center justify-between gap-3 p-4">
+              <div className="min-w-0">
+                <div
+                  className="font-medium"
+                  style={{ color: 'var(--foreground)', fontFamily: 'var(--font-body)' }}
+                >
+                  #{revision.revision_number}
+                  {revision.id === latest.id && (
+                    <span
+                      className="ml-2 px-2 py-0.5 rounded-full text-xs"
+                      style={{ background: 'var(--primary)', color: 'var(--background)' }}
+                    >
+                      Current
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs mt-1" style={{ color: 'var(--foreground)', opacity: 0.5 }}>
+                  {editorName(revision)} • {formatRelativeTime(revision.created_at)}
+                  {revision.restored_from && ` • restored from #${revision.restored_from}`}
+                </div>
+              </div>
+              {revision.id !== latest.id && (
+                <button
+                  onClick={() => void handleRestore(revision)}
+                  disabled={restoring !== null}
+                  className="px-3 py-1 rounded-lg text-sm border flex-shrink-0 disabled:opacity-50"
+                  style={{ borderColor: 'var(--border)', color: 'var(--foreground)' }}
+                >
+                  {restoring === revision.id ? 'Restoring...' : 'Restore'}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Diff viewer */}
+      <div
+        className="rounded-lg border p-4"
+        style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+      >
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <select
+            value={fromId}
+            onChange={(e) => setFromId(e.target.value)}
+            className="px-3 py-2 rounded-lg border"
+            style={selectStyle}
+          >
+            {revisions.map((revision) => (
+              <option key={revision.id} value={revision.id}>
+                From #{revision.revision_number}
+              </option>
+            ))}
+          </select>
+          <select
+            value={toId}
+            onChange={(e) => setToId(e.target.value)}
+            className="px-3 py-2 rounded-lg border"
+            style={selectStyle}
+          >
+            {revisions.map((revision) => (
+              <option key={revision.id} value={revision.id}>
+                To #{revision.revision_number}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => void handleCompare()}
+            disabled={loading}
+            className="px-4 py-2 rounded-lg disabled:opacity-50"
+            style={{ background: 'var(--primary)', color: 'var(--background)' }}
+          >
+            {loading ? 'Comparing...' : 'Compare'}
+          </button>
+        </div>
+
+        {diff ? (
+          <div className="space-y-4" style={{ fontFamily: 'var(--font-body)' }}>
+            <p className="text-sm" style={{ color: 'var(--foreground)', opacity: 0.6 }}>
+              {diff.stats.added} added • {diff.stats.removed} removed • {diff.stats.changed} changed
+            </p>
+
+            {diff.fields.map((change) => (
+              <div key={change.field} className="text-sm">
+                <div className="font-medium capitalize mb-1" style={{ color: 'var(--foreground)' }}>
+                  {change.field}
+                </div>
+                <div
+                  className="px-3 py-1 rounded"
+                  style={{ background: changeStyles.removed.background }}
+                >
+                  − {change.before || <em>empty</em>}
+                </div>
+                <div
+                  className="px-3 py-1 rounded mt-1"
+                  style={{ background: changeStyles.added.background }}
+                >
+                  + {change.after || <em>empty</em>}
+                </div>
+              </div>
+            ))}
+
+            <div className="space-y-1 text-sm" style={{ color: 'var(--foreground)' }}>
+              {diff.blocks.map((change, index) =>
+                change.op === 'changed' ? (
+                  <div
+                    key={index}
+                    className="px-3 py-2 rounded"
+                    style={{ background: changeStyles.changed.background }}
+                  >
+                    <div style={{ opacity: 0.6 }}>
+                      <span className="font-mono mr-2">−</span>
+                      {change.before.text}
+                    </div>
+                    <div>
+                      <span className="font-mono mr-2">+</span>
+                      {change.after.text}
+                    </div>
+                  </div>
+                ) : (
+                  <div
+                    key={index}
+                    className="px-3 py-2 rounded"
+                    style={{
+                      background: changeStyles[change.op].background,
+                      opacity: change.op === 'equal' ? 0.5 : 1,
+                    }}
+                  >
+                    <span className="font-mono mr-2">{changeStyles[change.op].marker}</span>
+                    {change.block.text}
+                  </div>
+                )
+              )}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm" style={{ color: 'var(--foreground)', opacity: 0.6 }}>
+            Pick two revisions and compare them to see what changed.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
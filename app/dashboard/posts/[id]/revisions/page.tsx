@@ -0,0 +1,93 @@
+import { createClient } from "@/lib/supabase/server";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getPostRevisions } from "@/lib/db/revisions";
+import RevisionHistory from "./RevisionHistory";
+
+export default async function PostRevisionsPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return null; // Will be redirected by layout
+  }
+
+  const [{ data: post }, { data: profile }] = await Promise.all([
+    supabase.from("posts").select("id, title, author_id").eq("id", id).single(),
+    supabase.from("profiles").select("role").eq("id", user.id).single(),
+  ]);
+
+  const isPrivileged = ["editor", "admin"].includes(profile?.role ?? "");
+  if (!post || (post.author_id !== user.id && !isPrivileged)) {
+    notFound();
+  }
+
+  const revisions = await getPostRevisions(id);
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div className="min-w-0">
+          <h1
+            className="text-3xl font-bold"
+            style={{
+              fontFamily: "var(--font-kindergarten)",
+              color: "var(--primary)",
+            }}
+          >
+            Revision History
+          </h1>
+          <p
+            className="truncate"
+            style={{
+              color: "var(--foreground)",
+              opacity: 0.7,
+              fontFamily: "var(--font-body)",
+            }}
+          >
+            {post.title || "Untitled"}
+          </p>
+        </div>
+        <Link
+          href="/dashboard/posts"
+          className="px-4 py-2 rounded-lg border flex-shrink-0"
+          style={{
+            borderColor: "var(--border)",
+            color: "var(--foreground)",
+            fontFamily: "var(--font-body)",
+          }}
+        >
+          ← All Posts
+        </Link>
+      </div>
+
+      {revisions.length > 0 ? (
+        <RevisionHistory postId={id} revisions={revisions} />
+      ) : (
+        <div
+          className="p-12 rounded-lg border text-center"
+          style={{ background: "var(--surface)", borderColor: "var(--border)" }}
+        >
+          <span className="text-6xl block mb-4">🕘</span>
+          <p
+            style={{
+              color: "var(--foreground)",
+              opacity: 0.6,
+              fontFamily: "var(--font-body)",
+            }}
+          >
+            No revisions recorded for this post yet.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,10 +4,12 @@ import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { toast } from "react-hot-toast";
 import TipTapEditor from "@/app/components/editor/TipTapEditor";
+import ChapterListInput from "@/app/components/editor/ChapterListInput";
 import MediaUploader from "@/app/components/media/MediaUploader";
 import ImageImporter from "@/app/components/media/ImageImporter";
 import { createClient } from "@/lib/supabase/client";
 import { slugify } from "@/lib/utils";
+import { parseChapterList } from "@/lib/media/chapters";
 
 type ContentType = "written" | "video" | "audio" | "visual";
 
@@ -60,6 +62,7 @@ export default function NewPostPage() {
   const [kofiUsername, setKofiUsername] = useState("");
   const [featuredImage, setFeaturedImage] = useState<string | null>(null);
   const [mediaUrl, setMediaUrl] = useState<string | null>(null);
+  const [chapterText, setChapterText] = useState("");
   const [saving, setSaving] = useState(false);
   const [imageImportMode, setImageImportMode] = useState<"upload" | "import">("upload");
 
@@ -88,12 +91,21 @@ export default function NewPostPage() {
     }
   };
 
+  const chapterList = parseChapterList(
+    contentType === "audio" ? chapterText : ""
+  );
+
   const handleSave = async (statusValue: "draft" | "pending") => {
     if (!contentType || !title.trim()) {
       toast.error("Please fill in the required fields");
       return;
     }
 
+    if (chapterList.invalid.length > 0) {
+      toast.error("Please fix the chapter list");
+      return;
+    }
+
     setSaving(true);
 
     try {
@@ -117,6 +129,7 @@ export default function NewPostPage() {
           category_id: categoryId || null,
           featured_image_url: featuredImage,
           media_url: mediaUrl,
+          chapters: chapterList.chapters,
           status: statusValue,
         })
         .select()
@@ -355,6 +368,15 @@ export default function NewPostPage() {
               </div>
             )}
 
+            {/* Chapters for audio */}
+            {contentType === "audio" && (
+              <ChapterListInput
+                value={chapterText}
+                onChange={setChapterText}
+                invalid={chapterList.invalid}
+              />
+            )}
+
             {/* Rich text editor for written content or description for media */}
             <div>
               <label
@@ -55,17 +55,30 @@ export default async function PostsPage() {
             Manage and edit your content.
           </p>
         </div>
-        <Link
-          href="/dashboard/posts/new"
-          className="px-4 py-2 rounded-lg flex items-center gap-2"
-          style={{
-            background: "var(--primary)",
-            color: "var(--background)",
-            fontFamily: "var(--font-body)",
-          }}
-        >
-          <span>✨</span> New Post
-        </Link>
+        <div className="flex items-center gap-3">
+          <Link
+            href="/dashboard/posts/scheduled"
+            className="px-4 py-2 rounded-lg flex items-center gap-2 border"
+            style={{
+              borderColor: "var(--border)",
+              color: "var(--foreground)",
+              fontFamily: "var(--font-body)",
+            }}
+          >
+            <span>📅</span> Scheduled
+          </Link>
+          <Link
+            href="/dashboard/posts/new"
+            className="px-4 py-2 rounded-lg flex items-center gap-2"
+            style={{
+              background: "var(--primary)",
+              color: "var(--background)",
+              fontFamily: "var(--font-body)",
+            }}
+          >
+            <span>✨</span> New Post
+          </Link>
+        </div>
       </div>
 
       {/* Filters */}
@@ -189,6 +202,13 @@ export default async function PostsPage() {
                   >
                     ✏️
                   </Link>
+                  <Link
+                    href={`/dashboard/posts/${post.id}/revisions`}
+                    className="p-2 rounded-lg hover:bg-[var(--background)] transition-colors"
+                    title="Revision history"
+                  >
+                    🕘
+                  </Link>
                   {post.status === "published" && (
                     <Link
                       href={`/articles/${post.slug}`}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'react-hot-toast';
+import { fetchWithCsrf } from '@/lib/security/csrf-client';
+
+interface ScheduledPostActionsProps {
+  postId: string;
+  postTitle: string;
+  scheduledFor: string;
+}
+
+// datetime-local inputs want "YYYY-MM-DDTHH:mm" in local time
+function toLocalInputValue(iso: string): string {
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+export default function ScheduledPostActions({
+  postId,
+  postTitle,
+  scheduledFor,
+}: ScheduledPostActionsProps) {
+  const [loading, setLoading] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [value, setValue] = useState(toLocalInputValue(scheduledFor));
+  const router = useRouter();
+
+  const handleReschedule = async () => {
+    setLoading(true);
+    try {
+      const response = await fetchWithCsrf(`/api/posts/${postId}/schedule`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scheduled_for: new Date(value).toISOString() }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to reschedule post');
+      }
+
+      toast.success(`"${postTitle}" rescheduled`);
+      setEditing(false);
+      router.refresh();
+    } catch (error) {
+      console.error('Reschedule error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to reschedule post');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setLoading(true);
+    try {
+      const response = await fetchWithCsrf(`/api/posts/${postId}/schedule`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to cancel scheduled post');
+      }
+
+      toast.success(`"${postTitle}" returned to drafts`);
+      router.refresh();
+    } catch (error) {
+      console.error('Cancel schedule error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel scheduled post');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (editing) {
+    return (
+      <div className="flex flex-col gap-2 mt-2">
+        <input
+          type="datetime-local"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          className="px-2 py-1 rounded border text-xs"
+          style={{
+            background: 'var(--background)',
+            borderColor: 'var(--border)',
+            color: 'var(--foreground)',
+          }}
+        />
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => void handleReschedule()}
+            disabled={loading || !value}
+            className="px-2 py-1 rounded text-xs disabled:opacity-50"
+            style={{ background: 'var(--primary)', color: 'var(--background)' }}
+          >
+            {loading ? 'Saving...' : 'Save'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setEditing(false)}
+            className="px-2 py-1 rounded text-xs"
+            style={{ border: '1px solid var(--border)', color: 'var(--foreground)' }}
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-2 mt-2">
+      <button
+        type="button"
+        onClick={() => setEditing(true)}
+        disabled={loading}
+        className="px-2 py-1 rounded text-xs disabled:opacity-50"
+        style={{ border: '1px solid var(--accent)', color: 'var(--accent)' }}
+        title="Reschedule"
+      >
+        🕒 Move
+      </button>
+      <button
+        type="button"
+        onClick={() => void handleCancel()}
+        disabled={loading}
+        className="px-2 py-1 rounded text-xs disabled:opacity-50"
+        style={{ border: '1px solid var(--secondary)', color: 'var(--secondary)' }}
+        title="Return to drafts"
+      >
+        ✕ Unschedule
+      </button>
+    </div>
+  );
+}
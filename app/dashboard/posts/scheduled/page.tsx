@@ -0,0 +1,243 @@
+import { createClient } from "@/lib/supabase/server";
+import Link from "next/link";
+import { getScheduledPosts, type PostWithDetails } from "@/lib/db/posts";
+import { getContentTypeIcon } from "@/lib/utils";
+import ScheduledPostActions from "./ScheduledPostActions";
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// Parse "YYYY-MM" into the first day of that month (defaults to this month)
+function parseMonth(month?: string): Date {
+  const match = month?.match(/^(\d{4})-(\d{2})$/);
+  if (match) {
+    return new Date(Number(match[1]), Number(match[2]) - 1, 1);
+  }
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+function monthParam(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+export default async function ScheduledPostsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ month?: string }>;
+}) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return null; // Will be redirected by layout
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  const params = await searchParams;
+  const monthStart = parseMonth(params.month);
+  const monthEnd = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 1);
+  const prevMonth = new Date(monthStart.getFullYear(), monthStart.getMonth() - 1, 1);
+
+  // Editors and admins see the whole publishing calendar, contributors see their own
+  const isPrivileged = ["editor", "admin"].includes(profile?.role ?? "");
+  const posts = await getScheduledPosts({
+    authorId: isPrivileged ? undefined : user.id,
+    from: monthStart.toISOString(),
+    to: monthEnd.toISOString(),
+  });
+
+  const postsByDay = new Map<string, PostWithDetails[]>();
+  for (const post of posts) {
+    if (!post.scheduled_for) continue;
+    const key = dayKey(new Date(post.scheduled_for));
+    postsByDay.set(key, [...(postsByDay.get(key) || []), post]);
+  }
+
+  // Build a Monday-first grid padded to whole weeks
+  const leadingBlanks = (monthStart.getDay() + 6) % 7;
+  const daysInMonth = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 0).getDate();
+  const cells: (Date | null)[] = [
+    ...Array.from({ length: leadingBlanks }, () => null),
+    ...Array.from(
+      { length: daysInMonth },
+      (_, i) => new Date(monthStart.getFullYear(), monthStart.getMonth(), i + 1)
+    ),
+  ];
+  while (cells.length % 7 !== 0) cells.push(null);
+
+  const todayKey = dayKey(new Date());
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1
+            className="text-3xl font-bold"
+            style={{
+              fontFamily: "var(--font-kindergarten)",
+              color: "var(--primary)",
+            }}
+          >
+            Scheduled
+          </h1>
+          <p
+            style={{
+              color: "var(--foreground)",
+              opacity: 0.7,
+              fontFamily: "var(--font-body)",
+            }}
+          >
+            Posts queued to go live automatically.
+          </p>
+        </div>
+        <Link
+          href="/dashboard/posts"
+          className="px-4 py-2 rounded-lg border"
+          style={{
+            borderColor: "var(--border)",
+            color: "var(--foreground)",
+            fontFamily: "var(--font-body)",
+          }}
+        >
+          ← All Posts
+        </Link>
+      </div>
+
+      {/* Month navigation */}
+      <div
+        className="flex items-center justify-between p-4 rounded-lg mb-6"
+        style={{
+          background: "var(--surface)",
+          border: "1px solid var(--border)",
+        }}
+      >
+        <Link
+          href={`/dashboard/posts/scheduled?month=${monthParam(prevMonth)}`}
+          className="px-3 py-1 rounded-lg hover:bg-[var(--background)] transition-colors"
+          style={{ color: "var(--foreground)" }}
+        >
+          ← Prev
+        </Link>
+        <h2
+          className="text-lg font-bold"
+          style={{ color: "var(--foreground)", fontFamily: "var(--font-body)" }}
+        >
+          {monthStart.toLocaleDateString("en-GB", { month: "long", year: "numeric" })}
+        </h2>
+        <Link
+          href={`/dashboard/posts/scheduled?month=${monthParam(monthEnd)}`}
+          className="px-3 py-1 rounded-lg hover:bg-[var(--background)] transition-colors"
+          style={{ color: "var(--foreground)" }}
+        >
+          Next →
+        </Link>
+      </div>
+
+      {/* Calendar grid */}
+      <div
+        className="rounded-lg border overflow-hidden"
+        style={{ background: "var(--surface)", borderColor: "var(--border)" }}
+      >
+        <div className="grid grid-cols-7">
+          {WEEKDAYS.map((day) => (
+            <div
+              key={day}
+              className="p-2 text-xs uppercase tracking-wider text-center"
+              style={{ color: "var(--foreground)", opacity: 0.5, borderBottom: "1px solid var(--border)" }}
+            >
+              {day}
+            </div>
+          ))}
+          {cells.map((date, index) => {
+            const dayPosts = date ? postsByDay.get(dayKey(date)) || [] : [];
+            const isToday = date ? dayKey(date) === todayKey : false;
+
+            return (
+              <div
+                key={index}
+                className="min-h-[110px] p-2"
+                style={{
+                  borderRight: index % 7 !== 6 ? "1px solid var(--border)" : undefined,
+                  borderBottom: "1px solid var(--border)",
+                  background: date ? undefined : "var(--background)",
+                }}
+              >
+                {date && (
+                  <>
+                    <span
+                      className="text-xs font-medium"
+                      style={{
+                        color: isToday ? "var(--primary)" : "var(--foreground)",
+                        opacity: isToday ? 1 : 0.6,
+                      }}
+                    >
+                      {date.getDate()}
+                    </span>
+                    <div className="space-y-2 mt-1">
+                      {dayPosts.map((post) => (
+                        <div
+                          key={post.id}
+                          className="p-2 rounded text-xs"
+                          style={{ background: "var(--background)", border: "1px solid var(--border)" }}
+                        >
+                          <div className="flex items-center gap-1">
+                            <span>{getContentTypeIcon(post.content_type)}</span>
+                            <span style={{ color: "var(--accent)" }}>
+                              {new Date(post.scheduled_for as string).toLocaleTimeString("en-GB", {
+                                hour: "2-digit",
+                                minute: "2-digit",
+                              })}
+                            </span>
+                          </div>
+                          <Link
+                            href={`/dashboard/posts/${post.id}/edit`}
+                            className="block font-medium truncate hover:underline"
+                            style={{ color: "var(--foreground)" }}
+                            title={post.title}
+                          >
+                            {post.title || "Untitled"}
+                          </Link>
+                          {isPrivileged && post.author?.display_name && (
+                            <span style={{ color: "var(--foreground)", opacity: 0.5 }}>
+                              {post.author.display_name}
+                            </span>
+                          )}
+                          <ScheduledPostActions
+                            postId={post.id}
+                            postTitle={post.title}
+                            scheduledFor={post.scheduled_for as string}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {posts.length === 0 && (
+        <p
+          className="mt-6 text-center"
+          style={{ color: "var(--foreground)", opacity: 0.6, fontFamily: "var(--font-body)" }}
+        >
+          Nothing scheduled this month.
+        </p>
+      )}
+    </div>
+  );
+}
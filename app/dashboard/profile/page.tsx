@@ -5,6 +5,7 @@ import { toast } from 'react-hot-toast';
 import { createClient } from '@/lib/supabase/client';
 import { getInitials } from '@/lib/utils';
 import MediaUploader from '@/app/components/media/MediaUploader';
+import NotificationSettings from '@/app/components/dashboard/NotificationSettings';
 
 export default function ProfilePage() {
   const supabase = createClient();
@@ -360,6 +361,9 @@ export default function ProfilePage() {
             {saving ? 'Saving...' : 'Save Changes'}
           </button>
         </div>
+
+        {/* Notification settings save as they change */}
+        <NotificationSettings />
       </div>
     </div>
   );
@@ -0,0 +1,196 @@
+import { createClient } from '@/lib/supabase/server';
+import Link from 'next/link';
+import { listBookmarks, listCollections } from '@/lib/db';
+import { formatRelativeTime, getContentTypeIcon } from '@/lib/utils';
+import CollectionManager from '@/app/components/dashboard/CollectionManager';
+import SavedBookmarkActions from '@/app/components/dashboard/SavedBookmarkActions';
+
+export const metadata = {
+  title: 'Saved',
+};
+
+export default async function SavedPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ collection?: string }>;
+}) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return null; // Will be redirected by layout
+  }
+
+  const { collection } = await searchParams;
+
+  const collections = await listCollections(user.id);
+  const current = collections.find((c) => c.id === collection) ?? null;
+  const collectionFilter = collection === 'none' ? 'none' : current ? current.id : undefined;
+
+  const { bookmarks, total } = await listBookmarks(user.id, {
+    collection_id: collectionFilter,
+    limit: 100,
+  });
+
+  const tabs = [
+    { label: 'All', href: '/dashboard/saved', active: !collectionFilter },
+    {
+      label: 'Unsorted',
+      href: '/dashboard/saved?collection=none',
+      active: collectionFilter === 'none',
+    },
+    ...collections.map((c) => ({
+      label: `${c.name} (${c.bookmark_count})`,
+      href: `/dashboard/saved?collection=${c.id}`,
+      active: current?.id === c.id,
+    })),
+  ];
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+        <div>
+          <h1
+            className="text-3xl font-bold"
+            style={{
+              fontFamily: 'var(--font-kindergarten)',
+              color: 'var(--primary)',
+            }}
+          >
+            {current ? current.name : 'Saved'}
+          </h1>
+          <p
+            style={{
+              color: 'var(--foreground)',
+              opacity: 0.7,
+              fontFamily: 'var(--font-body)',
+            }}
+          >
+            {current?.description ||
+              `${total} saved ${total === 1 ? 'article' : 'articles'} to read later.`}
+          </p>
+        </div>
+        <CollectionManager current={current ? { id: current.id, name: current.name } : null} />
+      </div>
+
+      {/* Collections */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        {tabs.map((tab) => (
+          <Link
+            key={tab.href}
+            href={tab.href}
+            className="px-4 py-1.5 rounded-full border text-sm transition-colors"
+            style={{
+              borderColor: tab.active ? 'var(--primary)' : 'var(--border)',
+              background: tab.active ? 'var(--primary)' : 'transparent',
+              color: tab.active ? 'var(--background)' : 'var(--foreground)',
+              fontFamily: 'var(--font-body)',
+            }}
+          >
+            {tab.label}
+          </Link>
+        ))}
+      </div>
+
+      {/* Bookmarks list */}
+      {bookmarks.length > 0 ? (
+        <div
+          className="rounded-lg border overflow-hidden"
+          style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+        >
+          <div className="divide-y" style={{ borderColor: 'var(--border)' }}>
+            {bookmarks.map((bookmark) => (
+              <div
+                key={bookmark.id}
+                className="flex items-center justify-between p-4 hover:bg-[var(--surface-elevated)] transition-colors"
+              >
+                <div className="flex items-center gap-4 flex-1 min-w-0">
+                  <div
+                    className="w-12 h-12 rounded-lg flex items-center justify-center text-2xl flex-shrink-0"
+                    style={{ background: 'var(--background)' }}
+                  >
+                    {bookmark.post ? getContentTypeIcon(bookmark.post.content_type) : '🔖'}
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    {bookmark.post ? (
+                      <Link
+                        href={`/articles/${bookmark.post.slug}`}
+                        className="font-medium truncate block hover:text-[var(--primary)]"
+                        style={{
+                          color: 'var(--foreground)',
+                          fontFamily: 'var(--font-body)',
+                        }}
+                      >
+                        {bookmark.post.title}
+                      </Link>
+                    ) : (
+                      <span style={{ color: 'var(--foreground)', opacity: 0.5 }}>
+                        This post is no longer available
+                      </span>
+                    )}
+                    <div
+                      className="flex items-center gap-3 text-xs mt-1"
+                      style={{ color: 'var(--foreground)', opacity: 0.5 }}
+                    >
+                      {bookmark.post?.author?.display_name && (
+                        <>
+                          <span>{bookmark.post.author.display_name}</span>
+                          <span>•</span>
+                        </>
+                      )}
+                      {bookmark.post?.category && (
+                        <>
+                          <span>{bookmark.post.category.name}</span>
+                          <span>•</span>
+                        </>
+                      )}
+                      <span>Saved {formatRelativeTime(bookmark.created_at)}</span>
+                    </div>
+                    {bookmark.note && (
+                      <p
+                        className="text-sm mt-1"
+                        style={{ color: 'var(--foreground)', opacity: 0.7 }}
+                      >
+                        {bookmark.note}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <SavedBookmarkActions
+                  postId={bookmark.post_id}
+                  collectionId={bookmark.collection_id}
+                  collections={collections.map(({ id, name }) => ({ id, name }))}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div
+          className="text-center py-16 rounded-lg border"
+          style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+        >
+          <span className="text-5xl block mb-4">🔖</span>
+          <p
+            className="mb-4"
+            style={{ color: 'var(--foreground)', opacity: 0.7, fontFamily: 'var(--font-body)' }}
+          >
+            {collectionFilter
+              ? 'No saved articles in here yet.'
+              : 'Save articles with the bookmark button to read them later.'}
+          </p>
+          <Link
+            href="/articles"
+            className="inline-block px-6 py-3 rounded-lg"
+            style={{ background: 'var(--primary)', color: 'var(--background)' }}
+          >
+            Browse articles
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import Link from 'next/link';
+import Nav from '../../components/Nav';
+import Footer from '../../components/layout/Footer';
+import { confirmNewsletterSubscription } from '@/lib/newsletter';
+import { ApiError } from '@/lib/api/response';
+
+export const metadata = {
+  title: 'Confirm Subscription',
+  description: 'Confirm your subscription to the Scroungers Multimedia newsletter.',
+  robots: { index: false },
+};
+
+async function confirm(token: string | undefined): Promise<string> {
+  if (!token) {
+    return 'Use the confirmation link from the email we sent you.';
+  }
+
+  try {
+    return (await confirmNewsletterSubscription(token))
+      ? "You're subscribed. Watch your inbox for the next issue."
+      : 'This link has already been used.';
+  } catch (error) {
+    return error instanceof ApiError ? error.message : 'Something went wrong. Please try again.';
+  }
+}
+
+export default async function NewsletterConfirmPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  const message = await confirm(token);
+
+  return (
+    <>
+      <Nav />
+      <section className="min-h-screen py-24 px-4" style={{ background: 'var(--background)' }}>
+        <div
+          className="max-w-md mx-auto p-8 rounded-lg border text-center"
+          style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+        >
+          <h1
+            className="text-3xl font-bold mb-4"
+            style={{ fontFamily: 'var(--font-kindergarten)', color: 'var(--primary)' }}
+          >
+            newsletter
+          </h1>
+          <p className="mb-6" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+            {message}
+          </p>
+          <Link href="/articles" style={{ color: 'var(--primary)' }}>
+            Explore content
+          </Link>
+        </div>
+      </section>
+      <Footer />
+    </>
+  );
+}
@@ -5,43 +5,130 @@ import Link from 'next/link';
 import gsap from 'gsap';
 import Nav from '@/app/components/Nav';
 import Footer from '@/app/components/layout/Footer';
-import { getContentTypeIcon, formatRelativeTime } from '@/lib/utils';
-
-// Mock search results
-const mockResults = [
-  {
-    id: '1',
-    title: 'The Housing Crisis: A View From the Queue',
-    slug: 'housing-crisis-view-from-queue',
-    excerpt: 'After three years on the housing waiting list...',
-    content_type: 'written' as const,
-    published_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
-    author_name: 'Sarah M.',
-    category_name: 'Housing',
-  },
-  {
-    id: '2',
-    title: 'Universal Credit: The Documentary',
-    slug: 'universal-credit-documentary',
-    excerpt: 'A 20-minute deep dive into the system...',
-    content_type: 'video' as const,
-    published_at: new Date(Date.now() - 5 * 60 * 60 * 1000).toISOString(),
-    author_name: 'Mike T.',
-    category_name: 'Benefits',
-  },
-];
+import { getContentTypeIcon, getContentTypeLabel, formatRelativeTime } from '@/lib/utils';
+import type { PostSearchResult, SearchFacet, SearchFacets } from '@/lib/db/search';
+
+type Selection = Record<SearchFacet, string[]>;
+
+const emptySelection: Selection = {
+  content_type: [],
+  category: [],
+  tag: [],
+  author: [],
+  published: [],
+};
+
+const facetTitles: Record<SearchFacet, string> = {
+  content_type: 'Type',
+  category: 'Category',
+  tag: 'Tag',
+  author: 'Contributor',
+  published: 'Published',
+};
+
+const publishedLabels: Record<string, string> = {
+  day: 'Past 24 hours',
+  week: 'Past week',
+  month: 'Past month',
+  year: 'Past year',
+  older: 'Older',
+};
+
+function facetLabel(facet: SearchFacet, value: string, label: string): string {
+  if (facet === 'content_type') {
+    return getContentTypeLabel(value as PostSearchResult['content_type']);
+  }
+  if (facet === 'published') {
+    return publishedLabels[value] ?? value;
+  }
+  return label;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+// Render ts_headline output without injecting HTML: only <mark> is meaningful
+function Headline({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/(<mark>.*?<\/mark>)/g).map((part, i) =>
+        part.startsWith('<mark>') ? (
+          <mark key={i} style={{ background: 'var(--primary)', color: 'var(--background)' }}>
+            {decodeEntities(part.slice(6, -7))}
+          </mark>
+        ) : (
+          <span key={i}>{decodeEntities(part)}</span>
+        )
+      )}
+    </>
+  );
+}
 
 export default function SearchPage() {
   const [query, setQuery] = useState('');
-  const [results, setResults] = useState(mockResults);
+  const [submittedQuery, setSubmittedQuery] = useState('');
+  const [results, setResults] = useState<PostSearchResult[]>([]);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [total, setTotal] = useState(0);
+  const [selected, setSelected] = useState<Selection>(emptySelection);
   const [loading, setLoading] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
+  const runSearch = async (q: string, selection: Selection) => {
+    if (q.trim().length < 2) return;
+
+    setLoading(true);
+    setSubmittedQuery(q);
+
+    const params = new URLSearchParams({ q, type: 'posts' });
+    (Object.keys(selection) as SearchFacet[]).forEach((facet) => {
+      selection[facet].forEach((value) => params.append(facet, value));
+    });
+    window.history.replaceState(null, '', `/search?${params.toString()}`);
+
+    try {
+      const response = await fetch(`/api/search?${params.toString()}`);
+      if (!response.ok) throw new Error('Search failed');
+
+      const { data } = await response.json();
+      setResults(data.results);
+      setFacets(data.facets);
+      setTotal(data.pagination.total);
+    } catch (error) {
+      console.error('Search error:', error);
+      setResults([]);
+      setFacets(null);
+      setTotal(0);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   useEffect(() => {
     // Focus input on mount
     inputRef.current?.focus();
 
+    // Restore a search from the URL (e.g. arriving from the nav search box)
+    const params = new URLSearchParams(window.location.search);
+    const initialQuery = params.get('q') || '';
+    if (initialQuery) {
+      const initialSelection = { ...emptySelection };
+      (Object.keys(emptySelection) as SearchFacet[]).forEach((facet) => {
+        initialSelection[facet] = params.getAll(facet);
+      });
+      setQuery(initialQuery);
+      setSelected(initialSelection);
+      void runSearch(initialQuery, initialSelection);
+    }
+
     const ctx = gsap.context(() => {
       gsap.from('.search-container', {
         y: 30,
@@ -58,16 +145,23 @@ export default function SearchPage() {
     e.preventDefault();
     if (!query.trim()) return;
 
-    setLoading(true);
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 500));
-    setResults(mockResults.filter(r => 
-      r.title.toLowerCase().includes(query.toLowerCase()) ||
-      r.excerpt.toLowerCase().includes(query.toLowerCase())
-    ));
-    setLoading(false);
+    // A new query starts with no facets selected
+    setSelected(emptySelection);
+    await runSearch(query.trim(), emptySelection);
+  };
+
+  const toggleFacet = (facet: SearchFacet, value: string) => {
+    const current = selected[facet];
+    const next = {
+      ...selected,
+      [facet]: current.includes(value) ? current.filter((v) => v !== value) : [...current, value],
+    };
+    setSelected(next);
+    void runSearch(submittedQuery, next);
   };
 
+  const hasFacets = facets && (Object.keys(facets) as SearchFacet[]).some((f) => facets[f].length > 0);
+
   return (
     <>
       <Nav />
@@ -76,16 +170,16 @@ export default function SearchPage() {
         className="min-h-screen pt-24 pb-16 px-4 md:px-8"
         style={{ background: 'var(--background)' }}
       >
-        <div className="max-w-4xl mx-auto">
+        <div className="max-w-6xl mx-auto">
           {/* Search form */}
-          <div className="search-container mb-12">
+          <div className="search-container mb-12 max-w-4xl mx-auto">
             <form onSubmit={(e) => void handleSearch(e)} className="relative">
               <input
                 ref={inputRef}
                 type="text"
                 value={query}
                 onChange={(e) => setQuery(e.target.value)}
-                placeholder="Search articles, videos, audio, art..."
+                placeholder='Search articles, videos, audio, art... (try "exact phrase" or -exclude)'
                 className="w-full px-6 py-5 rounded-xl border text-xl outline-none transition-all focus:ring-2"
                 style={{
                   background: 'var(--surface)',
@@ -112,58 +206,90 @@ export default function SearchPage() {
           </div>
 
           {/* Results */}
-          {query && (
-            <div>
-              <p className="mb-6" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
-                {results.length} results for &quot;{query}&quot;
-              </p>
-
-              <div className="space-y-4">
-                {results.map(result => (
-                  <Link
-                    key={result.id}
-                    href={`/articles/${result.slug}`}
-                    className="block p-6 rounded-lg border transition-all hover:border-opacity-50"
-                    style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
-                  >
-                    <div className="flex items-start gap-4">
-                      <span className="text-3xl">{getContentTypeIcon(result.content_type)}</span>
-                      <div className="flex-1">
-                        <h3
-                          className="text-lg font-medium mb-1 hover:text-[var(--primary)]"
-                          style={{ color: 'var(--foreground)' }}
-                        >
-                          {result.title}
+          {submittedQuery && (
+            <div className="flex flex-col md:flex-row gap-8">
+              {/* Facets */}
+              {hasFacets && (
+                <aside className="md:w-64 flex-shrink-0 space-y-6">
+                  {(Object.keys(facetTitles) as SearchFacet[]).map((facet) =>
+                    facets[facet].length > 0 ? (
+                      <div key={facet}>
+                        <h3 className="text-sm font-bold uppercase mb-2" style={{ color: 'var(--foreground)', opacity: 0.6 }}>
+                          {facetTitles[facet]}
                         </h3>
-                        <p className="text-sm mb-2" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
-                          {result.excerpt}
-                        </p>
-                        <div className="flex items-center gap-4 text-sm" style={{ color: 'var(--foreground)', opacity: 0.5 }}>
-                          <span>{result.author_name}</span>
-                          <span>{result.category_name}</span>
-                          <span>{formatRelativeTime(result.published_at)}</span>
-                        </div>
+                        <ul className="space-y-1">
+                          {facets[facet].map((option) => (
+                            <li key={option.value}>
+                              <label className="flex items-center gap-2 text-sm cursor-pointer" style={{ color: 'var(--foreground)' }}>
+                                <input
+                                  type="checkbox"
+                                  checked={selected[facet].includes(option.value)}
+                                  onChange={() => toggleFacet(facet, option.value)}
+                                />
+                                <span className="flex-1 truncate">{facetLabel(facet, option.value, option.label)}</span>
+                                <span style={{ opacity: 0.5 }}>{option.count}</span>
+                              </label>
+                            </li>
+                          ))}
+                        </ul>
                       </div>
-                    </div>
-                  </Link>
-                ))}
-              </div>
+                    ) : null
+                  )}
+                </aside>
+              )}
 
-              {results.length === 0 && (
-                <div className="text-center py-16">
-                  <p className="text-xl mb-4" style={{ color: 'var(--foreground)', opacity: 0.5 }}>
-                    No results found for &quot;{query}&quot;
-                  </p>
-                  <p style={{ color: 'var(--foreground)', opacity: 0.4 }}>
-                    Try different keywords or browse our categories
-                  </p>
+              <div className="flex-1 min-w-0">
+                <p className="mb-6" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                  {total} results for &quot;{submittedQuery}&quot;
+                </p>
+
+                <div className="space-y-4">
+                  {results.map(result => (
+                    <Link
+                      key={result.id}
+                      href={`/articles/${result.slug}`}
+                      className="block p-6 rounded-lg border transition-all hover:border-opacity-50"
+                      style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+                    >
+                      <div className="flex items-start gap-4">
+                        <span className="text-3xl">{getContentTypeIcon(result.content_type)}</span>
+                        <div className="flex-1">
+                          <h3
+                            className="text-lg font-medium mb-1 hover:text-[var(--primary)]"
+                            style={{ color: 'var(--foreground)' }}
+                          >
+                            {result.title}
+                          </h3>
+                          <p className="text-sm mb-2" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                            {result.headline ? <Headline text={result.headline} /> : result.excerpt}
+                          </p>
+                          <div className="flex items-center gap-4 text-sm" style={{ color: 'var(--foreground)', opacity: 0.5 }}>
+                            <span>{result.author.display_name || result.author.username}</span>
+                            {result.category && <span>{result.category.name}</span>}
+                            {result.published_at && <span>{formatRelativeTime(result.published_at)}</span>}
+                          </div>
+                        </div>
+                      </div>
+                    </Link>
+                  ))}
                 </div>
-              )}
+
+                {!loading && results.length === 0 && (
+                  <div className="text-center py-16">
+                    <p className="text-xl mb-4" style={{ color: 'var(--foreground)', opacity: 0.5 }}>
+                      No results found for &quot;{submittedQuery}&quot;
+                    </p>
+                    <p style={{ color: 'var(--foreground)', opacity: 0.4 }}>
+                      Try different keywords or browse our categories
+                    </p>
+                  </div>
+                )}
+              </div>
             </div>
           )}
 
           {/* Empty state */}
-          {!query && (
+          {!submittedQuery && (
             <div className="text-center py-16">
               <p className="text-xl mb-4" style={{ color: 'var(--foreground)', opacity: 0.5 }}>
                 Search for articles, videos, podcasts, and art
@@ -179,14 +305,3 @@ export default function SearchPage() {
     </>
   );
 }
-
-
-
-
-
-
-
-
-
-
-
@@ -0,0 +1,81 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import type { EmailCategory } from '@/lib/notifications';
+
+interface UnsubscribeConfirmProps {
+  token: string;
+}
+
+const categoryLabels: Record<EmailCategory, string> = {
+  comment: 'comment emails',
+  reply: 'reply emails',
+  reaction: 'reaction emails',
+  post_published: 'post published emails',
+  post_rejected: 'post review emails',
+  weekly_digest: 'the weekly digest',
+  newsletter: 'the newsletter',
+  announcement: 'announcements',
+};
+
+export default function UnsubscribeConfirm({ token }: UnsubscribeConfirmProps) {
+  const [loading, setLoading] = useState(false);
+  const [category, setCategory] = useState<EmailCategory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnsubscribe = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/unsubscribe?token=${encodeURIComponent(token)}`, {
+        method: 'POST',
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        throw new Error(body.error?.message || 'Failed to unsubscribe');
+      }
+
+      setCategory(body.data.category);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unsubscribe');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (category) {
+    return (
+      <p style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+        Done. You won&apos;t get {categoryLabels[category] ?? 'these emails'} any more. Changed your
+        mind? Turn it back on in your{' '}
+        <Link href="/dashboard/profile" style={{ color: 'var(--primary)' }}>
+          notification settings
+        </Link>
+        .
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+        Stop getting these emails? You can turn them back on at any time.
+      </p>
+      {error && (
+        <p role="alert" className="text-sm" style={{ color: 'var(--primary)' }}>
+          {error}
+        </p>
+      )}
+      <button
+        onClick={() => void handleUnsubscribe()}
+        disabled={loading}
+        className="w-full py-3 rounded-lg font-medium transition-all hover:opacity-90 disabled:opacity-50"
+        style={{ background: 'var(--primary)', color: '#000' }}
+      >
+        {loading ? 'Unsubscribing...' : 'Unsubscribe'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import Link from 'next/link';
+import Nav from '../components/Nav';
+import Footer from '../components/layout/Footer';
+import UnsubscribeConfirm from './UnsubscribeConfirm';
+
+export const metadata = {
+  title: 'Unsubscribe',
+  description: 'Manage the emails you get from Scroungers Multimedia.',
+  robots: { index: false },
+};
+
+export default async function UnsubscribePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+
+  return (
+    <>
+      <Nav />
+      <section className="min-h-screen py-24 px-4" style={{ background: 'var(--background)' }}>
+        <div
+          className="max-w-md mx-auto p-8 rounded-lg border text-center"
+          style={{ background: 'var(--surface)', borderColor: 'var(--border)' }}
+        >
+          <h1
+            className="text-3xl font-bold mb-4"
+            style={{ fontFamily: 'var(--font-kindergarten)', color: 'var(--primary)' }}
+          >
+            unsubscribe
+          </h1>
+
+          {token ? (
+            <UnsubscribeConfirm token={token} />
+          ) : (
+            <p className="mb-6" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+              Use the unsubscribe link at the bottom of one of our emails, or choose what we send
+              you in your{' '}
+              <Link href="/dashboard/profile" style={{ color: 'var(--primary)' }}>
+                notification settings
+              </Link>
+              .
+            </p>
+          )}
+        </div>
+      </section>
+      <Footer />
+    </>
+  );
+}
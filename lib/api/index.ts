@@ -46,20 +46,44 @@ export {
   displayNameSchema,
   bioSchema,
   updateProfileSchema,
+  updatePreferencesSchema,
+  emailUnsubscribeSchema,
   // Post schemas
   createPostSchema,
   updatePostSchema,
   publishPostSchema,
+  reschedulePostSchema,
   listPostsSchema,
+  revisionDiffSchema,
   // Comment schemas
   createCommentSchema,
   updateCommentSchema,
   listCommentsSchema,
   flagCommentSchema,
+  // Report schemas
+  reportReasonSchema,
+  reportStatusSchema,
+  reportTargetTypeSchema,
+  createReportSchema,
+  listReportsSchema,
+  reviewReportSchema,
+  // Moderation queue schemas
+  moderationItemTypeSchema,
+  moderationQueueSchema,
+  moderationActionSchema,
+  assignModerationSchema,
+  // Audit log schemas
+  auditActionSchema,
+  listAuditLogsSchema,
   // Reaction schemas
   reactionTypeSchema,
   toggleReactionSchema,
   toggleCommentReactionSchema,
+  // Bookmark schemas
+  createBookmarkSchema,
+  updateBookmarkSchema,
+  listBookmarksSchema,
+  bookmarkCollectionSchema,
   // Application schemas
   contentTypesSchema,
   contributorApplicationSchema,
@@ -67,19 +91,33 @@ export {
   // Newsletter schemas
   newsletterSubscribeSchema,
   newsletterUnsubscribeSchema,
+  createCampaignSchema,
+  updateCampaignSchema,
   // Contact schemas
   contactSubmissionSchema,
   // Admin schemas
   updateUserRoleSchema,
   moderatePostSchema,
   suspendUserSchema,
+  banUserSchema,
+  listEmailQueueSchema,
+  retryEmailSchema,
+  listEmailSuppressionsSchema,
+  removeEmailSuppressionSchema,
+  emailPreviewSchema,
+  // Webhook schemas
+  emailWebhookEventSchema,
   // Search schemas
   searchSchema,
+  publishedBucketSchema,
+  searchSuggestSchema,
+  mentionSuggestSchema,
   // Notification schemas
   notificationTypeSchema,
   markNotificationsReadSchema,
   // Media schemas
   mediaUploadSchema,
+  presignPartsSchema,
   // Helper functions
   parseBody,
   parseParams,
@@ -99,6 +137,7 @@ export {
   requireOwnershipOrAdmin,
   requirePostOwnership,
   requireCommentOwnership,
+  requireCronSecret,
   checkRateLimit,
   rateLimitByIp,
   rateLimitByUser,
@@ -1,4 +1,7 @@
+import { timingSafeEqual } from 'crypto';
 import { createClient } from '@/lib/supabase/server';
+import { resolveAccountStatus } from '@/lib/security/account-status';
+import type { UserStatus } from '@/types/database';
 import { ApiError } from './response';
 
 // ============================================================================
@@ -11,6 +14,9 @@ export interface AuthenticatedUser {
   id: string;
   email: string;
   role: UserRole;
+  /** Suspensions past their end date already count as active */
+  status: UserStatus;
+  suspended_until: string | null;
   profile: {
     username: string | null;
     display_name: string | null;
@@ -58,7 +64,7 @@ export async function getAuthUser(): Promise<{
   // Fetch the user's profile with role
   const { data: profile } = await supabase
     .from('profiles')
-    .select('username, display_name, avatar_url, role')
+    .select('username, display_name, avatar_url, role, status, suspended_until')
     .eq('id', user.id)
     .single();
 
@@ -66,6 +72,11 @@ export async function getAuthUser(): Promise<{
     id: user.id,
     email: user.email || '',
     role: (profile?.role as UserRole) || 'reader',
+    status: resolveAccountStatus({
+      status: profile?.status ?? null,
+      suspended_until: profile?.suspended_until ?? null,
+    }),
+    suspended_until: profile?.suspended_until ?? null,
     profile: profile
       ? {
           username: profile.username,
@@ -79,7 +90,9 @@ export async function getAuthUser(): Promise<{
 }
 
 /**
- * Require authentication - throws if not authenticated
+ * Require authentication - throws if not authenticated or banned.
+ * Suspended users pass so they can still read; their writes are refused
+ * by the session middleware (lib/supabase/middleware.ts).
  */
 export async function requireAuth(): Promise<AuthContext> {
   const { user, supabase } = await getAuthUser();
@@ -88,9 +101,14 @@ export async function requireAuth(): Promise<AuthContext> {
     throw ApiError.unauthorized('Authentication required');
   }
 
+  if (user.status === 'banned') {
+    throw ApiError.forbidden('This account has been banned');
+  }
+
   return { user, supabase };
 }
 
+
 /**
  * Require a specific role - throws if user doesn't have sufficient permissions
  */
@@ -225,6 +243,30 @@ export async function requireCommentOwnership(
   return { user, supabase, comment };
 }
 
+// ============================================================================
+// SCHEDULED JOBS
+// ============================================================================
+
+/**
+ * Require the shared cron secret (Authorization: Bearer <CRON_SECRET>)
+ * Used by /api/cron/* routes that are triggered by an external scheduler
+ */
+export function requireCronSecret(request: Request): void {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    throw ApiError.forbidden('Scheduled jobs are not configured');
+  }
+
+  const header = request.headers.get('authorization') || '';
+  const provided = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(secret);
+
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    throw ApiError.unauthorized('Invalid cron secret');
+  }
+}
+
 // ============================================================================
 // RATE LIMITING (Simple in-memory - use Redis in production)
 // ============================================================================
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { sanitizeHtml, sanitizeText, sanitizeUrl } from '@/lib/security/sanitize';
+import { AUDIT_ACTIONS } from '@/lib/db/audit';
+import { MAX_CHAPTERS, MAX_CHAPTER_TITLE_LENGTH, normalizeChapters } from '@/lib/media/chapters';
 
 // ============================================================================
 // BASE SCHEMAS
@@ -105,10 +107,56 @@ export const updateProfileSchema = z.object({
   location: z.string().max(100).optional().nullable().transform((v) => v ? sanitizeText(v) : v),
 });
 
+// Every field optional so the settings screen can save one toggle at a time
+export const updatePreferencesSchema = z
+  .object({
+    email_new_comment: z.boolean(),
+    email_comment_reply: z.boolean(),
+    email_new_reaction: z.boolean(),
+    email_post_published: z.boolean(),
+    email_post_rejected: z.boolean(),
+    email_weekly_digest: z.boolean(),
+    email_newsletter: z.boolean(),
+    email_announcements: z.boolean(),
+    notify_new_comment: z.boolean(),
+    notify_comment_reply: z.boolean(),
+    notify_new_reaction: z.boolean(),
+    notify_new_follower: z.boolean(),
+    notify_mentions: z.boolean(),
+    show_email_publicly: z.boolean(),
+    show_profile_publicly: z.boolean(),
+    allow_messages: z.boolean(),
+    theme: z.enum(['light', 'dark', 'system']),
+    language: z.string().min(2).max(10),
+  })
+  .strict()
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, 'No preferences to update');
+
+// Signed link from an email footer (see lib/email/tokens)
+export const emailUnsubscribeSchema = z.object({
+  token: z.string().min(1).max(512),
+});
+
 // ============================================================================
 // POST SCHEMAS
 // ============================================================================
 
+// Chapter markers on audio posts, stored sorted by start time
+export const chaptersSchema = z
+  .array(
+    z.object({
+      start: z.number().int().min(0).max(24 * 60 * 60),
+      title: z
+        .string()
+        .min(1, 'Chapter title is required')
+        .max(MAX_CHAPTER_TITLE_LENGTH)
+        .transform((v) => sanitizeText(v.trim())),
+    })
+  )
+  .max(MAX_CHAPTERS, `A post can have at most ${MAX_CHAPTERS} chapters`)
+  .transform(normalizeChapters);
+
 export const createPostSchema = z.object({
   title: z
     .string()
@@ -121,6 +169,7 @@ export const createPostSchema = z.object({
   content_type: contentTypeSchema,
   category_id: uuidSchema,
   media_url: optionalUrlSchema.transform((v) => v ? sanitizeUrl(v) : v),
+  chapters: chaptersSchema.optional(),
   featured_image_url: optionalUrlSchema.transform((v) => v ? sanitizeUrl(v) : v),
   kofi_username: z.string().max(50).optional().nullable().transform((v) => v ? sanitizeText(v) : v),
   status: postStatusSchema.default('draft'),
@@ -135,6 +184,10 @@ export const publishPostSchema = z.object({
   scheduled_for: z.string().datetime().optional(), // ISO 8601 datetime
 });
 
+export const reschedulePostSchema = z.object({
+  scheduled_for: z.string().datetime(),
+});
+
 export const listPostsSchema = paginationSchema.extend({
   status: postStatusSchema.optional(),
   content_type: contentTypeSchema.optional(),
@@ -146,6 +199,11 @@ export const listPostsSchema = paginationSchema.extend({
   featured: z.coerce.boolean().optional(),
 });
 
+export const revisionDiffSchema = z.object({
+  from: uuidSchema,
+  to: uuidSchema.optional(), // Defaults to the latest revision
+});
+
 // ============================================================================
 // COMMENT SCHEMAS
 // ============================================================================
@@ -182,6 +240,89 @@ export const flagCommentSchema = z.object({
   details: z.string().max(500).optional(),
 });
 
+// ============================================================================
+// REPORT SCHEMAS
+// ============================================================================
+
+export const reportReasonSchema = z.enum([
+  'spam',
+  'harassment',
+  'hate_speech',
+  'misinformation',
+  'copyright',
+  'inappropriate',
+  'off_topic',
+  'other',
+]);
+
+export const reportStatusSchema = z.enum(['pending', 'reviewing', 'resolved', 'dismissed']);
+
+export const reportTargetTypeSchema = z.enum(['post', 'comment', 'user']);
+
+export const createReportSchema = z.object({
+  target_type: reportTargetTypeSchema,
+  target_id: uuidSchema,
+  reason: reportReasonSchema,
+  description: z.string().max(1000, 'Description cannot exceed 1000 characters').optional(),
+});
+
+export const listReportsSchema = paginationSchema.extend({
+  status: z.union([reportStatusSchema, z.literal('open')]).optional(),
+  target_type: reportTargetTypeSchema.optional(),
+});
+
+export const reviewReportSchema = z
+  .object({
+    action: z.enum(['resolve', 'dismiss']),
+    resolution: z.string().trim().max(500).optional(),
+    notes: z.string().max(2000).optional(),
+  })
+  .refine((val) => val.action !== 'resolve' || !!val.resolution, {
+    message: 'Describe the action taken to resolve the report',
+    path: ['resolution'],
+  });
+
+// ============================================================================
+// MODERATION QUEUE SCHEMAS
+// ============================================================================
+
+export const moderationItemTypeSchema = z.enum(['post', 'comment', 'user', 'application']);
+
+export const moderationQueueSchema = z.object({
+  type: moderationItemTypeSchema.optional(),
+  assigned: z.enum(['me', 'unassigned', 'all']).default('all'),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const moderationActionSchema = z.object({
+  action: z.enum(['approve', 'reject', 'hide']),
+  reason: z.string().trim().max(500).optional(),
+});
+
+export const assignModerationSchema = z.object({
+  // Defaults to the current moderator
+  moderator_id: uuidSchema.optional(),
+  // Take over an item assigned to someone else (admins only)
+  force: z.boolean().default(false),
+});
+
+// ============================================================================
+// AUDIT LOG SCHEMAS
+// ============================================================================
+
+export const auditActionSchema = z.enum(AUDIT_ACTIONS);
+
+// Filter dates come from <input type="date"> and cover the whole (UTC) day
+export const listAuditLogsSchema = paginationSchema.extend({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  actor: uuidSchema.optional(),
+  action: multiValue(auditActionSchema).optional(),
+  target_type: z.string().max(50).optional(),
+  target_id: uuidSchema.optional(),
+  from: z.iso.date().optional(),
+  to: z.iso.date().optional(),
+});
+
 // ============================================================================
 // REACTION SCHEMAS
 // ============================================================================
@@ -211,6 +352,35 @@ export const toggleCommentReactionSchema = z.object({
   type: commentReactionTypeSchema,
 });
 
+// ============================================================================
+// BOOKMARK SCHEMAS
+// ============================================================================
+
+export const createBookmarkSchema = z.object({
+  post_id: uuidSchema,
+  collection_id: uuidSchema.nullable().optional(),
+  note: z.string().trim().max(500, 'Note cannot exceed 500 characters').optional(),
+});
+
+export const updateBookmarkSchema = z.object({
+  collection_id: uuidSchema.nullable().optional(),
+  note: z.string().trim().max(500, 'Note cannot exceed 500 characters').nullable().optional(),
+});
+
+export const listBookmarksSchema = paginationSchema.extend({
+  // "none" lists bookmarks that are not in any collection
+  collection_id: z.union([uuidSchema, z.literal('none')]).optional(),
+});
+
+export const bookmarkCollectionSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Collection name is required')
+    .max(60, 'Collection name cannot exceed 60 characters'),
+  description: z.string().trim().max(300).optional(),
+});
+
 // ============================================================================
 // APPLICATION SCHEMAS
 // ============================================================================
@@ -260,7 +430,28 @@ export const newsletterSubscribeSchema = z.object({
 
 export const newsletterUnsubscribeSchema = z.object({
   email: emailSchema,
-  token: z.string(), // Unsubscribe token for security
+  token: z.string().min(1).max(512), // Signed unsubscribe token from the email
+});
+
+export const createCampaignSchema = z.object({
+  subject: z
+    .string()
+    .min(1, 'Subject is required')
+    .max(200, 'Subject cannot exceed 200 characters')
+    .transform((v) => v.trim()),
+  intro: z.string().max(10000, 'Intro cannot exceed 10000 characters').default(''),
+  post_ids: z.array(uuidSchema).max(12, 'Pick at most 12 posts').default([]),
+});
+
+export const updateCampaignSchema = z.object({
+  subject: z
+    .string()
+    .min(1, 'Subject is required')
+    .max(200, 'Subject cannot exceed 200 characters')
+    .transform((v) => v.trim())
+    .optional(),
+  intro: z.string().max(10000, 'Intro cannot exceed 10000 characters').optional(),
+  post_ids: z.array(uuidSchema).max(12, 'Pick at most 12 posts').optional(),
 });
 
 // ============================================================================
@@ -308,17 +499,101 @@ export const suspendUserSchema = z.object({
   reason: z.string().min(10).max(500),
 });
 
+export const banUserSchema = z.object({
+  user_id: uuidSchema,
+  reason: z.string().min(10).max(500),
+});
+
+export const listEmailQueueSchema = z.object({
+  status: z.enum(['pending', 'processing', 'sent', 'dead']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const retryEmailSchema = z.object({
+  id: uuidSchema.optional(), // Omit to retry every dead email
+});
+
+export const listEmailSuppressionsSchema = z.object({
+  reason: z.enum(['bounce', 'complaint']).optional(),
+  search: z.string().trim().max(255).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const removeEmailSuppressionSchema = z.object({
+  email: emailSchema,
+});
+
+export const emailPreviewSchema = z.object({
+  template: z.string().min(1).max(100),
+  // Sample values by field name; missing fields use the template's samples
+  data: z.record(z.string(), z.string().max(10000)).default({}),
+});
+
+// ============================================================================
+// WEBHOOK SCHEMAS
+// ============================================================================
+
+// Resend's event format; other providers can post the same shape
+export const emailWebhookEventSchema = z.object({
+  type: z.string(),
+  created_at: z.string().optional(),
+  data: z.object({
+    email_id: z.string().optional(),
+    to: z.union([z.string(), z.array(z.string())]).transform((v) => (Array.isArray(v) ? v : [v])),
+    bounce: z
+      .object({
+        type: z.string().optional(), // 'Permanent' or 'Transient'
+        subType: z.string().optional(),
+        message: z.string().optional(),
+      })
+      .optional(),
+  }),
+});
+
 // ============================================================================
 // SEARCH SCHEMAS
 // ============================================================================
 
+// Facet filters accept repeated params (?tag=a&tag=b) or a comma list (?tag=a,b)
+function multiValue<T extends z.ZodType>(schema: T) {
+  return z.preprocess(
+    (v) => (Array.isArray(v) ? v : [v]).flatMap((item) => String(item).split(',')).filter(Boolean),
+    z.array(schema).max(20, 'Too many filter values')
+  );
+}
+
+const facetSlugSchema = z
+  .string()
+  .max(100)
+  .regex(/^[a-z0-9-]+$/, 'Invalid filter value');
+
+export const publishedBucketSchema = z.enum(['day', 'week', 'month', 'year', 'older']);
+
 export const searchSchema = paginationSchema.extend({
   q: z
     .string()
     .min(2, 'Search query must be at least 2 characters')
     .max(200, 'Search query cannot exceed 200 characters'),
   type: z.enum(['posts', 'users', 'all']).default('all'),
-  content_type: contentTypeSchema.optional(),
+  content_type: multiValue(contentTypeSchema).optional(),
+  category: multiValue(facetSlugSchema).optional(),
+  tag: multiValue(facetSlugSchema).optional(),
+  author: multiValue(usernameSchema).optional(),
+  published: multiValue(publishedBucketSchema).optional(),
+});
+
+export const searchSuggestSchema = z.object({
+  q: z.string().trim().min(1, 'Query is required').max(100, 'Query cannot exceed 100 characters'),
+  limit: z.coerce.number().int().min(1).max(10).default(5),
+});
+
+export const mentionSuggestSchema = z.object({
+  q: z
+    .string()
+    .trim()
+    .max(30, 'Query cannot exceed 30 characters')
+    .regex(/^[a-zA-Z0-9_]*$/, 'Query can only contain letters, numbers, and underscores'),
+  limit: z.coerce.number().int().min(1).max(10).default(6),
 });
 
 // ============================================================================
@@ -351,6 +626,10 @@ export const mediaUploadSchema = z.object({
   size: z.number().int().min(1).max(100 * 1024 * 1024), // Max 100MB
 });
 
+export const presignPartsSchema = z.object({
+  partNumbers: z.array(z.number().int().min(1).max(10000)).min(1).max(100),
+});
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -0,0 +1,106 @@
+/**
+ * Audit logging
+ * Records who changed what, with before/after values and the request that
+ * did it, via the log_audit_event function from migration 005. Only the
+ * service role may call it, so callers cannot write rows naming others.
+ */
+
+import { isIP } from 'net';
+import { createClient, createServiceClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { getContext } from '@/lib/logger/context';
+import type { AuditAction } from '@/lib/db/audit';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type { AuditAction };
+
+export type AuditTargetType =
+  | 'user'
+  | 'post'
+  | 'comment'
+  | 'application'
+  | 'report'
+  | 'newsletter_campaign';
+
+export interface AuditEvent {
+  action: AuditAction;
+  /** Defaults to the signed-in user; null for system actions (cron jobs, webhooks) */
+  actorId?: string | null;
+  target?: { type: AuditTargetType; id: string };
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  metadata?: Record<string, unknown>;
+}
+
+// ============================================================================
+// AUDIT
+// ============================================================================
+
+/**
+ * Keep only the fields whose values differ between two snapshots
+ */
+export function changedFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): { before: Record<string, unknown>; after: Record<string, unknown> } {
+  const changed = { before: {} as Record<string, unknown>, after: {} as Record<string, unknown> };
+
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changed.before[key] = before[key];
+      changed.after[key] = after[key];
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Record an audit event. Request id, IP and user agent come from the
+ * current request context when the route runs under withRouteHandler.
+ *
+ * Never throws: a failed audit write is logged but must not undo or block
+ * the action it describes.
+ */
+export async function recordAuditEvent(event: AuditEvent): Promise<void> {
+  const context = getContext();
+  const ip = context?.ip && isIP(context.ip) ? context.ip : null;
+
+  const metadata = {
+    ...event.metadata,
+    ...(event.before && { before: event.before }),
+    ...(event.after && { after: event.after }),
+  };
+
+  try {
+    let actorId = event.actorId;
+    if (actorId === undefined) {
+      const { data } = await (await createClient()).auth.getUser();
+      actorId = data.user?.id ?? null;
+    }
+
+    const supabase = await createServiceClient();
+    const { error } = await supabase.rpc('log_audit_event', {
+      p_action: event.action,
+      p_actor_id: actorId,
+      p_target_type: event.target?.type ?? null,
+      p_target_id: event.target?.id ?? null,
+      p_metadata: metadata,
+      p_ip_address: ip,
+      p_user_agent: context?.userAgent ?? null,
+      p_request_id: context?.requestId ?? null,
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    logger.error('[recordAuditEvent] Error', error, {
+      action: event.action,
+      actorId: event.actorId,
+      target: event.target,
+      requestId: context?.requestId,
+    });
+  }
+}
@@ -201,6 +201,9 @@ export const CacheKeys = {
   postBySlug: (slug: string) => `post:slug:${slug}`,
   postById: (id: string) => `post:id:${id}`,
 
+  // Search
+  searchSuggestions: (prefix: string, limit: number) => `search:suggest:${limit}:${prefix}`,
+
   // Users
   userProfile: (id: string) => `user:profile:${id}`,
   userByUsername: (username: string) => `user:username:${username}`,
@@ -213,6 +216,7 @@ export const CacheKeys = {
 import { getCategories, getCategoriesWithCounts } from '@/lib/db/categories';
 import { getSiteContent } from '@/lib/db/site-content';
 import { getFeaturedPosts, getTrendingPosts } from '@/lib/db/posts';
+import { getSearchSuggestions } from '@/lib/db/search';
 
 /**
  * Get categories (cached 5 minutes)
@@ -251,6 +255,18 @@ export async function getCachedTrendingPosts(limit = 10) {
   return getOrSet(CacheKeys.trendingPosts(), () => getTrendingPosts(limit), { ttlMs: TTL.MEDIUM });
 }
 
+/**
+ * Get search suggestions for a prefix (cached 1 minute)
+ */
+export async function getCachedSearchSuggestions(prefix: string, limit = 5) {
+  const normalized = prefix.trim().toLowerCase();
+  return getOrSet(
+    CacheKeys.searchSuggestions(normalized, limit),
+    () => getSearchSuggestions(normalized, limit),
+    { ttlMs: TTL.MEDIUM }
+  );
+}
+
 // ============================================================================
 // CACHE INVALIDATION HELPERS
 // ============================================================================
@@ -269,6 +285,7 @@ export function invalidateCategories(): void {
 export function invalidatePosts(): void {
   invalidate('posts:', true);
   invalidate('post:', true);
+  invalidate('search:', true);
 }
 
 /**
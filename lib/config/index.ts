@@ -3,6 +3,10 @@
  * Type-safe environment variables with validation
  */
 
+export type EmailTransportName = 'resend' | 'smtp' | 'file';
+
+const EMAIL_TRANSPORTS: EmailTransportName[] = ['resend', 'smtp', 'file'];
+
 interface Config {
   // App
   nodeEnv: 'development' | 'production' | 'test';
@@ -20,11 +24,27 @@ interface Config {
   r2AccessKeyId?: string;
   r2SecretAccessKey?: string;
   
-  // Email (Resend)
+  // Email
+  emailTransport: EmailTransportName;
   resendApiKey?: string;
+  smtp: {
+    host?: string;
+    port: number;
+    secure: boolean;
+    requireTls: boolean;
+    user?: string;
+    password?: string;
+  };
+  /** Where the file transport writes .eml files */
+  emailFileDir: string;
   fromEmail: string;
   adminEmail?: string;
   
+  // Media processing
+  /** ffmpeg and ffprobe binaries used to transcode video */
+  ffmpegPath: string;
+  ffprobePath: string;
+
   // Redis
   redisUrl?: string;
   
@@ -45,6 +65,25 @@ interface Config {
   };
 }
 
+/**
+ * EMAIL_TRANSPORT if set, otherwise whichever provider has credentials.
+ * Development falls back to .eml files so emails can be inspected offline.
+ */
+function resolveEmailTransport(nodeEnv: Config['nodeEnv']): EmailTransportName {
+  const transport = process.env.EMAIL_TRANSPORT;
+
+  if (transport) {
+    if (!EMAIL_TRANSPORTS.includes(transport as EmailTransportName)) {
+      throw new Error(`Invalid EMAIL_TRANSPORT "${transport}": use ${EMAIL_TRANSPORTS.join(', ')}`);
+    }
+    return transport as EmailTransportName;
+  }
+
+  if (process.env.RESEND_API_KEY) return 'resend';
+  if (process.env.SMTP_HOST) return 'smtp';
+  return nodeEnv === 'development' ? 'file' : 'resend';
+}
+
 /**
  * Validate and load configuration
  */
@@ -59,6 +98,9 @@ function loadConfig(): Config {
     throw new Error('Missing required environment variables: NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_ANON_KEY');
   }
 
+  const emailTransport = resolveEmailTransport(nodeEnv);
+  const smtpPort = Number(process.env.SMTP_PORT || 587);
+
   const config: Config = {
     nodeEnv,
     siteUrl: process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000',
@@ -70,15 +112,29 @@ function loadConfig(): Config {
     r2AccountId: process.env.R2_ACCOUNT_ID,
     r2AccessKeyId: process.env.R2_ACCESS_KEY_ID,
     r2SecretAccessKey: process.env.R2_SECRET_ACCESS_KEY,
+    emailTransport,
     resendApiKey: process.env.RESEND_API_KEY,
+    smtp: {
+      host: process.env.SMTP_HOST,
+      port: smtpPort,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : smtpPort === 465,
+      requireTls: process.env.SMTP_REQUIRE_TLS !== 'false',
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+    },
+    emailFileDir: process.env.EMAIL_FILE_DIR || '.emails',
     fromEmail: process.env.FROM_EMAIL || 'Scroungers <noreply@scroungers.co>',
     adminEmail: process.env.ADMIN_EMAIL,
+    ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+    ffprobePath: process.env.FFPROBE_PATH || 'ffprobe',
     redisUrl: process.env.REDIS_URL,
     csrfSecret: process.env.CSRF_SECRET || supabaseAnonKey,
     logLevel: (process.env.LOG_LEVEL || (nodeEnv === 'production' ? 'info' : 'debug')) as Config['logLevel'],
     rateLimitEnabled: process.env.RATE_LIMIT_ENABLED !== 'false',
     features: {
-      emailNotifications: !!process.env.RESEND_API_KEY,
+      emailNotifications:
+        emailTransport === 'file' ||
+        (emailTransport === 'smtp' ? !!process.env.SMTP_HOST : !!process.env.RESEND_API_KEY),
       redisCache: !!process.env.REDIS_URL && nodeEnv === 'production',
       monitoring: process.env.MONITORING_ENABLED !== 'false',
     },
@@ -89,8 +145,11 @@ function loadConfig(): Config {
     if (!config.r2BucketName || !config.r2PublicUrl) {
       console.warn('Warning: R2 configuration missing. Media uploads may not work.');
     }
-    if (!config.resendApiKey) {
-      console.warn('Warning: RESEND_API_KEY not set. Email notifications disabled.');
+    if (!config.features.emailNotifications) {
+      console.warn(`Warning: ${emailTransport} email transport not configured. Email notifications disabled.`);
+    }
+    if (emailTransport === 'file') {
+      console.warn('Warning: EMAIL_TRANSPORT=file writes emails to disk instead of sending them.');
     }
   }
 
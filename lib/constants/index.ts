@@ -118,7 +118,8 @@ export const MEDIA_CONSTRAINTS = {
   maxAudioSize: 100 * 1024 * 1024, // 100MB
   allowedImageTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
   allowedVideoTypes: ['video/mp4', 'video/webm', 'video/quicktime'],
-  allowedAudioTypes: ['audio/mpeg', 'audio/wav', 'audio/flac', 'audio/mp4'],
+  // Each needs a demuxer in AUDIO_DEMUXERS (lib/media/ffmpeg) to be processed
+  allowedAudioTypes: ['audio/mpeg', 'audio/wav', 'audio/ogg', 'audio/aac', 'audio/mp4'],
 } as const;
 
 // Pagination
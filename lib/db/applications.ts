@@ -2,6 +2,7 @@ import { createClient } from '@/lib/supabase/server';
 import { ApiError } from '@/lib/api/response';
 import type { ContentType } from '@/types/database';
 import { logger } from '@/lib/logger';
+import { recordAuditEvent } from '@/lib/audit';
 
 // ============================================================================
 // TYPES
@@ -227,7 +228,7 @@ export async function approveApplication(
       status: 'approved',
       reviewer_id: reviewerId,
       reviewed_at: new Date().toISOString(),
-      review_notes: notes || null,
+      reviewer_notes: notes || null,
     })
     .eq('id', id);
 
@@ -238,6 +239,12 @@ export async function approveApplication(
 
   // If the application has a user_id, upgrade their role to contributor
   if (application.user_id) {
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', application.user_id)
+      .single();
+
     const { error: roleError } = await supabase
       .from('profiles')
       .update({ role: 'contributor' })
@@ -246,6 +253,15 @@ export async function approveApplication(
     if (roleError) {
       logger.error('[approveApplication] Role update error', roleError, { userId: application.user_id });
       // Don't throw - application is approved, role update can be done manually
+    } else if (profile && profile.role !== 'contributor') {
+      await recordAuditEvent({
+        action: 'user.role_change',
+        actorId: reviewerId,
+        target: { type: 'user', id: application.user_id },
+        before: { role: profile.role },
+        after: { role: 'contributor' },
+        metadata: { application_id: id },
+      });
     }
   }
 
@@ -275,7 +291,7 @@ export async function rejectApplication(
       status: 'rejected',
       reviewer_id: reviewerId,
       reviewed_at: new Date().toISOString(),
-      review_notes: notes || null,
+      reviewer_notes: notes || null,
     })
     .eq('id', id);
 
@@ -0,0 +1,146 @@
+import { createClient } from '@/lib/supabase/server';
+import { ApiError } from '@/lib/api/response';
+import { logger } from '@/lib/logger';
+
+// Note: audit_logs is created by migration 005_audit_logs.sql,
+// actor foreign key and read policy updated by 012_audit_logging.sql
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Mirrors the audit_action enum */
+export const AUDIT_ACTIONS = [
+  'auth.login',
+  'auth.logout',
+  'auth.password_reset',
+  'auth.email_change',
+  'user.create',
+  'user.update',
+  'user.delete',
+  'user.role_change',
+  'user.suspend',
+  'user.ban',
+  'user.reactivate',
+  'post.create',
+  'post.update',
+  'post.delete',
+  'post.publish',
+  'post.reject',
+  'post.feature',
+  'comment.create',
+  'comment.update',
+  'comment.delete',
+  'comment.flag',
+  'application.submit',
+  'application.approve',
+  'application.reject',
+  'admin.settings_update',
+  'admin.bulk_action',
+  'security.api_key_create',
+  'security.api_key_revoke',
+  'security.suspicious_activity',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export interface AuditLog {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  actor_role: string | null;
+  action: AuditAction;
+  target_type: string | null;
+  target_id: string | null;
+  /** Includes `before` / `after` snapshots of the changed fields */
+  metadata: Record<string, unknown>;
+  ip_address: string | null;
+  user_agent: string | null;
+  request_id: string | null;
+  created_at: string;
+}
+
+export interface AuditLogWithActor extends AuditLog {
+  actor: {
+    id: string;
+    username: string | null;
+    display_name: string | null;
+  } | null;
+}
+
+export interface AuditLogFilters {
+  actorId?: string;
+  actions?: AuditAction[];
+  targetType?: string;
+  targetId?: string;
+  /** Inclusive. A bare YYYY-MM-DD date covers the whole UTC day */
+  from?: string;
+  to?: string;
+}
+
+// ============================================================================
+// AUDIT LOG OPERATIONS
+// ============================================================================
+
+const isBareDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+/**
+ * List audit log entries, newest first
+ */
+export async function listAuditLogs(
+  options: AuditLogFilters & { page?: number; limit?: number }
+): Promise<{ logs: AuditLogWithActor[]; total: number }> {
+  const supabase = await createClient();
+  const { actorId, actions, targetType, targetId, from: fromDate, to: toDate, page = 1, limit = 50 } = options;
+
+  let query = supabase
+    .from('audit_logs')
+    .select(
+      `
+      *,
+      actor:profiles!audit_logs_actor_id_fkey (id, username, display_name)
+    `,
+      { count: 'exact' }
+    );
+
+  if (actorId) {
+    query = query.eq('actor_id', actorId);
+  }
+
+  if (actions && actions.length > 0) {
+    query = query.in('action', actions);
+  }
+
+  if (targetType) {
+    query = query.eq('target_type', targetType);
+  }
+
+  if (targetId) {
+    query = query.eq('target_id', targetId);
+  }
+
+  if (fromDate) {
+    query = query.gte('created_at', isBareDate(fromDate) ? `${fromDate}T00:00:00.000Z` : fromDate);
+  }
+
+  if (toDate) {
+    query = query.lte('created_at', isBareDate(toDate) ? `${toDate}T23:59:59.999Z` : toDate);
+  }
+
+  const from = (page - 1) * limit;
+  const to = from + limit - 1;
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(from, to);
+
+  if (error) {
+    logger.error('[listAuditLogs] Error', error, { ...options });
+    throw ApiError.badRequest('Failed to fetch audit log');
+  }
+
+  return {
+    logs: (data || []) as AuditLogWithActor[],
+    total: count || 0,
+  };
+}
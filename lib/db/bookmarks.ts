@@ -0,0 +1,350 @@
+import { createClient } from '@/lib/supabase/server';
+import { ApiError } from '@/lib/api/response';
+import { logger } from '@/lib/logger';
+import type { ContentType } from '@/types/database';
+
+// Note: bookmarks and bookmark_collections are created by migration 015_bookmarks.sql
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Bookmark {
+  id: string;
+  user_id: string;
+  post_id: string;
+  collection_id: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+export interface BookmarkWithPost extends Bookmark {
+  post: {
+    id: string;
+    title: string;
+    slug: string;
+    excerpt: string | null;
+    content_type: ContentType;
+    featured_image_url: string | null;
+    reading_time: number | null;
+    published_at: string | null;
+    author: { username: string | null; display_name: string | null } | null;
+    category: { name: string; slug: string; color: string | null } | null;
+  } | null;
+}
+
+export interface BookmarkCollection {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  bookmark_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BookmarkFilters {
+  // 'none' matches bookmarks outside any collection
+  collection_id?: string | 'none';
+  page?: number;
+  limit?: number;
+}
+
+const BOOKMARK_POST_SELECT = `
+  *,
+  post:posts (
+    id,
+    title,
+    slug,
+    excerpt,
+    content_type,
+    featured_image_url,
+    reading_time,
+    published_at,
+    author:profiles!posts_author_id_fkey (username, display_name),
+    category:categories!posts_category_id_fkey (name, slug, color)
+  )
+`;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function assertCollectionOwner(userId: string, collectionId: string): Promise<void> {
+  const supabase = await createClient();
+
+  const { data } = await supabase
+    .from('bookmark_collections')
+    .select('id')
+    .eq('id', collectionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!data) {
+    throw ApiError.notFound('Collection');
+  }
+}
+
+// ============================================================================
+// BOOKMARK OPERATIONS
+// ============================================================================
+
+/**
+ * List a user's bookmarks, newest first
+ */
+export async function listBookmarks(
+  userId: string,
+  filters: BookmarkFilters = {}
+): Promise<{ bookmarks: BookmarkWithPost[]; total: number }> {
+  const supabase = await createClient();
+  const { collection_id, page = 1, limit = 20 } = filters;
+
+  let query = supabase
+    .from('bookmarks')
+    .select(BOOKMARK_POST_SELECT, { count: 'exact' })
+    .eq('user_id', userId);
+
+  if (collection_id === 'none') {
+    query = query.is('collection_id', null);
+  } else if (collection_id) {
+    query = query.eq('collection_id', collection_id);
+  }
+
+  const from = (page - 1) * limit;
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(from, from + limit - 1);
+
+  if (error) {
+    logger.error('[listBookmarks] Error', error, { userId });
+    throw ApiError.badRequest('Failed to fetch bookmarks');
+  }
+
+  return { bookmarks: (data || []) as BookmarkWithPost[], total: count || 0 };
+}
+
+/**
+ * Get the user's bookmark for a post, if any
+ */
+export async function getBookmark(userId: string, postId: string): Promise<Bookmark | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('bookmarks')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('post_id', postId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('[getBookmark] Error', error, { userId, postId });
+    throw ApiError.badRequest('Failed to fetch bookmark');
+  }
+
+  return data as Bookmark | null;
+}
+
+/**
+ * Bookmark a published post, optionally into one of the user's collections
+ */
+export async function createBookmark(
+  userId: string,
+  input: { post_id: string; collection_id?: string | null; note?: string }
+): Promise<Bookmark> {
+  const supabase = await createClient();
+
+  const { data: post } = await supabase
+    .from('posts')
+    .select('id')
+    .eq('id', input.post_id)
+    .eq('status', 'published')
+    .maybeSingle();
+
+  if (!post) {
+    throw ApiError.notFound('Post');
+  }
+
+  if (input.collection_id) {
+    await assertCollectionOwner(userId, input.collection_id);
+  }
+
+  const { data, error } = await supabase
+    .from('bookmarks')
+    .insert({
+      user_id: userId,
+      post_id: input.post_id,
+      collection_id: input.collection_id || null,
+      note: input.note || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw ApiError.conflict('This post is already saved');
+    }
+    logger.error('[createBookmark] Error', error, { userId, postId: input.post_id });
+    throw ApiError.badRequest('Failed to save post');
+  }
+
+  return data as Bookmark;
+}
+
+/**
+ * Move a bookmark between collections or change its note
+ */
+export async function updateBookmark(
+  userId: string,
+  postId: string,
+  input: { collection_id?: string | null; note?: string | null }
+): Promise<Bookmark> {
+  const supabase = await createClient();
+
+  if (input.collection_id) {
+    await assertCollectionOwner(userId, input.collection_id);
+  }
+
+  const { data, error } = await supabase
+    .from('bookmarks')
+    .update(input)
+    .eq('user_id', userId)
+    .eq('post_id', postId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    logger.error('[updateBookmark] Error', error, { userId, postId });
+    throw ApiError.badRequest('Failed to update bookmark');
+  }
+
+  if (!data) {
+    throw ApiError.notFound('Bookmark');
+  }
+
+  return data as Bookmark;
+}
+
+/**
+ * Remove a bookmark. Removing one that doesn't exist is a no-op.
+ */
+export async function deleteBookmark(userId: string, postId: string): Promise<void> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('bookmarks')
+    .delete()
+    .eq('user_id', userId)
+    .eq('post_id', postId);
+
+  if (error) {
+    logger.error('[deleteBookmark] Error', error, { userId, postId });
+    throw ApiError.badRequest('Failed to remove bookmark');
+  }
+}
+
+// ============================================================================
+// COLLECTION OPERATIONS
+// ============================================================================
+
+/**
+ * List a user's collections with how many bookmarks each holds
+ */
+export async function listCollections(userId: string): Promise<BookmarkCollection[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('bookmark_collections')
+    .select('*, bookmarks(count)')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+
+  if (error) {
+    logger.error('[listCollections] Error', error, { userId });
+    throw ApiError.badRequest('Failed to fetch collections');
+  }
+
+  return (data || []).map(
+    ({
+      bookmarks,
+      ...collection
+    }: { bookmarks?: { count: number }[] } & Omit<BookmarkCollection, 'bookmark_count'>) => ({
+      ...collection,
+      bookmark_count: bookmarks?.[0]?.count ?? 0,
+    })
+  );
+}
+
+/**
+ * Create a named collection
+ */
+export async function createCollection(
+  userId: string,
+  input: { name: string; description?: string }
+): Promise<BookmarkCollection> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('bookmark_collections')
+    .insert({ user_id: userId, name: input.name, description: input.description || null })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw ApiError.conflict(`You already have a collection called "${input.name}"`);
+    }
+    logger.error('[createCollection] Error', error, { userId });
+    throw ApiError.badRequest('Failed to create collection');
+  }
+
+  return { ...(data as Omit<BookmarkCollection, 'bookmark_count'>), bookmark_count: 0 };
+}
+
+/**
+ * Rename a collection or change its description
+ */
+export async function updateCollection(
+  userId: string,
+  collectionId: string,
+  input: { name: string; description?: string }
+): Promise<void> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('bookmark_collections')
+    .update({ name: input.name, description: input.description || null })
+    .eq('id', collectionId)
+    .eq('user_id', userId)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw ApiError.conflict(`You already have a collection called "${input.name}"`);
+    }
+    logger.error('[updateCollection] Error', error, { userId, collectionId });
+    throw ApiError.badRequest('Failed to update collection');
+  }
+
+  if (!data) {
+    throw ApiError.notFound('Collection');
+  }
+}
+
+/**
+ * Delete a collection. Its bookmarks are kept, outside any collection.
+ */
+export async function deleteCollection(userId: string, collectionId: string): Promise<void> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('bookmark_collections')
+    .delete()
+    .eq('id', collectionId)
+    .eq('user_id', userId);
+
+  if (error) {
+    logger.error('[deleteCollection] Error', error, { userId, collectionId });
+    throw ApiError.badRequest('Failed to delete collection');
+  }
+}
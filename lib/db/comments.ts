@@ -1,6 +1,10 @@
 import { createClient } from '@/lib/supabase/server';
 import { ApiError } from '@/lib/api/response';
 import { logger } from '@/lib/logger';
+import { createReport, type ReportReason } from './reports';
+import { extractMentions, resolveMentions, notifyMentions } from '@/lib/mentions';
+import { dispatchNotification } from '@/lib/notifications';
+import { newCommentEmail, commentReplyEmail } from '@/lib/email/templates';
 
 // ============================================================================
 // TYPES
@@ -19,6 +23,8 @@ export interface Comment {
   status: CommentStatus;
   reaction_count: number;
   reply_count: number;
+  /** Resolved usernames mentioned in the content */
+  mentions?: string[];
   created_at: string;
   updated_at: string;
 }
@@ -53,7 +59,7 @@ export async function createComment(input: CreateCommentInput): Promise<CommentW
   // Verify the post exists and is published
   const { data: post } = await supabase
     .from('posts')
-    .select('id, status')
+    .select('id, status, title, slug, author_id')
     .eq('id', input.post_id)
     .single();
 
@@ -66,10 +72,11 @@ export async function createComment(input: CreateCommentInput): Promise<CommentW
   }
 
   // If replying, verify parent comment exists
+  let parentAuthorId: string | null = null;
   if (input.parent_id) {
     const { data: parent } = await supabase
       .from('comments')
-      .select('id, post_id')
+      .select('id, post_id, author_id')
       .eq('id', input.parent_id)
       .single();
 
@@ -80,8 +87,12 @@ export async function createComment(input: CreateCommentInput): Promise<CommentW
     if (parent.post_id !== input.post_id) {
       throw ApiError.badRequest('Parent comment belongs to a different post');
     }
+
+    parentAuthorId = parent.author_id;
   }
 
+  const mentioned = await resolveMentions(extractMentions(input.content));
+
   const { data, error } = await supabase
     .from('comments')
     .insert({
@@ -89,6 +100,7 @@ export async function createComment(input: CreateCommentInput): Promise<CommentW
       author_id: input.author_id,
       content: input.content,
       parent_id: input.parent_id || null,
+      mentions: mentioned.map((target) => target.username),
     })
     .select(`
       *,
@@ -106,7 +118,45 @@ export async function createComment(input: CreateCommentInput): Promise<CommentW
     throw ApiError.badRequest('Failed to create comment');
   }
 
-  return data as CommentWithAuthor;
+  const comment = data as CommentWithAuthor;
+  const actorName = comment.author?.display_name || comment.author?.username || 'Someone';
+  const preview = input.content.slice(0, 100);
+
+  // In-app comment and reply notifications come from the notify_on_comment
+  // trigger; these are the matching emails. A post author replied to on their
+  // own post gets the reply email only.
+  if (parentAuthorId && parentAuthorId !== input.author_id) {
+    await dispatchNotification({
+      userId: parentAuthorId,
+      email: {
+        category: 'reply',
+        build: (recipient) =>
+          commentReplyEmail(recipient.name, actorName, post.title, post.slug, preview),
+      },
+    });
+  }
+
+  if (post.author_id !== input.author_id && post.author_id !== parentAuthorId) {
+    await dispatchNotification({
+      userId: post.author_id,
+      email: {
+        category: 'comment',
+        build: (recipient) =>
+          newCommentEmail(recipient.name, actorName, post.title, post.slug, preview),
+      },
+    });
+  }
+
+  await notifyMentions(mentioned, {
+    actorId: input.author_id,
+    actorName,
+    postId: input.post_id,
+    postTitle: post.title,
+    commentId: comment.id,
+    excerpt: input.content,
+  });
+
+  return comment;
 }
 
 /**
@@ -246,10 +296,24 @@ export async function updateComment(
 ): Promise<CommentWithAuthor> {
   const supabase = await createClient();
 
+  const mentioned = await resolveMentions(extractMentions(content));
+
+  // Read the previous list before it's overwritten, so edits don't re-notify
+  let previousMentions: string[] = [];
+  if (mentioned.length > 0) {
+    const { data: current } = await supabase
+      .from('comments')
+      .select('mentions')
+      .eq('id', id)
+      .single();
+    previousMentions = current?.mentions || [];
+  }
+
   const { error } = await supabase
     .from('comments')
     .update({
       content,
+      mentions: mentioned.map((target) => target.username),
     })
     .eq('id', id);
 
@@ -258,7 +322,31 @@ export async function updateComment(
     throw ApiError.badRequest('Failed to update comment');
   }
 
-  return getCommentById(id);
+  const comment = await getCommentById(id);
+
+  // Only people newly mentioned by this edit hear about it
+  if (mentioned.length > 0) {
+    const { data: post } = await supabase
+      .from('posts')
+      .select('title')
+      .eq('id', comment.post_id)
+      .single();
+
+    await notifyMentions(
+      mentioned,
+      {
+        actorId: comment.author_id,
+        actorName: comment.author?.display_name || comment.author?.username || 'Someone',
+        postId: comment.post_id,
+        postTitle: post?.title || 'a post',
+        commentId: id,
+        excerpt: content,
+      },
+      previousMentions
+    );
+  }
+
+  return comment;
 }
 
 /**
@@ -295,8 +383,16 @@ export async function hardDeleteComment(id: string): Promise<void> {
   }
 }
 
+// Comment flag reasons predate content_reports
+const FLAG_REPORT_REASONS: Record<string, ReportReason> = {
+  spam: 'spam',
+  abuse: 'harassment',
+  off_topic: 'off_topic',
+  other: 'other',
+};
+
 /**
- * Flag a comment for moderation
+ * Flag a comment for moderation, filing a content report
  */
 export async function flagComment(
   commentId: string,
@@ -306,6 +402,15 @@ export async function flagComment(
 ): Promise<void> {
   const supabase = await createClient();
 
+  // Throws conflict if this reporter already has an open report on the comment
+  await createReport({
+    reporter_id: reporterId,
+    target_type: 'comment',
+    target_id: commentId,
+    reason: FLAG_REPORT_REASONS[reason] ?? 'other',
+    description: details,
+  });
+
   // Mark comment as flagged
   const { error: updateError } = await supabase
     .from('comments')
@@ -316,14 +421,6 @@ export async function flagComment(
     logger.error('[flagComment] Update error', updateError, { commentId, reporterId, reason });
     throw ApiError.badRequest('Failed to flag comment');
   }
-
-  // Log the flag (you might want a separate table for this)
-  logger.info('[flagComment] Flagged comment', {
-    commentId,
-    reporterId,
-    reason,
-    details: details || 'No details',
-  });
 }
 
 /**
@@ -345,6 +442,23 @@ export async function unflagComment(id: string): Promise<CommentWithAuthor> {
   return getCommentById(id);
 }
 
+/**
+ * Hide a comment from readers without deleting it (admin only)
+ */
+export async function hideComment(id: string): Promise<void> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('comments')
+    .update({ status: 'hidden' as const })
+    .eq('id', id);
+
+  if (error) {
+    logger.error('[hideComment] Error', error, { commentId: id });
+    throw ApiError.badRequest('Failed to hide comment');
+  }
+}
+
 /**
  * Get flagged comments (admin only)
  */
@@ -0,0 +1,234 @@
+import { createClient } from '@/lib/supabase/server';
+import { ApiError } from '@/lib/api/response';
+import { logger } from '@/lib/logger';
+import { dispatchNotification } from '@/lib/notifications';
+import { listPosts, type PostWithDetails } from './posts';
+
+// Note: follows and category_follows are created by migration 014_follows.sql
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FollowState {
+  following: boolean;
+  follower_count: number;
+}
+
+export interface FollowedIds {
+  author_ids: string[];
+  category_ids: string[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function getFollowerCount(userId: string): Promise<number> {
+  const supabase = await createClient();
+
+  const { data } = await supabase
+    .from('profiles')
+    .select('follower_count')
+    .eq('id', userId)
+    .single();
+
+  return data?.follower_count ?? 0;
+}
+
+// ============================================================================
+// USER FOLLOWS
+// ============================================================================
+
+/**
+ * Follow a contributor and notify them. Following twice is a no-op.
+ */
+export async function followUser(followerId: string, userId: string): Promise<FollowState> {
+  if (followerId === userId) {
+    throw ApiError.badRequest('You cannot follow yourself');
+  }
+
+  const supabase = await createClient();
+
+  const { data: target } = await supabase
+    .from('profiles')
+    .select('id, role')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (!target) {
+    throw ApiError.notFound('User');
+  }
+
+  if (target.role === 'reader') {
+    throw ApiError.badRequest('Only contributors can be followed');
+  }
+
+  const { error } = await supabase.from('follows').insert({
+    follower_id: followerId,
+    following_id: userId,
+  });
+
+  if (error && error.code !== '23505') {
+    logger.error('[followUser] Error', error, { followerId, userId });
+    throw ApiError.badRequest('Failed to follow user');
+  }
+
+  if (!error) {
+    const { data: follower } = await supabase
+      .from('profiles')
+      .select('display_name, username')
+      .eq('id', followerId)
+      .single();
+
+    await dispatchNotification({
+      userId,
+      notification: {
+        type: 'follow',
+        title: `${follower?.display_name || follower?.username || 'Someone'} started following you`,
+        actorId: followerId,
+      },
+    });
+  }
+
+  return { following: true, follower_count: await getFollowerCount(userId) };
+}
+
+/**
+ * Unfollow a contributor
+ */
+export async function unfollowUser(followerId: string, userId: string): Promise<FollowState> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('follows')
+    .delete()
+    .eq('follower_id', followerId)
+    .eq('following_id', userId);
+
+  if (error) {
+    logger.error('[unfollowUser] Error', error, { followerId, userId });
+    throw ApiError.badRequest('Failed to unfollow user');
+  }
+
+  return { following: false, follower_count: await getFollowerCount(userId) };
+}
+
+/**
+ * Check whether one user follows another
+ */
+export async function isFollowing(followerId: string, userId: string): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { data } = await supabase
+    .from('follows')
+    .select('follower_id')
+    .eq('follower_id', followerId)
+    .eq('following_id', userId)
+    .maybeSingle();
+
+  return !!data;
+}
+
+// ============================================================================
+// CATEGORY FOLLOWS
+// ============================================================================
+
+/**
+ * Follow a category. Following twice is a no-op.
+ */
+export async function followCategory(userId: string, categoryId: string): Promise<void> {
+  const supabase = await createClient();
+
+  const { error } = await supabase.from('category_follows').insert({
+    user_id: userId,
+    category_id: categoryId,
+  });
+
+  if (error && error.code !== '23505') {
+    logger.error('[followCategory] Error', error, { userId, categoryId });
+    throw ApiError.badRequest('Failed to follow category');
+  }
+}
+
+/**
+ * Unfollow a category
+ */
+export async function unfollowCategory(userId: string, categoryId: string): Promise<void> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('category_follows')
+    .delete()
+    .eq('user_id', userId)
+    .eq('category_id', categoryId);
+
+  if (error) {
+    logger.error('[unfollowCategory] Error', error, { userId, categoryId });
+    throw ApiError.badRequest('Failed to unfollow category');
+  }
+}
+
+/**
+ * Check whether a user follows a category
+ */
+export async function isFollowingCategory(userId: string, categoryId: string): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { data } = await supabase
+    .from('category_follows')
+    .select('category_id')
+    .eq('user_id', userId)
+    .eq('category_id', categoryId)
+    .maybeSingle();
+
+  return !!data;
+}
+
+// ============================================================================
+// FEED
+// ============================================================================
+
+/**
+ * Get the contributors and categories a user follows
+ */
+export async function getFollowedIds(userId: string): Promise<FollowedIds> {
+  const supabase = await createClient();
+
+  const [users, categories] = await Promise.all([
+    supabase.from('follows').select('following_id').eq('follower_id', userId),
+    supabase.from('category_follows').select('category_id').eq('user_id', userId),
+  ]);
+
+  if (users.error || categories.error) {
+    logger.error('[getFollowedIds] Error', users.error || categories.error, { userId });
+    throw ApiError.badRequest('Failed to fetch follows');
+  }
+
+  return {
+    author_ids: (users.data || []).map((row: { following_id: string }) => row.following_id),
+    category_ids: (categories.data || []).map((row: { category_id: string }) => row.category_id),
+  };
+}
+
+/**
+ * Published posts from followed contributors and categories, newest first
+ */
+export async function getFeed(
+  userId: string,
+  options: { page?: number; limit?: number } = {}
+): Promise<{ posts: PostWithDetails[]; total: number; following: FollowedIds }> {
+  const following = await getFollowedIds(userId);
+
+  if (following.author_ids.length === 0 && following.category_ids.length === 0) {
+    return { posts: [], total: 0, following };
+  }
+
+  const { posts, total } = await listPosts({
+    filters: { status: 'published', following },
+    sort: { field: 'published_at', order: 'desc' },
+    ...options,
+  });
+
+  return { posts, total, following };
+}
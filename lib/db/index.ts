@@ -6,12 +6,24 @@
 // Posts
 export * from './posts';
 
+// Post revisions
+export * from './revisions';
+
+// Search
+export * from './search';
+
 // Profiles
 export * from './profiles';
 
 // Comments
 export * from './comments';
 
+// Content reports
+export * from './reports';
+
+// Moderation queue assignments
+export * from './moderation';
+
 // Reactions
 export * from './reactions';
 
@@ -21,12 +33,27 @@ export * from './applications';
 // Notifications
 export * from './notifications';
 
+// User preferences
+export * from './preferences';
+
+// Follows
+export * from './follows';
+
+// Bookmarks
+export * from './bookmarks';
+
 // Categories
 export * from './categories';
 
+// Media
+export * from './media';
+
 // Site Content
 export * from './site-content';
 
+// Audit log
+export * from './audit';
+
 // Re-export types for convenience
 export type { ContentType, PostStatus } from '@/types/database';
 
@@ -0,0 +1,161 @@
+import { createClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { toResponsiveImage, type ResponsiveImageData } from '@/lib/media/responsive';
+import {
+  toAudioPlayback,
+  toVideoPlayback,
+  type AudioPlaybackData,
+  type VideoPlaybackData,
+} from '@/lib/media/playback';
+
+// Note: variants and blurhash are added by migration 023_media_processing.sql,
+// hls_url and playback_url by 026_media_video.sql, peaks_url by 027_media_audio.sql
+
+// ============================================================================
+// RESPONSIVE IMAGES
+// ============================================================================
+
+/**
+ * Look up processed images by their public URL. URLs that are not uploaded
+ * media (or are still processing) are left out, so callers fall back to the
+ * plain URL.
+ */
+export async function getResponsiveImages(
+  urls: (string | null | undefined)[]
+): Promise<Map<string, ResponsiveImageData>> {
+  const images = new Map<string, ResponsiveImageData>();
+  const unique = [...new Set(urls.filter((url): url is string => Boolean(url)))];
+
+  if (unique.length === 0) {
+    return images;
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('media')
+    .select('url, width, height, blurhash, variants')
+    .in('url', unique)
+    .eq('media_type', 'image')
+    .eq('processing_status', 'ready');
+
+  if (error) {
+    // Plain images still render, so don't fail the page over this
+    logger.error('[getResponsiveImages] Error', error, { count: unique.length });
+    return images;
+  }
+
+  for (const media of data || []) {
+    const image = toResponsiveImage(media);
+    if (image) {
+      images.set(media.url, image);
+    }
+  }
+
+  return images;
+}
+
+/**
+ * Set `featured_image` on each post that has a processed featured image
+ */
+export async function withFeaturedImages<
+  T extends { featured_image_url: string | null; featured_image?: ResponsiveImageData | null },
+>(posts: T[]): Promise<T[]> {
+  const images = await getResponsiveImages(posts.map((post) => post.featured_image_url));
+
+  if (images.size === 0) {
+    return posts;
+  }
+
+  return posts.map((post) => ({
+    ...post,
+    featured_image: (post.featured_image_url && images.get(post.featured_image_url)) || null,
+  }));
+}
+
+// ============================================================================
+// VIDEO AND AUDIO
+// ============================================================================
+
+/**
+ * Look up a transcoded video by its public URL. Null for URLs that are not
+ * uploaded media or are still processing, so callers play the URL as is.
+ */
+export async function getVideoPlayback(
+  url: string | null | undefined
+): Promise<VideoPlaybackData | null> {
+  if (!url) {
+    return null;
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('media')
+    .select('playback_url, hls_url, thumbnail_url, width, height, duration')
+    .eq('url', url)
+    .eq('media_type', 'video')
+    .eq('processing_status', 'ready')
+    .maybeSingle();
+
+  if (error) {
+    logger.error('[getVideoPlayback] Error', error, { url });
+    return null;
+  }
+
+  return data ? toVideoPlayback(data) : null;
+}
+
+/**
+ * Look up processed audio by its public URL. Null for URLs that are not
+ * uploaded media or are still processing, so callers play the URL as is.
+ */
+export async function getAudioPlayback(
+  url: string | null | undefined
+): Promise<AudioPlaybackData | null> {
+  if (!url) {
+    return null;
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('media')
+    .select('playback_url, peaks_url, duration')
+    .eq('url', url)
+    .eq('media_type', 'audio')
+    .eq('processing_status', 'ready')
+    .maybeSingle();
+
+  if (error) {
+    logger.error('[getAudioPlayback] Error', error, { url });
+    return null;
+  }
+
+  return data ? toAudioPlayback(data) : null;
+}
+
+/**
+ * Duration and poster of already processed media, copied onto a post when
+ * its media_url is set. Media processed later is copied by the worker.
+ */
+export async function getMediaPostFields(
+  url: string | null | undefined
+): Promise<{ media_duration: number | null; media_thumbnail_url: string | null }> {
+  const fields = { media_duration: null, media_thumbnail_url: null };
+
+  if (!url) {
+    return fields;
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('media')
+    .select('duration, thumbnail_url')
+    .eq('url', url)
+    .eq('processing_status', 'ready')
+    .maybeSingle();
+
+  if (error || !data) {
+    return fields;
+  }
+
+  return { media_duration: data.duration, media_thumbnail_url: data.thumbnail_url };
+}
@@ -0,0 +1,181 @@
+import { createClient } from '@/lib/supabase/server';
+import { ApiError } from '@/lib/api/response';
+import { logger } from '@/lib/logger';
+
+// Note: moderation_assignments is created by migration 011_moderation_assignments.sql
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ModerationItemType = 'post' | 'comment' | 'user' | 'application';
+
+export interface ModerationAssignment {
+  item_type: ModerationItemType;
+  item_id: string;
+  moderator_id: string;
+  assigned_by: string | null;
+  assigned_at: string;
+  moderator: {
+    id: string;
+    username: string | null;
+    display_name: string | null;
+  } | null;
+}
+
+const ASSIGNMENT_SELECT = `
+  *,
+  moderator:profiles!moderation_assignments_moderator_id_fkey (id, username, display_name)
+`;
+
+const MODERATOR_ROLES = ['editor', 'admin', 'superadmin'];
+
+function heldByError(assignment: ModerationAssignment): ApiError {
+  const name = assignment.moderator?.display_name || assignment.moderator?.username || 'another moderator';
+  return ApiError.conflict(`This item is assigned to ${name}`);
+}
+
+// ============================================================================
+// ASSIGNMENT OPERATIONS
+// ============================================================================
+
+/**
+ * Get all current assignments (one per item being worked)
+ */
+export async function listModerationAssignments(): Promise<ModerationAssignment[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.from('moderation_assignments').select(ASSIGNMENT_SELECT);
+
+  if (error) {
+    logger.error('[listModerationAssignments] Error', error);
+    throw ApiError.badRequest('Failed to fetch moderation assignments');
+  }
+
+  return (data || []) as ModerationAssignment[];
+}
+
+/**
+ * Get the assignment for a single item, if any
+ */
+export async function getModerationAssignment(
+  itemType: ModerationItemType,
+  itemId: string
+): Promise<ModerationAssignment | null> {
+  const supabase = await createClient();
+
+  const { data } = await supabase
+    .from('moderation_assignments')
+    .select(ASSIGNMENT_SELECT)
+    .eq('item_type', itemType)
+    .eq('item_id', itemId)
+    .maybeSingle();
+
+  return (data as ModerationAssignment | null) ?? null;
+}
+
+/**
+ * Throw unless the item is unassigned or assigned to this moderator
+ */
+export async function checkModerationAssignment(
+  itemType: ModerationItemType,
+  itemId: string,
+  moderatorId: string
+): Promise<void> {
+  const assignment = await getModerationAssignment(itemType, itemId);
+
+  if (assignment && assignment.moderator_id !== moderatorId) {
+    throw heldByError(assignment);
+  }
+}
+
+/**
+ * Assign an item to a moderator. An item held by someone else is only
+ * taken over with `force`.
+ */
+export async function assignModerationItem(
+  itemType: ModerationItemType,
+  itemId: string,
+  moderatorId: string,
+  assignedBy: string,
+  options: { force?: boolean } = {}
+): Promise<ModerationAssignment> {
+  const supabase = await createClient();
+
+  if (moderatorId !== assignedBy) {
+    const { data: moderator } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', moderatorId)
+      .single();
+
+    if (!moderator || !MODERATOR_ROLES.includes(moderator.role)) {
+      throw ApiError.badRequest('Items can only be assigned to editors or admins');
+    }
+  }
+
+  const existing = await getModerationAssignment(itemType, itemId);
+
+  if (existing?.moderator_id === moderatorId) {
+    return existing;
+  }
+  if (existing && !options.force) {
+    throw heldByError(existing);
+  }
+
+  const { error } = existing
+    ? await supabase
+        .from('moderation_assignments')
+        .update({ moderator_id: moderatorId, assigned_by: assignedBy, assigned_at: new Date().toISOString() })
+        .eq('item_type', itemType)
+        .eq('item_id', itemId)
+    : await supabase.from('moderation_assignments').insert({
+        item_type: itemType,
+        item_id: itemId,
+        moderator_id: moderatorId,
+        assigned_by: assignedBy,
+      });
+
+  if (error) {
+    // Someone else assigned the item between our read and insert
+    if (error.code === '23505') {
+      throw ApiError.conflict('This item has just been assigned to another moderator');
+    }
+    logger.error('[assignModerationItem] Error', error, { itemType, itemId, moderatorId });
+    throw ApiError.badRequest('Failed to assign item');
+  }
+
+  const assignment = await getModerationAssignment(itemType, itemId);
+  if (!assignment) {
+    throw ApiError.notFound('Assignment');
+  }
+
+  return assignment;
+}
+
+/**
+ * Release an item back to the queue. Without `force`, only the assignee can release it.
+ */
+export async function releaseModerationItem(
+  itemType: ModerationItemType,
+  itemId: string,
+  moderatorId: string,
+  options: { force?: boolean } = {}
+): Promise<void> {
+  const supabase = await createClient();
+
+  if (!options.force) {
+    await checkModerationAssignment(itemType, itemId, moderatorId);
+  }
+
+  const { error } = await supabase
+    .from('moderation_assignments')
+    .delete()
+    .eq('item_type', itemType)
+    .eq('item_id', itemId);
+
+  if (error) {
+    logger.error('[releaseModerationItem] Error', error, { itemType, itemId, moderatorId });
+    throw ApiError.badRequest('Failed to release item');
+  }
+}
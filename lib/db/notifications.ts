@@ -36,6 +36,17 @@ export interface Notification {
   created_at: string;
 }
 
+export interface CreateNotificationOptions {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message?: string;
+  postId?: string;
+  commentId?: string;
+  actorId?: string;
+  metadata?: Record<string, unknown>;
+}
+
 export interface NotificationWithDetails extends Notification {
   post_title: string | null;
   post_slug: string | null;
@@ -299,3 +310,37 @@ export async function broadcastSystemNotification(options: {
 
   return data?.length || 0;
 }
+
+/**
+ * Create a notification for a user via the create_notification database function
+ * (skips self-notifications, duplicates and types the user has turned off).
+ * Returns the new notification ID, or null.
+ *
+ * Prefer dispatchNotification from lib/notifications, which also handles email.
+ */
+export async function createNotification(
+  options: CreateNotificationOptions
+): Promise<string | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc('create_notification', {
+    p_user_id: options.userId,
+    p_type: options.type,
+    p_title: options.title,
+    p_message: options.message || null,
+    p_post_id: options.postId || null,
+    p_comment_id: options.commentId || null,
+    p_actor_id: options.actorId || null,
+    p_metadata: options.metadata || {},
+  });
+
+  if (error) {
+    logger.error('[createNotification] Error', error, {
+      userId: options.userId,
+      type: options.type,
+    });
+    return null;
+  }
+
+  return (data as string | null) ?? null;
+}
@@ -3,6 +3,21 @@ import { ApiError } from '@/lib/api/response';
 import { generateSlug, calculateReadingTime } from '@/lib/api/validation';
 import type { ContentType, PostStatus } from '@/types/database';
 import { logger } from '@/lib/logger';
+import { getPostRevision } from './revisions';
+import { getAudioPlayback, getMediaPostFields, getVideoPlayback, withFeaturedImages } from './media';
+import type { ResponsiveImageData } from '@/lib/media/responsive';
+import type { AudioPlaybackData, VideoPlaybackData } from '@/lib/media/playback';
+import type { Chapter } from '@/lib/media/chapters';
+import { recordAuditEvent, type AuditAction } from '@/lib/audit';
+import {
+  extractMentionsFromHtml,
+  linkMentionsInHtml,
+  resolveMentions,
+  notifyMentions,
+  type MentionTarget,
+} from '@/lib/mentions';
+import { dispatchNotification } from '@/lib/notifications';
+import { postPublishedEmail, postRejectedEmail } from '@/lib/email/templates';
 
 // ============================================================================
 // TYPES
@@ -16,6 +31,7 @@ export interface CreatePostInput {
   content_type: ContentType;
   category_id: string;
   media_url?: string | null;
+  chapters?: Chapter[];
   featured_image_url?: string | null;
   kofi_username?: string | null;
   status?: PostStatus;
@@ -30,6 +46,7 @@ export interface UpdatePostInput {
   content_type?: ContentType;
   category_id?: string;
   media_url?: string | null;
+  chapters?: Chapter[];
   featured_image_url?: string | null;
   kofi_username?: string | null;
 }
@@ -41,6 +58,8 @@ export interface PostFilters {
   author_id?: string;
   search?: string;
   featured?: boolean;
+  /** Posts by any of these authors or in any of these categories */
+  following?: { author_ids: string[]; category_ids: string[] };
 }
 
 export interface PostSort {
@@ -55,16 +74,29 @@ export interface PostWithDetails {
   slug: string;
   excerpt: string | null;
   content: Record<string, unknown> | null;
+  content_html: string | null;
   content_type: ContentType;
   status: PostStatus;
   featured_image_url: string | null;
+  /** Resized variants of the featured image, once it has been processed */
+  featured_image?: ResponsiveImageData | null;
   media_url: string | null;
+  media_duration: number | null;
+  media_thumbnail_url: string | null;
+  /** Transcoded renditions of a video post's media, once processed */
+  video?: VideoPlaybackData | null;
+  /** Normalised audio and waveform of an audio post's media, once processed */
+  audio?: AudioPlaybackData | null;
+  chapters: Chapter[];
   reading_time: number | null;
   view_count: number;
   reaction_count: number;
   comment_count: number;
   is_featured: boolean;
+  /** Resolved usernames mentioned in the content */
+  mentions?: string[];
   published_at: string | null;
+  scheduled_for: string | null;
   created_at: string;
   updated_at: string;
   author: {
@@ -82,6 +114,46 @@ export interface PostWithDetails {
   };
 }
 
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Resolve @mentions in post HTML and link them to profiles
+ */
+async function prepareMentions(html: string): Promise<{ html: string; mentioned: MentionTarget[] }> {
+  const mentioned = await resolveMentions(extractMentionsFromHtml(html));
+
+  return {
+    html: linkMentionsInHtml(
+      html,
+      mentioned.map((target) => target.username)
+    ),
+    mentioned,
+  };
+}
+
+/**
+ * Tell mentioned users about a published post
+ */
+async function notifyPostMentions(
+  post: PostWithDetails,
+  mentioned: MentionTarget[],
+  alreadyNotified: string[] = []
+): Promise<void> {
+  await notifyMentions(
+    mentioned,
+    {
+      actorId: post.author?.id,
+      actorName: post.author?.display_name || post.author?.username || 'Someone',
+      postId: post.id,
+      postTitle: post.title,
+      excerpt: post.excerpt ?? undefined,
+    },
+    alreadyNotified
+  );
+}
+
 // ============================================================================
 // POST OPERATIONS
 // ============================================================================
@@ -116,6 +188,10 @@ export async function createPost(input: CreatePostInput): Promise<PostWithDetail
   const reading_time =
     input.content_type === 'written' && input.content ? calculateReadingTime(input.content) : null;
 
+  const { html, mentioned } = input.content
+    ? await prepareMentions(input.content)
+    : { html: null, mentioned: [] };
+
   const { data, error } = await supabase
     .from('posts')
     .insert({
@@ -123,12 +199,16 @@ export async function createPost(input: CreatePostInput): Promise<PostWithDetail
       subtitle: input.subtitle || null,
       slug,
       excerpt: input.excerpt || null,
-      content: input.content ? { text: input.content } : null,
+      content: html ? { text: html } : null,
+      content_html: html,
+      mentions: mentioned.map((target) => target.username),
       content_type: input.content_type,
       status: input.status || 'draft',
       category_id: input.category_id,
       author_id: input.author_id,
       media_url: input.media_url || null,
+      ...(input.media_url && (await getMediaPostFields(input.media_url))),
+      chapters: input.chapters || [],
       featured_image_url: input.featured_image_url || null,
       reading_time,
     })
@@ -141,7 +221,14 @@ export async function createPost(input: CreatePostInput): Promise<PostWithDetail
   }
 
   // Fetch the full post with relations
-  return getPostById(data.id);
+  const post = await getPostById(data.id);
+
+  // Drafts stay private; mentions are announced when the post goes live
+  if (post.status === 'published') {
+    await notifyPostMentions(post, mentioned);
+  }
+
+  return post;
 }
 
 /**
@@ -213,7 +300,15 @@ export async function getPostBySlug(slug: string): Promise<PostWithDetails> {
     throw ApiError.notFound('Post');
   }
 
-  return data as PostWithDetails;
+  const [post] = await withFeaturedImages([data as PostWithDetails]);
+
+  if (post.content_type === 'video') {
+    post.video = await getVideoPlayback(post.media_url);
+  } else if (post.content_type === 'audio') {
+    post.audio = await getAudioPlayback(post.media_url);
+  }
+
+  return post;
 }
 
 /**
@@ -265,8 +360,22 @@ export async function listPosts(options: {
   if (filters?.featured !== undefined) {
     query = query.eq('is_featured', filters.featured);
   }
+  if (filters?.following) {
+    const { author_ids, category_ids } = filters.following;
+    const conditions = [
+      author_ids.length > 0 && `author_id.in.(${author_ids.join(',')})`,
+      category_ids.length > 0 && `category_id.in.(${category_ids.join(',')})`,
+    ].filter(Boolean);
+
+    // Following nothing matches nothing
+    query = conditions.length > 0 ? query.or(conditions.join(',')) : query.in('id', []);
+  }
   if (filters?.search) {
-    query = query.or(`title.ilike.%${filters.search}%,excerpt.ilike.%${filters.search}%`);
+    // search_vector is a computed column over the idx_posts_search expression
+    query = query.textSearch('search_vector', filters.search, {
+      type: 'websearch',
+      config: 'english',
+    });
   }
 
   // Apply sorting
@@ -287,7 +396,7 @@ export async function listPosts(options: {
   }
 
   return {
-    posts: (data || []) as PostWithDetails[],
+    posts: await withFeaturedImages((data || []) as PostWithDetails[]),
     total: count || 0,
   };
 }
@@ -295,7 +404,10 @@ export async function listPosts(options: {
 /**
  * Update a post
  */
-export async function updatePost(id: string, input: UpdatePostInput): Promise<PostWithDetails> {
+export async function updatePost(
+  id: string,
+  input: UpdatePostInput
+): Promise<PostWithDetails> {
   const supabase = await createClient();
 
   // If title is being updated, update the slug too
@@ -325,6 +437,30 @@ export async function updatePost(id: string, input: UpdatePostInput): Promise<Po
     updates.slug = slug;
   }
 
+  // Duration and poster follow the media, once it has been processed
+  if (input.media_url !== undefined) {
+    Object.assign(updates, await getMediaPostFields(input.media_url));
+  }
+
+  // Keep content_html in step so body text stays searchable (idx_posts_search)
+  let mentioned: MentionTarget[] = [];
+  let previousMentions: string[] = [];
+  if (input.content !== undefined) {
+    updates.content_html = input.content;
+
+    if (input.content) {
+      const prepared = await prepareMentions(input.content);
+      updates.content_html = prepared.html;
+      mentioned = prepared.mentioned;
+    }
+    updates.mentions = mentioned.map((target) => target.username);
+
+    if (mentioned.length > 0) {
+      const { data: current } = await supabase.from('posts').select('mentions').eq('id', id).single();
+      previousMentions = current?.mentions || [];
+    }
+  }
+
   // Recalculate reading time if content changed
   if (input.content !== undefined && input.content_type === 'written') {
     updates.reading_time = input.content ? calculateReadingTime(input.content) : null;
@@ -337,9 +473,68 @@ export async function updatePost(id: string, input: UpdatePostInput): Promise<Po
     throw ApiError.badRequest('Failed to update post');
   }
 
+  const post = await getPostById(id);
+
+  if (post.status === 'published' && mentioned.length > 0) {
+    await notifyPostMentions(post, mentioned, previousMentions);
+  }
+
+  return post;
+}
+
+/**
+ * Restore a post's content fields from an earlier revision. The restore is
+ * itself recorded as a new revision, marked with the one it came from.
+ */
+export async function restorePostRevision(id: string, revisionId: string): Promise<PostWithDetails> {
+  const supabase = await createClient();
+
+  // 404s for revisions of other posts before touching anything
+  await getPostRevision(id, revisionId);
+
+  const { error } = await supabase.rpc('restore_post_revision', {
+    p_post_id: id,
+    p_revision_id: revisionId,
+  });
+
+  if (error) {
+    logger.error('[restorePostRevision] Error', error, { postId: id, revisionId });
+    throw ApiError.badRequest('Failed to restore revision');
+  }
+
   return getPostById(id);
 }
 
+/**
+ * Record a post's move from one status to another in the audit log
+ */
+async function auditStatusChange(
+  post: PostWithDetails,
+  previousStatus: PostStatus,
+  options?: { scheduled_for?: string; rejection_reason?: string }
+): Promise<void> {
+  const action: AuditAction =
+    post.status === 'published'
+      ? 'post.publish'
+      : post.status === 'rejected'
+        ? 'post.reject'
+        : 'post.update';
+
+  await recordAuditEvent({
+    action,
+    target: { type: 'post', id: post.id },
+    before: { status: previousStatus },
+    after: {
+      status: post.status,
+      ...(options?.scheduled_for && { scheduled_for: options.scheduled_for }),
+    },
+    metadata: {
+      title: post.title,
+      ...(options?.rejection_reason && { reason: options.rejection_reason }),
+    },
+  });
+}
+
 /**
  * Change post status
  */
@@ -350,6 +545,12 @@ export async function updatePostStatus(
 ): Promise<PostWithDetails> {
   const supabase = await createClient();
 
+  const { data: current } = await supabase.from('posts').select('status').eq('id', id).single();
+
+  if (!current) {
+    throw ApiError.notFound('Post');
+  }
+
   const updates: Record<string, unknown> = { status };
 
   // Set published_at when publishing
@@ -357,8 +558,18 @@ export async function updatePostStatus(
     updates.published_at = new Date().toISOString();
   }
 
+  if (status === 'rejected' && options?.rejection_reason) {
+    updates.rejection_reason = options.rejection_reason;
+  }
+
   // Handle scheduling
-  if (status === 'scheduled' && options?.scheduled_for) {
+  if (status === 'scheduled') {
+    if (!options?.scheduled_for) {
+      throw ApiError.badRequest('scheduled_for is required when scheduling a post');
+    }
+    if (new Date(options.scheduled_for).getTime() <= Date.now()) {
+      throw ApiError.badRequest('scheduled_for must be in the future');
+    }
     updates.scheduled_for = options.scheduled_for;
   }
 
@@ -369,9 +580,142 @@ export async function updatePostStatus(
     throw ApiError.badRequest('Failed to update post status');
   }
 
+  const post = await getPostById(id);
+
+  if (current.status !== status) {
+    await auditStatusChange(post, current.status, options);
+
+    // The in-app notice comes from notify_on_post_status_change; this is the email
+    if (post.author && (status === 'published' || status === 'rejected')) {
+      await dispatchNotification({
+        userId: post.author.id,
+        email: {
+          category: status === 'published' ? 'post_published' : 'post_rejected',
+          build: (recipient) =>
+            status === 'published'
+              ? postPublishedEmail(recipient.name, post.title, post.slug)
+              : postRejectedEmail(recipient.name, post.title, options?.rejection_reason),
+        },
+      });
+    }
+
+    if (status === 'published' && post.mentions?.length) {
+      await notifyPostMentions(post, await resolveMentions(post.mentions));
+    }
+  }
+
+  return post;
+}
+
+/**
+ * Move a scheduled post to a new publish time
+ */
+export async function reschedulePost(id: string, scheduledFor: string): Promise<PostWithDetails> {
+  const supabase = await createClient();
+
+  if (new Date(scheduledFor).getTime() <= Date.now()) {
+    throw ApiError.badRequest('scheduled_for must be in the future');
+  }
+
+  const { data, error } = await supabase
+    .from('posts')
+    .update({ scheduled_for: scheduledFor })
+    .eq('id', id)
+    .eq('status', 'scheduled')
+    .select('id');
+
+  if (error) {
+    logger.error('[reschedulePost] Error', error, { postId: id, scheduledFor });
+    throw ApiError.badRequest('Failed to reschedule post');
+  }
+
+  if (!data || data.length === 0) {
+    throw ApiError.badRequest('Only scheduled posts can be rescheduled');
+  }
+
   return getPostById(id);
 }
 
+/**
+ * Cancel a scheduled post, returning it to draft
+ */
+export async function cancelScheduledPost(id: string): Promise<PostWithDetails> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('posts')
+    .update({ status: 'draft', scheduled_for: null })
+    .eq('id', id)
+    .eq('status', 'scheduled')
+    .select('id');
+
+  if (error) {
+    logger.error('[cancelScheduledPost] Error', error, { postId: id });
+    throw ApiError.badRequest('Failed to cancel scheduled post');
+  }
+
+  if (!data || data.length === 0) {
+    throw ApiError.badRequest('Post is not scheduled');
+  }
+
+  const post = await getPostById(id);
+  await auditStatusChange(post, 'scheduled');
+
+  return post;
+}
+
+/**
+ * Get scheduled posts, optionally for one author and within a date window
+ */
+export async function getScheduledPosts(options: {
+  authorId?: string;
+  from?: string;
+  to?: string;
+}): Promise<PostWithDetails[]> {
+  const supabase = await createClient();
+
+  let query = supabase
+    .from('posts')
+    .select(
+      `
+      *,
+      author:profiles!posts_author_id_fkey (
+        id,
+        username,
+        display_name,
+        avatar_url,
+        kofi_username
+      ),
+      category:categories!posts_category_id_fkey (
+        id,
+        name,
+        slug,
+        color
+      )
+    `
+    )
+    .eq('status', 'scheduled');
+
+  if (options.authorId) {
+    query = query.eq('author_id', options.authorId);
+  }
+  if (options.from) {
+    query = query.gte('scheduled_for', options.from);
+  }
+  if (options.to) {
+    query = query.lt('scheduled_for', options.to);
+  }
+
+  const { data, error } = await query.order('scheduled_for', { ascending: true });
+
+  if (error) {
+    logger.error('[getScheduledPosts] Error', error, options);
+    throw ApiError.badRequest('Failed to fetch scheduled posts');
+  }
+
+  return (data || []) as PostWithDetails[];
+}
+
 /**
  * Delete a post (soft delete by setting status to archived)
  */
@@ -464,7 +808,7 @@ export async function getTrendingPosts(limit: number = 10): Promise<PostWithDeta
     return [];
   }
 
-  return (data || []) as PostWithDetails[];
+  return withFeaturedImages((data || []) as PostWithDetails[]);
 }
 
 /**
@@ -0,0 +1,127 @@
+import { createClient } from '@/lib/supabase/server';
+import { ApiError } from '@/lib/api/response';
+import { logger } from '@/lib/logger';
+
+// Note: user_preferences is created by migration 003_user_preferences.sql
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface NotificationPreferences {
+  // Email
+  email_new_comment: boolean;
+  email_comment_reply: boolean;
+  email_new_reaction: boolean;
+  email_post_published: boolean;
+  email_post_rejected: boolean;
+  email_weekly_digest: boolean;
+  email_newsletter: boolean;
+  email_announcements: boolean;
+
+  // In-app
+  notify_new_comment: boolean;
+  notify_comment_reply: boolean;
+  notify_new_reaction: boolean;
+  notify_new_follower: boolean;
+  notify_mentions: boolean;
+}
+
+export interface UserPreferences extends NotificationPreferences {
+  show_email_publicly: boolean;
+  show_profile_publicly: boolean;
+  allow_messages: boolean;
+  theme: 'light' | 'dark' | 'system';
+  language: string;
+  updated_at: string | null;
+}
+
+export type UserPreferencesInput = Partial<Omit<UserPreferences, 'updated_at'>>;
+
+// Column defaults from 003_user_preferences.sql, used until a row exists
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  email_new_comment: true,
+  email_comment_reply: true,
+  email_new_reaction: true,
+  email_post_published: true,
+  email_post_rejected: false,
+  email_weekly_digest: true,
+  email_newsletter: true,
+  email_announcements: true,
+  notify_new_comment: true,
+  notify_comment_reply: true,
+  notify_new_reaction: true,
+  notify_new_follower: true,
+  notify_mentions: true,
+  show_email_publicly: false,
+  show_profile_publicly: true,
+  allow_messages: true,
+  theme: 'system',
+  language: 'en',
+  updated_at: null,
+};
+
+const PREFERENCE_KEYS = Object.keys(DEFAULT_PREFERENCES) as (keyof UserPreferences)[];
+
+/**
+ * Fill gaps in a stored row (or a missing row) with the column defaults
+ */
+export function withDefaultPreferences(row: Partial<UserPreferences> | null): UserPreferences {
+  const preferences = { ...DEFAULT_PREFERENCES };
+
+  for (const key of PREFERENCE_KEYS) {
+    const value = row?.[key];
+    if (value !== null && value !== undefined) {
+      (preferences as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  return preferences;
+}
+
+// ============================================================================
+// PREFERENCE OPERATIONS
+// ============================================================================
+
+/**
+ * Get the signed-in user's preferences. Users created before 003 may have no row.
+ */
+export async function getUserPreferences(userId: string): Promise<UserPreferences> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('[getUserPreferences] Error', error, { userId });
+    throw ApiError.badRequest('Failed to fetch preferences');
+  }
+
+  return withDefaultPreferences(data);
+}
+
+/**
+ * Update the signed-in user's preferences, creating the row if needed
+ */
+export async function updateUserPreferences(
+  userId: string,
+  input: UserPreferencesInput
+): Promise<UserPreferences> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .upsert({ user_id: userId, ...input }, { onConflict: 'user_id' })
+    .select('*')
+    .single();
+
+  if (error) {
+    logger.error('[updateUserPreferences] Error', error, { userId });
+    throw ApiError.badRequest('Failed to update preferences');
+  }
+
+  return withDefaultPreferences(data);
+}
@@ -1,6 +1,7 @@
 import { createClient } from '@/lib/supabase/server';
 import { ApiError } from '@/lib/api/response';
 import type { UserRole } from '@/lib/api/middleware';
+import type { UserStatus } from '@/types/database';
 import { logger } from '@/lib/logger';
 
 // ============================================================================
@@ -19,7 +20,15 @@ export interface Profile {
   twitter_handle: string | null;
   location: string | null;
   role: UserRole;
+  status: UserStatus;
+  /** Set while suspended; null for bans and active accounts */
+  suspended_until: string | null;
+  suspension_reason: string | null;
+  suspended_at: string | null;
+  suspended_by: string | null;
   article_count: number;
+  follower_count: number;
+  following_count: number;
   is_featured: boolean;
   created_at: string;
   updated_at: string;
@@ -36,6 +45,8 @@ export interface PublicProfile {
   twitter_handle: string | null;
   location: string | null;
   article_count: number;
+  follower_count: number;
+  following_count: number;
   is_featured: boolean;
 }
 
@@ -50,6 +61,14 @@ export interface UpdateProfileInput {
   location?: string | null;
 }
 
+export interface AccountStatusInput {
+  status: UserStatus;
+  /** Required when suspending */
+  suspendedUntil?: string;
+  reason?: string;
+  moderatorId?: string;
+}
+
 // ============================================================================
 // PROFILE OPERATIONS
 // ============================================================================
@@ -92,6 +111,8 @@ export async function getPublicProfile(id: string): Promise<PublicProfile> {
       twitter_handle,
       location,
       article_count,
+      follower_count,
+      following_count,
       is_featured
     `)
     .eq('id', id)
@@ -183,6 +204,45 @@ export async function updateUserRole(
   return getProfileById(id);
 }
 
+/**
+ * Set a user's account status (admin only). Reinstating clears the suspension details.
+ */
+export async function updateAccountStatus(
+  id: string,
+  input: AccountStatusInput
+): Promise<Profile> {
+  const supabase = await createClient();
+
+  const updates =
+    input.status === 'active'
+      ? {
+          status: 'active',
+          suspended_until: null,
+          suspension_reason: null,
+          suspended_at: null,
+          suspended_by: null,
+        }
+      : {
+          status: input.status,
+          suspended_until: input.status === 'suspended' ? input.suspendedUntil : null,
+          suspension_reason: input.reason || null,
+          suspended_at: new Date().toISOString(),
+          suspended_by: input.moderatorId || null,
+        };
+
+  const { error } = await supabase
+    .from('profiles')
+    .update(updates)
+    .eq('id', id);
+
+  if (error) {
+    logger.error('[updateAccountStatus] Error', error, { userId: id, status: input.status });
+    throw ApiError.badRequest('Failed to update account status');
+  }
+
+  return getProfileById(id);
+}
+
 /**
  * Check if username is available
  */
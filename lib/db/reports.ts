@@ -0,0 +1,428 @@
+import { createClient } from '@/lib/supabase/server';
+import { ApiError } from '@/lib/api/response';
+import { logger } from '@/lib/logger';
+
+// Note: content_reports is created by migration 004_content_reports.sql,
+// moderation constraints and policies by 010_report_moderation.sql
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ReportReason =
+  | 'spam'
+  | 'harassment'
+  | 'hate_speech'
+  | 'misinformation'
+  | 'copyright'
+  | 'inappropriate'
+  | 'off_topic'
+  | 'other';
+
+export type ReportStatus = 'pending' | 'reviewing' | 'resolved' | 'dismissed';
+
+export type ReportTargetType = 'post' | 'comment' | 'user';
+
+export interface ContentReport {
+  id: string;
+  reporter_id: string;
+  post_id: string | null;
+  comment_id: string | null;
+  user_id: string | null;
+  reason: ReportReason;
+  description: string | null;
+  status: ReportStatus;
+  moderator_id: string | null;
+  moderator_notes: string | null;
+  resolution: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ReportProfile {
+  id: string;
+  username: string | null;
+  display_name: string | null;
+}
+
+export interface ReportWithDetails extends ContentReport {
+  reporter: ReportProfile | null;
+  moderator: ReportProfile | null;
+  reported_user: (ReportProfile & { avatar_url: string | null; status: string }) | null;
+  post: {
+    id: string;
+    title: string;
+    slug: string;
+    status: string;
+    author_id: string;
+  } | null;
+  comment: {
+    id: string;
+    content: string;
+    status: string;
+    post_id: string;
+    author_id: string;
+  } | null;
+}
+
+export interface CreateReportInput {
+  reporter_id: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  reason: ReportReason;
+  description?: string | null;
+}
+
+const REPORT_SELECT = `
+  *,
+  reporter:profiles!content_reports_reporter_id_fkey (id, username, display_name),
+  moderator:profiles!content_reports_moderator_id_fkey (id, username, display_name),
+  reported_user:profiles!content_reports_user_id_fkey (id, username, display_name, avatar_url, status),
+  post:posts!content_reports_post_id_fkey (id, title, slug, status, author_id),
+  comment:comments!content_reports_comment_id_fkey (id, content, status, post_id, author_id)
+`;
+
+const TARGET_COLUMNS: Record<ReportTargetType, 'post_id' | 'comment_id' | 'user_id'> = {
+  post: 'post_id',
+  comment: 'comment_id',
+  user: 'user_id',
+};
+
+const TARGET_TABLES: Record<ReportTargetType, { table: string; label: string }> = {
+  post: { table: 'posts', label: 'Post' },
+  comment: { table: 'comments', label: 'Comment' },
+  user: { table: 'profiles', label: 'User' },
+};
+
+const OPEN_STATUSES: ReportStatus[] = ['pending', 'reviewing'];
+
+/**
+ * The type and id of whatever a report is about
+ */
+export function getReportTarget(report: ContentReport): { type: ReportTargetType; id: string } {
+  if (report.post_id) return { type: 'post', id: report.post_id };
+  if (report.comment_id) return { type: 'comment', id: report.comment_id };
+  return { type: 'user', id: report.user_id as string };
+}
+
+// ============================================================================
+// REPORT OPERATIONS
+// ============================================================================
+
+/**
+ * Report a post, comment or user profile
+ */
+export async function createReport(input: CreateReportInput): Promise<ContentReport> {
+  const supabase = await createClient();
+
+  if (input.target_type === 'user' && input.target_id === input.reporter_id) {
+    throw ApiError.badRequest('You cannot report yourself');
+  }
+
+  // Verify the reported content exists (and is visible to the reporter)
+  const { table, label } = TARGET_TABLES[input.target_type];
+  const { data: target } = await supabase
+    .from(table)
+    .select('id')
+    .eq('id', input.target_id)
+    .maybeSingle();
+
+  if (!target) {
+    throw ApiError.notFound(label);
+  }
+
+  const { data, error } = await supabase
+    .from('content_reports')
+    .insert({
+      reporter_id: input.reporter_id,
+      [TARGET_COLUMNS[input.target_type]]: input.target_id,
+      reason: input.reason,
+      description: input.description || null,
+      status: 'pending' as const,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Raised by check_duplicate_report while an earlier report is still open
+    if (error.code === '23505') {
+      throw ApiError.conflict('You have already reported this content');
+    }
+    logger.error('[createReport] Error', error, {
+      reporterId: input.reporter_id,
+      targetType: input.target_type,
+      targetId: input.target_id,
+    });
+    throw ApiError.badRequest('Failed to submit report');
+  }
+
+  return data as ContentReport;
+}
+
+/**
+ * Get a report by ID
+ */
+export async function getReportById(id: string): Promise<ReportWithDetails> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('content_reports')
+    .select(REPORT_SELECT)
+    .eq('id', id)
+    .single();
+
+  if (error || !data) {
+    throw ApiError.notFound('Report');
+  }
+
+  return data as ReportWithDetails;
+}
+
+/**
+ * List reports with filtering and pagination, oldest first so the queue is worked in order
+ */
+export async function listReports(options: {
+  status?: ReportStatus | 'open';
+  targetType?: ReportTargetType;
+  page?: number;
+  limit?: number;
+}): Promise<{ reports: ReportWithDetails[]; total: number }> {
+  const supabase = await createClient();
+  const { status, targetType, page = 1, limit = 20 } = options;
+
+  let query = supabase.from('content_reports').select(REPORT_SELECT, { count: 'exact' });
+
+  if (status === 'open') {
+    query = query.in('status', OPEN_STATUSES);
+  } else if (status) {
+    query = query.eq('status', status);
+  }
+
+  if (targetType) {
+    query = query.not(TARGET_COLUMNS[targetType], 'is', null);
+  }
+
+  const from = (page - 1) * limit;
+  const to = from + limit - 1;
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: true })
+    .range(from, to);
+
+  if (error) {
+    logger.error('[listReports] Error', error, { status, targetType, page, limit });
+    throw ApiError.badRequest('Failed to fetch reports');
+  }
+
+  return {
+    reports: (data || []) as ReportWithDetails[],
+    total: count || 0,
+  };
+}
+
+/**
+ * Claim a pending report so other moderators know it is being reviewed
+ */
+export async function claimReport(id: string, moderatorId: string): Promise<ReportWithDetails> {
+  const supabase = await createClient();
+
+  // Only a pending report can be claimed; the status filter makes this race-safe
+  const { data, error } = await supabase
+    .from('content_reports')
+    .update({ status: 'reviewing' as const, moderator_id: moderatorId })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    logger.error('[claimReport] Error', error, { reportId: id, moderatorId });
+    throw ApiError.badRequest('Failed to claim report');
+  }
+
+  if (!data) {
+    const report = await getReportById(id);
+    throw ApiError.conflict(
+      report.status === 'reviewing' ? 'Report has already been claimed' : 'Report has already been closed'
+    );
+  }
+
+  return getReportById(id);
+}
+
+/**
+ * Close an open report as resolved or dismissed
+ */
+async function closeReport(
+  id: string,
+  moderatorId: string,
+  status: 'resolved' | 'dismissed',
+  details: { resolution?: string | null; notes?: string | null }
+): Promise<ReportWithDetails> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('content_reports')
+    .update({
+      status,
+      moderator_id: moderatorId,
+      moderator_notes: details.notes || null,
+      resolution: details.resolution || null,
+      resolved_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .in('status', OPEN_STATUSES)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    logger.error('[closeReport] Error', error, { reportId: id, moderatorId, status });
+    throw ApiError.badRequest(`Failed to ${status === 'resolved' ? 'resolve' : 'dismiss'} report`);
+  }
+
+  if (!data) {
+    // Throws notFound if the report doesn't exist at all
+    await getReportById(id);
+    throw ApiError.conflict('Report has already been closed');
+  }
+
+  return getReportById(id);
+}
+
+/**
+ * Resolve a report, recording the action taken
+ */
+export async function resolveReport(
+  id: string,
+  moderatorId: string,
+  resolution: string,
+  notes?: string
+): Promise<ReportWithDetails> {
+  return closeReport(id, moderatorId, 'resolved', { resolution, notes });
+}
+
+/**
+ * Dismiss a report as not actionable. A flagged comment with no other open
+ * reports goes back to visible.
+ */
+export async function dismissReport(
+  id: string,
+  moderatorId: string,
+  notes?: string
+): Promise<ReportWithDetails> {
+  const report = await closeReport(id, moderatorId, 'dismissed', { notes });
+
+  if (report.comment_id && report.comment?.status === 'flagged') {
+    const supabase = await createClient();
+
+    const { count } = await supabase
+      .from('content_reports')
+      .select('id', { count: 'exact', head: true })
+      .eq('comment_id', report.comment_id)
+      .in('status', OPEN_STATUSES);
+
+    if (!count) {
+      const { error } = await supabase
+        .from('comments')
+        .update({ status: 'visible' as const })
+        .eq('id', report.comment_id)
+        .eq('status', 'flagged');
+
+      if (error) {
+        logger.error('[dismissReport] Unflag error', error, { reportId: id, commentId: report.comment_id });
+        // Don't throw - the report is dismissed, the comment can be unflagged manually
+      }
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Close every open report on a piece of content once a moderator has acted on it
+ */
+export async function closeOpenReports(
+  targetType: ReportTargetType,
+  targetId: string,
+  moderatorId: string,
+  status: 'resolved' | 'dismissed',
+  details: { resolution?: string | null; notes?: string | null } = {}
+): Promise<void> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('content_reports')
+    .update({
+      status,
+      moderator_id: moderatorId,
+      moderator_notes: details.notes || null,
+      resolution: details.resolution || null,
+      resolved_at: new Date().toISOString(),
+    })
+    .eq(TARGET_COLUMNS[targetType], targetId)
+    .in('status', OPEN_STATUSES);
+
+  if (error) {
+    logger.error('[closeOpenReports] Error', error, { targetType, targetId, moderatorId, status });
+    throw ApiError.badRequest('Failed to close reports');
+  }
+}
+
+/**
+ * How often each reporter's closed reports were upheld, from 0 to 1.
+ * Smoothed so reporters with no history start at 0.5.
+ */
+export async function getReporterTrust(reporterIds: string[]): Promise<Record<string, number>> {
+  if (reporterIds.length === 0) return {};
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('content_reports')
+    .select('reporter_id, status')
+    .in('reporter_id', reporterIds)
+    .in('status', ['resolved', 'dismissed']);
+
+  if (error) {
+    logger.error('[getReporterTrust] Error', error, { reporters: reporterIds.length });
+  }
+
+  const history: Record<string, { upheld: number; closed: number }> = {};
+  for (const row of (data || []) as { reporter_id: string; status: ReportStatus }[]) {
+    history[row.reporter_id] ??= { upheld: 0, closed: 0 };
+    history[row.reporter_id].closed++;
+    if (row.status === 'resolved') history[row.reporter_id].upheld++;
+  }
+
+  return Object.fromEntries(
+    reporterIds.map((id) => {
+      const { upheld, closed } = history[id] ?? { upheld: 0, closed: 0 };
+      return [id, (upheld + 1) / (closed + 2)];
+    })
+  );
+}
+
+/**
+ * Get report counts by status
+ */
+export async function getReportStats(): Promise<Record<ReportStatus, number> & { total: number }> {
+  const supabase = await createClient();
+
+  const { data: reports } = await supabase.from('content_reports').select('status');
+
+  const stats = {
+    total: 0,
+    pending: 0,
+    reviewing: 0,
+    resolved: 0,
+    dismissed: 0,
+  };
+
+  (reports || []).forEach((report: { status: ReportStatus }) => {
+    stats.total++;
+    if (report.status in stats) stats[report.status]++;
+  });
+
+  return stats;
+}
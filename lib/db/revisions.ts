@@ -0,0 +1,114 @@
+import { createClient } from '@/lib/supabase/server';
+import { ApiError } from '@/lib/api/response';
+import { logger } from '@/lib/logger';
+
+// Note: The post_revisions table is created by migration 006_post_revisions.sql.
+// Revisions are written by its record_post_revision trigger on every
+// content change, so nothing here inserts them.
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RevisionSnapshot {
+  title: string;
+  subtitle: string | null;
+  excerpt: string | null;
+  content: unknown;
+  content_html: string | null;
+}
+
+export interface PostRevisionSummary {
+  id: string;
+  post_id: string;
+  revision_number: number;
+  title: string;
+  restored_from: number | null;
+  created_at: string;
+  editor: {
+    id: string;
+    username: string | null;
+    display_name: string | null;
+    avatar_url: string | null;
+  } | null;
+}
+
+export interface PostRevision extends PostRevisionSummary, RevisionSnapshot {
+  editor_id: string | null;
+}
+
+const REVISION_SUMMARY_SELECT = `
+  id,
+  post_id,
+  revision_number,
+  title,
+  restored_from,
+  created_at,
+  editor:profiles!post_revisions_editor_id_fkey (id, username, display_name, avatar_url)
+`;
+
+// ============================================================================
+// REVISION OPERATIONS
+// ============================================================================
+
+/**
+ * List revisions for a post, newest first
+ */
+export async function getPostRevisions(postId: string): Promise<PostRevisionSummary[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('post_revisions')
+    .select(REVISION_SUMMARY_SELECT)
+    .eq('post_id', postId)
+    .order('revision_number', { ascending: false });
+
+  if (error) {
+    logger.error('[getPostRevisions] Error', error, { postId });
+    throw ApiError.badRequest('Failed to fetch revisions');
+  }
+
+  return (data || []) as unknown as PostRevisionSummary[];
+}
+
+/**
+ * Get a single revision of a post, including its content
+ */
+export async function getPostRevision(postId: string, revisionId: string): Promise<PostRevision> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('post_revisions')
+    .select(`${REVISION_SUMMARY_SELECT}, subtitle, excerpt, content, content_html, editor_id`)
+    .eq('post_id', postId)
+    .eq('id', revisionId)
+    .single();
+
+  if (error || !data) {
+    throw ApiError.notFound('Revision');
+  }
+
+  return data as unknown as PostRevision;
+}
+
+/**
+ * Get the most recent revision of a post, if any
+ */
+export async function getLatestPostRevision(postId: string): Promise<PostRevision | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('post_revisions')
+    .select(`${REVISION_SUMMARY_SELECT}, subtitle, excerpt, content, content_html, editor_id`)
+    .eq('post_id', postId)
+    .order('revision_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('[getLatestPostRevision] Error', error, { postId });
+    throw ApiError.badRequest('Failed to fetch revisions');
+  }
+
+  return (data as unknown as PostRevision) ?? null;
+}
@@ -0,0 +1,274 @@
+import { createClient } from '@/lib/supabase/server';
+import { ApiError } from '@/lib/api/response';
+import { logger } from '@/lib/logger';
+import type { ContentType } from '@/types/database';
+
+// Note: search_profiles is created by migration 007_full_text_search.sql,
+// search_posts / search_post_facets by 008_search_facets.sql,
+// search_suggestions by 009_search_suggestions.sql,
+// mention_suggestions by 016_mentions.sql
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PostSearchResult {
+  id: string;
+  title: string;
+  slug: string;
+  excerpt: string | null;
+  content_type: ContentType;
+  featured_image_url: string | null;
+  reading_time: number | null;
+  published_at: string | null;
+  reaction_count: number;
+  view_count: number;
+  author: {
+    id: string;
+    username: string | null;
+    display_name: string | null;
+    avatar_url: string | null;
+  };
+  category: {
+    id: string;
+    name: string;
+    slug: string;
+  } | null;
+  rank: number;
+  /** Matching excerpt with terms wrapped in <mark> */
+  headline: string;
+}
+
+export interface ProfileSearchResult {
+  id: string;
+  username: string;
+  display_name: string;
+  avatar_url: string | null;
+  bio: string | null;
+  role: string;
+  article_count: number;
+  rank: number;
+}
+
+interface SearchOptions {
+  query: string;
+  page?: number;
+  limit?: number;
+}
+
+export type PublishedBucket = 'day' | 'week' | 'month' | 'year' | 'older';
+
+export type SearchFacet = 'content_type' | 'category' | 'tag' | 'author' | 'published';
+
+/** Values are OR'd within a facet and AND'd across facets */
+export interface PostSearchFilters {
+  contentTypes?: ContentType[];
+  /** Category slugs */
+  categories?: string[];
+  /** Tag slugs */
+  tags?: string[];
+  /** Author usernames (lowercase) */
+  authors?: string[];
+  published?: PublishedBucket[];
+}
+
+export interface FacetCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export type SearchFacets = Record<SearchFacet, FacetCount[]>;
+
+export interface SearchSuggestion {
+  label: string;
+  slug: string;
+}
+
+export interface SearchSuggestions {
+  posts: SearchSuggestion[];
+  tags: SearchSuggestion[];
+  categories: SearchSuggestion[];
+  users: (SearchSuggestion & { avatar_url: string | null })[];
+}
+
+export interface MentionSuggestion {
+  username: string;
+  display_name: string | null;
+  avatar_url: string | null;
+}
+
+// Empty selections mean "no filter" to the SQL functions
+function filterParams(filters: PostSearchFilters = {}) {
+  const values = <T>(list?: T[]) => (list && list.length > 0 ? list : null);
+
+  return {
+    p_content_types: values(filters.contentTypes),
+    p_categories: values(filters.categories),
+    p_tags: values(filters.tags),
+    p_authors: values(filters.authors),
+    p_published: values(filters.published),
+  };
+}
+
+// ============================================================================
+// SEARCH OPERATIONS
+// ============================================================================
+
+/**
+ * Ranked full-text search over published posts (websearch syntax)
+ */
+export async function searchPosts(
+  options: SearchOptions & { filters?: PostSearchFilters }
+): Promise<{ results: PostSearchResult[]; total: number }> {
+  const { query, filters, page = 1, limit = 20 } = options;
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc('search_posts', {
+    p_query: query,
+    ...filterParams(filters),
+    p_limit: limit,
+    p_offset: (page - 1) * limit,
+  });
+
+  if (error) {
+    logger.error('[searchPosts] Error', error, { query, filters, page, limit });
+    throw ApiError.badRequest('Failed to search posts');
+  }
+
+  const rows = (data || []) as (PostSearchResult & { total_count: number })[];
+
+  return {
+    results: rows.map(({ total_count: _total, ...result }) => result),
+    total: Number(rows[0]?.total_count ?? 0),
+  };
+}
+
+/**
+ * Facet counts for a post search. Each facet ignores its own filter so
+ * sibling values keep their counts once one is selected.
+ */
+export async function getPostSearchFacets(
+  query: string,
+  filters?: PostSearchFilters
+): Promise<SearchFacets> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc('search_post_facets', {
+    p_query: query,
+    ...filterParams(filters),
+  });
+
+  if (error) {
+    logger.error('[getPostSearchFacets] Error', error, { query, filters });
+    throw ApiError.badRequest('Failed to load search facets');
+  }
+
+  const facets: SearchFacets = {
+    content_type: [],
+    category: [],
+    tag: [],
+    author: [],
+    published: [],
+  };
+
+  for (const row of (data || []) as { facet: SearchFacet; value: string; label: string; count: number }[]) {
+    facets[row.facet]?.push({
+      value: row.value,
+      label: row.label,
+      count: Number(row.count),
+    });
+  }
+
+  return facets;
+}
+
+/**
+ * Search active profiles by username, display name and bio
+ */
+export async function searchProfiles(
+  options: SearchOptions
+): Promise<{ users: ProfileSearchResult[]; total: number }> {
+  const { query, page = 1, limit = 20 } = options;
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc('search_profiles', {
+    p_query: query,
+    p_limit: limit,
+    p_offset: (page - 1) * limit,
+  });
+
+  if (error) {
+    logger.error('[searchProfiles] Error', error, { query, page, limit });
+    throw ApiError.badRequest('Failed to search users');
+  }
+
+  const rows = (data || []) as (ProfileSearchResult & { total_count: number })[];
+
+  return {
+    users: rows.map(({ total_count: _total, ...user }) => user),
+    total: Number(rows[0]?.total_count ?? 0),
+  };
+}
+
+/**
+ * Prefix-matched titles, tags, categories and contributors for search-as-you-type
+ */
+export async function getSearchSuggestions(prefix: string, limit = 5): Promise<SearchSuggestions> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc('search_suggestions', {
+    p_prefix: prefix,
+    p_limit: limit,
+  });
+
+  if (error) {
+    logger.error('[getSearchSuggestions] Error', error, { prefix, limit });
+    throw ApiError.badRequest('Failed to load suggestions');
+  }
+
+  const suggestions: SearchSuggestions = { posts: [], tags: [], categories: [], users: [] };
+
+  const rows = (data || []) as {
+    kind: 'post' | 'tag' | 'category' | 'user';
+    label: string;
+    slug: string;
+    avatar_url: string | null;
+  }[];
+
+  for (const row of rows) {
+    if (row.kind === 'user') {
+      suggestions.users.push({ label: row.label, slug: row.slug, avatar_url: row.avatar_url });
+    } else if (row.kind === 'post') {
+      suggestions.posts.push({ label: row.label, slug: row.slug });
+    } else if (row.kind === 'tag') {
+      suggestions.tags.push({ label: row.label, slug: row.slug });
+    } else if (row.kind === 'category') {
+      suggestions.categories.push({ label: row.label, slug: row.slug });
+    }
+  }
+
+  return suggestions;
+}
+
+/**
+ * Usernames starting with a prefix, for the @mention picker
+ */
+export async function getMentionSuggestions(
+  prefix: string,
+  limit = 6
+): Promise<MentionSuggestion[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc('mention_suggestions', {
+    p_prefix: prefix,
+    p_limit: limit,
+  });
+
+  if (error) {
+    logger.error('[getMentionSuggestions] Error', error, { prefix, limit });
+    throw ApiError.badRequest('Failed to load suggestions');
+  }
+
+  return (data || []) as MentionSuggestion[];
+}
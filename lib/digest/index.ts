@@ -0,0 +1,297 @@
+/**
+ * Weekly digest
+ * Compiles a per-user summary of the week (new posts from the categories
+ * they read most, trending posts, replies to their comments and, for
+ * contributors, how their posts did) and emails it
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { getTrendingPosts } from '@/lib/db/posts';
+import { getUserStats } from '@/lib/db/profiles';
+import { dispatchNotification } from '@/lib/notifications';
+import { weeklyDigestEmail } from '@/lib/email/templates';
+import {
+  createUnsubscribeToken,
+  getUnsubscribeUrl,
+  listUnsubscribeHeaders,
+} from '@/lib/email/tokens';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DigestPost {
+  title: string;
+  slug: string;
+  excerpt: string | null;
+  category_name: string | null;
+  author_name: string | null;
+}
+
+export interface DigestReply {
+  id: string;
+  content: string;
+  replier_name: string | null;
+  post_title: string;
+  post_slug: string;
+}
+
+export interface DigestStats {
+  weekViews: number;
+  weekReactions: number;
+  totalViews: number;
+  totalReactions: number;
+  publishedPosts: number;
+}
+
+export interface WeeklyDigest {
+  recommended: DigestPost[];
+  trending: DigestPost[];
+  replies: DigestReply[];
+  /** Only for contributors with published posts */
+  stats: DigestStats | null;
+}
+
+interface DigestRecipient {
+  id: string;
+  role: string;
+}
+
+interface TrendingPost extends DigestPost {
+  id: string;
+  author_id: string;
+}
+
+export interface DigestRunResult {
+  sent: string[];
+  skipped: string[];
+  failed: string[];
+}
+
+// Max users handled per run; later runs in the same week pick up the rest
+const BATCH_SIZE = 200;
+const DIGEST_DAYS = 7;
+const SECTION_SIZE = 5;
+const TRENDING_SIZE = 3;
+
+const CONTRIBUTOR_ROLES = ['contributor', 'editor', 'admin', 'superadmin'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Monday (UTC) of the week `now` falls in, as YYYY-MM-DD. Each user gets
+ * at most one digest per period.
+ */
+export function getDigestPeriodStart(now: Date): string {
+  const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+  return new Date(now.getTime() - daysSinceMonday * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function isEmptyDigest(digest: WeeklyDigest): boolean {
+  return (
+    digest.recommended.length === 0 &&
+    digest.trending.length === 0 &&
+    digest.replies.length === 0 &&
+    !digest.stats
+  );
+}
+
+async function getDigestRecipients(periodStart: string): Promise<DigestRecipient[]> {
+  const supabase = await createServiceClient();
+
+  const { data, error } = await supabase.rpc('digest_recipients', {
+    p_period_start: periodStart,
+    p_limit: BATCH_SIZE,
+  });
+
+  if (error) {
+    logger.error('[digest] Failed to fetch recipients', error, { periodStart });
+    return [];
+  }
+
+  return (data || []) as DigestRecipient[];
+}
+
+async function getTrendingPool(): Promise<TrendingPost[]> {
+  const posts = await getTrendingPosts(10);
+
+  return posts.map((post) => ({
+    id: post.id,
+    author_id: post.author?.id ?? '',
+    title: post.title,
+    slug: post.slug,
+    excerpt: post.excerpt,
+    category_name: post.category?.name ?? null,
+    author_name: post.author?.display_name || post.author?.username || null,
+  }));
+}
+
+async function getContributorStats(userId: string, since: Date): Promise<DigestStats | null> {
+  const supabase = await createServiceClient();
+
+  const [totals, { data, error }] = await Promise.all([
+    getUserStats(userId),
+    supabase.rpc('digest_author_activity', { p_user_id: userId, p_since: since.toISOString() }),
+  ]);
+
+  if (error) {
+    throw error;
+  }
+
+  if (totals.publishedPosts === 0) return null;
+
+  const activity = (data as { views: number; reactions: number }[] | null)?.[0];
+
+  return {
+    weekViews: Number(activity?.views ?? 0),
+    weekReactions: Number(activity?.reactions ?? 0),
+    totalViews: totals.totalViews,
+    totalReactions: totals.totalReactions,
+    publishedPosts: totals.publishedPosts,
+  };
+}
+
+/**
+ * Record the delivery. Returns false if another run already handled this user.
+ */
+async function claimDigest(userId: string, periodStart: string): Promise<boolean> {
+  const supabase = await createServiceClient();
+
+  const { error } = await supabase
+    .from('digest_deliveries')
+    .insert({ user_id: userId, period_start: periodStart });
+
+  if (error?.code === '23505') return false;
+  if (error) throw error;
+
+  return true;
+}
+
+/**
+ * Drop a claim whose digest could not be queued, so the next run retries it.
+ * The queue's idempotency key stops a retry from sending twice.
+ */
+async function releaseDigest(userId: string, periodStart: string): Promise<void> {
+  const supabase = await createServiceClient();
+
+  const { error } = await supabase
+    .from('digest_deliveries')
+    .delete()
+    .eq('user_id', userId)
+    .eq('period_start', periodStart);
+
+  if (error) {
+    logger.error('[digest] Failed to release digest claim', error, { userId, periodStart });
+  }
+}
+
+// ============================================================================
+// DIGEST
+// ============================================================================
+
+/**
+ * Build one user's digest. `trending` is shared across the run; the user's
+ * own posts and anything already recommended are left out of it.
+ */
+export async function compileDigest(
+  recipient: DigestRecipient,
+  since: Date,
+  trending: TrendingPost[]
+): Promise<WeeklyDigest> {
+  const supabase = await createServiceClient();
+  const params = { p_user_id: recipient.id, p_since: since.toISOString(), p_limit: SECTION_SIZE };
+
+  const [recommended, replies, stats] = await Promise.all([
+    supabase.rpc('digest_recommended_posts', params),
+    supabase.rpc('digest_comment_replies', params),
+    CONTRIBUTOR_ROLES.includes(recipient.role)
+      ? getContributorStats(recipient.id, since)
+      : Promise.resolve(null),
+  ]);
+
+  if (recommended.error) throw recommended.error;
+  if (replies.error) throw replies.error;
+
+  const recommendedPosts = (recommended.data || []) as (DigestPost & { id: string })[];
+  const seen = new Set(recommendedPosts.map((post) => post.id));
+
+  return {
+    recommended: recommendedPosts,
+    trending: trending
+      .filter((post) => post.author_id !== recipient.id && !seen.has(post.id))
+      .slice(0, TRENDING_SIZE),
+    replies: (replies.data || []) as DigestReply[],
+    stats,
+  };
+}
+
+/**
+ * Send this week's digest to everyone who wants one and hasn't had it yet
+ */
+export async function sendWeeklyDigests(now: Date = new Date()): Promise<DigestRunResult> {
+  const result: DigestRunResult = { sent: [], skipped: [], failed: [] };
+  const periodStart = getDigestPeriodStart(now);
+  const since = new Date(now.getTime() - DIGEST_DAYS * DAY_MS);
+
+  const recipients = await getDigestRecipients(periodStart);
+
+  if (recipients.length === 0) {
+    return result;
+  }
+
+  const trending = await getTrendingPool();
+
+  for (const recipient of recipients) {
+    let claimed = false;
+
+    try {
+      const digest = await compileDigest(recipient, since, trending);
+      // Signed before claiming, so a missing secret fails the run instead of eating the digest
+      const unsubscribeToken = createUnsubscribeToken(recipient.id, 'weekly_digest');
+
+      // Claimed even when empty so the user drops out of this week's batches
+      if (!(await claimDigest(recipient.id, periodStart))) continue;
+      claimed = true;
+
+      if (isEmptyDigest(digest)) {
+        result.skipped.push(recipient.id);
+        continue;
+      }
+
+      const { emailed } = await dispatchNotification({
+        userId: recipient.id,
+        email: {
+          category: 'weekly_digest',
+          idempotencyKey: `weekly_digest:${recipient.id}:${periodStart}`,
+          build: (user) => ({
+            ...weeklyDigestEmail(user.name, digest, getUnsubscribeUrl(unsubscribeToken)),
+            headers: listUnsubscribeHeaders(unsubscribeToken),
+          }),
+        },
+      });
+
+      (emailed ? result.sent : result.skipped).push(recipient.id);
+    } catch (err) {
+      logger.error('[digest] Failed to send digest', err, { userId: recipient.id });
+      result.failed.push(recipient.id);
+
+      if (claimed) {
+        await releaseDigest(recipient.id, periodStart);
+      }
+    }
+  }
+
+  logger.info('[digest] Sent weekly digests', {
+    periodStart,
+    sent: result.sent.length,
+    skipped: result.skipped.length,
+    failed: result.failed.length,
+  });
+
+  return result;
+}
@@ -1,6 +1,6 @@
 // ============================================================================
 // EMAIL CLIENT
-// Uses Resend for transactional emails
+// Sends transactional email through the transport chosen in lib/config
 // ============================================================================
 
 export interface EmailOptions {
@@ -10,79 +10,112 @@ export interface EmailOptions {
   text?: string;
   replyTo?: string;
   tags?: { name: string; value: string }[];
+  /** Extra headers, e.g. List-Unsubscribe */
+  headers?: Record<string, string>;
 }
 
 export interface EmailResult {
   success: boolean;
   id?: string;
   error?: string;
+  /** Every recipient is on the suppression list; retrying won't help */
+  suppressed?: boolean;
 }
 
-// Email configuration
-const RESEND_API_KEY = process.env.RESEND_API_KEY;
-const FROM_EMAIL = process.env.FROM_EMAIL || 'Scroungers <noreply@scroungers.co>';
-const RESEND_API_URL = 'https://api.resend.com/emails';
+const SUPPRESSED: EmailResult = {
+  success: false,
+  error: 'Recipient suppressed after a bounce or complaint',
+  suppressed: true,
+};
 
 /**
- * Send an email using Resend
+ * Send an email through the configured transport (Resend, SMTP or .eml files).
+ * Suppressed addresses (see ./suppressions) are dropped first.
  */
 export async function sendEmail(options: EmailOptions): Promise<EmailResult> {
+  const { getSuppressedAddresses } = await import('./suppressions');
+  const { extractAddress } = await import('./mime');
+
+  const recipients = Array.isArray(options.to) ? options.to : [options.to];
+  const suppressed = await getSuppressedAddresses(recipients.map(extractAddress));
+  const to = recipients.filter((r) => !suppressed.has(extractAddress(r).toLowerCase()));
+
+  if (to.length === 0) {
+    return SUPPRESSED;
+  }
+
+  return deliver({ ...options, to: Array.isArray(options.to) ? to : to[0] });
+}
+
+/**
+ * Hand an email to the transport, without checking suppressions
+ */
+async function deliver(options: EmailOptions): Promise<EmailResult> {
   const { logger } = await import('@/lib/logger');
-  
-  if (!RESEND_API_KEY) {
-    logger.warn('RESEND_API_KEY not configured, skipping email');
+  const { config } = await import('@/lib/config');
+  const { getEmailTransport } = await import('./transports');
+
+  const transport = getEmailTransport();
+
+  if (!transport.isConfigured()) {
+    logger.warn(`${transport.name} email transport not configured, skipping email`);
     return { success: false, error: 'Email not configured' };
   }
 
   try {
-    const response = await fetch(RESEND_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${RESEND_API_KEY}`,
-      },
-      body: JSON.stringify({
-        from: FROM_EMAIL,
-        to: Array.isArray(options.to) ? options.to : [options.to],
-        subject: options.subject,
-        html: options.html,
-        text: options.text,
-        reply_to: options.replyTo,
-        tags: options.tags,
-      }),
+    const result = await transport.send({ ...options, from: config.fromEmail });
+    logger.info('Email sent successfully', {
+      emailId: result.id,
+      to: options.to,
+      transport: transport.name,
     });
-
-    if (!response.ok) {
-      const error = await response.json();
-      logger.error('Email send failed', error, { to: options.to, subject: options.subject });
-      return { success: false, error: error.message || 'Failed to send email' };
-    }
-
-    const result = await response.json();
-    logger.info('Email sent successfully', { emailId: result.id, to: options.to });
-    return { success: true, id: result.id };
+    return result;
   } catch (err) {
-    logger.error('Email send error', err, { to: options.to, subject: options.subject });
-    return { success: false, error: 'Failed to send email' };
+    logger.error('Email send failed', err, {
+      to: options.to,
+      subject: options.subject,
+      transport: transport.name,
+    });
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to send email',
+    };
   }
 }
 
 /**
- * Send email to multiple recipients
+ * Send email to multiple recipients, skipping suppressed addresses
+ * `options` can be a function to personalise each email (e.g. unsubscribe
+ * links); `onResult` hears about every send as it finishes.
  */
 export async function sendBulkEmail(
   recipients: string[],
-  options: Omit<EmailOptions, 'to'>
+  options: Omit<EmailOptions, 'to'> | ((to: string) => Omit<EmailOptions, 'to'>),
+  onResult?: (to: string, result: EmailResult) => void | Promise<void>
 ): Promise<{ sent: number; failed: number }> {
   let sent = 0;
   let failed = 0;
 
+  const { getSuppressedAddresses } = await import('./suppressions');
+  const { extractAddress } = await import('./mime');
+
   // Send in batches of 10
   const batchSize = 10;
   for (let i = 0; i < recipients.length; i += batchSize) {
     const batch = recipients.slice(i, i + batchSize);
+    // One suppression lookup per batch rather than one per email
+    const suppressed = await getSuppressedAddresses(batch.map(extractAddress));
     const results = await Promise.all(
-      batch.map((to) => sendEmail({ ...options, to }))
+      batch.map(async (to) => {
+        const result = suppressed.has(extractAddress(to).toLowerCase())
+          ? SUPPRESSED
+          : await deliver({
+              ...(typeof options === 'function' ? options(to) : options),
+              to,
+            });
+        await onResult?.(to, result);
+        return result;
+      })
     );
 
     results.forEach((result) => {
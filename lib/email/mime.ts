@@ -0,0 +1,157 @@
+/**
+ * MIME message builder
+ * Turns EmailOptions into an RFC 5322 message with HTML and plain-text parts,
+ * for transports that deliver raw messages (SMTP, .eml files)
+ */
+
+import { randomUUID } from 'crypto';
+import type { EmailOptions } from './client';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const LINE_LENGTH = 76;
+
+/**
+ * RFC 2047 encoded-word for header values that aren't plain ASCII
+ */
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+/**
+ * Encode the display name of "Name <address>", leaving the address alone
+ */
+function encodeAddress(value: string): string {
+  const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (!match || !match[1]) return value.trim();
+  return `${encodeHeader(match[1])} <${match[2]}>`;
+}
+
+/**
+ * Header values are written as is, so a line break would start a new header
+ */
+function assertSingleLine(name: string, value: string): void {
+  if (/[\r\n]/.test(name) || /[\r\n]/.test(value)) {
+    throw new Error(`Invalid ${name.replace(/[\r\n]/g, ' ')} header: contains a line break`);
+  }
+}
+
+function base64Body(content: string): string {
+  const encoded = Buffer.from(content).toString('base64');
+  return encoded.match(new RegExp(`.{1,${LINE_LENGTH}}`, 'g'))?.join('\r\n') ?? '';
+}
+
+/**
+ * The bare address from "Name <address>"
+ */
+export function extractAddress(value: string): string {
+  return value.match(/<([^>]+)>/)?.[1] ?? value.trim();
+}
+
+// Named entities the templates use. Decoded in one pass, so "&amp;lt;" becomes "&lt;"
+const ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  bull: '•',
+  copy: '©',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  amp: '&',
+};
+
+/**
+ * Plain-text fallback for emails that only provide HTML
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, '$2 ($1)')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|tr|table)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&#(x[0-9a-f]+|\d+);/gi, (_, code: string) =>
+      String.fromCodePoint(
+        code[0].toLowerCase() === 'x' ? parseInt(code.slice(1), 16) : Number(code)
+      )
+    )
+    .replace(/&(\w+);/g, (entity, name: string) => ENTITIES[name] ?? entity)
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// ============================================================================
+// MESSAGE
+// ============================================================================
+
+export interface MimeMessage {
+  messageId: string;
+  /** Envelope sender and recipients, for SMTP */
+  from: string;
+  recipients: string[];
+  /** The full message, CRLF line endings */
+  raw: string;
+}
+
+export function buildMimeMessage(
+  from: string,
+  options: EmailOptions,
+  date: Date = new Date()
+): MimeMessage {
+  const to = Array.isArray(options.to) ? options.to : [options.to];
+  const sender = extractAddress(from);
+  const domain = sender.split('@')[1] || 'localhost';
+  const messageId = `<${randomUUID()}@${domain}>`;
+  const boundary = `=_${randomUUID().replace(/-/g, '')}`;
+
+  const headers: [string, string][] = [
+    ['From', encodeAddress(from)],
+    ['To', to.map(encodeAddress).join(', ')],
+    ['Subject', encodeHeader(options.subject)],
+    ['Date', date.toUTCString().replace('GMT', '+0000')],
+    ['Message-ID', messageId],
+    ['MIME-Version', '1.0'],
+  ];
+
+  if (options.replyTo) {
+    headers.push(['Reply-To', encodeAddress(options.replyTo)]);
+  }
+
+  for (const [name, value] of Object.entries(options.headers ?? {})) {
+    headers.push([name, value]);
+  }
+
+  headers.push(['Content-Type', `multipart/alternative; boundary="${boundary}"`]);
+
+  for (const [name, value] of headers) {
+    assertSingleLine(name, value);
+  }
+
+  const part = (contentType: string, content: string) =>
+    [
+      `--${boundary}`,
+      `Content-Type: ${contentType}; charset=utf-8`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64Body(content),
+    ].join('\r\n');
+
+  const raw = [
+    ...headers.map(([name, value]) => `${name}: ${value}`),
+    '',
+    part('text/plain', options.text ?? htmlToText(options.html)),
+    part('text/html', options.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+
+  return { messageId, from: sender, recipients: to.map(extractAddress), raw };
+}
@@ -0,0 +1,358 @@
+/**
+ * Email template previews
+ * Every template in ./templates with sample data, so admins can render and
+ * test-send them from /admin/emails without triggering the real flow
+ */
+
+import { ApiError } from '@/lib/api/response';
+import type { DigestPost } from '@/lib/digest';
+import { sendEmail } from './client';
+import { htmlToText } from './mime';
+import * as templates from './templates';
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://scroungers.co';
+const SAMPLE_UNSUBSCRIBE_URL = `${SITE_URL}/unsubscribe?token=preview`;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PreviewField {
+  name: string;
+  label: string;
+  type: 'text' | 'textarea' | 'number';
+  /** Sample value the preview starts with */
+  sample: string;
+}
+
+export interface EmailTemplatePreview {
+  id: string;
+  name: string;
+  description: string;
+  fields: PreviewField[];
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+type PreviewData = Record<string, string>;
+
+interface TemplateDefinition extends EmailTemplatePreview {
+  render(data: PreviewData): { html: string; subject: string };
+}
+
+// ============================================================================
+// SAMPLE DATA
+// ============================================================================
+
+const text = (name: string, label: string, sample: string): PreviewField => ({
+  name,
+  label,
+  type: 'text',
+  sample,
+});
+
+const longText = (name: string, label: string, sample: string): PreviewField => ({
+  name,
+  label,
+  type: 'textarea',
+  sample,
+});
+
+const number = (name: string, label: string, sample: string): PreviewField => ({
+  name,
+  label,
+  type: 'number',
+  sample,
+});
+
+const NAME = text('name', 'Recipient name', 'Sam');
+const POST_TITLE = text('postTitle', 'Post title', 'How to furnish a flat for under £100');
+const POST_SLUG = text('postSlug', 'Post slug', 'furnish-a-flat-for-under-100');
+
+const SAMPLE_POSTS = [
+  'How to furnish a flat for under £100 | Money | Alex',
+  'The best free museums in the north | Culture | Priya',
+  'Batch cooking on a budget | Food | Jordan',
+].join('\n');
+
+/**
+ * Posts from "Title | Category | Author" lines
+ */
+function samplePosts(lines: string): DigestPost[] {
+  return lines
+    .split('\n')
+    .map((line) => line.split('|').map((part) => part.trim()))
+    .filter(([title]) => title)
+    .map(([title, category, author]) => ({
+      title,
+      slug: title
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, ''),
+      excerpt: null,
+      category_name: category || null,
+      author_name: author || null,
+    }));
+}
+
+function toNumber(value: string): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+const TEMPLATES: TemplateDefinition[] = [
+  {
+    id: 'welcome',
+    name: 'Welcome',
+    description: 'Sent when someone creates an account',
+    fields: [NAME],
+    render: (d) => templates.welcomeEmail(d.name),
+  },
+  {
+    id: 'application-received',
+    name: 'Application received',
+    description: 'Confirms a contributor application was submitted',
+    fields: [NAME],
+    render: (d) => templates.applicationReceivedEmail(d.name),
+  },
+  {
+    id: 'application-approved',
+    name: 'Application approved',
+    description: 'Sent when an admin approves a contributor application',
+    fields: [NAME],
+    render: (d) => templates.applicationApprovedEmail(d.name),
+  },
+  {
+    id: 'application-rejected',
+    name: 'Application rejected',
+    description: 'Sent when an admin rejects a contributor application',
+    fields: [NAME],
+    render: (d) => templates.applicationRejectedEmail(d.name),
+  },
+  {
+    id: 'post-published',
+    name: 'Post published',
+    description: 'Tells a contributor their post is live',
+    fields: [NAME, POST_TITLE, POST_SLUG],
+    render: (d) => templates.postPublishedEmail(d.name, d.postTitle, d.postSlug),
+  },
+  {
+    id: 'post-rejected',
+    name: 'Post rejected',
+    description: 'Tells a contributor their post was not approved, with the reason',
+    fields: [
+      NAME,
+      POST_TITLE,
+      longText('reason', 'Reason', 'The post needs sources for the prices it quotes.'),
+    ],
+    render: (d) => templates.postRejectedEmail(d.name, d.postTitle, d.reason || undefined),
+  },
+  {
+    id: 'new-comment',
+    name: 'New comment',
+    description: 'Tells an author someone commented on their post',
+    fields: [
+      NAME,
+      text('commenterName', 'Commenter name', 'Alex'),
+      POST_TITLE,
+      POST_SLUG,
+      longText('comment', 'Comment', 'Great tips! The charity shop idea saved me a fortune.'),
+    ],
+    render: (d) =>
+      templates.newCommentEmail(d.name, d.commenterName, d.postTitle, d.postSlug, d.comment),
+  },
+  {
+    id: 'comment-reply',
+    name: 'Comment reply',
+    description: 'Tells a commenter someone replied to them',
+    fields: [
+      NAME,
+      text('replierName', 'Replier name', 'Alex'),
+      POST_TITLE,
+      POST_SLUG,
+      longText('reply', 'Reply', 'Totally agree, I did the same last year.'),
+    ],
+    render: (d) =>
+      templates.commentReplyEmail(d.name, d.replierName, d.postTitle, d.postSlug, d.reply),
+  },
+  {
+    id: 'reaction-milestone',
+    name: 'Reaction milestone',
+    description: 'Celebrates a post reaching a number of reactions',
+    fields: [NAME, POST_TITLE, POST_SLUG, number('milestone', 'Milestone', '100')],
+    render: (d) =>
+      templates.reactionMilestoneEmail(d.name, d.postTitle, d.postSlug, toNumber(d.milestone)),
+  },
+  {
+    id: 'role-changed',
+    name: 'Role changed',
+    description: "Sent when an admin changes someone's role",
+    fields: [NAME, text('role', 'New role', 'editor')],
+    render: (d) => templates.roleChangedEmail(d.name, d.role),
+  },
+  {
+    id: 'account-suspended',
+    name: 'Account suspended',
+    description: 'Sent when an admin suspends an account',
+    fields: [
+      NAME,
+      longText('reason', 'Reason', 'Repeated spam in the comments.'),
+      text(
+        'suspendedUntil',
+        'Suspended until (ISO date, empty for indefinite)',
+        '2026-12-01T12:00:00Z'
+      ),
+    ],
+    render: (d) => templates.accountSuspendedEmail(d.name, d.reason, d.suspendedUntil || null),
+  },
+  {
+    id: 'password-reset',
+    name: 'Password reset',
+    description: 'Password reset link',
+    fields: [text('resetUrl', 'Reset link', `${SITE_URL}/reset-password?token=preview`)],
+    render: (d) => templates.passwordResetEmail(d.resetUrl),
+  },
+  {
+    id: 'contact-notification',
+    name: 'Contact form notification',
+    description: 'Sent to the admin inbox for each contact form message',
+    fields: [
+      NAME,
+      text('email', 'Sender email', 'sam@example.com'),
+      text('subject', 'Subject', 'Partnership idea'),
+      longText(
+        'message',
+        'Message',
+        'Hi! We run a community fridge and would love to write for you.'
+      ),
+      text('category', 'Category', 'partnership'),
+    ],
+    render: (d) =>
+      templates.contactAdminNotificationEmail(d.name, d.email, d.subject, d.message, d.category),
+  },
+  {
+    id: 'newsletter-confirm',
+    name: 'Newsletter confirmation',
+    description: 'Double opt-in link for new newsletter subscribers',
+    fields: [
+      text('confirmUrl', 'Confirmation link', `${SITE_URL}/newsletter/confirm?token=preview`),
+    ],
+    render: (d) => templates.newsletterWelcomeEmail('', d.confirmUrl),
+  },
+  {
+    id: 'newsletter-campaign',
+    name: 'Newsletter campaign',
+    description: 'Layout of campaigns composed at /admin/newsletter',
+    fields: [
+      text('subject', 'Subject', 'This month on Scroungers'),
+      longText('intro', 'Intro', 'Hello!\n\nHere are the posts our readers loved this month.'),
+      longText('posts', 'Posts (Title | Category | Author per line)', SAMPLE_POSTS),
+    ],
+    render: (d) =>
+      templates.newsletterCampaignEmail(
+        { subject: d.subject, intro: d.intro },
+        samplePosts(d.posts),
+        SAMPLE_UNSUBSCRIBE_URL
+      ),
+  },
+  {
+    id: 'weekly-digest',
+    name: 'Weekly digest',
+    description: 'Monday digest; sections with no posts are left out',
+    fields: [
+      NAME,
+      longText(
+        'recommended',
+        'Recommended posts (Title | Category | Author per line)',
+        SAMPLE_POSTS
+      ),
+      longText('trending', 'Trending posts', SAMPLE_POSTS.split('\n').slice(0, 2).join('\n')),
+      number('totalViews', 'Contributor views (0 hides the stats)', '1250'),
+      number('totalReactions', 'Contributor reactions', '87'),
+      number('publishedPosts', 'Published posts', '4'),
+    ],
+    render: (d) =>
+      templates.weeklyDigestEmail(
+        d.name,
+        {
+          recommended: samplePosts(d.recommended),
+          trending: samplePosts(d.trending),
+          replies: [],
+          stats:
+            toNumber(d.totalViews) > 0
+              ? {
+                  weekViews: 0,
+                  weekReactions: 0,
+                  totalViews: toNumber(d.totalViews),
+                  totalReactions: toNumber(d.totalReactions),
+                  publishedPosts: toNumber(d.publishedPosts),
+                }
+              : null,
+        },
+        SAMPLE_UNSUBSCRIBE_URL
+      ),
+  },
+];
+
+// ============================================================================
+// PREVIEWS
+// ============================================================================
+
+export function listEmailPreviews(): EmailTemplatePreview[] {
+  return TEMPLATES.map(({ id, name, description, fields }) => ({ id, name, description, fields }));
+}
+
+function getTemplate(id: string): TemplateDefinition {
+  const template = TEMPLATES.find((t) => t.id === id);
+
+  if (!template) {
+    throw ApiError.notFound('Email template');
+  }
+
+  return template;
+}
+
+/**
+ * Render a template, filling any field not in `data` with its sample value
+ */
+export function renderEmailPreview(id: string, data: PreviewData = {}): RenderedEmail {
+  const template = getTemplate(id);
+  const values = Object.fromEntries(
+    template.fields.map((field) => [field.name, data[field.name] ?? field.sample])
+  );
+
+  const { html, subject } = template.render(values);
+
+  return { subject, html, text: htmlToText(html) };
+}
+
+/**
+ * Email a rendered preview to `email`, subject marked as a test
+ */
+export async function sendEmailPreview(
+  id: string,
+  data: PreviewData,
+  email: string
+): Promise<void> {
+  const { subject, html, text: plainText } = renderEmailPreview(id, data);
+
+  const result = await sendEmail({
+    to: email,
+    subject: `[Test] ${subject}`,
+    html,
+    text: plainText,
+    tags: [{ name: 'type', value: 'template_test' }],
+  });
+
+  if (!result.success) {
+    throw ApiError.badRequest(result.error || 'Failed to send test email');
+  }
+}
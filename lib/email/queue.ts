@@ -1,7 +1,10 @@
 /**
  * Email queue system with retry logic and batch processing
+ * Jobs live in the email_queue table (migration 021), so they survive deploys
+ * and crashes, and every instance works through the same queue
  */
 
+import { createServiceClient } from '@/lib/supabase/server';
 import { logger } from '@/lib/logger';
 import { sendEmail, type EmailOptions } from './client';
 
@@ -9,21 +12,47 @@ import { sendEmail, type EmailOptions } from './client';
 // TYPES
 // ============================================================================
 
-interface QueuedEmail {
+export type EmailJobStatus = 'pending' | 'processing' | 'sent' | 'dead';
+
+export interface EmailJob {
   id: string;
+  idempotency_key: string | null;
+  recipient: string;
+  subject: string;
   options: EmailOptions;
+  status: EmailJobStatus;
   attempts: number;
-  maxAttempts: number;
-  lastAttempt?: Date;
-  error?: string;
-  status: 'pending' | 'processing' | 'sent' | 'failed';
-  createdAt: Date;
-  sentAt?: Date;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_at: string | null;
+  last_error: string | null;
+  message_id: string | null;
+  created_at: string;
+  updated_at: string;
+  sent_at: string | null;
+}
+
+export interface QueueEmailOptions {
+  /** Queueing another email with the same key does nothing and returns the first one's id */
+  idempotencyKey?: string;
+  maxAttempts?: number;
 }
 
+export interface EmailQueueStats {
+  total: number;
+  pending: number;
+  processing: number;
+  sent: number;
+  dead: number;
+}
+
+// Sent emails are kept this long for the admin view
+const SENT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
 interface QueueOptions {
-  maxRetries?: number;
+  maxAttempts?: number;
   retryDelayMs?: number;
+  maxRetryDelayMs?: number;
   batchSize?: number;
   processIntervalMs?: number;
 }
@@ -33,93 +62,136 @@ interface QueueOptions {
 // ============================================================================
 
 class EmailQueue {
-  private queue: Map<string, QueuedEmail> = new Map();
   private processingInterval: NodeJS.Timeout | null = null;
   private isProcessing = false;
   private options: Required<QueueOptions>;
 
   constructor(options: QueueOptions = {}) {
     this.options = {
-      maxRetries: options.maxRetries ?? 3,
-      retryDelayMs: options.retryDelayMs ?? 5000, // 5 seconds
+      maxAttempts: options.maxAttempts ?? 5,
+      retryDelayMs: options.retryDelayMs ?? 30 * 1000, // 30 seconds
+      maxRetryDelayMs: options.maxRetryDelayMs ?? 60 * 60 * 1000, // 1 hour
       batchSize: options.batchSize ?? 10,
-      processIntervalMs: options.processIntervalMs ?? 1000, // 1 second
+      processIntervalMs: options.processIntervalMs ?? 5000, // 5 seconds
     };
   }
 
   /**
-   * Generate unique ID for queued email
+   * Delay before the next attempt, doubling after each failure
    */
-  private generateId(): string {
-    return `email_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  getRetryDelay(attempts: number): number {
+    return Math.min(
+      this.options.retryDelayMs * Math.pow(2, Math.max(attempts - 1, 0)),
+      this.options.maxRetryDelayMs
+    );
   }
 
   /**
    * Add email to the queue
    */
-  enqueue(options: EmailOptions, maxAttempts?: number): string {
-    const id = this.generateId();
-    const email: QueuedEmail = {
-      id,
-      options,
-      attempts: 0,
-      maxAttempts: maxAttempts ?? this.options.maxRetries,
-      status: 'pending',
-      createdAt: new Date(),
-    };
+  async enqueue(options: EmailOptions, queueOptions: QueueEmailOptions = {}): Promise<string> {
+    const supabase = await createServiceClient();
+    const recipient = Array.isArray(options.to) ? options.to.join(', ') : options.to;
+
+    const { data, error } = await supabase
+      .from('email_queue')
+      .insert({
+        idempotency_key: queueOptions.idempotencyKey ?? null,
+        recipient,
+        subject: options.subject,
+        options,
+        max_attempts: queueOptions.maxAttempts ?? this.options.maxAttempts,
+      })
+      .select('id')
+      .single();
+
+    if (error?.code === '23505' && queueOptions.idempotencyKey) {
+      const { data: existing } = await supabase
+        .from('email_queue')
+        .select('id')
+        .eq('idempotency_key', queueOptions.idempotencyKey)
+        .single();
+
+      logger.info('Email already queued', {
+        emailId: existing?.id,
+        idempotencyKey: queueOptions.idempotencyKey,
+      });
+      return existing?.id as string;
+    }
+
+    if (error || !data) {
+      logger.error('Failed to queue email', error, { to: recipient, subject: options.subject });
+      throw new Error('Failed to queue email');
+    }
 
-    this.queue.set(id, email);
-    logger.info('Email queued', { emailId: id, to: options.to });
+    logger.info('Email queued', { emailId: data.id, to: recipient });
 
-    return id;
+    return data.id as string;
   }
 
   /**
-   * Process a single email
+   * Process a single claimed email. Failures are retried with backoff until
+   * the attempts run out, then the email is dead-lettered. Emails to
+   * suppressed addresses are dead-lettered straight away.
    */
-  private async processEmail(email: QueuedEmail): Promise<boolean> {
-    email.status = 'processing';
-    email.attempts++;
-    email.lastAttempt = new Date();
+  private async processEmail(job: EmailJob): Promise<EmailJobStatus> {
+    const supabase = await createServiceClient();
+    const now = new Date();
+
+    const result = await sendEmail(job.options);
+
+    if (result.success) {
+      await supabase
+        .from('email_queue')
+        .update({
+          status: 'sent',
+          message_id: result.id ?? null,
+          last_error: null,
+          locked_at: null,
+          sent_at: now.toISOString(),
+          updated_at: now.toISOString(),
+        })
+        .eq('id', job.id);
 
-    try {
-      const result = await sendEmail(email.options);
-
-      if (result.success) {
-        email.status = 'sent';
-        email.sentAt = new Date();
-        logger.info('Email sent successfully', { emailId: email.id, to: email.options.to });
-        return true;
-      } else {
-        throw new Error(result.error || 'Unknown error');
-      }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      email.error = errorMessage;
-
-      if (email.attempts >= email.maxAttempts) {
-        email.status = 'failed';
-        logger.error('Email permanently failed', new Error(errorMessage), {
-          emailId: email.id,
-          to: email.options.to,
-          attempts: email.attempts,
-        });
-      } else {
-        email.status = 'pending';
-        logger.warn('Email send failed, will retry', {
-          emailId: email.id,
-          to: email.options.to,
-          attempts: email.attempts,
-          maxAttempts: email.maxAttempts,
-          error: errorMessage,
-        });
-      }
-      return false;
+      logger.info('Email sent successfully', { emailId: job.id, to: job.recipient });
+      return 'sent';
+    }
+
+    const errorMessage = result.error || 'Unknown error';
+    const dead = result.suppressed || job.attempts >= job.max_attempts;
+
+    await supabase
+      .from('email_queue')
+      .update({
+        status: dead ? 'dead' : 'pending',
+        last_error: errorMessage,
+        locked_at: null,
+        next_attempt_at: new Date(now.getTime() + this.getRetryDelay(job.attempts)).toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .eq('id', job.id);
+
+    if (dead) {
+      logger.error('Email permanently failed', new Error(errorMessage), {
+        emailId: job.id,
+        to: job.recipient,
+        attempts: job.attempts,
+      });
+    } else {
+      logger.warn('Email send failed, will retry', {
+        emailId: job.id,
+        to: job.recipient,
+        attempts: job.attempts,
+        maxAttempts: job.max_attempts,
+        error: errorMessage,
+      });
     }
+
+    return dead ? 'dead' : 'pending';
   }
 
   /**
-   * Process pending emails in batches
+   * Claim and send the emails that are due
    */
   async processBatch(): Promise<{ processed: number; succeeded: number; failed: number }> {
     if (this.isProcessing) {
@@ -132,30 +204,25 @@ class EmailQueue {
     let failed = 0;
 
     try {
-      const pendingEmails = Array.from(this.queue.values())
-        .filter((email) => {
-          if (email.status !== 'pending') return false;
-
-          // Check retry delay
-          if (email.attempts > 0 && email.lastAttempt) {
-            const timeSinceLastAttempt = Date.now() - email.lastAttempt.getTime();
-            const requiredDelay = this.options.retryDelayMs * Math.pow(2, email.attempts - 1); // Exponential backoff
-            if (timeSinceLastAttempt < requiredDelay) return false;
-          }
-
-          return true;
-        })
-        .slice(0, this.options.batchSize);
+      const supabase = await createServiceClient();
+      const { data, error } = await supabase.rpc('claim_email_jobs', {
+        p_limit: this.options.batchSize,
+      });
+
+      if (error) {
+        logger.error('Failed to claim queued emails', error);
+        return { processed, succeeded, failed };
+      }
 
-      for (const email of pendingEmails) {
+      for (const job of (data || []) as EmailJob[]) {
         processed++;
-        const success = await this.processEmail(email);
-        if (success) {
-          succeeded++;
-          // Remove successfully sent emails from queue
-          this.queue.delete(email.id);
-        } else if (email.status === 'failed') {
-          failed++;
+        try {
+          const status = await this.processEmail(job);
+          if (status === 'sent') succeeded++;
+          else if (status === 'dead') failed++;
+        } catch (err) {
+          // Left in 'processing'; claim_email_jobs picks it up again later
+          logger.error('Email processing error', err, { emailId: job.id });
         }
       }
 
@@ -179,7 +246,7 @@ class EmailQueue {
 
     logger.info('Starting email queue processor');
     this.processingInterval = setInterval(
-      () => this.processBatch(),
+      () => void this.processBatch(),
       this.options.processIntervalMs
     );
   }
@@ -198,91 +265,139 @@ class EmailQueue {
   /**
    * Get queue statistics
    */
-  getStats(): {
-    total: number;
-    pending: number;
-    processing: number;
-    sent: number;
-    failed: number;
-  } {
-    const emails = Array.from(this.queue.values());
-    return {
-      total: emails.length,
-      pending: emails.filter((e) => e.status === 'pending').length,
-      processing: emails.filter((e) => e.status === 'processing').length,
-      sent: emails.filter((e) => e.status === 'sent').length,
-      failed: emails.filter((e) => e.status === 'failed').length,
-    };
+  async getStats(): Promise<EmailQueueStats> {
+    const stats: EmailQueueStats = { total: 0, pending: 0, processing: 0, sent: 0, dead: 0 };
+
+    const supabase = await createServiceClient();
+    const { data, error } = await supabase.rpc('email_queue_stats');
+
+    if (error) {
+      logger.error('Failed to fetch email queue stats', error);
+      return stats;
+    }
+
+    for (const row of (data || []) as { status: EmailJobStatus; count: number }[]) {
+      stats[row.status] = Number(row.count);
+      stats.total += Number(row.count);
+    }
+
+    return stats;
   }
 
   /**
    * Get email status by ID
    */
-  getStatus(id: string): QueuedEmail | undefined {
-    return this.queue.get(id);
-  }
+  async getStatus(id: string): Promise<EmailJob | null> {
+    const supabase = await createServiceClient();
+    const { data } = await supabase.from('email_queue').select('*').eq('id', id).maybeSingle();
 
-  /**
-   * Remove email from queue
-   */
-  remove(id: string): boolean {
-    return this.queue.delete(id);
+    return (data as EmailJob) ?? null;
   }
 
   /**
-   * Clear all emails from queue
+   * Most recent emails, optionally of one status
    */
-  clear(): void {
-    this.queue.clear();
-    logger.info('Email queue cleared');
+  async list(status?: EmailJobStatus, limit = 50): Promise<EmailJob[]> {
+    const supabase = await createServiceClient();
+
+    let query = supabase
+      .from('email_queue')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error('Failed to list queued emails', error);
+      return [];
+    }
+
+    return (data || []) as EmailJob[];
   }
 
   /**
-   * Clear only failed emails
+   * Retry a dead-lettered email with a fresh set of attempts
    */
-  clearFailed(): number {
-    let count = 0;
-    for (const [id, email] of this.queue.entries()) {
-      if (email.status === 'failed') {
-        this.queue.delete(id);
-        count++;
-      }
+  async retry(id: string): Promise<boolean> {
+    const supabase = await createServiceClient();
+
+    const { data, error } = await supabase
+      .from('email_queue')
+      .update({
+        status: 'pending',
+        attempts: 0,
+        last_error: null,
+        next_attempt_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('status', 'dead')
+      .select('id');
+
+    if (error) {
+      logger.error('Failed to retry email', error, { emailId: id });
+      return false;
     }
-    logger.info('Cleared failed emails', { count });
-    return count;
+
+    const retried = (data || []).length > 0;
+    if (retried) {
+      logger.info('Email queued for retry', { emailId: id });
+    }
+    return retried;
   }
 
   /**
-   * Retry a specific failed email
+   * Retry all dead-lettered emails
    */
-  retry(id: string): boolean {
-    const email = this.queue.get(id);
-    if (!email || email.status !== 'failed') {
-      return false;
+  async retryAllDead(): Promise<number> {
+    const supabase = await createServiceClient();
+
+    const { data, error } = await supabase
+      .from('email_queue')
+      .update({
+        status: 'pending',
+        attempts: 0,
+        last_error: null,
+        next_attempt_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('status', 'dead')
+      .select('id');
+
+    if (error) {
+      logger.error('Failed to retry dead emails', error);
+      return 0;
     }
 
-    email.status = 'pending';
-    email.attempts = 0;
-    email.error = undefined;
-    logger.info('Email queued for retry', { emailId: id });
-    return true;
+    const count = (data || []).length;
+    logger.info('All dead emails queued for retry', { count });
+    return count;
   }
 
   /**
-   * Retry all failed emails
+   * Delete sent emails older than the cutoff
    */
-  retryAllFailed(): number {
-    let count = 0;
-    for (const email of this.queue.values()) {
-      if (email.status === 'failed') {
-        email.status = 'pending';
-        email.attempts = 0;
-        email.error = undefined;
-        count++;
-      }
+  async purgeSent(before: Date): Promise<number> {
+    const supabase = await createServiceClient();
+
+    const { data, error } = await supabase
+      .from('email_queue')
+      .delete()
+      .eq('status', 'sent')
+      .lt('sent_at', before.toISOString())
+      .select('id');
+
+    if (error) {
+      logger.error('Failed to purge sent emails', error);
+      return 0;
     }
-    logger.info('All failed emails queued for retry', { count });
-    return count;
+
+    return (data || []).length;
   }
 }
 
@@ -299,15 +414,18 @@ export const emailQueue = new EmailQueue();
 /**
  * Queue an email for sending
  */
-export function queueEmail(options: EmailOptions, maxRetries?: number): string {
-  return emailQueue.enqueue(options, maxRetries);
+export function queueEmail(
+  options: EmailOptions,
+  queueOptions?: QueueEmailOptions
+): Promise<string> {
+  return emailQueue.enqueue(options, queueOptions);
 }
 
 /**
  * Queue multiple emails for batch sending
  */
-export function queueEmails(emailsToSend: EmailOptions[]): string[] {
-  return emailsToSend.map((options) => emailQueue.enqueue(options));
+export function queueEmails(emailsToSend: EmailOptions[]): Promise<string[]> {
+  return Promise.all(emailsToSend.map((options) => emailQueue.enqueue(options)));
 }
 
 /**
@@ -324,10 +442,42 @@ export async function sendEmailNow(options: EmailOptions): Promise<{
 /**
  * Get queue statistics
  */
-export function getQueueStats() {
+export function getQueueStats(): Promise<EmailQueueStats> {
   return emailQueue.getStats();
 }
 
+/**
+ * Recent emails for the admin view
+ */
+export function listEmailJobs(status?: EmailJobStatus, limit?: number): Promise<EmailJob[]> {
+  return emailQueue.list(status, limit);
+}
+
+/**
+ * Retry one dead-lettered email, or all of them without an id. Returns how many were requeued.
+ */
+export async function retryDeadEmails(id?: string): Promise<number> {
+  if (id) {
+    return (await emailQueue.retry(id)) ? 1 : 0;
+  }
+  return emailQueue.retryAllDead();
+}
+
+/**
+ * One pass for the cron route: send what's due and drop old sent emails
+ */
+export async function processEmailQueue(now: Date = new Date()): Promise<{
+  processed: number;
+  succeeded: number;
+  failed: number;
+  purged: number;
+}> {
+  const result = await emailQueue.processBatch();
+  const purged = await emailQueue.purgeSent(new Date(now.getTime() - SENT_RETENTION_MS));
+
+  return { ...result, purged };
+}
+
 /**
  * Start the email queue processor
  */
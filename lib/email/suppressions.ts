@@ -0,0 +1,172 @@
+/**
+ * Email suppression list
+ * Addresses that hard-bounced or complained (migration 022). sendEmail and
+ * sendBulkEmail check the list before every send, so they stop getting mail
+ * until an admin removes them.
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import { ApiError } from '@/lib/api/response';
+import { logger } from '@/lib/logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SuppressionReason = 'bounce' | 'complaint';
+
+export interface EmailSuppression {
+  email: string;
+  reason: SuppressionReason;
+  detail: string | null;
+  provider_email_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SuppressionCounts {
+  total: number;
+  bounce: number;
+  complaint: number;
+}
+
+export interface ListSuppressionsOptions {
+  reason?: SuppressionReason;
+  search?: string;
+  limit?: number;
+}
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/**
+ * Which of `addresses` are suppressed, lowercased. Fails open: if the list
+ * can't be read, nothing is treated as suppressed rather than blocking all email.
+ */
+export async function getSuppressedAddresses(addresses: string[]): Promise<Set<string>> {
+  const emails = [...new Set(addresses.map((address) => address.toLowerCase()))];
+  if (emails.length === 0) return new Set();
+
+  try {
+    const supabase = await createServiceClient();
+    const { data, error } = await supabase
+      .from('email_suppressions')
+      .select('email')
+      .in('email', emails);
+
+    if (error) throw error;
+
+    return new Set((data || []).map((row: { email: string }) => row.email));
+  } catch (err) {
+    logger.error('Failed to check email suppressions', err);
+    return new Set();
+  }
+}
+
+// ============================================================================
+// UPDATES
+// ============================================================================
+
+/**
+ * Add an address to the list. A later event for the same address replaces the
+ * earlier reason, so a complaint after a bounce shows as a complaint.
+ */
+export async function suppressEmail(
+  email: string,
+  reason: SuppressionReason,
+  details: { detail?: string; providerEmailId?: string } = {}
+): Promise<void> {
+  const supabase = await createServiceClient();
+
+  const { error } = await supabase.from('email_suppressions').upsert(
+    {
+      email: email.toLowerCase(),
+      reason,
+      detail: details.detail ?? null,
+      provider_email_id: details.providerEmailId ?? null,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'email' }
+  );
+
+  if (error) {
+    throw new Error(`Failed to suppress email: ${error.message}`);
+  }
+}
+
+/**
+ * Let an address receive email again, e.g. once its mailbox is fixed
+ */
+export async function removeSuppression(email: string): Promise<void> {
+  const supabase = await createServiceClient();
+
+  const { data, error } = await supabase
+    .from('email_suppressions')
+    .delete()
+    .eq('email', email.toLowerCase())
+    .select('email');
+
+  if (error) {
+    logger.error('[removeSuppression] Error', error);
+    throw ApiError.badRequest('Failed to remove suppression');
+  }
+
+  if ((data || []).length === 0) {
+    throw ApiError.notFound('Suppression');
+  }
+}
+
+// ============================================================================
+// ADMIN REPORT
+// ============================================================================
+
+export async function listSuppressions(
+  options: ListSuppressionsOptions = {}
+): Promise<EmailSuppression[]> {
+  const supabase = await createServiceClient();
+
+  let query = supabase
+    .from('email_suppressions')
+    .select('*')
+    .order('updated_at', { ascending: false })
+    .limit(options.limit ?? 50);
+
+  if (options.reason) {
+    query = query.eq('reason', options.reason);
+  }
+
+  if (options.search) {
+    query = query.ilike('email', `%${options.search.toLowerCase()}%`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to list email suppressions', error);
+    return [];
+  }
+
+  return (data || []) as EmailSuppression[];
+}
+
+export async function getSuppressionCounts(): Promise<SuppressionCounts> {
+  const supabase = await createServiceClient();
+
+  const count = async (reason: SuppressionReason) => {
+    const { count: total, error } = await supabase
+      .from('email_suppressions')
+      .select('email', { count: 'exact', head: true })
+      .eq('reason', reason);
+
+    if (error) {
+      logger.error('Failed to count email suppressions', error);
+    }
+
+    return total ?? 0;
+  };
+
+  const [bounce, complaint] = await Promise.all([count('bounce'), count('complaint')]);
+
+  return { total: bounce + complaint, bounce, complaint };
+}
@@ -3,13 +3,19 @@
 // HTML email templates for various notifications
 // ============================================================================
 
+import type { DigestPost, WeeklyDigest } from '@/lib/digest';
+
 const SITE_NAME = 'Scroungers Multimedia';
 const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://scroungers.co';
 const PRIMARY_COLOR = '#E53935';
 const ACCENT_COLOR = '#FFB300';
 
 // Base email layout
-function baseTemplate(content: string, previewText: string = ''): string {
+function baseTemplate(
+  content: string,
+  previewText: string = '',
+  unsubscribeUrl: string = `${SITE_URL}/unsubscribe`
+): string {
   return `
 <!DOCTYPE html>
 <html lang="en">
@@ -59,7 +65,7 @@ function baseTemplate(content: string, previewText: string = ''): string {
               <p style="margin: 0;">
                 <a href="${SITE_URL}" style="color: ${PRIMARY_COLOR}; text-decoration: none;">Visit Website</a>
                 &nbsp;&bull;&nbsp;
-                <a href="${SITE_URL}/unsubscribe" style="color: #666666; text-decoration: none;">Unsubscribe</a>
+                <a href="${unsubscribeUrl}" style="color: #666666; text-decoration: none;">Unsubscribe</a>
               </p>
             </td>
           </tr>
@@ -72,6 +78,15 @@ function baseTemplate(content: string, previewText: string = ''): string {
   `.trim();
 }
 
+// Escape user-written text (titles, comments) for HTML
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 // Button component
 function button(text: string, href: string): string {
   return `
@@ -256,16 +271,16 @@ export function newCommentEmail(
 // ============================================================================
 // NEWSLETTER WELCOME EMAIL
 // ============================================================================
-export function newsletterWelcomeEmail(_email: string): { html: string; subject: string } {
+export function newsletterWelcomeEmail(
+  _email: string,
+  confirmUrl: string
+): { html: string; subject: string } {
   const content = `
     <h1 style="margin: 0 0 20px; color: #ffffff; font-size: 24px; font-weight: 600;">
-      You're Subscribed! 📬
+      Confirm Your Subscription 📬
     </h1>
     <p style="margin: 0 0 20px; color: #cccccc; font-size: 16px; line-height: 1.6;">
-      Thanks for subscribing to the Scroungers newsletter!
-    </p>
-    <p style="margin: 0 0 20px; color: #cccccc; font-size: 16px; line-height: 1.6;">
-      You'll now receive:
+      Thanks for signing up to the Scroungers newsletter! Confirm your email address and you'll receive:
     </p>
     <ul style="margin: 0 0 20px; padding-left: 20px; color: #cccccc; font-size: 16px; line-height: 1.8;">
       <li>Weekly roundups of the best content</li>
@@ -273,17 +288,17 @@ export function newsletterWelcomeEmail(_email: string): { html: string; subject:
       <li>Early access to new features</li>
       <li>Community highlights and announcements</li>
     </ul>
-    <p style="margin: 0 0 30px; color: #cccccc; font-size: 16px; line-height: 1.6;">
-      We're glad to have you along for the ride!
+    <p style="margin: 0 0 30px; text-align: center;">
+      ${button('Confirm Subscription', confirmUrl)}
     </p>
-    <p style="margin: 0; text-align: center;">
-      ${button('Explore Content', `${SITE_URL}/articles`)}
+    <p style="margin: 0; color: #888888; font-size: 14px; line-height: 1.6;">
+      This link expires in 7 days. If you didn't sign up, ignore this email and you won't be subscribed.
     </p>
   `;
 
   return {
-    html: baseTemplate(content, "You're subscribed to the Scroungers newsletter!"),
-    subject: "You're subscribed! 📬",
+    html: baseTemplate(content, 'Confirm your subscription to the Scroungers newsletter'),
+    subject: 'Confirm your newsletter subscription 📬',
   };
 }
 
@@ -457,6 +472,53 @@ export function roleChangedEmail(
   };
 }
 
+// ============================================================================
+// ACCOUNT SUSPENDED EMAIL
+// ============================================================================
+export function accountSuspendedEmail(
+  name: string,
+  reason: string,
+  suspendedUntil: string | null
+): { html: string; subject: string } {
+  const endDate = suspendedUntil
+    ? new Date(suspendedUntil).toLocaleString('en-GB', {
+        dateStyle: 'long',
+        timeStyle: 'short',
+        timeZone: 'UTC',
+      }) + ' UTC'
+    : null;
+
+  const content = `
+    <h1 style="margin: 0 0 20px; color: #ffffff; font-size: 24px; font-weight: 600;">
+      ${endDate ? 'Your Account Has Been Suspended' : 'Your Account Has Been Banned'}
+    </h1>
+    <p style="margin: 0 0 20px; color: #cccccc; font-size: 16px; line-height: 1.6;">
+      Hey ${escapeHtml(name)},
+    </p>
+    <p style="margin: 0 0 20px; color: #cccccc; font-size: 16px; line-height: 1.6;">
+      ${
+        endDate
+          ? `Your ${SITE_NAME} account has been suspended until <strong style="color: #ffffff;">${endDate}</strong>. Until then you can still sign in and read, but you can't post, comment or react.`
+          : `Your ${SITE_NAME} account has been permanently banned. You can no longer post, comment or react.`
+      }
+    </p>
+    <div style="margin: 0 0 20px; padding: 15px; background-color: #252525; border-radius: 8px; border-left: 3px solid ${ACCENT_COLOR};">
+      <p style="margin: 0; color: #cccccc; font-size: 14px;">
+        <strong style="color: #ffffff;">Reason:</strong> ${escapeHtml(reason)}
+      </p>
+    </div>
+    <p style="margin: 0; color: #cccccc; font-size: 16px; line-height: 1.6;">
+      ${endDate ? 'Your account will be reinstated automatically when the suspension ends.' : ''}
+      If you think this is a mistake, reply to this email to contact the moderation team.
+    </p>
+  `;
+
+  return {
+    html: baseTemplate(content, endDate ? `Your account is suspended until ${endDate}` : 'Your account has been banned'),
+    subject: endDate ? 'Your account has been suspended' : 'Your account has been banned',
+  };
+}
+
 // ============================================================================
 // APPLICATION RECEIVED EMAIL
 // ============================================================================
@@ -535,8 +597,158 @@ export function contactAdminNotificationEmail(
   };
 }
 
+// ============================================================================
+// WEEKLY DIGEST EMAIL
+// ============================================================================
+function sectionHeading(text: string): string {
+  return `
+    <h2 style="margin: 30px 0 15px; color: ${ACCENT_COLOR}; font-size: 14px; text-transform: uppercase; letter-spacing: 2px;">
+      ${text}
+    </h2>
+  `;
+}
 
+function postList(posts: DigestPost[]): string {
+  return posts
+    .map(
+      (post) => `
+    <div style="margin: 0 0 15px; padding: 15px; background-color: #252525; border-radius: 8px;">
+      <a href="${SITE_URL}/articles/${post.slug}" style="color: #ffffff; font-size: 16px; font-weight: 600; text-decoration: none;">
+        ${escapeHtml(post.title)}
+      </a>
+      <p style="margin: 5px 0 0; color: #888888; font-size: 12px;">
+        ${[post.category_name, post.author_name && `by ${post.author_name}`]
+          .filter(Boolean)
+          .map((part) => escapeHtml(part as string))
+          .join(' &bull; ')}
+      </p>
+      ${post.excerpt ? `<p style="margin: 8px 0 0; color: #cccccc; font-size: 14px; line-height: 1.5;">${escapeHtml(post.excerpt)}</p>` : ''}
+    </div>
+  `
+    )
+    .join('');
+}
 
+export function weeklyDigestEmail(
+  name: string,
+  digest: WeeklyDigest,
+  unsubscribeUrl: string
+): { html: string; subject: string } {
+  const { recommended, trending, replies, stats } = digest;
+  let sections = '';
+
+  if (recommended.length > 0) {
+    sections += sectionHeading('New in topics you read') + postList(recommended);
+  }
+
+  if (trending.length > 0) {
+    sections += sectionHeading('Trending on Scroungers') + postList(trending);
+  }
+
+  if (replies.length > 0) {
+    sections +=
+      sectionHeading('Replies to your comments') +
+      replies
+        .map(
+          (reply) => `
+    <div style="margin: 0 0 15px; padding: 15px; background-color: #252525; border-radius: 8px; border-left: 3px solid ${ACCENT_COLOR};">
+      <p style="margin: 0 0 8px; color: #cccccc; font-size: 14px;">
+        <strong style="color: #ffffff;">${escapeHtml(reply.replier_name || 'Someone')}</strong> on
+        <a href="${SITE_URL}/articles/${reply.post_slug}#comments" style="color: ${PRIMARY_COLOR}; text-decoration: none;">${escapeHtml(reply.post_title)}</a>
+      </p>
+      <p style="margin: 0; color: #cccccc; font-size: 14px; font-style: italic;">
+        "${escapeHtml(reply.content.slice(0, 200))}"
+      </p>
+    </div>
+  `
+        )
+        .join('');
+  }
+
+  if (stats) {
+    sections += `
+    ${sectionHeading('Your week as a contributor')}
+    <table role="presentation" style="width: 100%; border-collapse: collapse; margin: 0 0 15px;">
+      <tr>
+        <td align="center" style="padding: 15px; background-color: #252525; border-radius: 8px;">
+          <span style="display: block; color: #ffffff; font-size: 24px; font-weight: 600;">${stats.weekViews.toLocaleString('en-GB')}</span>
+          <span style="color: #888888; font-size: 12px;">views this week</span>
+        </td>
+        <td style="width: 10px;"></td>
+        <td align="center" style="padding: 15px; background-color: #252525; border-radius: 8px;">
+          <span style="display: block; color: #ffffff; font-size: 24px; font-weight: 600;">${stats.weekReactions.toLocaleString('en-GB')}</span>
+          <span style="color: #888888; font-size: 12px;">reactions this week</span>
+        </td>
+      </tr>
+    </table>
+    <p style="margin: 0 0 15px; color: #888888; font-size: 13px;">
+      All time: ${stats.totalViews.toLocaleString('en-GB')} views and ${stats.totalReactions.toLocaleString('en-GB')} reactions across ${stats.publishedPosts} published ${stats.publishedPosts === 1 ? 'post' : 'posts'}.
+    </p>
+    <p style="margin: 0; text-align: center;">
+      ${button('View Your Dashboard', `${SITE_URL}/dashboard`)}
+    </p>
+  `;
+  }
 
+  const content = `
+    <h1 style="margin: 0 0 20px; color: #ffffff; font-size: 24px; font-weight: 600;">
+      Your Week on Scroungers 📬
+    </h1>
+    <p style="margin: 0; color: #cccccc; font-size: 16px; line-height: 1.6;">
+      Hey ${name}, here's what you might have missed this week.
+    </p>
+    ${sections}
+    <p style="margin: 30px 0 0; color: #666666; font-size: 12px; line-height: 1.6;">
+      You're getting this because the weekly digest is on in your
+      <a href="${SITE_URL}/dashboard/profile" style="color: #888888;">notification settings</a>.
+      <a href="${unsubscribeUrl}" style="color: #888888;">Unsubscribe from the weekly digest</a>.
+    </p>
+  `;
 
+  return {
+    html: baseTemplate(content, "Here's what you might have missed this week", unsubscribeUrl),
+    subject: 'Your week on Scroungers 📬',
+  };
+}
+
+// ============================================================================
+// NEWSLETTER CAMPAIGN EMAIL
+// ============================================================================
+export function newsletterCampaignEmail(
+  campaign: { subject: string; intro: string },
+  posts: DigestPost[],
+  unsubscribeUrl: string
+): { html: string; subject: string } {
+  const intro = campaign.intro
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map(
+      (paragraph) => `
+    <p style="margin: 0 0 20px; color: #cccccc; font-size: 16px; line-height: 1.6;">
+      ${escapeHtml(paragraph).replace(/\n/g, '<br/>')}
+    </p>
+  `
+    )
+    .join('');
 
+  const content = `
+    <h1 style="margin: 0 0 20px; color: #ffffff; font-size: 24px; font-weight: 600;">
+      ${escapeHtml(campaign.subject)}
+    </h1>
+    ${intro}
+    ${posts.length > 0 ? sectionHeading('Worth a read') + postList(posts) : ''}
+    <p style="margin: 30px 0 0; text-align: center;">
+      ${button('Explore Content', `${SITE_URL}/articles`)}
+    </p>
+    <p style="margin: 30px 0 0; color: #666666; font-size: 12px; line-height: 1.6;">
+      You're getting this because you subscribed to the Scroungers newsletter.
+      <a href="${unsubscribeUrl}" style="color: #888888;">Unsubscribe</a>.
+    </p>
+  `;
+
+  return {
+    html: baseTemplate(content, campaign.subject, unsubscribeUrl),
+    subject: campaign.subject,
+  };
+}
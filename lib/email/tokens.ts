@@ -0,0 +1,135 @@
+/**
+ * Signed email links
+ * HMAC tokens for links that act without signing in: one-click unsubscribe
+ * (per user and email category, or per newsletter subscriber) and newsletter
+ * confirmation
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { EmailCategory } from '@/lib/notifications';
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://scroungers.co';
+
+// Confirmation links go stale; unsubscribe links never do, so old emails keep working
+const CONFIRM_TOKEN_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type UnsubscribeToken =
+  | { type: 'user'; userId: string; category: EmailCategory }
+  | { type: 'newsletter'; subscriberId: string };
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+function getSecret(): string {
+  const secret = process.env.EMAIL_TOKEN_SECRET;
+
+  if (!secret) {
+    throw new Error('EMAIL_TOKEN_SECRET is not configured');
+  }
+
+  return secret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSecret()).update(payload).digest('base64url');
+}
+
+function createToken(...parts: string[]): string {
+  const payload = Buffer.from(parts.join(':')).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Check a token's signature and split its payload. Null for anything tampered with.
+ */
+function readToken(token: string): string[] | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const provided = Buffer.from(signature);
+  const expected = Buffer.from(sign(payload));
+
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return null;
+  }
+
+  return Buffer.from(payload, 'base64url').toString().split(':');
+}
+
+// ============================================================================
+// UNSUBSCRIBE
+// ============================================================================
+
+/**
+ * Token for `userId` to stop receiving `category` emails
+ */
+export function createUnsubscribeToken(userId: string, category: EmailCategory): string {
+  return createToken('user', userId, category);
+}
+
+/**
+ * Token for a newsletter subscriber to unsubscribe
+ */
+export function createNewsletterUnsubscribeToken(subscriberId: string): string {
+  return createToken('newsletter', subscriberId);
+}
+
+export function verifyUnsubscribeToken(token: string): UnsubscribeToken | null {
+  const parts = readToken(token);
+
+  if (parts?.[0] === 'user' && parts[1] && parts[2]) {
+    return { type: 'user', userId: parts[1], category: parts[2] as EmailCategory };
+  }
+
+  if (parts?.[0] === 'newsletter' && parts[1]) {
+    return { type: 'newsletter', subscriberId: parts[1] };
+  }
+
+  return null;
+}
+
+/**
+ * Link to the unsubscribe page, for email bodies and footers
+ */
+export function getUnsubscribeUrl(token: string): string {
+  return `${SITE_URL}/unsubscribe?token=${token}`;
+}
+
+/**
+ * RFC 8058 headers so mail clients can show their own one-click unsubscribe.
+ * The client POSTs straight to the API, without opening the page.
+ */
+export function listUnsubscribeHeaders(token: string): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${SITE_URL}/api/unsubscribe?token=${token}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+}
+
+// ============================================================================
+// NEWSLETTER CONFIRMATION
+// ============================================================================
+
+export function createNewsletterConfirmToken(subscriberId: string, now: Date = new Date()): string {
+  return createToken('confirm', subscriberId, String(now.getTime()));
+}
+
+/**
+ * The subscriber a confirmation token is for, or null if it is invalid or older than a week
+ */
+export function verifyNewsletterConfirmToken(token: string, now: Date = new Date()): string | null {
+  const parts = readToken(token);
+  if (parts?.[0] !== 'confirm' || !parts[1]) return null;
+
+  const issuedAt = Number(parts[2]);
+  if (!Number.isFinite(issuedAt) || now.getTime() - issuedAt > CONFIRM_TOKEN_MAX_AGE_MS) {
+    return null;
+  }
+
+  return parts[1];
+}
+
+export function getNewsletterConfirmUrl(token: string): string {
+  return `${SITE_URL}/newsletter/confirm?token=${token}`;
+}
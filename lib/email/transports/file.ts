@@ -0,0 +1,40 @@
+/**
+ * File transport
+ * Writes each email to a .eml file instead of sending it, so rendered emails
+ * can be opened in a mail client during development
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { buildMimeMessage } from '../mime';
+import type { EmailTransport, OutgoingEmail } from './index';
+import type { EmailResult } from '../client';
+
+export function createFileTransport(directory: string): EmailTransport {
+  return {
+    name: 'file',
+
+    isConfigured: () => true,
+
+    async send(email: OutgoingEmail): Promise<EmailResult> {
+      const now = new Date();
+      const message = buildMimeMessage(email.from, email, now);
+
+      const slug = email.subject
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '')
+        .slice(0, 50);
+      const id = message.messageId.slice(1, 9);
+      const file = path.resolve(
+        directory,
+        `${now.toISOString().replace(/[:.]/g, '-')}-${slug || 'email'}-${id}.eml`
+      );
+
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, message.raw, 'utf8');
+
+      return { success: true, id: file };
+    },
+  };
+}
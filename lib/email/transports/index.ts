@@ -0,0 +1,48 @@
+/**
+ * Email transports
+ * How sendEmail delivers mail, picked by EMAIL_TRANSPORT (see lib/config):
+ * - resend: the Resend API (default when RESEND_API_KEY is set)
+ * - smtp: any SMTP server, for self-hosting
+ * - file: writes .eml files to EMAIL_FILE_DIR instead of sending
+ */
+
+import { config, type EmailTransportName } from '@/lib/config';
+import type { EmailOptions, EmailResult } from '../client';
+import { createResendTransport } from './resend';
+import { createSmtpTransport } from './smtp';
+import { createFileTransport } from './file';
+
+export type { EmailTransportName };
+
+export interface OutgoingEmail extends EmailOptions {
+  from: string;
+}
+
+export interface EmailTransport {
+  name: EmailTransportName;
+  /** False when required settings are missing; sendEmail skips the send */
+  isConfigured(): boolean;
+  /** Throws on failure */
+  send(email: OutgoingEmail): Promise<EmailResult>;
+}
+
+let transport: EmailTransport | null = null;
+
+export function createEmailTransport(name: EmailTransportName): EmailTransport {
+  switch (name) {
+    case 'smtp':
+      return createSmtpTransport(config.smtp);
+    case 'file':
+      return createFileTransport(config.emailFileDir);
+    case 'resend':
+      return createResendTransport(config.resendApiKey);
+  }
+}
+
+/**
+ * The configured transport, created on first use
+ */
+export function getEmailTransport(): EmailTransport {
+  transport ??= createEmailTransport(config.emailTransport);
+  return transport;
+}
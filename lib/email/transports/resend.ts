@@ -0,0 +1,45 @@
+/**
+ * Resend transport
+ * Sends through the Resend HTTP API
+ */
+
+import type { EmailTransport, OutgoingEmail } from './index';
+import type { EmailResult } from '../client';
+
+const RESEND_API_URL = 'https://api.resend.com/emails';
+
+export function createResendTransport(apiKey: string | undefined): EmailTransport {
+  return {
+    name: 'resend',
+
+    isConfigured: () => !!apiKey,
+
+    async send(email: OutgoingEmail): Promise<EmailResult> {
+      const response = await fetch(RESEND_API_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          from: email.from,
+          to: Array.isArray(email.to) ? email.to : [email.to],
+          subject: email.subject,
+          html: email.html,
+          text: email.text,
+          reply_to: email.replyTo,
+          tags: email.tags,
+          headers: email.headers,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to send email');
+      }
+
+      const result = await response.json();
+      return { success: true, id: result.id };
+    },
+  };
+}
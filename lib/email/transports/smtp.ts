@@ -0,0 +1,242 @@
+/**
+ * SMTP transport
+ * A small SMTP client for self-hosted mail servers: implicit TLS or STARTTLS
+ * (required unless turned off), AUTH PLAIN/LOGIN, one connection per email
+ */
+
+import net from 'net';
+import tls from 'tls';
+import { hostname } from 'os';
+import { buildMimeMessage } from '../mime';
+import type { EmailTransport, OutgoingEmail } from './index';
+import type { EmailResult } from '../client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SmtpSettings {
+  host?: string;
+  port: number;
+  /** Implicit TLS (usually port 465). Otherwise STARTTLS is used when offered. */
+  secure: boolean;
+  /**
+   * Refuse to send, and so to authenticate, over a connection that is not
+   * encrypted. Defaults to true; turn off only for a trusted local relay.
+   */
+  requireTls?: boolean;
+  user?: string;
+  password?: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const TIMEOUT_MS = 30 * 1000;
+
+// ============================================================================
+// CONNECTION
+// ============================================================================
+
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = '';
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+  private failure: Error | null = null;
+
+  private constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.listen();
+  }
+
+  static open(settings: SmtpSettings): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const options = { host: settings.host, port: settings.port, servername: settings.host };
+      const socket = settings.secure
+        ? tls.connect(options, () => resolve(new SmtpConnection(socket)))
+        : net.connect(options, () => resolve(new SmtpConnection(socket)));
+
+      socket.once('error', reject);
+      socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+    });
+  }
+
+  private listen(): void {
+    this.socket.removeAllListeners('error');
+    this.socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')));
+    this.socket.on('error', (error: Error) => this.fail(error));
+    this.socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+    this.socket.setTimeout(TIMEOUT_MS, () =>
+      this.socket.destroy(new Error('SMTP connection timed out'))
+    );
+  }
+
+  private receive(data: string): void {
+    this.buffer += data;
+    let lines: string[] = [];
+
+    while (this.buffer.includes('\r\n')) {
+      const index = this.buffer.indexOf('\r\n');
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      lines.push(line);
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line[3] !== '-') {
+        const reply = { code: Number(line.slice(0, 3)), lines: lines.map((l) => l.slice(4)) };
+        lines = [];
+        const waiter = this.waiting.shift();
+        if (waiter) waiter.resolve(reply);
+        else this.replies.push(reply);
+      }
+    }
+
+    // Keep a partial multi-line reply for the next chunk
+    if (lines.length > 0) {
+      this.buffer = lines.map((l) => `${l}\r\n`).join('') + this.buffer;
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    for (const waiter of this.waiting.splice(0)) waiter.reject(error);
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  /**
+   * Send a command and check the reply code. `label` names the command in
+   * errors, so credentials never end up in logs.
+   */
+  async command(line: string | null, expected: number[], label?: string): Promise<SmtpReply> {
+    // A line break in an address would start a second command
+    if (line !== null && /[\r\n]/.test(line)) {
+      throw new Error(`SMTP ${label ?? line.split(' ')[0]} refused: line break in command`);
+    }
+    if (line !== null) this.socket.write(`${line}\r\n`);
+
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      const name = label ?? line?.split(' ')[0] ?? 'greeting';
+      throw new Error(`SMTP ${name} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Switch the connection to TLS after STARTTLS
+   */
+  upgrade(host: string | undefined): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.socket.removeAllListeners('data');
+      this.socket.removeAllListeners('close');
+      const secured = tls.connect({ socket: this.socket, servername: host }, () => {
+        this.socket = secured;
+        this.listen();
+        resolve();
+      });
+      secured.once('error', reject);
+    });
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
+
+// ============================================================================
+// TRANSPORT
+// ============================================================================
+
+async function ehlo(connection: SmtpConnection): Promise<string[]> {
+  const reply = await connection.command(`EHLO ${hostname() || 'localhost'}`, [250]);
+  return reply.lines.map((line) => line.toUpperCase());
+}
+
+/**
+ * Escape lines starting with "." so they don't end the DATA section early
+ */
+function dotStuff(raw: string): string {
+  return raw.replace(/^\./gm, '..');
+}
+
+export function createSmtpTransport(settings: SmtpSettings): EmailTransport {
+  return {
+    name: 'smtp',
+
+    isConfigured: () => !!settings.host,
+
+    async send(email: OutgoingEmail): Promise<EmailResult> {
+      const message = buildMimeMessage(email.from, email);
+      const connection = await SmtpConnection.open(settings);
+
+      try {
+        await connection.command(null, [220]);
+        let extensions = await ehlo(connection);
+
+        let encrypted = settings.secure;
+
+        if (!encrypted && extensions.includes('STARTTLS')) {
+          await connection.command('STARTTLS', [220]);
+          await connection.upgrade(settings.host);
+          extensions = await ehlo(connection);
+          encrypted = true;
+        }
+
+        // Without this, an attacker who strips STARTTLS from the EHLO reply
+        // would see the password and the message
+        if (!encrypted && settings.requireTls !== false) {
+          throw new Error('SMTP server does not offer STARTTLS; refusing to send without TLS');
+        }
+
+        if (settings.user) {
+          const auth = extensions.find((line) => line.startsWith('AUTH')) ?? '';
+
+          if (auth.includes('PLAIN') || !auth.includes('LOGIN')) {
+            const credentials = Buffer.from(
+              `\0${settings.user}\0${settings.password ?? ''}`
+            ).toString('base64');
+            await connection.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+          } else {
+            await connection.command('AUTH LOGIN', [334]);
+            await connection.command(Buffer.from(settings.user).toString('base64'), [334], 'AUTH');
+            await connection.command(
+              Buffer.from(settings.password ?? '').toString('base64'),
+              [235],
+              'AUTH'
+            );
+          }
+        }
+
+        await connection.command(`MAIL FROM:<${message.from}>`, [250]);
+        for (const recipient of message.recipients) {
+          await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+        }
+
+        await connection.command('DATA', [354]);
+        // The message already ends with CRLF
+        connection.write(`${dotStuff(message.raw)}.\r\n`);
+        await connection.command(null, [250], 'DATA');
+
+        await connection.command('QUIT', [221]).catch(() => undefined);
+
+        return { success: true, id: message.messageId };
+      } finally {
+        connection.close();
+      }
+    },
+  };
+}
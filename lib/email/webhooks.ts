@@ -0,0 +1,136 @@
+/**
+ * Email provider webhooks
+ * Bounce and complaint events from the provider, signed the way Resend signs
+ * them (Svix: HMAC-SHA256 over "<id>.<timestamp>.<body>" with
+ * EMAIL_WEBHOOK_SECRET). Hard bounces and complaints put the address on the
+ * suppression list and stop its newsletter.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { z } from 'zod';
+import { ApiError } from '@/lib/api/response';
+import type { emailWebhookEventSchema } from '@/lib/api/validation';
+import { logger } from '@/lib/logger';
+import { stopNewsletterForAddress } from '@/lib/newsletter';
+import { extractAddress } from './mime';
+import { suppressEmail, type SuppressionReason } from './suppressions';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type EmailWebhookEvent = z.infer<typeof emailWebhookEventSchema>;
+
+export interface EmailWebhookResult {
+  /** Null when the event needs no action (soft bounces, deliveries, opens...) */
+  reason: SuppressionReason | null;
+  suppressed: string[];
+}
+
+// Rejects replayed requests
+const TIMESTAMP_TOLERANCE_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// SIGNATURES
+// ============================================================================
+
+function getSecret(): Buffer {
+  const secret = process.env.EMAIL_WEBHOOK_SECRET;
+
+  if (!secret) {
+    throw ApiError.forbidden('Email webhooks are not configured');
+  }
+
+  return Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+}
+
+/**
+ * Check the webhook signature headers against the raw request body. Accepts
+ * both the svix-* and the standard webhook-* header names.
+ */
+export function verifyWebhookSignature(
+  body: string,
+  headers: Headers,
+  now: Date = new Date()
+): void {
+  const secret = getSecret();
+  const id = headers.get('svix-id') ?? headers.get('webhook-id');
+  const timestamp = headers.get('svix-timestamp') ?? headers.get('webhook-timestamp');
+  const signatures = headers.get('svix-signature') ?? headers.get('webhook-signature');
+
+  if (!id || !timestamp || !signatures) {
+    throw ApiError.unauthorized('Missing webhook signature');
+  }
+
+  const sentAt = Number(timestamp) * 1000;
+  if (!Number.isFinite(sentAt) || Math.abs(now.getTime() - sentAt) > TIMESTAMP_TOLERANCE_MS) {
+    throw ApiError.unauthorized('Webhook timestamp is too old');
+  }
+
+  const expected = Buffer.from(
+    createHmac('sha256', secret).update(`${id}.${timestamp}.${body}`).digest('base64')
+  );
+
+  // "v1,<sig> v1,<sig>" - several while the secret is being rotated
+  const valid = signatures.split(' ').some((entry) => {
+    const [version, signature] = entry.split(',');
+    if (version !== 'v1' || !signature) return false;
+
+    const provided = Buffer.from(signature);
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+  });
+
+  if (!valid) {
+    throw ApiError.unauthorized('Invalid webhook signature');
+  }
+}
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+function suppressionReason(event: EmailWebhookEvent): SuppressionReason | null {
+  if (event.type === 'email.complained') return 'complaint';
+
+  // Transient bounces (full mailbox, greylisting) may succeed next time
+  if (event.type === 'email.bounced' && event.data.bounce?.type !== 'Transient') {
+    return 'bounce';
+  }
+
+  return null;
+}
+
+/**
+ * Act on a verified event: suppress hard-bounced and complaining addresses and
+ * take them off the newsletter
+ */
+export async function handleEmailWebhookEvent(
+  event: EmailWebhookEvent
+): Promise<EmailWebhookResult> {
+  const reason = suppressionReason(event);
+  if (!reason) {
+    return { reason: null, suppressed: [] };
+  }
+
+  const detail =
+    reason === 'bounce'
+      ? [event.data.bounce?.subType, event.data.bounce?.message].filter(Boolean).join(': ')
+      : 'Marked as spam';
+
+  const suppressed: string[] = [];
+
+  for (const recipient of event.data.to) {
+    const email = extractAddress(recipient).toLowerCase();
+
+    await suppressEmail(email, reason, {
+      detail: detail || undefined,
+      providerEmailId: event.data.email_id,
+    });
+    const unsubscribed = await stopNewsletterForAddress(email, reason);
+
+    logger.info('Email address suppressed', { email, reason, newsletter: unsubscribed });
+    suppressed.push(email);
+  }
+
+  return { reason, suppressed };
+}
@@ -38,3 +38,6 @@ export {
   useScaleParallax, 
   useOpacityParallax 
 } from './useParallax';
+
+// Mentions
+export { useMentionSuggestions } from './useMentionSuggestions';
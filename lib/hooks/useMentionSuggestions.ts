@@ -0,0 +1,41 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { MentionSuggestion } from '@/lib/db/search';
+
+// Wait for a pause in typing before asking for suggestions
+const SUGGEST_DEBOUNCE_MS = 150;
+
+/**
+ * Username suggestions for the @mention being typed. Pass null when no
+ * mention is active.
+ */
+export function useMentionSuggestions(query: string | null): MentionSuggestion[] {
+  const [users, setUsers] = useState<MentionSuggestion[]>([]);
+
+  // Debounce keystrokes and abort stale requests so a slow response can't
+  // overwrite suggestions for what has been typed since
+  useEffect(() => {
+    if (query === null) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch(`/api/users/mentions?q=${encodeURIComponent(query)}`, { signal: controller.signal })
+        .then((response) => (response.ok ? response.json() : null))
+        .then((body) => {
+          if (body) setUsers(body.data.users);
+        })
+        .catch(() => {
+          // Aborted or offline - keep the previous suggestions
+        });
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  // Suggestions for a finished mention are stale, so hide rather than refetch
+  return query === null ? [] : users;
+}
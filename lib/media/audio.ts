@@ -0,0 +1,323 @@
+/**
+ * Audio processing
+ * Runs after an audio upload is confirmed. ffmpeg normalises the loudness
+ * (two-pass EBU R128, so episodes play at the same volume), transcodes to
+ * AAC every browser can play, and the decoded result is reduced to a peaks
+ * file for the player's waveform. The duration is recorded on the media row
+ * and on posts using the audio.
+ */
+
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createServiceClient } from '@/lib/supabase/server';
+import { downloadFileToPath, uploadFile } from '@/lib/r2/client';
+import type { Media } from '@/types/database';
+import { AUDIO_FORMATS, ffmpeg, ffprobe, inputArgs, isFfmpegAvailable } from './ffmpeg';
+import type { AudioPeaks } from './playback';
+import { processPendingMedia, updatePostsUsingMedia, type ProcessingResult } from './processing';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Integrated loudness (LUFS), true peak (dBTP) and loudness range targets;
+// -16 LUFS is the usual level for spoken word on the web
+const LOUDNESS = { I: -16, TP: -1.5, LRA: 11 };
+
+// kbps per channel; speech and music both hold up well at this rate
+const BITRATE_PER_CHANNEL = 64;
+
+// loudnorm resamples to 192kHz internally, so the output rate is set
+const SAMPLE_RATE = 44100;
+
+/** Peaks in the waveform file, whatever the length of the audio */
+export const PEAK_COUNT = 1000;
+
+// Mono rate the audio is decoded at to find peaks; plenty for a waveform
+const PEAK_SAMPLE_RATE = 8000;
+
+// A claimed upload is only picked up again after this long
+const CLAIM_TIMEOUT_MINUTES = 60;
+
+// ffmpeg is killed after this long, leaving the rest of the claim for
+// uploading, so a stuck job never overlaps the next attempt
+const TRANSCODE_TIMEOUT_MINUTES = 50;
+
+// Output keys never change content, so browsers and the CDN can keep them
+const VARIANT_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** The parts of `ffprobe -of json` output read here */
+export interface AudioProbeOutput {
+  format?: { duration?: string };
+  streams?: { codec_type?: string; channels?: number }[];
+}
+
+export interface AudioProbe {
+  /** Seconds */
+  duration: number;
+  channels: number;
+}
+
+/** First-pass measurements printed by ffmpeg's loudnorm filter */
+export interface LoudnessMeasurement {
+  input_i: string;
+  input_tp: string;
+  input_lra: string;
+  input_thresh: string;
+  target_offset: string;
+}
+
+// ============================================================================
+// PROBING
+// ============================================================================
+
+/**
+ * Read the first audio stream from ffprobe's output
+ */
+export function parseAudioProbe(probe: AudioProbeOutput): AudioProbe {
+  const audio = probe.streams?.find((s) => s.codec_type === 'audio');
+
+  if (!audio) {
+    throw new Error('No audio stream found');
+  }
+
+  return {
+    duration: Number(probe.format?.duration) || 0,
+    channels: audio.channels || 2,
+  };
+}
+
+/**
+ * Find loudnorm's JSON report at the end of ffmpeg's stderr
+ */
+export function parseLoudness(stderr: string): LoudnessMeasurement {
+  const start = stderr.lastIndexOf('{');
+  const end = stderr.lastIndexOf('}');
+
+  if (start === -1 || end < start) {
+    throw new Error('Loudness measurement not found in ffmpeg output');
+  }
+
+  return JSON.parse(stderr.slice(start, end + 1)) as LoudnessMeasurement;
+}
+
+/**
+ * loudnorm filter for the first (measuring) pass, or the second pass when
+ * given the first pass's measurements
+ */
+export function loudnormFilter(measured?: LoudnessMeasurement): string {
+  const target = `loudnorm=I=${LOUDNESS.I}:TP=${LOUDNESS.TP}:LRA=${LOUDNESS.LRA}`;
+
+  if (!measured) {
+    return `${target}:print_format=json`;
+  }
+
+  return [
+    target,
+    `measured_I=${measured.input_i}`,
+    `measured_TP=${measured.input_tp}`,
+    `measured_LRA=${measured.input_lra}`,
+    `measured_thresh=${measured.input_thresh}`,
+    `offset=${measured.target_offset}`,
+    'linear=true',
+  ].join(':');
+}
+
+// ============================================================================
+// PEAKS
+// ============================================================================
+
+/**
+ * Collect peaks from 16-bit little-endian mono samples as they stream in:
+ * the loudest sample in each run of `samplesPerPeak`, from 0 to 1
+ */
+export function createPeakCollector(samplesPerPeak: number) {
+  const peaks: number[] = [];
+  let max = 0;
+  let count = 0;
+  let leftover: Buffer | null = null;
+
+  const flush = () => {
+    peaks.push(Math.round((max / 32768) * 100) / 100);
+    max = 0;
+    count = 0;
+  };
+
+  return {
+    push(chunk: Buffer): void {
+      // A sample can be split across chunks
+      const data: Buffer = leftover ? Buffer.concat([leftover, chunk]) : chunk;
+      const usable = data.length - (data.length % 2);
+      leftover = usable < data.length ? data.subarray(usable) : null;
+
+      for (let offset = 0; offset < usable; offset += 2) {
+        max = Math.max(max, Math.abs(data.readInt16LE(offset)));
+        if (++count === samplesPerPeak) flush();
+      }
+    },
+    finish(): number[] {
+      if (count > 0) flush();
+      return peaks;
+    },
+  };
+}
+
+async function extractPeaks(input: string, duration: number, deadline: number): Promise<number[]> {
+  const samples = Math.max(1, Math.ceil(duration * PEAK_SAMPLE_RATE));
+  const collector = createPeakCollector(Math.max(1, Math.ceil(samples / PEAK_COUNT)));
+
+  await ffmpeg(
+    [
+      '-loglevel',
+      'error',
+      ...inputArgs(input, AUDIO_FORMATS),
+      '-vn',
+      '-ac',
+      '1',
+      '-ar',
+      String(PEAK_SAMPLE_RATE),
+      '-f',
+      's16le',
+      'pipe:1',
+    ],
+    { timeoutMs: deadline - Date.now(), onStdout: (chunk) => collector.push(chunk) }
+  );
+
+  return collector.finish();
+}
+
+// ============================================================================
+// PROCESSING
+// ============================================================================
+
+/**
+ * Normalise and transcode `input` to AAC in an MP4 container at `output`
+ */
+async function transcodeAudio(
+  input: string,
+  output: string,
+  probe: AudioProbe,
+  deadline: number
+): Promise<void> {
+  const { stderr } = await ffmpeg(
+    [...inputArgs(input, AUDIO_FORMATS), '-vn', '-af', loudnormFilter(), '-f', 'null', '-'],
+    { timeoutMs: deadline - Date.now() }
+  );
+  const measured = parseLoudness(stderr);
+
+  // Silence measures as -inf, which the second pass cannot work from
+  const filter = Number.isFinite(Number(measured.input_i)) ? loudnormFilter(measured) : 'anull';
+  const channels = Math.min(probe.channels, 2);
+
+  await ffmpeg(
+    [
+      '-loglevel',
+      'error',
+      ...inputArgs(input, AUDIO_FORMATS),
+      '-vn',
+      '-af',
+      filter,
+      '-ar',
+      String(SAMPLE_RATE),
+      '-ac',
+      String(channels),
+      '-c:a',
+      'aac',
+      '-b:a',
+      `${BITRATE_PER_CHANNEL * channels}k`,
+      '-movflags',
+      '+faststart',
+      output,
+    ],
+    { timeoutMs: deadline - Date.now() }
+  );
+}
+
+/**
+ * Download claimed audio, process it, upload the results and mark it ready
+ */
+async function processMediaAudio(media: Media): Promise<void> {
+  if (!media.storage_key) {
+    throw new Error('Media has no storage key');
+  }
+
+  const baseUrl = media.url.slice(0, media.url.length - media.storage_key.length);
+  const variantKey = (file: string) => `variants/${media.id}/${file}`;
+  const workDir = await mkdtemp(path.join(tmpdir(), 'audio-'));
+  const deadline = Date.now() + TRANSCODE_TIMEOUT_MINUTES * 60 * 1000;
+
+  try {
+    const input = path.join(workDir, 'source');
+    const output = path.join(workDir, 'audio.m4a');
+
+    await downloadFileToPath(media.storage_key, input);
+    const probe = parseAudioProbe(
+      await ffprobe<AudioProbeOutput>(input, AUDIO_FORMATS, [
+        '-show_entries',
+        'format=duration:stream=codec_type,channels',
+      ])
+    );
+
+    await transcodeAudio(input, output, probe, deadline);
+
+    const duration = Math.round(probe.duration);
+    const peaks: AudioPeaks = {
+      duration,
+      peaks: await extractPeaks(output, probe.duration, deadline),
+    };
+
+    await uploadFile(
+      await readFile(output),
+      variantKey('audio.m4a'),
+      'audio/mp4',
+      VARIANT_CACHE_CONTROL
+    );
+    await uploadFile(
+      Buffer.from(JSON.stringify(peaks)),
+      variantKey('peaks.json'),
+      'application/json',
+      VARIANT_CACHE_CONTROL
+    );
+
+    const supabase = await createServiceClient();
+    const { error } = await supabase
+      .from('media')
+      .update({
+        duration,
+        playback_url: `${baseUrl}${variantKey('audio.m4a')}`,
+        peaks_url: `${baseUrl}${variantKey('peaks.json')}`,
+        processing_status: 'ready',
+        processing_error: null,
+        processed_at: new Date().toISOString(),
+      })
+      .eq('id', media.id);
+
+    if (error) {
+      throw error;
+    }
+
+    await updatePostsUsingMedia(media.url, { duration });
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Claim and process audio waiting after upload. Does nothing where ffmpeg
+ * is not installed.
+ */
+export async function processPendingAudio(limit = 1): Promise<ProcessingResult> {
+  if (!(await isFfmpegAvailable())) {
+    return { processed: 0, succeeded: 0, failed: 0 };
+  }
+
+  return processPendingMedia('audio', processMediaAudio, {
+    limit,
+    timeoutMinutes: CLAIM_TIMEOUT_MINUTES,
+  });
+}
@@ -0,0 +1,188 @@
+/**
+ * BlurHash
+ * Encodes an image as a ~30 character string that decodes to a blurred
+ * placeholder (https://blurha.sh). Encoding runs when images are processed;
+ * decoding runs in the browser while the real image loads.
+ */
+
+const CHARACTERS =
+  '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+type Color = [number, number, number];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function encode83(value: number, length: number): string {
+  let result = '';
+  for (let i = 1; i <= length; i++) {
+    const digit = Math.floor(value / Math.pow(83, length - i)) % 83;
+    result += CHARACTERS[digit];
+  }
+  return result;
+}
+
+function decode83(text: string): number {
+  let value = 0;
+  for (const char of text) {
+    const digit = CHARACTERS.indexOf(char);
+    if (digit === -1) throw new Error('Invalid blurhash');
+    value = value * 83 + digit;
+  }
+  return value;
+}
+
+function sRGBToLinear(value: number): number {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function linearToSRGB(value: number): number {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308
+    ? Math.round(v * 12.92 * 255 + 0.5)
+    : Math.round((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5);
+}
+
+function signPow(value: number, exponent: number): number {
+  return Math.sign(value) * Math.pow(Math.abs(value), exponent);
+}
+
+// ============================================================================
+// ENCODE
+// ============================================================================
+
+/**
+ * Encode RGBA pixels. More components keep more detail; 4x3 suits most photos.
+ */
+export function encodeBlurhash(
+  pixels: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  componentsX = 4,
+  componentsY = 3
+): string {
+  const factors: Color[] = [];
+
+  for (let j = 0; j < componentsY; j++) {
+    for (let i = 0; i < componentsX; i++) {
+      const normalisation = i === 0 && j === 0 ? 1 : 2;
+      const factor: Color = [0, 0, 0];
+
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const basis =
+            normalisation *
+            Math.cos((Math.PI * i * x) / width) *
+            Math.cos((Math.PI * j * y) / height);
+          const offset = 4 * (x + y * width);
+          factor[0] += basis * sRGBToLinear(pixels[offset]);
+          factor[1] += basis * sRGBToLinear(pixels[offset + 1]);
+          factor[2] += basis * sRGBToLinear(pixels[offset + 2]);
+        }
+      }
+
+      const scale = 1 / (width * height);
+      factors.push([factor[0] * scale, factor[1] * scale, factor[2] * scale]);
+    }
+  }
+
+  const [dc, ...ac] = factors;
+  let hash = encode83(componentsX - 1 + (componentsY - 1) * 9, 1);
+
+  let maximumValue = 1;
+  if (ac.length > 0) {
+    const actualMaximum = Math.max(...ac.flat().map(Math.abs));
+    const quantisedMaximum = Math.max(0, Math.min(82, Math.floor(actualMaximum * 166 - 0.5)));
+    maximumValue = (quantisedMaximum + 1) / 166;
+    hash += encode83(quantisedMaximum, 1);
+  } else {
+    hash += encode83(0, 1);
+  }
+
+  hash += encode83(
+    (linearToSRGB(dc[0]) << 16) + (linearToSRGB(dc[1]) << 8) + linearToSRGB(dc[2]),
+    4
+  );
+
+  for (const color of ac) {
+    const [r, g, b] = color.map((value) =>
+      Math.max(0, Math.min(18, Math.floor(signPow(value / maximumValue, 0.5) * 9 + 9.5)))
+    );
+    hash += encode83(r * 19 * 19 + g * 19 + b, 2);
+  }
+
+  return hash;
+}
+
+// ============================================================================
+// DECODE
+// ============================================================================
+
+/**
+ * Decode to `width` x `height` RGBA pixels. A small size (32x32) stretched
+ * with CSS looks the same and is much cheaper.
+ */
+export function decodeBlurhash(
+  hash: string,
+  width: number,
+  height: number
+): Uint8ClampedArray<ArrayBuffer> {
+  const sizeFlag = decode83(hash[0]);
+  const componentsY = Math.floor(sizeFlag / 9) + 1;
+  const componentsX = (sizeFlag % 9) + 1;
+
+  if (hash.length !== 4 + 2 * componentsX * componentsY) {
+    throw new Error('Invalid blurhash');
+  }
+
+  const maximumValue = (decode83(hash[1]) + 1) / 166;
+  const colors: Color[] = [];
+
+  for (let i = 0; i < componentsX * componentsY; i++) {
+    if (i === 0) {
+      const value = decode83(hash.substring(2, 6));
+      colors.push([
+        sRGBToLinear(value >> 16),
+        sRGBToLinear((value >> 8) & 255),
+        sRGBToLinear(value & 255),
+      ]);
+    } else {
+      const value = decode83(hash.substring(4 + i * 2, 6 + i * 2));
+      colors.push([
+        signPow((Math.floor(value / 361) - 9) / 9, 2) * maximumValue,
+        signPow(((Math.floor(value / 19) % 19) - 9) / 9, 2) * maximumValue,
+        signPow(((value % 19) - 9) / 9, 2) * maximumValue,
+      ]);
+    }
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+
+      for (let j = 0; j < componentsY; j++) {
+        for (let i = 0; i < componentsX; i++) {
+          const basis = Math.cos((Math.PI * x * i) / width) * Math.cos((Math.PI * y * j) / height);
+          const color = colors[i + j * componentsX];
+          r += color[0] * basis;
+          g += color[1] * basis;
+          b += color[2] * basis;
+        }
+      }
+
+      const offset = 4 * (x + y * width);
+      pixels[offset] = linearToSRGB(r);
+      pixels[offset + 1] = linearToSRGB(g);
+      pixels[offset + 2] = linearToSRGB(b);
+      pixels[offset + 3] = 255;
+    }
+  }
+
+  return pixels;
+}
@@ -0,0 +1,111 @@
+/**
+ * Chapters
+ * Chapter markers on audio posts, and the timestamps used to write them and
+ * to deep link into a post (`?t=12:30`). Safe to import from client
+ * components.
+ */
+
+import { formatDuration } from '@/lib/utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Chapter {
+  /** Seconds from the start */
+  start: number;
+  title: string;
+}
+
+export const MAX_CHAPTERS = 100;
+export const MAX_CHAPTER_TITLE_LENGTH = 100;
+
+// ============================================================================
+// TIMESTAMPS
+// ============================================================================
+
+/**
+ * Parse "12:30", "1:02:03", "750" or "1h2m3s" into seconds. Null when the
+ * value is not a timestamp.
+ */
+export function parseTimestamp(value: string): number | null {
+  const trimmed = value.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+
+  const clock = /^(?:(\d+):)?(\d{1,2}):(\d{2})$/.exec(trimmed);
+  if (clock) {
+    const [, hours, minutes, seconds] = clock;
+    if (Number(seconds) >= 60 || (hours && Number(minutes) >= 60)) return null;
+    return Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds);
+  }
+
+  const units = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/.exec(trimmed);
+  if (units && trimmed) {
+    const [, hours, minutes, seconds] = units;
+    return Number(hours || 0) * 3600 + Number(minutes || 0) * 60 + Number(seconds || 0);
+  }
+
+  return null;
+}
+
+// ============================================================================
+// CHAPTER LISTS
+// ============================================================================
+
+/**
+ * Sort chapters by start time, keeping the first of any sharing a start
+ */
+export function normalizeChapters(chapters: Chapter[]): Chapter[] {
+  const sorted = [...chapters].sort((a, b) => a.start - b.start);
+  return sorted.filter((chapter, i) => i === 0 || chapter.start !== sorted[i - 1].start);
+}
+
+/**
+ * Parse a chapter list written one per line as "timestamp title", e.g.
+ * "0:00 Introduction", "12:30 - The interview" or "1:02:03: Outro". Blank lines are skipped;
+ * `invalid` holds the (1-based) numbers of lines that could not be read.
+ */
+export function parseChapterList(text: string): { chapters: Chapter[]; invalid: number[] } {
+  const chapters: Chapter[] = [];
+  const invalid: number[] = [];
+
+  text.split('\n').forEach((line, i) => {
+    if (!line.trim()) return;
+
+    const match = /^\s*(\S+?):?\s+(?:[-–—:]\s*)?(.+?)\s*$/.exec(line);
+    const start = match ? parseTimestamp(match[1]) : null;
+
+    if (!match || start === null || match[2].length > MAX_CHAPTER_TITLE_LENGTH) {
+      invalid.push(i + 1);
+      return;
+    }
+
+    chapters.push({ start, title: match[2] });
+  });
+
+  return { chapters: normalizeChapters(chapters), invalid };
+}
+
+/**
+ * Write chapters back out in the form parseChapterList reads
+ */
+export function formatChapterList(chapters: Chapter[]): string {
+  return chapters.map((chapter) => `${formatDuration(chapter.start)} ${chapter.title}`).join('\n');
+}
+
+/**
+ * Index of the chapter playing at `time`, or -1 before the first one
+ */
+export function chapterAt(chapters: Chapter[], time: number): number {
+  let current = -1;
+
+  for (let i = 0; i < chapters.length; i++) {
+    if (chapters[i].start > time) break;
+    current = i;
+  }
+
+  return current;
+}
@@ -0,0 +1,148 @@
+/**
+ * ffmpeg
+ * Runs the ffmpeg and ffprobe binaries configured by FFMPEG_PATH and
+ * FFPROBE_PATH for the video and audio processing jobs. Uploads are
+ * untrusted, so every run has a time limit and inputs are read only as
+ * local files in the expected containers.
+ */
+
+import { spawn } from 'child_process';
+import path from 'path';
+import { config } from '@/lib/config';
+import type { MEDIA_CONSTRAINTS } from '@/lib/constants';
+import { logger } from '@/lib/logger';
+
+// ffmpeg writes progress and diagnostics to stderr; only the end is kept
+const STDERR_LIMIT = 10000;
+
+// Probing reads headers only, so anything slower is a file built to stall it
+const PROBE_TIMEOUT_MS = 60 * 1000;
+
+/** Demuxers for uploaded video (MP4, QuickTime, WebM and the like) */
+export const VIDEO_FORMATS = 'mov,mp4,matroska,webm,avi';
+
+type AudioUploadType = (typeof MEDIA_CONSTRAINTS.allowedAudioTypes)[number];
+
+/** The demuxer that reads each audio type accepted at upload */
+export const AUDIO_DEMUXERS: Record<AudioUploadType, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/aac': 'aac',
+  'audio/mp4': 'mov',
+};
+
+/** Demuxers for uploaded audio (MP3, WAV, Ogg, AAC, M4A) */
+export const AUDIO_FORMATS = [...new Set(Object.values(AUDIO_DEMUXERS))].join(',');
+
+export interface RunOptions {
+  /** The process is killed after this long */
+  timeoutMs: number;
+  /** Receives stdout as it arrives, for output too large to buffer */
+  onStdout?: (chunk: Buffer) => void;
+}
+
+/**
+ * Arguments reading `file` as input. Without the whitelists, an uploaded
+ * playlist or concat file could make ffmpeg open other local files or URLs.
+ */
+export function inputArgs(file: string, formats: string): string[] {
+  return ['-protocol_whitelist', 'file', '-format_whitelist', formats, '-i', file];
+}
+
+/**
+ * Run a command. Stdout is collected and returned unless `onStdout` is
+ * given. On failure the error carries the end of stderr, which is where
+ * ffmpeg explains what went wrong.
+ */
+function run(
+  command: string,
+  args: string[],
+  { timeoutMs, onStdout }: RunOptions
+): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const name = path.basename(command);
+
+    if (timeoutMs <= 0) {
+      reject(new Error(`${name} was not started: no time left`));
+      return;
+    }
+
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+
+    // SIGKILL, as a process stuck on a hostile file may ignore SIGTERM
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, timeoutMs);
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      if (onStdout) {
+        onStdout(chunk);
+      } else {
+        stdout += chunk.toString();
+      }
+    });
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-STDERR_LIMIT);
+    });
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+
+      if (timedOut) {
+        reject(new Error(`${name} timed out after ${Math.round(timeoutMs / 1000)}s`));
+      } else if (code === 0) {
+        resolve({ stdout, stderr });
+      } else {
+        reject(new Error(`${name} exited with code ${code}: ${stderr.trim().slice(-2000)}`));
+      }
+    });
+  });
+}
+
+export function ffmpeg(
+  args: string[],
+  options: RunOptions
+): Promise<{ stdout: string; stderr: string }> {
+  return run(config.ffmpegPath, ['-hide_banner', '-nostats', '-y', ...args], options);
+}
+
+/**
+ * Probe `file` with JSON output, returning the parsed result
+ */
+export async function ffprobe<T>(file: string, formats: string, args: string[]): Promise<T> {
+  const { stdout } = await run(
+    config.ffprobePath,
+    ['-v', 'error', '-of', 'json', ...args, ...inputArgs(file, formats)],
+    { timeoutMs: PROBE_TIMEOUT_MS }
+  );
+  return JSON.parse(stdout) as T;
+}
+
+let ffmpegAvailable: Promise<boolean> | null = null;
+
+/**
+ * Whether ffmpeg can be run on this host. Checked once per process; hosts
+ * without it leave video and audio pending for a worker that has it.
+ */
+export function isFfmpegAvailable(): Promise<boolean> {
+  ffmpegAvailable ??= run(config.ffmpegPath, ['-version'], { timeoutMs: PROBE_TIMEOUT_MS }).then(
+    () => true,
+    () => {
+      logger.warn('ffmpeg not found; video and audio processing is disabled', {
+        ffmpegPath: config.ffmpegPath,
+      });
+      return false;
+    }
+  );
+
+  return ffmpegAvailable;
+}
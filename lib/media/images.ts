@@ -0,0 +1,207 @@
+/**
+ * Image processing
+ * Runs after an image upload is confirmed: strips EXIF/GPS metadata from the
+ * original, writes resized WebP/AVIF variants next to it and records the
+ * dimensions and a blurhash placeholder on the media row.
+ */
+
+import sharp from 'sharp';
+import { createServiceClient } from '@/lib/supabase/server';
+import { downloadFile, uploadFile } from '@/lib/r2/client';
+import type { Media } from '@/types/database';
+import { encodeBlurhash } from './blurhash';
+import { processPendingMedia, type ProcessingResult } from './processing';
+import { IMAGE_FORMATS, type ImageVariant, type ImageVariantFormat } from './responsive';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Variant widths; images are never enlarged, so small uploads get fewer */
+export const IMAGE_WIDTHS = [320, 640, 960, 1280, 1920];
+
+// Width of the variant used as media.thumbnail_url
+const THUMBNAIL_WIDTH = 640;
+
+// Variant keys never change content, so browsers and the CDN can keep them
+const VARIANT_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+const ENCODERS: Record<ImageVariantFormat, (image: sharp.Sharp) => sharp.Sharp> = {
+  avif: (image) => image.avif({ quality: 50, effort: 4 }),
+  webp: (image) => image.webp({ quality: 75 }),
+};
+
+// sharp output format for re-encoding the original in place
+const ORIGINAL_FORMATS: Record<string, keyof sharp.FormatEnum> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/gif': 'gif',
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface VariantFile {
+  width: number;
+  format: ImageVariantFormat;
+  data: Buffer;
+}
+
+export interface ProcessedImage {
+  width: number;
+  height: number;
+  blurhash: string;
+  variants: ImageVariant[];
+  files: VariantFile[];
+  /** Re-encoded original, set only when the upload carried metadata */
+  stripped: Buffer | null;
+}
+
+// ============================================================================
+// PROCESSING
+// ============================================================================
+
+/**
+ * Widths to generate for an image `width` pixels wide: the standard widths
+ * below it, plus the image's own width when it is under the largest one
+ */
+export function variantWidths(width: number): number[] {
+  const widths = IMAGE_WIDTHS.filter((w) => w < width);
+  const largest = IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1];
+
+  if (width <= largest) {
+    widths.push(width);
+  }
+
+  return widths;
+}
+
+/**
+ * Process an image in memory. `variantUrl` maps a width and format to the
+ * public URL the variant will be uploaded to.
+ */
+export async function processImage(
+  input: Buffer,
+  mimeType: string,
+  variantUrl: (width: number, format: ImageVariantFormat) => string
+): Promise<ProcessedImage> {
+  const metadata = await sharp(input).metadata();
+  const animated = (metadata.pages || 1) > 1;
+
+  // autoOrient applies the EXIF orientation, so portrait phone photos
+  // stay upright once the orientation tag is stripped
+  const image = sharp(input, { animated }).autoOrient();
+  const { width, height } = metadata.autoOrient;
+  const frameHeight = animated && metadata.pageHeight ? metadata.pageHeight : height;
+
+  // sharp drops EXIF, XMP and IPTC unless asked to keep them
+  const hasMetadata = Boolean(metadata.exif || metadata.xmp || metadata.iptc);
+  const originalFormat = ORIGINAL_FORMATS[mimeType];
+  const stripped =
+    hasMetadata && originalFormat ? await image.clone().toFormat(originalFormat).toBuffer() : null;
+
+  // AVIF encoders handle stills only; animations get WebP variants
+  const formats = animated ? IMAGE_FORMATS.filter((f) => f === 'webp') : IMAGE_FORMATS;
+  const files: VariantFile[] = [];
+  const variants: ImageVariant[] = [];
+
+  for (const targetWidth of variantWidths(width)) {
+    for (const format of formats) {
+      const { data, info } = await ENCODERS[format](
+        image.clone().resize({ width: targetWidth, withoutEnlargement: true })
+      ).toBuffer({ resolveWithObject: true });
+
+      files.push({ width: targetWidth, format, data });
+      variants.push({
+        format,
+        width: info.width,
+        height: animated && info.pageHeight ? info.pageHeight : info.height,
+        url: variantUrl(targetWidth, format),
+        size: data.length,
+      });
+    }
+  }
+
+  const { data: pixels, info } = await sharp(input)
+    .autoOrient()
+    .resize(32, 32, { fit: 'inside' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    width,
+    height: frameHeight,
+    blurhash: encodeBlurhash(pixels, info.width, info.height),
+    variants,
+    stripped,
+    files,
+  };
+}
+
+/**
+ * Download a claimed image, upload its variants and mark it ready
+ */
+async function processMediaImage(media: Media): Promise<void> {
+  if (!media.storage_key) {
+    throw new Error('Media has no storage key');
+  }
+
+  const baseUrl = media.url.slice(0, media.url.length - media.storage_key.length);
+  const variantKey = (width: number, format: ImageVariantFormat) =>
+    `variants/${media.id}/${width}.${format}`;
+
+  const input = await downloadFile(media.storage_key);
+  const processed = await processImage(
+    input,
+    media.mime_type,
+    (width, format) => `${baseUrl}${variantKey(width, format)}`
+  );
+
+  for (const file of processed.files) {
+    await uploadFile(
+      file.data,
+      variantKey(file.width, file.format),
+      `image/${file.format}`,
+      VARIANT_CACHE_CONTROL
+    );
+  }
+
+  // Same key, so the URL already stored on posts serves the clean copy
+  if (processed.stripped) {
+    await uploadFile(processed.stripped, media.storage_key, media.mime_type);
+  }
+
+  const webp = processed.variants.filter((v) => v.format === 'webp');
+  const thumbnail = webp.find((v) => v.width >= THUMBNAIL_WIDTH) || webp[webp.length - 1];
+
+  const supabase = await createServiceClient();
+  const { error } = await supabase
+    .from('media')
+    .update({
+      width: processed.width,
+      height: processed.height,
+      blurhash: processed.blurhash,
+      variants: processed.variants,
+      thumbnail_url: media.thumbnail_url || thumbnail?.url || null,
+      processing_status: 'ready',
+      processing_error: null,
+      processed_at: new Date().toISOString(),
+    })
+    .eq('id', media.id);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Claim and process images waiting after upload. Images are processed one
+ * at a time to keep memory use predictable.
+ */
+export async function processPendingImages(limit = 5): Promise<ProcessingResult> {
+  return processPendingMedia('image', processMediaImage, { limit });
+}
@@ -0,0 +1,20 @@
+/**
+ * Multipart upload sizing
+ * Shared by the upload routes and the browser uploader so both agree on how
+ * a file is split into parts. Safe to import from client components.
+ */
+
+/** Video and audio files larger than this are uploaded in parts */
+export const MULTIPART_THRESHOLD = 20 * 1024 * 1024; // 20MB
+
+// S3 requires parts of at least 5MB (except the last) and at most 10,000 parts
+const MIN_PART_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_PARTS = 10000;
+
+export function multipartPartSize(fileSize: number): number {
+  return Math.max(MIN_PART_SIZE, Math.ceil(fileSize / MAX_PARTS));
+}
+
+export function multipartPartCount(fileSize: number): number {
+  return Math.max(1, Math.ceil(fileSize / multipartPartSize(fileSize)));
+}
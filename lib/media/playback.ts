@@ -0,0 +1,88 @@
+/**
+ * Playback data
+ * Shapes processed video and audio media rows into what <VideoPlayer> and
+ * <AudioPlayer> need. Safe to import from client components.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface VideoPlaybackData {
+  /** H.264 MP4, played directly when HLS is unavailable */
+  src: string;
+  /** HLS master playlist for adaptive streaming */
+  hls: string | null;
+  poster: string | null;
+  width: number | null;
+  height: number | null;
+  /** Seconds */
+  duration: number | null;
+}
+
+export interface AudioPlaybackData {
+  /** Loudness-normalised AAC */
+  src: string;
+  /** JSON file holding AudioPeaks */
+  peaks: string | null;
+  /** Seconds */
+  duration: number | null;
+}
+
+/** Waveform file written by audio processing */
+export interface AudioPeaks {
+  /** Seconds */
+  duration: number;
+  /** Loudest sample in each slice of the audio, from 0 to 1 */
+  peaks: number[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Build playback data from a transcoded media row; null until it has a
+ * browser-playable rendition
+ */
+export function toVideoPlayback(media: {
+  playback_url: string | null;
+  hls_url: string | null;
+  thumbnail_url: string | null;
+  width: number | null;
+  height: number | null;
+  duration: number | null;
+}): VideoPlaybackData | null {
+  if (!media.playback_url) {
+    return null;
+  }
+
+  return {
+    src: media.playback_url,
+    hls: media.hls_url,
+    poster: media.thumbnail_url,
+    width: media.width,
+    height: media.height,
+    duration: media.duration,
+  };
+}
+
+/**
+ * Build playback data from a processed audio row; null until it has been
+ * transcoded
+ */
+export function toAudioPlayback(media: {
+  playback_url: string | null;
+  peaks_url: string | null;
+  duration: number | null;
+}): AudioPlaybackData | null {
+  if (!media.playback_url) {
+    return null;
+  }
+
+  return {
+    src: media.playback_url,
+    peaks: media.peaks_url,
+    duration: media.duration,
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Media processing queue
+ * Confirmed uploads wait as 'pending' until a cron run claims them with
+ * claim_media_processing. Shared by the image, video and audio jobs.
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import type { Media } from '@/types/database';
+
+// After this many failed attempts the media is marked 'failed'
+const MAX_ATTEMPTS = 3;
+
+const LABELS: Record<NonNullable<Media['media_type']>, string> = {
+  image: 'Image',
+  video: 'Video',
+  audio: 'Audio',
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ProcessingResult {
+  processed: number;
+  succeeded: number;
+  failed: number;
+}
+
+// ============================================================================
+// QUEUE
+// ============================================================================
+
+/**
+ * Put failed media back in the queue, or give up after MAX_ATTEMPTS
+ */
+async function recordFailure(media: Media, err: unknown): Promise<boolean> {
+  const failed = media.processing_attempts >= MAX_ATTEMPTS;
+  const message = err instanceof Error ? err.message : String(err);
+
+  const supabase = await createServiceClient();
+  await supabase
+    .from('media')
+    .update({
+      processing_status: failed ? 'failed' : 'pending',
+      processing_error: message,
+    })
+    .eq('id', media.id);
+
+  return failed;
+}
+
+/**
+ * Claim up to `limit` pending media of one type and run `process` on each in
+ * turn, which should mark it ready. Media claimed but not finished within
+ * `timeoutMinutes` (a worker that died) is claimed again.
+ */
+export async function processPendingMedia(
+  mediaType: NonNullable<Media['media_type']>,
+  process: (media: Media) => Promise<void>,
+  options: { limit: number; timeoutMinutes?: number }
+): Promise<ProcessingResult> {
+  const label = LABELS[mediaType];
+  const supabase = await createServiceClient();
+  const { data, error } = await supabase.rpc('claim_media_processing', {
+    p_media_type: mediaType,
+    p_limit: options.limit,
+    ...(options.timeoutMinutes && { p_timeout_minutes: options.timeoutMinutes }),
+  });
+
+  if (error) {
+    logger.error(`Failed to claim ${mediaType} for processing`, error);
+    return { processed: 0, succeeded: 0, failed: 0 };
+  }
+
+  let succeeded = 0;
+  let failed = 0;
+  const claimed = (data || []) as Media[];
+
+  for (const media of claimed) {
+    try {
+      await process(media);
+      succeeded++;
+    } catch (err) {
+      logger.error(`${label} processing failed`, err, {
+        mediaId: media.id,
+        attempt: media.processing_attempts,
+      });
+      if (await recordFailure(media, err)) failed++;
+    }
+  }
+
+  if (claimed.length > 0) {
+    logger.info(`${label} batch processed`, { processed: claimed.length, succeeded, failed });
+  }
+
+  return { processed: claimed.length, succeeded, failed };
+}
+
+// ============================================================================
+// POSTS
+// ============================================================================
+
+/**
+ * Copy the duration, and a poster where the post has none, onto posts
+ * using the media at `url`. Failures are logged; the media itself is
+ * already ready.
+ */
+export async function updatePostsUsingMedia(
+  url: string,
+  fields: { duration: number; poster?: string | null }
+): Promise<void> {
+  const supabase = await createServiceClient();
+
+  const { error: durationError } = await supabase
+    .from('posts')
+    .update({ media_duration: fields.duration })
+    .eq('media_url', url);
+
+  let posterError = null;
+  if (fields.poster) {
+    ({ error: posterError } = await supabase
+      .from('posts')
+      .update({ media_thumbnail_url: fields.poster })
+      .eq('media_url', url)
+      .is('media_thumbnail_url', null));
+  }
+
+  if (durationError || posterError) {
+    logger.error('Failed to update posts using media', durationError || posterError, { url });
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Responsive image data
+ * Shapes the variants written by image processing into what <picture>
+ * needs. Safe to import from client components.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ImageVariantFormat = 'avif' | 'webp';
+
+export interface ImageVariant {
+  format: ImageVariantFormat;
+  width: number;
+  height: number;
+  url: string;
+  size: number;
+}
+
+export interface ResponsiveImageData {
+  /** Original upload, used by browsers without AVIF/WebP support */
+  src: string;
+  width: number;
+  height: number;
+  blurhash: string | null;
+  /** srcset strings per format, e.g. "…/640.webp 640w, …/1280.webp 1280w" */
+  sources: Partial<Record<ImageVariantFormat, string>>;
+}
+
+// Preferred first: browsers take the first <source> they support
+export const IMAGE_FORMATS: ImageVariantFormat[] = ['avif', 'webp'];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Build responsive image data from a processed media row
+ */
+export function toResponsiveImage(media: {
+  url: string;
+  width: number | null;
+  height: number | null;
+  blurhash: string | null;
+  variants: unknown;
+}): ResponsiveImageData | null {
+  if (!media.width || !media.height || !Array.isArray(media.variants)) {
+    return null;
+  }
+
+  const variants = media.variants as ImageVariant[];
+  const sources: ResponsiveImageData['sources'] = {};
+
+  for (const format of IMAGE_FORMATS) {
+    const srcSet = variants
+      .filter((v) => v.format === format)
+      .sort((a, b) => a.width - b.width)
+      .map((v) => `${v.url} ${v.width}w`)
+      .join(', ');
+
+    if (srcSet) {
+      sources[format] = srcSet;
+    }
+  }
+
+  return {
+    src: media.url,
+    width: media.width,
+    height: media.height,
+    blurhash: media.blurhash,
+    sources,
+  };
+}
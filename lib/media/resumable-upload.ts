@@ -0,0 +1,365 @@
+/**
+ * Resumable uploads
+ * Browser side of multipart uploads: sends a file's parts a few at a time,
+ * retries parts that fail, and can pause and resume. The upload session is
+ * kept in localStorage, so choosing the same file again after a reload
+ * carries on from the parts already stored.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface UploadSession {
+  mediaId: string;
+  publicUrl: string;
+  partSize: number;
+  partCount: number;
+  /** Parts known to be stored, so progress can be shown before resuming */
+  uploadedParts: number[];
+  startedAt: number;
+}
+
+export interface UploadedMedia {
+  id: string;
+  url: string;
+}
+
+/** Thrown by start() when the upload is paused or cancelled */
+export class UploadPausedError extends Error {
+  constructor() {
+    super('Upload paused');
+    this.name = 'UploadPausedError';
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const STORAGE_PREFIX = 'scroungers:upload:';
+
+// Parts uploaded at once
+const CONCURRENCY = 3;
+
+// Part URLs requested together
+const PRESIGN_BATCH_SIZE = 10;
+
+// A part is tried this many times, waiting 1s, 2s, 4s between attempts
+const MAX_PART_ATTEMPTS = 4;
+const RETRY_DELAY_MS = 1000;
+
+// The server sweeps multipart uploads after 48 hours
+const SESSION_MAX_AGE_MS = 48 * 60 * 60 * 1000;
+
+// ============================================================================
+// SESSION STORAGE
+// ============================================================================
+
+function storageKey(file: File, mediaType: string): string {
+  return `${STORAGE_PREFIX}${mediaType}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function loadSession(key: string): UploadSession | null {
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) return null;
+
+    const session = JSON.parse(raw) as UploadSession;
+    if (Date.now() - session.startedAt > SESSION_MAX_AGE_MS) {
+      localStorage.removeItem(key);
+      return null;
+    }
+
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+function saveSession(key: string, session: UploadSession | null): void {
+  try {
+    if (session) {
+      localStorage.setItem(key, JSON.stringify(session));
+    } else {
+      localStorage.removeItem(key);
+    }
+  } catch {
+    // Private browsing or full storage: the upload still works, it just
+    // cannot be resumed after a reload
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function api<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(body?.error?.message || `Request failed (${response.status})`);
+  }
+
+  return body.data as T;
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// ============================================================================
+// RESUMABLE UPLOAD
+// ============================================================================
+
+export class ResumableUpload {
+  private readonly key: string;
+  private session: UploadSession | null;
+  private paused = false;
+  private requests = new Set<XMLHttpRequest>();
+  private inFlight = new Map<number, number>();
+  private urls = new Map<number, string>();
+
+  constructor(
+    private readonly file: File,
+    private readonly mediaType: 'video' | 'audio',
+    private readonly onProgress: (percent: number) => void
+  ) {
+    this.key = storageKey(file, mediaType);
+    this.session = loadSession(this.key);
+  }
+
+  /** Whether an earlier upload of this file can be resumed */
+  get resumable(): boolean {
+    return this.session !== null;
+  }
+
+  /** Percentage of the file stored so far */
+  get progress(): number {
+    if (!this.session) return 0;
+
+    let bytes = 0;
+    for (const partNumber of this.session.uploadedParts) {
+      bytes += this.partBlob(partNumber).size;
+    }
+    for (const loaded of this.inFlight.values()) {
+      bytes += loaded;
+    }
+
+    return Math.min(100, Math.round((bytes / this.file.size) * 100));
+  }
+
+  /**
+   * Upload the parts not yet stored and complete the upload. Rejects with
+   * UploadPausedError if pause() or cancel() is called meanwhile.
+   */
+  async start(): Promise<UploadedMedia> {
+    this.paused = false;
+    const session = await this.openSession();
+    this.onProgress(this.progress);
+
+    const queue = Array.from({ length: session.partCount }, (_, i) => i + 1).filter(
+      (partNumber) => !session.uploadedParts.includes(partNumber)
+    );
+
+    const worker = async () => {
+      for (let partNumber = queue.shift(); partNumber; partNumber = queue.shift()) {
+        await this.uploadPart(partNumber);
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+    } catch (err) {
+      // Stop the other workers; the parts they finished are kept
+      const paused = this.paused;
+      this.pause();
+      throw paused ? new UploadPausedError() : err;
+    }
+
+    await api(`/api/media/${session.mediaId}/complete`, { method: 'POST' });
+
+    saveSession(this.key, null);
+    this.session = null;
+
+    return { id: session.mediaId, url: session.publicUrl };
+  }
+
+  /** Stop uploading; parts already stored are kept for start() to resume */
+  pause(): void {
+    this.paused = true;
+    this.abortRequests();
+  }
+
+  /** Stop uploading and delete the parts stored so far */
+  async cancel(): Promise<void> {
+    this.pause();
+
+    if (this.session) {
+      await fetch(`/api/media/${this.session.mediaId}/multipart`, { method: 'DELETE' }).catch(
+        () => undefined
+      );
+    }
+
+    saveSession(this.key, null);
+    this.session = null;
+  }
+
+  /**
+   * Resume the saved session if the server still has it, otherwise start
+   * a new multipart upload
+   */
+  private async openSession(): Promise<UploadSession> {
+    if (this.session) {
+      try {
+        const progress = await api<Pick<UploadSession, 'partSize' | 'partCount' | 'uploadedParts'>>(
+          `/api/media/${this.session.mediaId}/multipart`
+        );
+        this.session = { ...this.session, ...progress };
+        saveSession(this.key, this.session);
+        return this.session;
+      } catch {
+        // Swept, cancelled elsewhere or already completed: start again
+        this.session = null;
+        this.urls.clear();
+      }
+    }
+
+    const data = await api<{
+      mediaId: string;
+      publicUrl: string;
+      multipart: { partSize: number; partCount: number } | null;
+    }>('/api/media/upload', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        fileName: this.file.name,
+        fileType: this.file.type,
+        fileSize: this.file.size,
+        mediaType: this.mediaType,
+        multipart: true,
+      }),
+    });
+
+    if (!data.multipart) {
+      throw new Error('This file cannot be uploaded in parts');
+    }
+
+    this.session = {
+      mediaId: data.mediaId,
+      publicUrl: data.publicUrl,
+      partSize: data.multipart.partSize,
+      partCount: data.multipart.partCount,
+      uploadedParts: [],
+      startedAt: Date.now(),
+    };
+    saveSession(this.key, this.session);
+
+    return this.session;
+  }
+
+  private partBlob(partNumber: number): Blob {
+    const partSize = this.session?.partSize || 0;
+    return this.file.slice((partNumber - 1) * partSize, partNumber * partSize);
+  }
+
+  /**
+   * Presigned URL for a part, fetched with the next few parts' URLs
+   */
+  private async partUrl(partNumber: number, refresh: boolean): Promise<string> {
+    const cached = this.urls.get(partNumber);
+    if (cached && !refresh) return cached;
+
+    const session = this.session;
+    if (!session) throw new UploadPausedError();
+
+    const partNumbers = [partNumber];
+    for (let n = partNumber + 1; n <= session.partCount; n++) {
+      if (partNumbers.length >= PRESIGN_BATCH_SIZE) break;
+      if (!session.uploadedParts.includes(n) && !this.urls.has(n)) partNumbers.push(n);
+    }
+
+    const { parts } = await api<{ parts: { partNumber: number; url: string }[] }>(
+      `/api/media/${session.mediaId}/multipart`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ partNumbers }),
+      }
+    );
+
+    for (const part of parts) {
+      this.urls.set(part.partNumber, part.url);
+    }
+
+    return this.urls.get(partNumber) || '';
+  }
+
+  /**
+   * Upload one part, retrying with backoff. Retries use a fresh URL in case
+   * the last one expired.
+   */
+  private async uploadPart(partNumber: number): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      if (this.paused) throw new UploadPausedError();
+
+      try {
+        const url = await this.partUrl(partNumber, attempt > 1);
+        await this.put(url, partNumber);
+        break;
+      } catch (err) {
+        if (this.paused || err instanceof UploadPausedError) throw new UploadPausedError();
+        if (attempt >= MAX_PART_ATTEMPTS) throw err;
+        await delay(RETRY_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+
+    if (this.session) {
+      this.session.uploadedParts.push(partNumber);
+      saveSession(this.key, this.session);
+    }
+    this.onProgress(this.progress);
+  }
+
+  private put(url: string, partNumber: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      this.requests.add(xhr);
+
+      const done = () => {
+        this.requests.delete(xhr);
+        this.inFlight.delete(partNumber);
+      };
+
+      xhr.upload.addEventListener('progress', (e) => {
+        this.inFlight.set(partNumber, e.loaded);
+        this.onProgress(this.progress);
+      });
+
+      xhr.onload = () => {
+        done();
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve();
+        } else {
+          reject(new Error(`Part ${partNumber} failed (${xhr.status})`));
+        }
+      };
+      xhr.onerror = () => {
+        done();
+        reject(new Error(`Part ${partNumber} failed`));
+      };
+      xhr.onabort = () => {
+        done();
+        reject(new UploadPausedError());
+      };
+
+      xhr.open('PUT', url);
+      xhr.send(this.partBlob(partNumber));
+    });
+  }
+
+  private abortRequests(): void {
+    for (const xhr of this.requests) {
+      xhr.abort();
+    }
+  }
+}
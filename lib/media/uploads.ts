@@ -0,0 +1,344 @@
+/**
+ * Upload completion
+ * A media row is created as 'uploading' before the browser sends the file to
+ * R2, either with one presigned PUT or, for large video and audio, as a
+ * multipart upload it can resume. The browser then confirms the upload, which
+ * is checked against the object in R2; rows that are never confirmed are
+ * swept up.
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import { ApiError } from '@/lib/api/response';
+import {
+  abortMultipartUpload,
+  completeMultipartUpload,
+  deleteFile,
+  generatePresignedPartUrl,
+  getFileMetadata,
+  isNotFoundError,
+  listMultipartUploads,
+  listUploadedParts,
+} from '@/lib/r2/client';
+import { logger } from '@/lib/logger';
+import type { Media } from '@/types/database';
+import { multipartPartCount, multipartPartSize } from './multipart';
+
+// Presigned upload URLs last an hour; this leaves room for slow uploads
+// that started just before the URL expired
+export const UPLOAD_TIMEOUT_MS = 6 * 60 * 60 * 1000;
+
+// Multipart uploads can be paused and resumed later, so they get longer
+export const MULTIPART_UPLOAD_TIMEOUT_MS = 48 * 60 * 60 * 1000;
+
+// Rows deleted per sweep
+const SWEEP_BATCH_SIZE = 100;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type MultipartMedia = Media & { storage_key: string; multipart_upload_id: string };
+
+export interface MultipartProgress {
+  partSize: number;
+  partCount: number;
+  /** Part numbers already stored in R2 */
+  uploadedParts: number[];
+}
+
+// ============================================================================
+// MULTIPART
+// ============================================================================
+
+/**
+ * Load one of the uploader's media rows that is still uploading in parts
+ */
+async function getMultipartMedia(mediaId: string, uploaderId: string): Promise<MultipartMedia> {
+  const supabase = await createServiceClient();
+
+  const { data: media } = await supabase
+    .from('media')
+    .select('*')
+    .eq('id', mediaId)
+    .eq('uploader_id', uploaderId)
+    .single();
+
+  if (!media) {
+    throw ApiError.notFound('Media');
+  }
+
+  if (media.processing_status !== 'uploading' || !media.multipart_upload_id || !media.storage_key) {
+    throw ApiError.conflict('This upload is not in progress');
+  }
+
+  return media as MultipartMedia;
+}
+
+/**
+ * Which parts of a multipart upload have arrived, so the browser can resume
+ */
+export async function getMultipartProgress(
+  mediaId: string,
+  uploaderId: string
+): Promise<MultipartProgress> {
+  const media = await getMultipartMedia(mediaId, uploaderId);
+  const parts = await listUploadedParts(media.storage_key, media.multipart_upload_id);
+
+  return {
+    partSize: multipartPartSize(media.file_size),
+    partCount: multipartPartCount(media.file_size),
+    uploadedParts: parts.map((part) => part.partNumber),
+  };
+}
+
+/**
+ * Presigned URLs for the browser to PUT the given parts
+ */
+export async function presignUploadParts(
+  mediaId: string,
+  uploaderId: string,
+  partNumbers: number[]
+): Promise<{ partNumber: number; url: string }[]> {
+  const media = await getMultipartMedia(mediaId, uploaderId);
+  const partCount = multipartPartCount(media.file_size);
+
+  const invalid = partNumbers.filter((n) => n > partCount);
+  if (invalid.length > 0) {
+    throw ApiError.badRequest(`This upload has ${partCount} parts`, { invalid });
+  }
+
+  return Promise.all(
+    partNumbers.map(async (partNumber) => ({
+      partNumber,
+      url: await generatePresignedPartUrl(media.storage_key, media.multipart_upload_id, partNumber),
+    }))
+  );
+}
+
+/**
+ * Cancel an upload in progress, deleting any parts stored so far
+ */
+export async function abortUpload(mediaId: string, uploaderId: string): Promise<void> {
+  const media = await getMultipartMedia(mediaId, uploaderId);
+  await discardUpload(media);
+}
+
+/**
+ * Join the parts of a multipart upload once they have all arrived. An upload
+ * R2 no longer knows about may already have been completed by an earlier
+ * attempt, so the caller goes on to check the object itself.
+ */
+async function finishMultipartUpload(media: MultipartMedia): Promise<void> {
+  let parts;
+  try {
+    parts = await listUploadedParts(media.storage_key, media.multipart_upload_id);
+  } catch (err) {
+    if (isNotFoundError(err)) return;
+    throw err;
+  }
+
+  const partCount = multipartPartCount(media.file_size);
+  const missing = partCount - parts.length;
+
+  if (missing > 0) {
+    // Left as 'uploading' so the browser can upload the rest
+    throw ApiError.badRequest(`${missing} of ${partCount} parts have not been uploaded yet`);
+  }
+
+  await completeMultipartUpload(media.storage_key, media.multipart_upload_id, parts);
+}
+
+// ============================================================================
+// COMPLETION
+// ============================================================================
+
+/**
+ * Confirm an upload once the browser has finished sending it to R2. The
+ * object must exist with the size and content type declared when the upload
+ * was started. The media then waits for processing.
+ * Confirming an upload that is already confirmed returns it unchanged.
+ */
+export async function completeUpload(mediaId: string, uploaderId: string): Promise<Media> {
+  const supabase = await createServiceClient();
+
+  const { data: media } = await supabase
+    .from('media')
+    .select('*')
+    .eq('id', mediaId)
+    .eq('uploader_id', uploaderId)
+    .single();
+
+  if (!media) {
+    throw ApiError.notFound('Media');
+  }
+
+  if (media.processing_status !== 'uploading') {
+    return media as Media;
+  }
+
+  if (!media.storage_key) {
+    throw ApiError.badRequest('Media has no storage key');
+  }
+
+  if (media.multipart_upload_id) {
+    await finishMultipartUpload(media as MultipartMedia);
+  }
+
+  let metadata: Awaited<ReturnType<typeof getFileMetadata>>;
+  try {
+    metadata = await getFileMetadata(media.storage_key);
+  } catch (err) {
+    if (isNotFoundError(err)) {
+      // Left as 'uploading' so the browser can retry; swept if it never arrives
+      throw ApiError.badRequest('The file has not been uploaded yet');
+    }
+    throw err;
+  }
+
+  const mismatch =
+    metadata.contentLength !== media.file_size
+      ? `size ${metadata.contentLength} does not match ${media.file_size}`
+      : metadata.contentType !== media.mime_type
+        ? `content type ${metadata.contentType} does not match ${media.mime_type}`
+        : null;
+
+  if (mismatch) {
+    logger.warn('Uploaded file does not match its media record', {
+      mediaId,
+      uploaderId,
+      mismatch,
+    });
+    await discardUpload(media as Media);
+    throw ApiError.badRequest(`Uploaded file ${mismatch}. Please upload it again.`);
+  }
+
+  // Conditional on 'uploading' so two confirmations cannot both transition it
+  const { data: updated, error } = await supabase
+    .from('media')
+    .update({
+      processing_status: 'pending',
+      ...(media.multipart_upload_id && { multipart_upload_id: null }),
+    })
+    .eq('id', mediaId)
+    .eq('processing_status', 'uploading')
+    .select()
+    .single();
+
+  if (error || !updated) {
+    const { data: current } = await supabase.from('media').select('*').eq('id', mediaId).single();
+    if (current) {
+      return current as Media;
+    }
+    throw ApiError.notFound('Media');
+  }
+
+  return updated as Media;
+}
+
+/**
+ * Delete an upload's R2 object (or stored parts) and media row
+ */
+async function discardUpload(
+  media: Pick<Media, 'id' | 'storage_key' | 'multipart_upload_id'>
+): Promise<void> {
+  if (media.storage_key && media.multipart_upload_id) {
+    try {
+      await abortMultipartUpload(media.storage_key, media.multipart_upload_id);
+    } catch (err) {
+      // Already completed or aborted; any completed object is deleted below
+      if (!isNotFoundError(err)) throw err;
+    }
+  }
+
+  if (media.storage_key) {
+    await deleteFile(media.storage_key);
+  }
+
+  const supabase = await createServiceClient();
+  const { error } = await supabase.from('media').delete().eq('id', media.id);
+
+  if (error) {
+    throw error;
+  }
+}
+
+// ============================================================================
+// SWEEPER
+// ============================================================================
+
+/**
+ * Delete media rows (and any R2 object or parts) still 'uploading' after
+ * UPLOAD_TIMEOUT_MS, or MULTIPART_UPLOAD_TIMEOUT_MS for multipart uploads,
+ * then abort multipart uploads R2 still holds past that age (e.g. from a
+ * row deleted without aborting). A failure on one row is logged and the
+ * rest carry on.
+ */
+export async function sweepAbandonedUploads(
+  now = new Date()
+): Promise<{ deleted: number; failed: number; aborted: number }> {
+  const supabase = await createServiceClient();
+  const cutoff = new Date(now.getTime() - UPLOAD_TIMEOUT_MS).toISOString();
+  const multipartCutoff = new Date(now.getTime() - MULTIPART_UPLOAD_TIMEOUT_MS);
+
+  const { data, error } = await supabase
+    .from('media')
+    .select('id, storage_key, multipart_upload_id')
+    .eq('processing_status', 'uploading')
+    .lt('created_at', cutoff)
+    .or(`multipart_upload_id.is.null,created_at.lt.${multipartCutoff.toISOString()}`)
+    .order('created_at', { ascending: true })
+    .limit(SWEEP_BATCH_SIZE);
+
+  let deleted = 0;
+  let failed = 0;
+
+  if (error) {
+    logger.error('Failed to load abandoned uploads', error);
+  }
+
+  for (const media of data || []) {
+    try {
+      await discardUpload(media);
+      deleted++;
+    } catch (err) {
+      failed++;
+      logger.error('Failed to delete abandoned upload', err, { mediaId: media.id });
+    }
+  }
+
+  const aborted = await abortStaleMultipartUploads(multipartCutoff);
+
+  if (deleted > 0 || failed > 0 || aborted > 0) {
+    logger.info('Abandoned uploads swept', { deleted, failed, aborted });
+  }
+
+  return { deleted, failed, aborted };
+}
+
+/**
+ * Abort multipart uploads started before `cutoff`
+ */
+async function abortStaleMultipartUploads(cutoff: Date): Promise<number> {
+  let aborted = 0;
+
+  try {
+    const uploads = await listMultipartUploads();
+
+    for (const upload of uploads) {
+      if (!upload.initiated || upload.initiated >= cutoff) continue;
+
+      try {
+        await abortMultipartUpload(upload.key, upload.uploadId);
+        aborted++;
+      } catch (err) {
+        if (!isNotFoundError(err)) {
+          logger.error('Failed to abort multipart upload', err, { key: upload.key });
+        }
+      }
+    }
+  } catch (err) {
+    logger.error('Failed to list multipart uploads', err);
+  }
+
+  return aborted;
+}
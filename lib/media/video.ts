@@ -0,0 +1,379 @@
+/**
+ * Video transcoding
+ * Runs after a video upload is confirmed. Uploads can be any container the
+ * upload route allows (QuickTime, AVI, ...), so ffmpeg transcodes them to an
+ * HLS ladder for adaptive streaming plus an H.264 MP4 every browser can
+ * play, and grabs a poster frame. The dimensions, duration and poster are
+ * recorded on the media row and on posts using the video.
+ */
+
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createServiceClient } from '@/lib/supabase/server';
+import { downloadFileToPath, uploadFile } from '@/lib/r2/client';
+import type { Media } from '@/types/database';
+import { ffmpeg, ffprobe, inputArgs, isFfmpegAvailable, VIDEO_FORMATS } from './ffmpeg';
+import { processPendingMedia, updatePostsUsingMedia, type ProcessingResult } from './processing';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * HLS ladder, largest first. Heights are for landscape video; portrait video
+ * is matched on its width instead. Videos are never enlarged.
+ */
+export const VIDEO_LADDER = [
+  { height: 1080, videoBitrate: 5000 },
+  { height: 720, videoBitrate: 2800 },
+  { height: 480, videoBitrate: 1400 },
+  { height: 360, videoBitrate: 800 },
+];
+
+// kbps, stereo AAC
+const AUDIO_BITRATE = 128;
+
+// Segment length; keyframes are forced on these boundaries so every
+// rendition switches cleanly
+const SEGMENT_SECONDS = 6;
+
+// The progressive MP4 uses the largest rendition up to this size
+const PLAYBACK_HEIGHT = 720;
+
+// A claimed video is only picked up again after this long, since
+// transcoding a long upload can take a while
+const CLAIM_TIMEOUT_MINUTES = 120;
+
+// ffmpeg is killed after this long, leaving the rest of the claim for
+// uploading, so a stuck job never overlaps the next attempt
+const TRANSCODE_TIMEOUT_MINUTES = 100;
+
+// Output keys never change content, so browsers and the CDN can keep them
+const VARIANT_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+  '.mp4': 'video/mp4',
+  '.jpg': 'image/jpeg',
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** The parts of `ffprobe -of json` output read here */
+export interface ProbeOutput {
+  format?: { duration?: string };
+  streams?: {
+    codec_type?: string;
+    width?: number;
+    height?: number;
+    side_data_list?: { rotation?: number }[];
+  }[];
+}
+
+export interface VideoProbe {
+  /** Seconds */
+  duration: number;
+  /** Display size, after any rotation the file asks for */
+  width: number;
+  height: number;
+  hasAudio: boolean;
+}
+
+export interface Rendition {
+  /** Directory and file name, e.g. "720p" */
+  name: string;
+  width: number;
+  height: number;
+  /** kbps */
+  videoBitrate: number;
+}
+
+export interface TranscodedVideo {
+  renditions: Rendition[];
+  /** Paths relative to the output directory */
+  hls: string;
+  playback: string;
+  poster: string;
+}
+
+// ============================================================================
+// PROBING
+// ============================================================================
+
+/**
+ * Read the first video stream from ffprobe's output
+ */
+export function parseProbe(probe: ProbeOutput): VideoProbe {
+  const streams = probe.streams || [];
+  const video = streams.find((s) => s.codec_type === 'video' && s.width && s.height);
+
+  if (!video?.width || !video.height) {
+    throw new Error('No video stream found');
+  }
+
+  // Phone videos are often stored sideways with a rotation flag, which
+  // ffmpeg applies while transcoding
+  const rotation = video.side_data_list?.find((d) => d.rotation !== undefined)?.rotation || 0;
+  const sideways = Math.abs(rotation) % 180 === 90;
+
+  return {
+    duration: Number(probe.format?.duration) || 0,
+    width: sideways ? video.height : video.width,
+    height: sideways ? video.width : video.height,
+    hasAudio: streams.some((s) => s.codec_type === 'audio'),
+  };
+}
+
+async function probeVideo(input: string): Promise<VideoProbe> {
+  const probe = await ffprobe<ProbeOutput>(input, VIDEO_FORMATS, [
+    '-show_entries',
+    'format=duration:stream=codec_type,width,height:stream_side_data=rotation',
+  ]);
+
+  return parseProbe(probe);
+}
+
+// ============================================================================
+// RENDITIONS
+// ============================================================================
+
+// H.264 with 4:2:0 chroma needs even dimensions
+const even = (n: number) => Math.max(2, Math.round(n / 2) * 2);
+
+/**
+ * Renditions to generate for a video of the given display size: the ladder
+ * rungs no larger than it, or a single rendition at its own size when it is
+ * smaller than them all
+ */
+export function renditionLadder(width: number, height: number): Rendition[] {
+  const shortSide = Math.min(width, height);
+  const rungs = VIDEO_LADDER.filter((rung) => rung.height <= shortSide);
+  const smallest = VIDEO_LADDER[VIDEO_LADDER.length - 1];
+
+  if (rungs.length === 0) {
+    rungs.push({ height: even(shortSide), videoBitrate: smallest.videoBitrate });
+  }
+
+  return rungs.map((rung) => {
+    const scale = rung.height / shortSide;
+
+    return {
+      name: `${rung.height}p`,
+      width: even(width * scale),
+      height: even(height * scale),
+      videoBitrate: rung.videoBitrate,
+    };
+  });
+}
+
+/**
+ * HLS master playlist pointing at each rendition's `<name>/index.m3u8`
+ */
+export function masterPlaylist(renditions: Rendition[], hasAudio: boolean): string {
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:3'];
+
+  for (const rendition of renditions) {
+    const kbps = rendition.videoBitrate * 1.1 + (hasAudio ? AUDIO_BITRATE : 0);
+    lines.push(
+      `#EXT-X-STREAM-INF:BANDWIDTH=${Math.round(kbps * 1000)},RESOLUTION=${rendition.width}x${rendition.height}`,
+      `${rendition.name}/index.m3u8`
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * When to take the poster frame: a little way in, past any fade from black
+ */
+export function posterTime(duration: number): number {
+  return Math.min(5, duration / 10);
+}
+
+function encodeArgs(rendition: Rendition, hasAudio: boolean): string[] {
+  const kbps = rendition.videoBitrate;
+
+  return [
+    '-vf',
+    `scale=${rendition.width}:${rendition.height}`,
+    '-c:v',
+    'libx264',
+    '-preset',
+    'veryfast',
+    '-profile:v',
+    'main',
+    '-pix_fmt',
+    'yuv420p',
+    '-b:v',
+    `${kbps}k`,
+    '-maxrate',
+    `${Math.round(kbps * 1.1)}k`,
+    '-bufsize',
+    `${kbps * 2}k`,
+    '-force_key_frames',
+    `expr:gte(t,n_forced*${SEGMENT_SECONDS})`,
+    ...(hasAudio ? ['-c:a', 'aac', '-b:a', `${AUDIO_BITRATE}k`, '-ac', '2'] : ['-an']),
+  ];
+}
+
+/**
+ * Transcode `input` into `outputDir`: hls/master.m3u8 with a directory per
+ * rendition, a progressive MP4 and poster.jpg. Fails once `deadline` (epoch
+ * ms) passes.
+ */
+export async function transcodeVideo(
+  input: string,
+  outputDir: string,
+  probe: VideoProbe,
+  deadline: number
+): Promise<TranscodedVideo> {
+  const renditions = renditionLadder(probe.width, probe.height);
+  const playback =
+    renditions.find((r) => Math.min(r.width, r.height) <= PLAYBACK_HEIGHT) ||
+    renditions[renditions.length - 1];
+  const transcode = (args: string[]) =>
+    ffmpeg(['-loglevel', 'error', ...args], { timeoutMs: deadline - Date.now() });
+
+  // One rendition at a time; each already keeps the CPU busy
+  for (const rendition of renditions) {
+    const dir = path.join(outputDir, 'hls', rendition.name);
+    await mkdir(dir, { recursive: true });
+
+    await transcode([
+      ...inputArgs(input, VIDEO_FORMATS),
+      ...encodeArgs(rendition, probe.hasAudio),
+      '-f',
+      'hls',
+      '-hls_time',
+      String(SEGMENT_SECONDS),
+      '-hls_playlist_type',
+      'vod',
+      '-hls_segment_filename',
+      path.join(dir, 'segment_%03d.ts'),
+      path.join(dir, 'index.m3u8'),
+    ]);
+  }
+
+  await writeFile(
+    path.join(outputDir, 'hls', 'master.m3u8'),
+    masterPlaylist(renditions, probe.hasAudio)
+  );
+
+  const playbackFile = `${playback.name}.mp4`;
+  await transcode([
+    ...inputArgs(input, VIDEO_FORMATS),
+    ...encodeArgs(playback, probe.hasAudio),
+    '-movflags',
+    '+faststart',
+    path.join(outputDir, playbackFile),
+  ]);
+
+  await transcode([
+    '-ss',
+    String(posterTime(probe.duration)),
+    ...inputArgs(input, VIDEO_FORMATS),
+    '-frames:v',
+    '1',
+    '-vf',
+    `scale=${playback.width}:${playback.height}`,
+    '-q:v',
+    '3',
+    path.join(outputDir, 'poster.jpg'),
+  ]);
+
+  return {
+    renditions,
+    hls: 'hls/master.m3u8',
+    playback: playbackFile,
+    poster: 'poster.jpg',
+  };
+}
+
+// ============================================================================
+// PROCESSING
+// ============================================================================
+
+/**
+ * Download a claimed video, transcode it, upload the results and mark it
+ * ready
+ */
+async function processMediaVideo(media: Media): Promise<void> {
+  if (!media.storage_key) {
+    throw new Error('Media has no storage key');
+  }
+
+  const baseUrl = media.url.slice(0, media.url.length - media.storage_key.length);
+  const variantKey = (file: string) => `variants/${media.id}/${file}`;
+  const workDir = await mkdtemp(path.join(tmpdir(), 'video-'));
+  const deadline = Date.now() + TRANSCODE_TIMEOUT_MINUTES * 60 * 1000;
+
+  try {
+    const input = path.join(workDir, 'source');
+    const outputDir = path.join(workDir, 'output');
+
+    await downloadFileToPath(media.storage_key, input);
+    const probe = await probeVideo(input);
+    const transcoded = await transcodeVideo(input, outputDir, probe, deadline);
+
+    const files = await readdir(outputDir, { recursive: true, withFileTypes: true });
+    for (const file of files) {
+      if (!file.isFile()) continue;
+
+      const fullPath = path.join(file.parentPath, file.name);
+      const relative = path.relative(outputDir, fullPath).split(path.sep).join('/');
+
+      await uploadFile(
+        await readFile(fullPath),
+        variantKey(relative),
+        CONTENT_TYPES[path.extname(file.name)] || 'application/octet-stream',
+        VARIANT_CACHE_CONTROL
+      );
+    }
+
+    const duration = Math.round(probe.duration);
+    const poster = `${baseUrl}${variantKey(transcoded.poster)}`;
+
+    const supabase = await createServiceClient();
+    const { error } = await supabase
+      .from('media')
+      .update({
+        width: probe.width,
+        height: probe.height,
+        duration,
+        thumbnail_url: media.thumbnail_url || poster,
+        hls_url: `${baseUrl}${variantKey(transcoded.hls)}`,
+        playback_url: `${baseUrl}${variantKey(transcoded.playback)}`,
+        processing_status: 'ready',
+        processing_error: null,
+        processed_at: new Date().toISOString(),
+      })
+      .eq('id', media.id);
+
+    if (error) {
+      throw error;
+    }
+
+    await updatePostsUsingMedia(media.url, { duration, poster: media.thumbnail_url || poster });
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Claim and transcode videos waiting after upload. Does nothing where
+ * ffmpeg is not installed.
+ */
+export async function processPendingVideos(limit = 1): Promise<ProcessingResult> {
+  if (!(await isFfmpegAvailable())) {
+    return { processed: 0, succeeded: 0, failed: 0 };
+  }
+
+  return processPendingMedia('video', processMediaVideo, {
+    limit,
+    timeoutMinutes: CLAIM_TIMEOUT_MINUTES,
+  });
+}
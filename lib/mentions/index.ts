@@ -0,0 +1,108 @@
+/**
+ * @mentions
+ * Resolves mentioned usernames against profiles and delivers `mention`
+ * notifications, honouring each user's notify_mentions preference
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { dispatchNotification } from '@/lib/notifications';
+
+export {
+  extractMentions,
+  extractMentionsFromHtml,
+  splitMentions,
+  linkMentionsInHtml,
+  getActiveMention,
+  type MentionSegment,
+} from './parse';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MentionTarget {
+  id: string;
+  username: string;
+  /** notify_mentions preference (defaults to true) */
+  notify: boolean;
+}
+
+export interface MentionSource {
+  actorId: string;
+  actorName: string;
+  postId: string;
+  postTitle: string;
+  commentId?: string;
+  /** Shown under the notification title */
+  excerpt?: string;
+}
+
+// Keeps a pasted wall of @handles from fanning out into hundreds of notifications
+const MAX_MENTIONS = 20;
+
+// ============================================================================
+// MENTIONS
+// ============================================================================
+
+/**
+ * Look up mentioned usernames. Unknown and banned usernames are dropped.
+ */
+export async function resolveMentions(usernames: string[]): Promise<MentionTarget[]> {
+  if (usernames.length === 0) return [];
+
+  try {
+    const supabase = await createServiceClient();
+
+    const { data, error } = await supabase.rpc('resolve_mentions', {
+      p_usernames: usernames.slice(0, MAX_MENTIONS).map((username) => username.toLowerCase()),
+    });
+
+    if (error) {
+      logger.error('[resolveMentions] Error', error, { count: usernames.length });
+      return [];
+    }
+
+    return (data || []) as MentionTarget[];
+  } catch (error) {
+    logger.error('[resolveMentions] Error', error);
+    return [];
+  }
+}
+
+/**
+ * Notify mentioned users, skipping the author, anyone in `alreadyNotified`
+ * and anyone who has turned mention notifications off.
+ *
+ * Never throws: a failed notification must not fail the post or comment.
+ */
+export async function notifyMentions(
+  targets: MentionTarget[],
+  source: MentionSource,
+  alreadyNotified: string[] = []
+): Promise<void> {
+  const skip = new Set(alreadyNotified.map((username) => username.toLowerCase()));
+  const recipients = targets.filter(
+    (target) =>
+      target.notify && target.id !== source.actorId && !skip.has(target.username.toLowerCase())
+  );
+
+  const title = source.commentId
+    ? `${source.actorName} mentioned you in a comment`
+    : `${source.actorName} mentioned you in "${source.postTitle}"`;
+
+  for (const recipient of recipients) {
+    await dispatchNotification({
+      userId: recipient.id,
+      notification: {
+        type: 'mention',
+        title,
+        message: source.excerpt?.slice(0, 100),
+        postId: source.postId,
+        commentId: source.commentId,
+        actorId: source.actorId,
+        metadata: { post_title: source.postTitle },
+      },
+    });
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * @mention parsing shared by the server and the editors. No server imports
+ * here so client components can use it.
+ */
+
+// Usernames follow usernameSchema: 3-30 letters, numbers and underscores.
+// The lookbehind keeps emails (sam@example.com) and repeated @@ from matching.
+const MENTION_PATTERN = /(?<![A-Za-z0-9_@/.])@([A-Za-z0-9_]{3,30})(?![A-Za-z0-9_])/g;
+
+export type MentionSegment =
+  | { type: 'text'; value: string }
+  | { type: 'mention'; value: string; username: string };
+
+/**
+ * Unique, lowercased usernames mentioned in plain text, in order of appearance
+ */
+export function extractMentions(text: string): string[] {
+  const usernames = new Set<string>();
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    usernames.add(match[1].toLowerCase());
+  }
+
+  return [...usernames];
+}
+
+/**
+ * Unique usernames mentioned in editor HTML. Text inside code blocks is ignored.
+ */
+export function extractMentionsFromHtml(html: string): string[] {
+  const text = html
+    .replace(/<(pre|code)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ');
+
+  return extractMentions(text);
+}
+
+/**
+ * Split plain text into text and mention segments for rendering.
+ * When `known` is given, only those usernames become mentions.
+ */
+export function splitMentions(text: string, known?: string[]): MentionSegment[] {
+  const allowed = known && new Set(known.map((username) => username.toLowerCase()));
+  const segments: MentionSegment[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const username = match[1].toLowerCase();
+    if (allowed && !allowed.has(username)) continue;
+
+    if (match.index > last) {
+      segments.push({ type: 'text', value: text.slice(last, match.index) });
+    }
+    segments.push({ type: 'mention', value: match[0], username });
+    last = match.index + match[0].length;
+  }
+
+  if (last < text.length) {
+    segments.push({ type: 'text', value: text.slice(last) });
+  }
+
+  return segments;
+}
+
+/**
+ * Wrap mentions of known usernames in editor HTML with profile links.
+ * Existing links and code are left alone, so running it twice is safe.
+ */
+export function linkMentionsInHtml(html: string, usernames: string[]): string {
+  if (usernames.length === 0) return html;
+
+  const allowed = new Set(usernames.map((username) => username.toLowerCase()));
+  let skipDepth = 0;
+
+  return html
+    .split(/(<[^>]+>)/)
+    .map((part) => {
+      const tag = part.match(/^<(\/)?(a|code|pre)\b/i);
+      if (tag) {
+        skipDepth = Math.max(0, skipDepth + (tag[1] ? -1 : 1));
+        return part;
+      }
+      if (part.startsWith('<') || skipDepth > 0) return part;
+
+      return part.replace(MENTION_PATTERN, (mention, name: string) => {
+        const username = name.toLowerCase();
+        return allowed.has(username)
+          ? `<a href="/contributors/${username}" class="mention" data-mention="${username}">${mention}</a>`
+          : mention;
+      });
+    })
+    .join('');
+}
+
+/**
+ * The partial @username being typed just before the caret, for the picker
+ */
+export function getActiveMention(textBeforeCaret: string): { query: string; start: number } | null {
+  const match = textBeforeCaret.match(/(?:^|[^A-Za-z0-9_@/.])@([A-Za-z0-9_]{0,30})$/);
+  if (!match) return null;
+
+  return { query: match[1], start: textBeforeCaret.length - match[1].length - 1 };
+}
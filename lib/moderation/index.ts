@@ -0,0 +1,386 @@
+/**
+ * Moderation queue
+ * Merges pending posts, flagged comments, open content reports and pending
+ * contributor applications into one prioritised list, and applies moderator
+ * decisions to whichever table an item lives in
+ */
+
+import { ApiError } from '@/lib/api/response';
+import { logger } from '@/lib/logger';
+import { invalidatePosts } from '@/lib/cache';
+import {
+  getPendingPosts,
+  getPostById,
+  updatePostStatus,
+  type PostWithDetails,
+} from '@/lib/db/posts';
+import {
+  getFlaggedComments,
+  hideComment,
+  deleteComment,
+  unflagComment,
+  type CommentWithAuthor,
+} from '@/lib/db/comments';
+import {
+  listReports,
+  closeOpenReports,
+  getReporterTrust,
+  getReportTarget,
+  type ReportWithDetails,
+} from '@/lib/db/reports';
+import {
+  getPendingApplications,
+  approveApplication,
+  rejectApplication,
+  type ApplicationWithReviewer,
+} from '@/lib/db/applications';
+import {
+  listModerationAssignments,
+  checkModerationAssignment,
+  releaseModerationItem,
+  type ModerationAssignment,
+  type ModerationItemType,
+} from '@/lib/db/moderation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ModerationAction = 'approve' | 'reject' | 'hide';
+
+export interface ModerationQueueItem {
+  /** `${type}:${id}` - unique across the queue */
+  key: string;
+  type: ModerationItemType;
+  id: string;
+  title: string;
+  summary: string | null;
+  /** Public page for the content, where there is one */
+  href: string | null;
+  author: {
+    username: string | null;
+    display_name: string | null;
+  } | null;
+  /** Why the item is in the queue, e.g. "Awaiting review", "Reported: spam" */
+  reasons: string[];
+  report_count: number;
+  /** Oldest outstanding signal (submission, flag or report) */
+  waiting_since: string;
+  priority: number;
+  assignment: {
+    moderator_id: string;
+    name: string;
+    assigned_at: string;
+  } | null;
+}
+
+export interface ModerationQueueSources {
+  pendingPosts: PostWithDetails[];
+  flaggedComments: CommentWithAuthor[];
+  reports: ReportWithDetails[];
+  applications: ApplicationWithReviewer[];
+  assignments: ModerationAssignment[];
+  /** Reporter id -> share of their past reports that were upheld (0-1) */
+  reporterTrust: Record<string, number>;
+}
+
+// Each report adds up to REPORT_WEIGHT points, scaled by the reporter's trust
+const REPORT_WEIGHT = 10;
+
+// Waiting items gain AGE_WEIGHT points per day, capped so old items can't
+// drown out a burst of fresh reports
+const AGE_WEIGHT = 2;
+const MAX_AGE_DAYS = 7;
+
+// Upper bound per source when assembling the queue
+const SOURCE_LIMIT = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// QUEUE
+// ============================================================================
+
+/**
+ * Priority score: trust-weighted report count plus capped age
+ */
+export function scoreQueueItem(
+  item: { reporterTrust: number[]; waitingSince: string },
+  now: Date = new Date()
+): number {
+  const reports = item.reporterTrust.reduce((sum, trust) => sum + trust * REPORT_WEIGHT, 0);
+  const ageDays = Math.max(0, (now.getTime() - new Date(item.waitingSince).getTime()) / DAY_MS);
+
+  return Math.round((reports + Math.min(ageDays, MAX_AGE_DAYS) * AGE_WEIGHT) * 100) / 100;
+}
+
+function earliest(a: string, b: string): string {
+  return new Date(a).getTime() <= new Date(b).getTime() ? a : b;
+}
+
+function truncate(text: string | null | undefined, length = 200): string | null {
+  if (!text) return null;
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  hate_speech: 'hate speech',
+  off_topic: 'off topic',
+};
+
+/**
+ * Merge queue sources into one list, highest priority first
+ */
+export function buildModerationQueue(
+  sources: ModerationQueueSources,
+  now: Date = new Date()
+): ModerationQueueItem[] {
+  const items = new Map<string, ModerationQueueItem>();
+  const trust = new Map<string, number[]>();
+
+  const upsert = (
+    type: ModerationItemType,
+    id: string,
+    init: () => Omit<ModerationQueueItem, 'key' | 'type' | 'id' | 'reasons' | 'report_count' | 'priority' | 'assignment'>
+  ): ModerationQueueItem => {
+    const key = `${type}:${id}`;
+    let item = items.get(key);
+    if (!item) {
+      item = { key, type, id, reasons: [], report_count: 0, priority: 0, assignment: null, ...init() };
+      items.set(key, item);
+      trust.set(key, []);
+    }
+    return item;
+  };
+
+  for (const post of sources.pendingPosts) {
+    const item = upsert('post', post.id, () => ({
+      title: post.title || 'Untitled',
+      summary: truncate(post.excerpt),
+      href: null,
+      author: post.author,
+      waiting_since: post.created_at,
+    }));
+    item.reasons.push('Awaiting review');
+  }
+
+  for (const comment of sources.flaggedComments) {
+    const item = upsert('comment', comment.id, () => ({
+      title: `Comment by ${comment.author?.display_name || comment.author?.username || 'unknown'}`,
+      summary: truncate(comment.content),
+      href: null,
+      author: comment.author,
+      waiting_since: comment.updated_at || comment.created_at,
+    }));
+    item.reasons.push('Flagged');
+  }
+
+  for (const report of sources.reports) {
+    const target = getReportTarget(report);
+
+    const item = upsert(target.type, target.id, () => {
+      if (target.type === 'post') {
+        return {
+          title: report.post?.title || 'Untitled',
+          summary: null,
+          href: report.post?.status === 'published' ? `/articles/${report.post.slug}` : null,
+          author: null,
+          waiting_since: report.created_at,
+        };
+      }
+      if (target.type === 'comment') {
+        return {
+          title: 'Reported comment',
+          summary: truncate(report.comment?.content),
+          href: null,
+          author: null,
+          waiting_since: report.created_at,
+        };
+      }
+      const user = report.reported_user;
+      return {
+        title: user?.display_name || user?.username || 'Unknown user',
+        summary: null,
+        href: user?.username ? `/contributors/${user.username}` : null,
+        author: user ? { username: user.username, display_name: user.display_name } : null,
+        waiting_since: report.created_at,
+      };
+    });
+
+    item.report_count++;
+    item.waiting_since = earliest(item.waiting_since, report.created_at);
+    trust.get(item.key)?.push(sources.reporterTrust[report.reporter_id] ?? 0.5);
+
+    const reason = `Reported: ${REASON_LABELS[report.reason] ?? report.reason}`;
+    if (!item.reasons.includes(reason)) {
+      item.reasons.push(reason);
+    }
+  }
+
+  for (const application of sources.applications) {
+    const item = upsert('application', application.id, () => ({
+      title: `Application from ${application.full_name}`,
+      summary: truncate(application.first_piece_pitch),
+      href: '/admin/applications',
+      author: null,
+      waiting_since: application.created_at,
+    }));
+    item.reasons.push('Contributor application');
+  }
+
+  for (const assignment of sources.assignments) {
+    const item = items.get(`${assignment.item_type}:${assignment.item_id}`);
+    if (item) {
+      item.assignment = {
+        moderator_id: assignment.moderator_id,
+        name: assignment.moderator?.display_name || assignment.moderator?.username || 'Moderator',
+        assigned_at: assignment.assigned_at,
+      };
+    }
+  }
+
+  for (const item of items.values()) {
+    item.priority = scoreQueueItem(
+      { reporterTrust: trust.get(item.key) ?? [], waitingSince: item.waiting_since },
+      now
+    );
+  }
+
+  return [...items.values()].sort(
+    (a, b) => b.priority - a.priority || a.waiting_since.localeCompare(b.waiting_since)
+  );
+}
+
+/**
+ * Load the moderation queue
+ */
+export async function getModerationQueue(
+  options: {
+    type?: ModerationItemType;
+    /** 'me' / 'unassigned' filter relative to moderatorId */
+    assigned?: 'me' | 'unassigned' | 'all';
+    moderatorId?: string;
+    limit?: number;
+  } = {}
+): Promise<{ items: ModerationQueueItem[]; total: number }> {
+  const { type, assigned = 'all', moderatorId, limit = 50 } = options;
+
+  const [posts, comments, reports, applications, assignments] = await Promise.all([
+    getPendingPosts({ limit: SOURCE_LIMIT }),
+    getFlaggedComments({ limit: SOURCE_LIMIT }),
+    listReports({ status: 'open', limit: SOURCE_LIMIT * 2 }),
+    getPendingApplications({ limit: SOURCE_LIMIT }),
+    listModerationAssignments(),
+  ]);
+
+  const reporterTrust = await getReporterTrust([
+    ...new Set(reports.reports.map((report) => report.reporter_id)),
+  ]);
+
+  const queue = buildModerationQueue({
+    pendingPosts: posts.posts,
+    flaggedComments: comments.comments,
+    reports: reports.reports,
+    applications: applications.applications,
+    assignments,
+    reporterTrust,
+  }).filter((item) => {
+    if (type && item.type !== type) return false;
+    if (assigned === 'me') return item.assignment?.moderator_id === moderatorId;
+    if (assigned === 'unassigned') return !item.assignment;
+    return true;
+  });
+
+  return { items: queue.slice(0, limit), total: queue.length };
+}
+
+// ============================================================================
+// ACTIONS
+// ============================================================================
+
+/**
+ * Apply a moderator decision to a queue item.
+ *
+ * approve - publish a pending post / restore a comment / approve an
+ *           application; open reports are dismissed
+ * reject  - reject a pending post (archive a published one) / delete a
+ *           comment / reject an application; open reports are resolved
+ * hide    - archive a post / hide a comment; open reports are resolved
+ */
+export async function applyModerationAction(input: {
+  type: ModerationItemType;
+  id: string;
+  action: ModerationAction;
+  moderatorId: string;
+  reason?: string;
+}): Promise<void> {
+  const { type, id, action, moderatorId, reason } = input;
+
+  // Someone else is working this item
+  await checkModerationAssignment(type, id, moderatorId);
+
+  let resolution: string;
+
+  switch (type) {
+    case 'post': {
+      const post = await getPostById(id);
+      if (action === 'approve') {
+        if (post.status === 'pending') {
+          await updatePostStatus(id, 'published');
+        }
+        resolution = 'Post approved';
+      } else if (action === 'reject' && post.status === 'pending') {
+        await updatePostStatus(id, 'rejected', { rejection_reason: reason });
+        resolution = 'Post rejected';
+      } else {
+        await updatePostStatus(id, 'archived');
+        resolution = 'Post archived';
+      }
+      invalidatePosts();
+      break;
+    }
+
+    case 'comment':
+      if (action === 'approve') {
+        await unflagComment(id);
+        resolution = 'Comment restored';
+      } else if (action === 'hide') {
+        await hideComment(id);
+        resolution = 'Comment hidden';
+      } else {
+        await deleteComment(id);
+        resolution = 'Comment deleted';
+      }
+      break;
+
+    case 'user':
+      // Account-level action is taken from the users admin
+      if (action === 'hide') {
+        throw ApiError.badRequest('Users cannot be hidden - reject the report and act on the account');
+      }
+      resolution = action === 'approve' ? 'No action needed' : 'Reported user actioned';
+      break;
+
+    case 'application':
+      if (action === 'approve') {
+        await approveApplication(id, moderatorId, reason);
+        resolution = 'Application approved';
+      } else if (action === 'reject') {
+        await rejectApplication(id, moderatorId, reason);
+        resolution = 'Application rejected';
+      } else {
+        throw ApiError.badRequest('Applications cannot be hidden');
+      }
+      break;
+  }
+
+  if (type !== 'application') {
+    await closeOpenReports(type, id, moderatorId, action === 'approve' ? 'dismissed' : 'resolved', {
+      resolution: reason ? `${resolution}: ${reason}` : resolution,
+    });
+  }
+
+  await releaseModerationItem(type, id, moderatorId);
+
+  logger.info('[moderation] Item actioned', { type, id, action, moderatorId });
+}
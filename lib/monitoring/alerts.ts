@@ -403,7 +403,7 @@ export function initializeAlerts(): void {
   registerCondition(highLatencyCondition);
 
   // Register email channel if configured
-  if (config.resendApiKey && config.adminEmail) {
+  if (config.features.emailNotifications && config.adminEmail) {
     registerChannel(emailChannel);
   }
 
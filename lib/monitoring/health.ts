@@ -112,7 +112,7 @@ function checkEmail(): {
   configured: boolean;
   error?: string;
 } {
-  const configured = !!config.resendApiKey;
+  const configured = config.features.emailNotifications;
   
   if (!configured) {
     return {
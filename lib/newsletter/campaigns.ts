@@ -0,0 +1,463 @@
+/**
+ * Newsletter campaigns
+ * Admins compose a newsletter from published posts plus free text, send
+ * themselves a test, then send it. Sending queues one delivery row per
+ * active subscriber; the send-campaigns cron works through them in batches.
+ */
+
+import { createClient, createServiceClient } from '@/lib/supabase/server';
+import { ApiError } from '@/lib/api/response';
+import { logger } from '@/lib/logger';
+import { recordAuditEvent } from '@/lib/audit';
+import { sendBulkEmail, sendEmail } from '@/lib/email/client';
+import { newsletterCampaignEmail } from '@/lib/email/templates';
+import type { DigestPost } from '@/lib/digest';
+import { newsletterEmailOptions } from '@/lib/newsletter';
+
+// Note: tables and functions are created by 020_newsletter_campaigns.sql
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://scroungers.co';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CampaignStatus = 'draft' | 'sending' | 'sent';
+
+export interface CampaignStats {
+  /** Waiting to be sent, including deliveries in flight */
+  queued: number;
+  sent: number;
+  failed: number;
+}
+
+export interface NewsletterCampaign {
+  id: string;
+  subject: string;
+  intro: string;
+  post_ids: string[];
+  status: CampaignStatus;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  sent_at: string | null;
+  completed_at: string | null;
+}
+
+export interface NewsletterCampaignWithStats extends NewsletterCampaign {
+  stats: CampaignStats;
+}
+
+export interface CampaignInput {
+  subject: string;
+  intro?: string;
+  post_ids?: string[];
+}
+
+export interface CampaignBatchResult {
+  sent: number;
+  failed: number;
+  /** Campaigns that finished sending in this run */
+  completed: string[];
+}
+
+interface ClaimedDelivery {
+  id: string;
+  campaign_id: string;
+  subscriber_id: string;
+  email: string;
+  subscriber_status: string;
+}
+
+// Deliveries claimed per cron run
+const BATCH_SIZE = 100;
+
+const EMPTY_STATS: CampaignStats = { queued: 0, sent: 0, failed: 0 };
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function getCampaignStats(campaignIds: string[]): Promise<Map<string, CampaignStats>> {
+  const stats = new Map<string, CampaignStats>();
+  if (campaignIds.length === 0) return stats;
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc('newsletter_campaign_stats', {
+    p_campaign_ids: campaignIds,
+  });
+
+  if (error) {
+    logger.error('[getCampaignStats] Error', error);
+    return stats;
+  }
+
+  for (const row of (data || []) as {
+    campaign_id: string;
+    queued: number;
+    sent: number;
+    failed: number;
+  }[]) {
+    stats.set(row.campaign_id, {
+      queued: Number(row.queued),
+      sent: Number(row.sent),
+      failed: Number(row.failed),
+    });
+  }
+
+  return stats;
+}
+
+/**
+ * The campaign's posts in the order they were picked. Posts unpublished since
+ * are dropped.
+ */
+async function getCampaignPosts(postIds: string[]): Promise<DigestPost[]> {
+  if (postIds.length === 0) return [];
+
+  const supabase = await createServiceClient();
+  const { data, error } = await supabase
+    .from('posts')
+    .select(
+      `
+      id, title, slug, excerpt,
+      author:profiles!posts_author_id_fkey(display_name, username),
+      category:categories(name)
+    `
+    )
+    .in('id', postIds)
+    .eq('status', 'published');
+
+  if (error) {
+    logger.error('[getCampaignPosts] Error', error);
+    throw ApiError.badRequest('Failed to load campaign posts');
+  }
+
+  const posts = (data || []) as unknown as {
+    id: string;
+    title: string;
+    slug: string;
+    excerpt: string | null;
+    author: { display_name: string | null; username: string } | null;
+    category: { name: string } | null;
+  }[];
+
+  return postIds.flatMap((id) => {
+    const post = posts.find((p) => p.id === id);
+    if (!post) return [];
+
+    return {
+      title: post.title,
+      slug: post.slug,
+      excerpt: post.excerpt,
+      category_name: post.category?.name ?? null,
+      author_name: post.author?.display_name || post.author?.username || null,
+    };
+  });
+}
+
+async function markDelivery(id: string, status: 'sent' | 'failed', error?: string): Promise<void> {
+  const supabase = await createServiceClient();
+
+  const { error: updateError } = await supabase
+    .from('newsletter_campaign_deliveries')
+    .update({ status, error: error ?? null, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (updateError) {
+    logger.error('[markDelivery] Error', updateError, { deliveryId: id, status });
+  }
+}
+
+// ============================================================================
+// CAMPAIGNS
+// ============================================================================
+
+export async function listCampaigns(limit = 50): Promise<NewsletterCampaignWithStats[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('newsletter_campaigns')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    logger.error('[listCampaigns] Error', error);
+    throw ApiError.badRequest('Failed to fetch campaigns');
+  }
+
+  const campaigns = (data || []) as NewsletterCampaign[];
+  const stats = await getCampaignStats(campaigns.map((c) => c.id));
+
+  return campaigns.map((campaign) => ({
+    ...campaign,
+    stats: stats.get(campaign.id) ?? EMPTY_STATS,
+  }));
+}
+
+export async function getCampaign(id: string): Promise<NewsletterCampaignWithStats> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('newsletter_campaigns')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('[getCampaign] Error', error, { campaignId: id });
+    throw ApiError.badRequest('Failed to fetch campaign');
+  }
+
+  if (!data) {
+    throw ApiError.notFound('Campaign');
+  }
+
+  const stats = await getCampaignStats([id]);
+
+  return { ...(data as NewsletterCampaign), stats: stats.get(id) ?? EMPTY_STATS };
+}
+
+export async function createCampaign(
+  input: CampaignInput,
+  adminId: string
+): Promise<NewsletterCampaign> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('newsletter_campaigns')
+    .insert({
+      subject: input.subject,
+      intro: input.intro ?? '',
+      post_ids: input.post_ids ?? [],
+      created_by: adminId,
+    })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    logger.error('[createCampaign] Error', error);
+    throw ApiError.badRequest('Failed to create campaign');
+  }
+
+  return data as NewsletterCampaign;
+}
+
+/**
+ * Edit a draft. Campaigns can't change once sending has started.
+ */
+export async function updateCampaign(
+  id: string,
+  input: Partial<CampaignInput>
+): Promise<NewsletterCampaign> {
+  const campaign = await getCampaign(id);
+
+  if (campaign.status !== 'draft') {
+    throw ApiError.conflict('Only draft campaigns can be edited');
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('newsletter_campaigns')
+    .update({ ...input, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'draft')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    logger.error('[updateCampaign] Error', error, { campaignId: id });
+    throw ApiError.badRequest('Failed to update campaign');
+  }
+
+  if (!data) {
+    throw ApiError.conflict('Only draft campaigns can be edited');
+  }
+
+  return data as NewsletterCampaign;
+}
+
+/**
+ * Render the campaign email with the given unsubscribe link
+ */
+export async function renderCampaign(
+  campaign: Pick<NewsletterCampaign, 'subject' | 'intro' | 'post_ids'>,
+  unsubscribeUrl: string = `${SITE_URL}/unsubscribe`
+): Promise<{ html: string; subject: string }> {
+  const posts = await getCampaignPosts(campaign.post_ids);
+  return newsletterCampaignEmail(campaign, posts, unsubscribeUrl);
+}
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+/**
+ * Send the campaign to one address, straight away. The unsubscribe link is a
+ * placeholder since the address may not be a subscriber.
+ */
+export async function sendCampaignTest(id: string, email: string): Promise<void> {
+  const campaign = await getCampaign(id);
+  const { html, subject } = await renderCampaign(campaign);
+
+  const result = await sendEmail({
+    to: email,
+    subject: `[Test] ${subject}`,
+    html,
+    tags: [{ name: 'type', value: 'newsletter_test' }],
+  });
+
+  if (!result.success) {
+    throw ApiError.badRequest(result.error || 'Failed to send test email');
+  }
+}
+
+/**
+ * Queue a draft for every active subscriber. Deliveries are queued before the
+ * campaign moves to sending, so the cron never sees it half-queued.
+ */
+export async function sendCampaign(id: string, adminId: string): Promise<{ queued: number }> {
+  const campaign = await getCampaign(id);
+
+  if (campaign.status !== 'draft') {
+    throw ApiError.conflict('This campaign has already been sent');
+  }
+
+  const service = await createServiceClient();
+
+  const { data: queued, error: queueError } = await service.rpc('queue_newsletter_campaign', {
+    p_campaign_id: id,
+  });
+
+  if (queueError) {
+    logger.error('[sendCampaign] Failed to queue deliveries', queueError, { campaignId: id });
+    throw ApiError.badRequest('Failed to send campaign');
+  }
+
+  const { data, error } = await service
+    .from('newsletter_campaigns')
+    .update({
+      status: 'sending',
+      sent_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .eq('status', 'draft')
+    .select('id');
+
+  if (error) {
+    logger.error('[sendCampaign] Error', error, { campaignId: id });
+    throw ApiError.badRequest('Failed to send campaign');
+  }
+
+  if ((data || []).length === 0) {
+    throw ApiError.conflict('This campaign has already been sent');
+  }
+
+  await recordAuditEvent({
+    action: 'admin.bulk_action',
+    actorId: adminId,
+    target: { type: 'newsletter_campaign', id },
+    before: { status: 'draft' },
+    after: { status: 'sending' },
+    metadata: { subject: campaign.subject, recipients: Number(queued ?? 0) },
+  });
+
+  return { queued: Number(queued ?? 0) };
+}
+
+/**
+ * Send the next batch of queued deliveries, across all sending campaigns,
+ * then mark campaigns with nothing left as sent
+ */
+export async function sendCampaignBatch(limit: number = BATCH_SIZE): Promise<CampaignBatchResult> {
+  const result: CampaignBatchResult = { sent: 0, failed: 0, completed: [] };
+  const supabase = await createServiceClient();
+
+  const { data, error } = await supabase.rpc('claim_campaign_deliveries', { p_limit: limit });
+
+  if (error) {
+    logger.error('[sendCampaignBatch] Failed to claim deliveries', error);
+    return result;
+  }
+
+  const byCampaign = new Map<string, ClaimedDelivery[]>();
+  for (const delivery of (data || []) as ClaimedDelivery[]) {
+    byCampaign.set(delivery.campaign_id, [
+      ...(byCampaign.get(delivery.campaign_id) || []),
+      delivery,
+    ]);
+  }
+
+  for (const [campaignId, deliveries] of byCampaign) {
+    // Subscribers who left after the campaign was queued
+    const inactive = deliveries.filter((d) => d.subscriber_status !== 'active');
+    await Promise.all(inactive.map((d) => markDelivery(d.id, 'failed', 'unsubscribed')));
+    result.failed += inactive.length;
+
+    const recipients = new Map(
+      deliveries.filter((d) => d.subscriber_status === 'active').map((d) => [d.email, d])
+    );
+    if (recipients.size === 0) continue;
+
+    try {
+      const { data: campaign, error: campaignError } = await supabase
+        .from('newsletter_campaigns')
+        .select('subject, intro, post_ids')
+        .eq('id', campaignId)
+        .single();
+
+      if (campaignError || !campaign) throw campaignError;
+
+      const posts = await getCampaignPosts(campaign.post_ids as string[]);
+      const render = (unsubscribeUrl: string) =>
+        newsletterCampaignEmail(
+          campaign as Pick<NewsletterCampaign, 'subject' | 'intro'>,
+          posts,
+          unsubscribeUrl
+        );
+
+      // Every address sendBulkEmail hands back is one of ours
+      const deliveryFor = (to: string) => recipients.get(to) as ClaimedDelivery;
+
+      const { sent, failed } = await sendBulkEmail(
+        [...recipients.keys()],
+        (to) => newsletterEmailOptions({ id: deliveryFor(to).subscriber_id, email: to }, render),
+        (to, sendResult) =>
+          markDelivery(
+            deliveryFor(to).id,
+            sendResult.success ? 'sent' : 'failed',
+            sendResult.success ? undefined : sendResult.error
+          )
+      );
+
+      result.sent += sent;
+      result.failed += failed;
+    } catch (err) {
+      // Left in 'sending'; claim_campaign_deliveries retries them after 15 minutes
+      logger.error('[sendCampaignBatch] Failed to send campaign batch', err, { campaignId });
+    }
+  }
+
+  const { data: completed, error: completeError } = await supabase.rpc(
+    'complete_newsletter_campaigns'
+  );
+
+  if (completeError) {
+    logger.error('[sendCampaignBatch] Failed to complete campaigns', completeError);
+  } else {
+    result.completed = (completed || []) as string[];
+  }
+
+  if (result.sent + result.failed > 0) {
+    logger.info('[sendCampaignBatch] Sent campaign emails', {
+      sent: result.sent,
+      failed: result.failed,
+      completed: result.completed.length,
+    });
+  }
+
+  return result;
+}
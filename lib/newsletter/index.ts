@@ -0,0 +1,233 @@
+/**
+ * Newsletter subscriptions
+ * Double opt-in: new subscribers stay pending until they follow the emailed
+ * confirmation link, and unsubscribing needs a signed per-subscriber token
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import { ApiError } from '@/lib/api/response';
+import { logger } from '@/lib/logger';
+import { queueEmail, startEmailQueue } from '@/lib/email/queue';
+import type { EmailOptions } from '@/lib/email/client';
+import { newsletterWelcomeEmail } from '@/lib/email/templates';
+import {
+  createNewsletterConfirmToken,
+  createNewsletterUnsubscribeToken,
+  getNewsletterConfirmUrl,
+  getUnsubscribeUrl,
+  listUnsubscribeHeaders,
+  verifyNewsletterConfirmToken,
+  verifyUnsubscribeToken,
+} from '@/lib/email/tokens';
+
+// Note: newsletter_subscribers is created by migration 001; the pending
+// status and confirmation columns by 019_newsletter_double_opt_in.sql
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface NewsletterRecipient {
+  id: string;
+  email: string;
+}
+
+// Signing up again within this window doesn't send another confirmation email
+const CONFIRMATION_RESEND_MS = 10 * 60 * 1000;
+
+// ============================================================================
+// SUBSCRIBE
+// ============================================================================
+
+/**
+ * Start a subscription and email the confirmation link. Pending, lapsed and
+ * bounced addresses get a fresh link.
+ */
+export async function subscribeToNewsletter(email: string, source: string): Promise<void> {
+  const supabase = await createServiceClient();
+  const address = email.toLowerCase();
+  const now = new Date();
+
+  const { data: existing, error: lookupError } = await supabase
+    .from('newsletter_subscribers')
+    .select('id, status, confirmation_sent_at')
+    .eq('email', address)
+    .maybeSingle();
+
+  if (lookupError) {
+    logger.error('[subscribeToNewsletter] Error', lookupError);
+    throw ApiError.badRequest('Failed to subscribe');
+  }
+
+  if (existing?.status === 'active') {
+    throw ApiError.conflict('This email is already subscribed');
+  }
+
+  if (
+    existing?.status === 'pending' &&
+    existing.confirmation_sent_at &&
+    now.getTime() - new Date(existing.confirmation_sent_at).getTime() < CONFIRMATION_RESEND_MS
+  ) {
+    return;
+  }
+
+  const { data, error } = existing
+    ? await supabase
+        .from('newsletter_subscribers')
+        .update({ status: 'pending', confirmation_sent_at: now.toISOString() })
+        .eq('id', existing.id)
+        .select('id')
+        .single()
+    : await supabase
+        .from('newsletter_subscribers')
+        .insert({
+          email: address,
+          status: 'pending',
+          source,
+          confirmation_sent_at: now.toISOString(),
+        })
+        .select('id')
+        .single();
+
+  if (error || !data) {
+    logger.error('[subscribeToNewsletter] Error', error);
+    throw ApiError.badRequest('Failed to subscribe');
+  }
+
+  const confirmUrl = getNewsletterConfirmUrl(createNewsletterConfirmToken(data.id, now));
+  const { html, subject } = newsletterWelcomeEmail(address, confirmUrl);
+
+  startEmailQueue();
+  await queueEmail({
+    to: address,
+    subject,
+    html,
+    tags: [{ name: 'type', value: 'newsletter_confirm' }],
+  });
+}
+
+/**
+ * Activate a pending subscription from its confirmation link. Returns false
+ * if the link was already used or the subscriber has since unsubscribed.
+ */
+export async function confirmNewsletterSubscription(token: string): Promise<boolean> {
+  const subscriberId = verifyNewsletterConfirmToken(token);
+
+  if (!subscriberId) {
+    throw ApiError.badRequest('This confirmation link is invalid or has expired');
+  }
+
+  const supabase = await createServiceClient();
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('newsletter_subscribers')
+    .update({ status: 'active', confirmed_at: now, subscribed_at: now, unsubscribed_at: null })
+    .eq('id', subscriberId)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) {
+    logger.error('[confirmNewsletterSubscription] Error', error, { subscriberId });
+    throw ApiError.badRequest('Failed to confirm subscription');
+  }
+
+  return (data || []).length > 0;
+}
+
+// ============================================================================
+// UNSUBSCRIBE
+// ============================================================================
+
+export async function unsubscribeFromNewsletter(subscriberId: string): Promise<void> {
+  const supabase = await createServiceClient();
+
+  const { error } = await supabase
+    .from('newsletter_subscribers')
+    .update({ status: 'unsubscribed', unsubscribed_at: new Date().toISOString() })
+    .eq('id', subscriberId);
+
+  if (error) {
+    logger.error('[unsubscribeFromNewsletter] Error', error, { subscriberId });
+    throw ApiError.badRequest('Failed to unsubscribe');
+  }
+}
+
+/**
+ * Unsubscribe an address, given the token from one of its emails
+ */
+export async function unsubscribeNewsletterEmail(email: string, token: string): Promise<void> {
+  const unsubscribe = verifyUnsubscribeToken(token);
+
+  if (unsubscribe?.type !== 'newsletter') {
+    throw ApiError.badRequest('This unsubscribe link is invalid');
+  }
+
+  const supabase = await createServiceClient();
+
+  const { data } = await supabase
+    .from('newsletter_subscribers')
+    .select('id')
+    .eq('email', email.toLowerCase())
+    .maybeSingle();
+
+  if (data?.id !== unsubscribe.subscriberId) {
+    throw ApiError.badRequest('This unsubscribe link is invalid');
+  }
+
+  await unsubscribeFromNewsletter(unsubscribe.subscriberId);
+}
+
+/**
+ * Stop newsletters to an address the email provider reported. A spam
+ * complaint counts as unsubscribing; a hard bounce marks the subscriber bounced.
+ * Returns false if the address had no live subscription.
+ */
+export async function stopNewsletterForAddress(
+  email: string,
+  reason: 'bounce' | 'complaint'
+): Promise<boolean> {
+  const supabase = await createServiceClient();
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('newsletter_subscribers')
+    .update(
+      reason === 'complaint'
+        ? { status: 'unsubscribed', unsubscribed_at: now }
+        : { status: 'bounced' }
+    )
+    .eq('email', email.toLowerCase())
+    .in('status', ['active', 'pending'])
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to update newsletter subscriber: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+/**
+ * Email options for a newsletter email, with the subscriber's own unsubscribe
+ * link and one-click List-Unsubscribe headers
+ */
+export function newsletterEmailOptions(
+  subscriber: NewsletterRecipient,
+  build: (unsubscribeUrl: string) => { subject: string; html: string }
+): EmailOptions {
+  const token = createNewsletterUnsubscribeToken(subscriber.id);
+  const { subject, html } = build(getUnsubscribeUrl(token));
+
+  return {
+    to: subscriber.email,
+    subject,
+    html,
+    tags: [{ name: 'type', value: 'newsletter' }],
+    headers: listUnsubscribeHeaders(token),
+  };
+}
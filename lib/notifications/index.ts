@@ -0,0 +1,208 @@
+/**
+ * Notification dispatch
+ * The one place that decides whether a user hears about something. Every
+ * in-app notification and preference-driven email goes through here so
+ * user_preferences are always honoured.
+ *
+ * Notifications created by database triggers (comments, reactions, post
+ * status) are filtered by the same rules in create_notification (017).
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import { ApiError } from '@/lib/api/response';
+import { logger } from '@/lib/logger';
+import {
+  createNotification,
+  type CreateNotificationOptions,
+  type NotificationType,
+} from '@/lib/db/notifications';
+import {
+  withDefaultPreferences,
+  type NotificationPreferences,
+  type UserPreferences,
+} from '@/lib/db/preferences';
+import { queueEmail, startEmailQueue } from '@/lib/email/queue';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type EmailCategory =
+  | 'comment'
+  | 'reply'
+  | 'reaction'
+  | 'post_published'
+  | 'post_rejected'
+  | 'weekly_digest'
+  | 'newsletter'
+  | 'announcement';
+
+export interface Recipient {
+  id: string;
+  email: string | null;
+  /** Display name, username or "there", for greetings */
+  name: string;
+  preferences: UserPreferences;
+}
+
+export interface DispatchOptions {
+  userId: string;
+  /** In-app notification, checked against the notify_* preferences */
+  notification?: Omit<CreateNotificationOptions, 'userId'>;
+  /** Email, checked against the email_* preferences */
+  email?: {
+    category: EmailCategory;
+    /** Passed to the email queue so the same email is never queued twice */
+    idempotencyKey?: string;
+    build: (recipient: Recipient) => {
+      subject: string;
+      html: string;
+      headers?: Record<string, string>;
+    };
+  };
+}
+
+export interface DispatchResult {
+  notified: boolean;
+  emailed: boolean;
+}
+
+// Keep in step with wants_notification() in 017_notification_preferences.sql.
+// Types without a toggle are always delivered.
+const IN_APP_PREFERENCES: Partial<Record<NotificationType, keyof NotificationPreferences>> = {
+  comment: 'notify_new_comment',
+  reply: 'notify_comment_reply',
+  reaction: 'notify_new_reaction',
+  follow: 'notify_new_follower',
+  mention: 'notify_mentions',
+};
+
+const EMAIL_PREFERENCES: Record<EmailCategory, keyof NotificationPreferences> = {
+  comment: 'email_new_comment',
+  reply: 'email_comment_reply',
+  reaction: 'email_new_reaction',
+  post_published: 'email_post_published',
+  post_rejected: 'email_post_rejected',
+  weekly_digest: 'email_weekly_digest',
+  newsletter: 'email_newsletter',
+  announcement: 'email_announcements',
+};
+
+// ============================================================================
+// PREFERENCES
+// ============================================================================
+
+export function wantsNotification(
+  preferences: NotificationPreferences,
+  type: NotificationType
+): boolean {
+  const key = IN_APP_PREFERENCES[type];
+  return key ? preferences[key] : true;
+}
+
+export function wantsEmail(preferences: NotificationPreferences, category: EmailCategory): boolean {
+  return preferences[EMAIL_PREFERENCES[category]];
+}
+
+/**
+ * Load a user's address and preferences. Preferences are private to their
+ * owner, so this reads with the service role.
+ */
+export async function getRecipient(userId: string): Promise<Recipient | null> {
+  try {
+    const supabase = await createServiceClient();
+
+    const [{ data: profile }, { data: preferences, error }] = await Promise.all([
+      supabase.from('profiles').select('email, display_name, username').eq('id', userId).single(),
+      supabase.from('user_preferences').select('*').eq('user_id', userId).maybeSingle(),
+    ]);
+
+    if (!profile) return null;
+
+    if (error) {
+      logger.error('[getRecipient] Error', error, { userId });
+    }
+
+    return {
+      id: userId,
+      email: profile.email ?? null,
+      name: profile.display_name || profile.username || 'there',
+      preferences: withDefaultPreferences(preferences),
+    };
+  } catch (error) {
+    logger.error('[getRecipient] Error', error, { userId });
+    return null;
+  }
+}
+
+/**
+ * Turn off one email category for a user, e.g. from an unsubscribe link.
+ * The user isn't signed in, so this writes with the service role.
+ */
+export async function unsubscribeFromEmail(userId: string, category: EmailCategory): Promise<void> {
+  const key = EMAIL_PREFERENCES[category];
+  if (!key) {
+    throw ApiError.badRequest('Unknown email category');
+  }
+
+  const supabase = await createServiceClient();
+
+  const { error } = await supabase
+    .from('user_preferences')
+    .upsert({ user_id: userId, [key]: false }, { onConflict: 'user_id' });
+
+  if (error) {
+    logger.error('[unsubscribeFromEmail] Error', error, { userId, category });
+    throw ApiError.badRequest('Failed to update preferences');
+  }
+}
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+/**
+ * Notify a user in-app and/or by email, skipping whatever they've turned off.
+ *
+ * Never throws: a failed notification must not fail the action behind it.
+ */
+export async function dispatchNotification(options: DispatchOptions): Promise<DispatchResult> {
+  const result: DispatchResult = { notified: false, emailed: false };
+  const { userId, notification, email } = options;
+
+  // Nobody hears about their own actions
+  if (notification?.actorId === userId) return result;
+
+  const recipient = await getRecipient(userId);
+  if (!recipient) return result;
+
+  if (notification && wantsNotification(recipient.preferences, notification.type)) {
+    result.notified = (await createNotification({ userId, ...notification })) !== null;
+  }
+
+  if (email && recipient.email && wantsEmail(recipient.preferences, email.category)) {
+    try {
+      const { subject, html, headers } = email.build(recipient);
+
+      startEmailQueue();
+      await queueEmail(
+        {
+          to: recipient.email,
+          subject,
+          html,
+          tags: [{ name: 'type', value: email.category }],
+          headers,
+        },
+        { idempotencyKey: email.idempotencyKey }
+      );
+      result.emailed = true;
+    } catch (error) {
+      logger.error('[dispatchNotification] Email error', error, {
+        userId,
+        category: email.category,
+      });
+    }
+  }
+
+  return result;
+}
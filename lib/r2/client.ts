@@ -1,5 +1,20 @@
-import { S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
+import {
+  S3Client,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  ListMultipartUploadsCommand,
+} from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import type { Readable } from 'stream';
 
 // R2 client configuration
 export const r2Client = new S3Client({
@@ -37,19 +52,55 @@ export async function generatePresignedUploadUrl(
 export async function uploadFile(
   file: Buffer,
   filename: string,
-  contentType: string
+  contentType: string,
+  cacheControl?: string
 ): Promise<string> {
   const command = new PutObjectCommand({
     Bucket: BUCKET_NAME,
     Key: filename,
     Body: file,
     ContentType: contentType,
+    CacheControl: cacheControl,
   });
 
   await r2Client.send(command);
   return getPublicUrl(filename);
 }
 
+/**
+ * Download a file from R2 into memory
+ */
+export async function downloadFile(filename: string): Promise<Buffer> {
+  const command = new GetObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: filename,
+  });
+
+  const response = await r2Client.send(command);
+  if (!response.Body) {
+    throw new Error(`Empty response body for ${filename}`);
+  }
+
+  return Buffer.from(await response.Body.transformToByteArray());
+}
+
+/**
+ * Stream a file from R2 to disk, for files too large to hold in memory
+ */
+export async function downloadFileToPath(filename: string, path: string): Promise<void> {
+  const command = new GetObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: filename,
+  });
+
+  const response = await r2Client.send(command);
+  if (!response.Body) {
+    throw new Error(`Empty response body for ${filename}`);
+  }
+
+  await pipeline(response.Body as Readable, createWriteStream(path));
+}
+
 /**
  * Delete a file from R2
  */
@@ -86,10 +137,10 @@ export function generateUniqueFilename(originalFilename: string, folder = 'uploa
 }
 
 /**
- * Get file metadata
+ * Get file metadata (HEAD, so the body is not downloaded)
  */
 export async function getFileMetadata(filename: string) {
-  const command = new GetObjectCommand({
+  const command = new HeadObjectCommand({
     Bucket: BUCKET_NAME,
     Key: filename,
   });
@@ -103,6 +154,168 @@ export async function getFileMetadata(filename: string) {
   };
 }
 
+// ============================================================================
+// MULTIPART UPLOADS
+// ============================================================================
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+}
+
+/**
+ * Start a multipart upload; returns its upload id
+ */
+export async function createMultipartUpload(
+  filename: string,
+  contentType: string,
+  metadata?: Record<string, string>
+): Promise<string> {
+  const command = new CreateMultipartUploadCommand({
+    Bucket: BUCKET_NAME,
+    Key: filename,
+    ContentType: contentType,
+    Metadata: metadata,
+  });
+
+  const response = await r2Client.send(command);
+  if (!response.UploadId) {
+    throw new Error(`No upload id returned for ${filename}`);
+  }
+
+  return response.UploadId;
+}
+
+/**
+ * Generate a presigned URL for the browser to PUT one part
+ */
+export async function generatePresignedPartUrl(
+  filename: string,
+  uploadId: string,
+  partNumber: number,
+  expiresIn = 3600
+): Promise<string> {
+  const command = new UploadPartCommand({
+    Bucket: BUCKET_NAME,
+    Key: filename,
+    UploadId: uploadId,
+    PartNumber: partNumber,
+  });
+
+  return getSignedUrl(r2Client, command, { expiresIn });
+}
+
+/**
+ * Parts uploaded so far, in part number order
+ */
+export async function listUploadedParts(
+  filename: string,
+  uploadId: string
+): Promise<UploadedPart[]> {
+  const parts: UploadedPart[] = [];
+  let marker: string | undefined;
+
+  do {
+    const response = await r2Client.send(
+      new ListPartsCommand({
+        Bucket: BUCKET_NAME,
+        Key: filename,
+        UploadId: uploadId,
+        PartNumberMarker: marker,
+      })
+    );
+
+    for (const part of response.Parts || []) {
+      if (part.PartNumber && part.ETag) {
+        parts.push({ partNumber: part.PartNumber, etag: part.ETag, size: part.Size || 0 });
+      }
+    }
+
+    marker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+  } while (marker);
+
+  return parts.sort((a, b) => a.partNumber - b.partNumber);
+}
+
+/**
+ * Join the uploaded parts into the final object
+ */
+export async function completeMultipartUpload(
+  filename: string,
+  uploadId: string,
+  parts: Pick<UploadedPart, 'partNumber' | 'etag'>[]
+): Promise<void> {
+  const command = new CompleteMultipartUploadCommand({
+    Bucket: BUCKET_NAME,
+    Key: filename,
+    UploadId: uploadId,
+    MultipartUpload: {
+      Parts: parts.map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+    },
+  });
+
+  await r2Client.send(command);
+}
+
+/**
+ * Abort a multipart upload, deleting any parts already stored
+ */
+export async function abortMultipartUpload(filename: string, uploadId: string): Promise<void> {
+  const command = new AbortMultipartUploadCommand({
+    Bucket: BUCKET_NAME,
+    Key: filename,
+    UploadId: uploadId,
+  });
+
+  await r2Client.send(command);
+}
+
+/**
+ * Multipart uploads that have been started but not completed or aborted
+ */
+export async function listMultipartUploads(): Promise<
+  { key: string; uploadId: string; initiated: Date | undefined }[]
+> {
+  const uploads: { key: string; uploadId: string; initiated: Date | undefined }[] = [];
+  let keyMarker: string | undefined;
+  let uploadIdMarker: string | undefined;
+
+  do {
+    const response = await r2Client.send(
+      new ListMultipartUploadsCommand({
+        Bucket: BUCKET_NAME,
+        KeyMarker: keyMarker,
+        UploadIdMarker: uploadIdMarker,
+      })
+    );
+
+    for (const upload of response.Uploads || []) {
+      if (upload.Key && upload.UploadId) {
+        uploads.push({ key: upload.Key, uploadId: upload.UploadId, initiated: upload.Initiated });
+      }
+    }
+
+    keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+    uploadIdMarker = response.IsTruncated ? response.NextUploadIdMarker : undefined;
+  } while (keyMarker);
+
+  return uploads;
+}
+
+/**
+ * Whether an R2 error means the object (or multipart upload) does not exist
+ */
+export function isNotFoundError(err: unknown): boolean {
+  const error = err as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return (
+    error?.name === 'NotFound' ||
+    error?.name === 'NoSuchKey' ||
+    error?.name === 'NoSuchUpload' ||
+    error?.$metadata?.httpStatusCode === 404
+  );
+}
+
 
 
 
@@ -0,0 +1,325 @@
+/**
+ * Revision diffing
+ * Block-level structural diff between two post revisions. Content may be stored as
+ * TipTap JSON, a raw HTML string, or the `{ text: html }` wrapper written by createPost;
+ * `content_html` (written by the dashboard editor) takes precedence when present.
+ */
+
+import type { RevisionSnapshot } from '@/lib/db/revisions';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ContentBlock {
+  /** Block node type, e.g. `paragraph`/`p`, `heading`/`h2`, `image`/`img` */
+  type: string;
+  /** Plain-text rendering for display */
+  text: string;
+  /** Comparison key; includes markup so formatting-only edits still register */
+  key: string;
+}
+
+export type BlockChange =
+  | { op: 'equal'; block: ContentBlock }
+  | { op: 'added'; block: ContentBlock }
+  | { op: 'removed'; block: ContentBlock }
+  | { op: 'changed'; before: ContentBlock; after: ContentBlock };
+
+export interface FieldChange {
+  field: 'title' | 'subtitle' | 'excerpt';
+  before: string | null;
+  after: string | null;
+}
+
+export interface RevisionDiff {
+  fields: FieldChange[];
+  blocks: BlockChange[];
+  stats: {
+    added: number;
+    removed: number;
+    changed: number;
+  };
+}
+
+interface TipTapNode {
+  type?: string;
+  text?: string;
+  attrs?: Record<string, unknown>;
+  content?: TipTapNode[];
+}
+
+const DIFFED_FIELDS: FieldChange['field'][] = ['title', 'subtitle', 'excerpt'];
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'input', 'source', 'wbr']);
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^>]*?(\/?)>/g;
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' ',
+};
+
+// ============================================================================
+// CONTENT PARSING
+// ============================================================================
+
+function normaliseWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+function stripTags(html: string): string {
+  const text = html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (entity) => ENTITIES[entity] ?? entity);
+  return normaliseWhitespace(text);
+}
+
+function htmlBlock(type: string, html: string): ContentBlock {
+  const text = stripTags(html);
+  const src = html.match(/\ssrc=["']([^"']+)["']/)?.[1];
+
+  return {
+    type,
+    text: text || (src ? `[${type}] ${src}` : `[${type}]`),
+    key: `${type}:${normaliseWhitespace(html)}`,
+  };
+}
+
+/**
+ * Split HTML into its top-level elements
+ */
+function htmlToBlocks(html: string): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  let depth = 0;
+  let blockStart = 0;
+  let blockTag = '';
+  let cursor = 0;
+
+  const pushText = (text: string) => {
+    if (text.trim()) {
+      blocks.push(htmlBlock('text', text));
+    }
+  };
+
+  for (const match of html.matchAll(TAG_PATTERN)) {
+    const [tag, closing, name, selfClosing] = match;
+    const index = match.index ?? 0;
+    const tagName = name.toLowerCase();
+    const isVoid = VOID_TAGS.has(tagName) || selfClosing === '/';
+
+    if (depth === 0) {
+      pushText(html.slice(cursor, index));
+      cursor = index + tag.length;
+
+      if (closing) {
+        // Stray closing tag at the top level
+        continue;
+      }
+
+      if (isVoid) {
+        blocks.push(htmlBlock(tagName, tag));
+        continue;
+      }
+
+      blockStart = index;
+      blockTag = tagName;
+      depth = 1;
+      continue;
+    }
+
+    if (isVoid) {
+      continue;
+    }
+
+    depth += closing ? -1 : 1;
+
+    if (depth === 0) {
+      cursor = index + tag.length;
+      blocks.push(htmlBlock(blockTag, html.slice(blockStart, cursor)));
+    }
+  }
+
+  if (depth > 0) {
+    // Unclosed element: keep the remainder as one block
+    blocks.push(htmlBlock(blockTag, html.slice(blockStart)));
+  } else {
+    pushText(html.slice(cursor));
+  }
+
+  return blocks;
+}
+
+function nodeText(node: TipTapNode): string {
+  if (typeof node.text === 'string') {
+    return node.text;
+  }
+  return (node.content || []).map(nodeText).join(' ');
+}
+
+function tipTapBlock(node: TipTapNode): ContentBlock {
+  const type = node.type || 'unknown';
+  const text = normaliseWhitespace(nodeText(node));
+  const src = typeof node.attrs?.src === 'string' ? node.attrs.src : null;
+
+  return {
+    type,
+    text: text || (src ? `[${type}] ${src}` : `[${type}]`),
+    key: `${type}:${JSON.stringify(node)}`,
+  };
+}
+
+/**
+ * Break stored post content into comparable top-level blocks
+ */
+export function contentToBlocks(content: unknown): ContentBlock[] {
+  if (content === null || content === undefined) {
+    return [];
+  }
+
+  if (typeof content === 'string') {
+    const trimmed = content.trim();
+    if (trimmed.startsWith('{')) {
+      try {
+        return contentToBlocks(JSON.parse(trimmed));
+      } catch {
+        // Not JSON - treat as HTML
+      }
+    }
+    return htmlToBlocks(content);
+  }
+
+  if (typeof content === 'object') {
+    const record = content as Record<string, unknown>;
+
+    if (typeof record.text === 'string') {
+      return htmlToBlocks(record.text);
+    }
+
+    if (record.type === 'doc' && Array.isArray(record.content)) {
+      return (record.content as TipTapNode[]).map(tipTapBlock);
+    }
+  }
+
+  return [];
+}
+
+// ============================================================================
+// DIFFING
+// ============================================================================
+
+/**
+ * Merge adjacent removed/added runs into `changed` entries where the block types line up
+ */
+function pairChanges(changes: BlockChange[]): BlockChange[] {
+  const result: BlockChange[] = [];
+  let removed: ContentBlock[] = [];
+  let added: ContentBlock[] = [];
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+
+    for (let i = 0; i < paired; i++) {
+      if (removed[i].type === added[i].type) {
+        result.push({ op: 'changed', before: removed[i], after: added[i] });
+      } else {
+        result.push({ op: 'removed', block: removed[i] });
+        result.push({ op: 'added', block: added[i] });
+      }
+    }
+
+    removed.slice(paired).forEach((block) => result.push({ op: 'removed', block }));
+    added.slice(paired).forEach((block) => result.push({ op: 'added', block }));
+    removed = [];
+    added = [];
+  };
+
+  for (const change of changes) {
+    if (change.op === 'removed') {
+      removed.push(change.block);
+    } else if (change.op === 'added') {
+      added.push(change.block);
+    } else {
+      flush();
+      result.push(change);
+    }
+  }
+
+  flush();
+  return result;
+}
+
+/**
+ * Longest-common-subsequence diff over block keys
+ */
+export function diffBlocks(before: ContentBlock[], after: ContentBlock[]): BlockChange[] {
+  const rows = before.length;
+  const cols = after.length;
+  const table = Array.from({ length: rows + 1 }, () => new Array<number>(cols + 1).fill(0));
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      table[i][j] =
+        before[i].key === after[j].key
+          ? table[i + 1][j + 1] + 1
+          : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const changes: BlockChange[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < rows && j < cols) {
+    if (before[i].key === after[j].key) {
+      changes.push({ op: 'equal', block: after[j] });
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      changes.push({ op: 'removed', block: before[i++] });
+    } else {
+      changes.push({ op: 'added', block: after[j++] });
+    }
+  }
+
+  while (i < rows) {
+    changes.push({ op: 'removed', block: before[i++] });
+  }
+  while (j < cols) {
+    changes.push({ op: 'added', block: after[j++] });
+  }
+
+  return pairChanges(changes);
+}
+
+/**
+ * Diff two revision snapshots: metadata fields plus block-level content
+ */
+export function diffRevisions(from: RevisionSnapshot, to: RevisionSnapshot): RevisionDiff {
+  const fields = DIFFED_FIELDS.filter((field) => (from[field] ?? null) !== (to[field] ?? null)).map(
+    (field) => ({
+      field,
+      before: from[field] ?? null,
+      after: to[field] ?? null,
+    })
+  );
+
+  const blocks = diffBlocks(
+    contentToBlocks(from.content_html ?? from.content),
+    contentToBlocks(to.content_html ?? to.content)
+  );
+
+  return {
+    fields,
+    blocks,
+    stats: {
+      added: blocks.filter((b) => b.op === 'added').length,
+      removed: blocks.filter((b) => b.op === 'removed').length,
+      changed: blocks.filter((b) => b.op === 'changed').length,
+    },
+  };
+}
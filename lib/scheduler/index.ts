@@ -0,0 +1,170 @@
+/**
+ * Scheduled publishing
+ * Promotes `scheduled` posts to `published` once their scheduled_for time has passed
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import { logger } from '@/lib/logger';
+import { invalidatePosts } from '@/lib/cache';
+import { dispatchNotification } from '@/lib/notifications';
+import { postPublishedEmail } from '@/lib/email/templates';
+import { recordAuditEvent } from '@/lib/audit';
+import { resolveMentions, notifyMentions } from '@/lib/mentions';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface DuePost {
+  id: string;
+  title: string;
+  slug: string;
+  author_id: string;
+  excerpt: string | null;
+  mentions: string[] | null;
+  scheduled_for: string;
+  author: {
+    display_name: string | null;
+    username: string | null;
+  } | null;
+}
+
+export interface PublishRunResult {
+  published: string[];
+  failed: string[];
+}
+
+// Max posts published per run so a backlog can't stall a single invocation
+const BATCH_SIZE = 50;
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+/**
+ * Find scheduled posts that are due
+ */
+async function getDuePosts(now: Date): Promise<DuePost[]> {
+  const supabase = await createServiceClient();
+
+  const { data, error } = await supabase
+    .from('posts')
+    .select(
+      `
+      id,
+      title,
+      slug,
+      author_id,
+      excerpt,
+      mentions,
+      scheduled_for,
+      author:profiles!posts_author_id_fkey (display_name, username)
+    `
+    )
+    .eq('status', 'scheduled')
+    .lte('scheduled_for', now.toISOString())
+    .order('scheduled_for', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    logger.error('[scheduler] Failed to fetch due posts', error);
+    return [];
+  }
+
+  return (data || []) as unknown as DuePost[];
+}
+
+/**
+ * Publish a single due post. Returns false if another run already claimed it.
+ */
+async function publishDuePost(post: DuePost): Promise<boolean> {
+  const supabase = await createServiceClient();
+
+  // Guard on status so concurrent runs never publish (and notify) twice
+  const { data, error } = await supabase
+    .from('posts')
+    .update({
+      status: 'published',
+      published_at: post.scheduled_for,
+    })
+    .eq('id', post.id)
+    .eq('status', 'scheduled')
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    return false;
+  }
+
+  await recordAuditEvent({
+    action: 'post.publish',
+    actorId: null,
+    target: { type: 'post', id: post.id },
+    before: { status: 'scheduled' },
+    after: { status: 'published' },
+    metadata: { title: post.title, scheduled_for: post.scheduled_for },
+  });
+
+  await dispatchNotification({
+    userId: post.author_id,
+    notification: {
+      type: 'post_published',
+      title: 'Your post has been published!',
+      message: `"${post.title}" is now live.`,
+      postId: post.id,
+      metadata: { scheduled_for: post.scheduled_for },
+    },
+    email: {
+      category: 'post_published',
+      build: (recipient) => postPublishedEmail(recipient.name, post.title, post.slug),
+    },
+  });
+
+  if (post.mentions?.length) {
+    await notifyMentions(await resolveMentions(post.mentions), {
+      actorId: post.author_id,
+      actorName: post.author?.display_name || post.author?.username || 'Someone',
+      postId: post.id,
+      postTitle: post.title,
+      excerpt: post.excerpt ?? undefined,
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Publish every scheduled post whose time has come
+ */
+export async function publishScheduledPosts(now: Date = new Date()): Promise<PublishRunResult> {
+  const result: PublishRunResult = { published: [], failed: [] };
+  const duePosts = await getDuePosts(now);
+
+  if (duePosts.length === 0) {
+    return result;
+  }
+
+  for (const post of duePosts) {
+    try {
+      if (await publishDuePost(post)) {
+        result.published.push(post.id);
+      }
+    } catch (err) {
+      logger.error('[scheduler] Failed to publish scheduled post', err, { postId: post.id });
+      result.failed.push(post.id);
+    }
+  }
+
+  if (result.published.length > 0) {
+    invalidatePosts();
+    logger.info('[scheduler] Published scheduled posts', {
+      published: result.published.length,
+      failed: result.failed.length,
+    });
+  }
+
+  return result;
+}
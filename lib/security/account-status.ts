@@ -0,0 +1,49 @@
+/**
+ * Account status enforcement
+ * Suspended users keep read-only access until the suspension ends;
+ * banned users cannot act at all
+ */
+
+import type { UserStatus } from '@/types/database';
+
+export interface AccountStatusFields {
+  status: UserStatus | null;
+  suspended_until: string | null;
+}
+
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Current status, treating a suspension that has run out as active even if
+ * the expiry sweep hasn't reinstated the account yet
+ */
+export function resolveAccountStatus(account: AccountStatusFields, now: Date = new Date()): UserStatus {
+  if (account.status === 'suspended' && account.suspended_until && new Date(account.suspended_until) <= now) {
+    return 'active';
+  }
+
+  return account.status || 'active';
+}
+
+/**
+ * Why a request with this method is refused, or null if it is allowed
+ */
+export function getAccountRestriction(
+  account: AccountStatusFields,
+  method: string,
+  now: Date = new Date()
+): string | null {
+  const status = resolveAccountStatus(account, now);
+
+  if (status === 'banned') {
+    return 'This account has been banned';
+  }
+
+  if (status === 'suspended' && !READ_ONLY_METHODS.includes(method.toUpperCase())) {
+    return account.suspended_until
+      ? `This account is suspended until ${new Date(account.suspended_until).toUTCString()}`
+      : 'This account is suspended';
+  }
+
+  return null;
+}
@@ -0,0 +1,53 @@
+/**
+ * CSRF tokens in the browser
+ * Fetches a token from /api/csrf and sends it as the x-csrf-token header,
+ * which withRouteHandler checks on POST, PUT, PATCH and DELETE requests.
+ */
+
+const CSRF_TOKEN_HEADER = 'x-csrf-token';
+
+// Tokens are valid for an hour; fetch a fresh one well before that
+const TOKEN_REFRESH_MS = 50 * 60 * 1000;
+
+let cached: { token: Promise<string>; fetchedAt: number } | null = null;
+
+async function requestToken(): Promise<string> {
+  const response = await fetch('/api/csrf', { credentials: 'same-origin' });
+  const body = await response.json();
+
+  if (!response.ok) {
+    throw new Error(body.error?.message || 'Could not start a secure session');
+  }
+
+  return (body.data as { token: string }).token;
+}
+
+/**
+ * The current CSRF token, fetched once and shared until it is due to expire
+ */
+export function getCsrfToken(): Promise<string> {
+  if (!cached || Date.now() - cached.fetchedAt > TOKEN_REFRESH_MS) {
+    const token = requestToken();
+    cached = { token, fetchedAt: Date.now() };
+
+    // A failed fetch is not cached, so the next request tries again
+    token.catch(() => {
+      if (cached?.token === token) cached = null;
+    });
+  }
+
+  return cached.token;
+}
+
+/**
+ * fetch() with the CSRF header added
+ */
+export async function fetchWithCsrf(
+  input: RequestInfo | URL,
+  init?: RequestInit
+): Promise<Response> {
+  const headers = new Headers(init?.headers);
+  headers.set(CSRF_TOKEN_HEADER, await getCsrfToken());
+
+  return fetch(input, { ...init, headers });
+}
@@ -2,6 +2,8 @@ import { createServerClient } from '@supabase/ssr';
 import { NextResponse, type NextRequest } from 'next/server';
 import type { Database } from '@/types/database';
 import { supabaseFetch } from '@/lib/supabase/fetch';
+import { getAccountRestriction } from '@/lib/security/account-status';
+import { forbidden } from '@/lib/api/response';
 
 function requireEnv(key: string): string {
   const value = process.env[key];
@@ -51,6 +53,9 @@ export async function updateSession(request: NextRequest) {
   // Protected routes
   const protectedPaths = ['/dashboard', '/admin'];
   const adminPaths = ['/admin'];
+  const contributorRoles = ['contributor', 'admin'];
+  // The parts of the dashboard readers can use
+  const readerDashboardPaths = ['/dashboard/saved', '/dashboard/profile'];
   const authPaths = ['/login', '/register', '/forgot-password', '/reset-password'];
 
   const pathname = request.nextUrl.pathname;
@@ -63,14 +68,30 @@ export async function updateSession(request: NextRequest) {
     return NextResponse.redirect(url);
   }
 
-  // Check if accessing admin route without admin role
-  if (adminPaths.some(path => pathname.startsWith(path)) && user) {
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('role')
-      .eq('id', user.id)
-      .single();
+  const isAdminPath = adminPaths.some(path => pathname.startsWith(path));
+  const isDashboardPath = pathname.startsWith('/dashboard');
+  const isApiWrite = pathname.startsWith('/api/') && !['GET', 'HEAD', 'OPTIONS'].includes(request.method);
+
+  const profile = user && (isAdminPath || isDashboardPath || isApiWrite)
+    ? (
+        await supabase
+          .from('profiles')
+          .select('role, status, suspended_until')
+          .eq('id', user.id)
+          .single()
+      ).data
+    : null;
+
+  // Suspended and banned accounts are read-only across the API
+  if (isApiWrite && profile) {
+    const restriction = getAccountRestriction(profile, request.method);
+    if (restriction) {
+      return forbidden(restriction);
+    }
+  }
 
+  // Check if accessing admin route without admin role
+  if (isAdminPath && user) {
     if (!profile || !['admin', 'superadmin'].includes(profile.role)) {
       const url = request.nextUrl.clone();
       url.pathname = '/dashboard';
@@ -78,6 +99,18 @@ export async function updateSession(request: NextRequest) {
     }
   }
 
+  // Readers only get their saved posts and profile; the rest needs a contributor account
+  if (
+    isDashboardPath &&
+    profile &&
+    !contributorRoles.includes(profile.role) &&
+    !readerDashboardPaths.some(path => pathname.startsWith(path))
+  ) {
+    const url = request.nextUrl.clone();
+    url.pathname = '/apply';
+    return NextResponse.redirect(url);
+  }
+
   // Redirect authenticated users away from auth pages
   if (authPaths.some(path => pathname.startsWith(path)) && user) {
     const url = request.nextUrl.clone();
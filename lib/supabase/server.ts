@@ -1,6 +1,7 @@
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
 import { supabaseFetch } from '@/lib/supabase/fetch';
+import { getContext } from '@/lib/logger/context';
 
 function requireEnv(key: string): string {
   const value = process.env[key];
@@ -14,13 +15,20 @@ const SUPABASE_URL = requireEnv('NEXT_PUBLIC_SUPABASE_URL');
 const SUPABASE_ANON_KEY = requireEnv('NEXT_PUBLIC_SUPABASE_ANON_KEY');
 const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
+// Sent with every query so database triggers can tag their audit rows with
+// the request that caused them (see log_audit_event in migration 012)
+function requestHeaders(): Record<string, string> {
+  const requestId = getContext()?.requestId;
+  return requestId ? { 'x-request-id': requestId } : {};
+}
+
 // Note: Using untyped client due to @supabase/ssr v0.8 type inference issues
 // Types are validated at runtime through Supabase RLS and schema constraints
 export async function createClient() {
   const cookieStore = await cookies();
 
   return createServerClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
-    global: { fetch: supabaseFetch },
+    global: { fetch: supabaseFetch, headers: requestHeaders() },
     cookies: {
       getAll() {
         return cookieStore.getAll();
@@ -45,7 +53,7 @@ export async function createServiceClient() {
   const cookieStore = await cookies();
 
   return createServerClient(SUPABASE_URL, SUPABASE_SERVICE_KEY, {
-    global: { fetch: supabaseFetch },
+    global: { fetch: supabaseFetch, headers: requestHeaders() },
     cookies: {
       getAll() {
         return cookieStore.getAll();
@@ -0,0 +1,201 @@
+/**
+ * Account suspensions
+ * Suspend, ban and reinstate users, and reinstate suspensions once they expire
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import { ApiError } from '@/lib/api/response';
+import { logger } from '@/lib/logger';
+import { getProfileById, updateAccountStatus, type Profile } from '@/lib/db/profiles';
+import { recordAuditEvent } from '@/lib/audit';
+import { queueEmail, startEmailQueue } from '@/lib/email/queue';
+import { accountSuspendedEmail } from '@/lib/email/templates';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReinstateRunResult {
+  reinstated: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Load the target and refuse to act on yourself or on staff
+ */
+async function getSuspendableProfile(userId: string, moderatorId: string): Promise<Profile> {
+  if (userId === moderatorId) {
+    throw ApiError.forbidden('You cannot change your own account status');
+  }
+
+  const profile = await getProfileById(userId);
+
+  if (profile.role === 'admin' || profile.role === 'superadmin') {
+    throw ApiError.forbidden('Admins must be demoted before they can be suspended or banned');
+  }
+
+  return profile;
+}
+
+async function notifyUser(profile: Profile): Promise<void> {
+  if (!profile.email || !profile.suspension_reason) return;
+
+  const name = profile.display_name || profile.username || 'there';
+  const { html, subject } = accountSuspendedEmail(name, profile.suspension_reason, profile.suspended_until);
+
+  try {
+    startEmailQueue();
+    await queueEmail({
+      to: profile.email,
+      subject,
+      html,
+      tags: [{ name: 'type', value: profile.status === 'banned' ? 'account_banned' : 'account_suspended' }],
+    });
+  } catch (error) {
+    // The suspension stands either way
+    logger.error('[notifyUser] Failed to queue email', error, { userId: profile.id });
+  }
+}
+
+// ============================================================================
+// SUSPENSIONS
+// ============================================================================
+
+/**
+ * Suspend a user for a number of days. They keep read-only access until it ends.
+ */
+export async function suspendUser(options: {
+  userId: string;
+  moderatorId: string;
+  durationDays: number;
+  reason: string;
+  now?: Date;
+}): Promise<Profile> {
+  const { userId, moderatorId, durationDays, reason, now = new Date() } = options;
+  const previous = await getSuspendableProfile(userId, moderatorId);
+
+  const profile = await updateAccountStatus(userId, {
+    status: 'suspended',
+    suspendedUntil: new Date(now.getTime() + durationDays * DAY_MS).toISOString(),
+    reason,
+    moderatorId,
+  });
+
+  await recordAuditEvent({
+    action: 'user.suspend',
+    actorId: moderatorId,
+    target: { type: 'user', id: userId },
+    before: { status: previous.status, suspended_until: previous.suspended_until },
+    after: { status: profile.status, suspended_until: profile.suspended_until },
+    metadata: { reason, duration_days: durationDays },
+  });
+
+  await notifyUser(profile);
+
+  return profile;
+}
+
+/**
+ * Ban a user indefinitely
+ */
+export async function banUser(options: {
+  userId: string;
+  moderatorId: string;
+  reason: string;
+}): Promise<Profile> {
+  const { userId, moderatorId, reason } = options;
+  const previous = await getSuspendableProfile(userId, moderatorId);
+
+  if (previous.status === 'banned') {
+    throw ApiError.conflict('User is already banned');
+  }
+
+  const profile = await updateAccountStatus(userId, { status: 'banned', reason, moderatorId });
+
+  await recordAuditEvent({
+    action: 'user.ban',
+    actorId: moderatorId,
+    target: { type: 'user', id: userId },
+    before: { status: previous.status, suspended_until: previous.suspended_until },
+    after: { status: profile.status, suspended_until: null },
+    metadata: { reason },
+  });
+
+  await notifyUser(profile);
+
+  return profile;
+}
+
+/**
+ * Lift a suspension or ban early
+ */
+export async function reinstateUser(options: { userId: string; moderatorId: string }): Promise<Profile> {
+  const { userId, moderatorId } = options;
+  const previous = await getProfileById(userId);
+
+  if (previous.status === 'active') {
+    throw ApiError.conflict('User is not suspended or banned');
+  }
+
+  const profile = await updateAccountStatus(userId, { status: 'active' });
+
+  await recordAuditEvent({
+    action: 'user.reactivate',
+    actorId: moderatorId,
+    target: { type: 'user', id: userId },
+    before: { status: previous.status, suspended_until: previous.suspended_until },
+    after: { status: 'active' },
+  });
+
+  return profile;
+}
+
+/**
+ * Reinstate every suspension that has run out. Runs from the cron route;
+ * until it does, the auth checks already treat expired suspensions as active.
+ */
+export async function reinstateExpiredSuspensions(now: Date = new Date()): Promise<ReinstateRunResult> {
+  const supabase = await createServiceClient();
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .update({
+      status: 'active',
+      suspended_until: null,
+      suspension_reason: null,
+      suspended_at: null,
+      suspended_by: null,
+    })
+    .eq('status', 'suspended')
+    .lte('suspended_until', now.toISOString())
+    .select('id');
+
+  if (error) {
+    logger.error('[suspensions] Failed to reinstate expired suspensions', error);
+    throw ApiError.badRequest('Failed to reinstate expired suspensions');
+  }
+
+  const reinstated = (data || []).map((row: { id: string }) => row.id);
+
+  for (const id of reinstated) {
+    await recordAuditEvent({
+      action: 'user.reactivate',
+      actorId: null,
+      target: { type: 'user', id },
+      before: { status: 'suspended' },
+      after: { status: 'active' },
+      metadata: { reason: 'Suspension expired' },
+    });
+  }
+
+  if (reinstated.length > 0) {
+    logger.info('[suspensions] Reinstated expired suspensions', { reinstated: reinstated.length });
+  }
+
+  return { reinstated };
+}
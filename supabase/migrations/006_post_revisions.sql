@@ -0,0 +1,174 @@
+-- ============================================================================
+-- MIGRATION 006: POST REVISIONS
+-- Snapshot history of post content for diffing and restore
+-- ============================================================================
+
+-- Create post_revisions table
+CREATE TABLE IF NOT EXISTS post_revisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+
+    -- Sequential per post, assigned by trigger
+    revision_number INTEGER NOT NULL,
+
+    -- Snapshot of the editable content fields
+    title TEXT NOT NULL,
+    subtitle TEXT,
+    excerpt TEXT,
+    content JSONB,
+    content_html TEXT,
+
+    -- Who made the change
+    editor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+
+    -- Set when this revision was created by restoring an older one
+    restored_from INTEGER,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT post_revisions_number_unique UNIQUE (post_id, revision_number)
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_post_revisions_post ON post_revisions(post_id, revision_number DESC);
+CREATE INDEX IF NOT EXISTS idx_post_revisions_editor ON post_revisions(editor_id) WHERE editor_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE post_revisions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+-- Authors can view revisions of their own posts
+CREATE POLICY "Authors can view own post revisions"
+    ON post_revisions FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM posts
+            WHERE posts.id = post_revisions.post_id
+            AND posts.author_id = auth.uid()
+        )
+    );
+
+-- Admins/editors can view all revisions
+CREATE POLICY "Editors can view all post revisions"
+    ON post_revisions FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('admin', 'editor')
+        )
+    );
+
+-- No INSERT policy: revisions are only written by record_post_revision()
+-- below, in the same transaction as the edit
+
+-- Function to assign the next revision number for a post
+CREATE OR REPLACE FUNCTION assign_revision_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Serialise concurrent inserts for the same post
+    PERFORM pg_advisory_xact_lock(hashtext(NEW.post_id::text));
+
+    SELECT COALESCE(MAX(revision_number), 0) + 1
+    INTO NEW.revision_number
+    FROM post_revisions
+    WHERE post_id = NEW.post_id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to number revisions
+CREATE TRIGGER assign_revision_number_trigger
+    BEFORE INSERT ON post_revisions
+    FOR EACH ROW
+    EXECUTE FUNCTION assign_revision_number();
+
+-- Function to snapshot a post whenever its content changes. Running as a
+-- trigger means every write path is covered (API, dashboard, service role)
+-- and a snapshot that fails takes the edit down with it rather than leaving
+-- a gap. The editor is the signed-in user, or NULL for service-role writes.
+CREATE OR REPLACE FUNCTION record_post_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+        AND NEW.title IS NOT DISTINCT FROM OLD.title
+        AND NEW.subtitle IS NOT DISTINCT FROM OLD.subtitle
+        AND NEW.excerpt IS NOT DISTINCT FROM OLD.excerpt
+        AND NEW.content IS NOT DISTINCT FROM OLD.content
+        AND NEW.content_html IS NOT DISTINCT FROM OLD.content_html
+    THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO post_revisions (post_id, title, subtitle, excerpt, content, content_html, editor_id, restored_from)
+    VALUES (
+        NEW.id,
+        NEW.title,
+        NEW.subtitle,
+        NEW.excerpt,
+        NEW.content,
+        NEW.content_html,
+        auth.uid(),
+        -- Set by restore_post_revision() for the length of its transaction
+        NULLIF(current_setting('app.restored_from', true), '')::INTEGER
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Trigger to snapshot new and edited posts
+CREATE TRIGGER record_post_revision_trigger
+    AFTER INSERT OR UPDATE ON posts
+    FOR EACH ROW
+    EXECUTE FUNCTION record_post_revision();
+
+-- Function to restore a post's content fields from an earlier revision.
+-- Runs as the caller, so posts RLS decides who may restore; the snapshot the
+-- update triggers is marked with the revision it came from.
+CREATE OR REPLACE FUNCTION restore_post_revision(p_post_id UUID, p_revision_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_revision post_revisions%ROWTYPE;
+BEGIN
+    SELECT * INTO v_revision
+    FROM post_revisions
+    WHERE id = p_revision_id
+    AND post_id = p_post_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Revision not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    PERFORM set_config('app.restored_from', v_revision.revision_number::TEXT, true);
+
+    -- Slug is left alone so restoring an old title doesn't break published links
+    UPDATE posts
+    SET
+        title = v_revision.title,
+        subtitle = v_revision.subtitle,
+        excerpt = v_revision.excerpt,
+        content = v_revision.content,
+        content_html = v_revision.content_html
+    WHERE id = p_post_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Post not found' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    PERFORM set_config('app.restored_from', '', true);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Backfill an initial revision for existing posts
+INSERT INTO post_revisions (post_id, revision_number, title, subtitle, excerpt, content, content_html, editor_id, created_at)
+SELECT id, 1, title, subtitle, excerpt, content, content_html, author_id, updated_at
+FROM posts
+WHERE NOT EXISTS (
+    SELECT 1 FROM post_revisions WHERE post_revisions.post_id = posts.id
+);
+
+-- Grant permissions
+GRANT SELECT ON post_revisions TO authenticated;
+GRANT EXECUTE ON FUNCTION restore_post_revision(UUID, UUID) TO authenticated;
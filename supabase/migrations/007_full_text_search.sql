@@ -0,0 +1,153 @@
+-- ============================================================================
+-- MIGRATION 007: FULL-TEXT SEARCH
+-- Ranked post and profile search on top of the GIN indexes
+-- ============================================================================
+
+-- Computed column exposing the exact expression behind idx_posts_search
+-- (migration 001). Being an inlinable IMMUTABLE SQL function, filters on it
+-- - including PostgREST `wfts` filters on `search_vector` - use the index.
+CREATE OR REPLACE FUNCTION search_vector(posts)
+RETURNS tsvector AS $$
+    SELECT to_tsvector('english', coalesce($1.title, '') || ' ' || coalesce($1.excerpt, '') || ' ' || coalesce($1.content_html, ''))
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Profile search index (usernames and names aren't English, so no stemming)
+CREATE INDEX IF NOT EXISTS idx_profiles_search ON profiles USING GIN (
+    to_tsvector('simple', coalesce(username, '') || ' ' || coalesce(display_name, '') || ' ' || coalesce(bio, ''))
+);
+
+-- Ranked post search. Accepts websearch syntax: "quoted phrases", -exclusions, OR.
+-- Runs as the caller, so posts RLS still applies.
+CREATE OR REPLACE FUNCTION search_posts(
+    p_query TEXT,
+    p_content_type TEXT DEFAULT NULL,
+    p_category_id UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    title TEXT,
+    slug TEXT,
+    excerpt TEXT,
+    content_type TEXT,
+    featured_image_url TEXT,
+    reading_time INTEGER,
+    published_at TIMESTAMPTZ,
+    reaction_count INTEGER,
+    view_count INTEGER,
+    author JSONB,
+    category JSONB,
+    rank REAL,
+    headline TEXT,
+    total_count BIGINT
+) AS $$
+    WITH search_query AS (
+        SELECT websearch_to_tsquery('english', p_query) AS q
+    ),
+    ranked AS (
+        SELECT
+            p.*,
+            ts_rank(search_vector(p), sq.q) AS rank,
+            COUNT(*) OVER () AS total_count
+        FROM posts p, search_query sq
+        WHERE p.status = 'published'
+        AND search_vector(p) @@ sq.q
+        AND (p_content_type IS NULL OR p.content_type = p_content_type)
+        AND (p_category_id IS NULL OR p.category_id = p_category_id)
+        ORDER BY rank DESC, p.published_at DESC
+        LIMIT p_limit OFFSET p_offset
+    )
+    -- Headlines are only built for the returned page; ts_headline is expensive
+    SELECT
+        r.id,
+        r.title,
+        r.slug,
+        r.excerpt,
+        r.content_type,
+        r.featured_image_url,
+        r.reading_time,
+        r.published_at,
+        r.reaction_count,
+        r.view_count,
+        jsonb_build_object(
+            'id', a.id,
+            'username', a.username,
+            'display_name', a.display_name,
+            'avatar_url', a.avatar_url
+        ) AS author,
+        CASE WHEN c.id IS NULL THEN NULL ELSE jsonb_build_object(
+            'id', c.id,
+            'name', c.name,
+            'slug', c.slug
+        ) END AS category,
+        r.rank,
+        ts_headline(
+            'english',
+            coalesce(r.excerpt, '') || ' ' || regexp_replace(coalesce(r.content_html, ''), '<[^>]*>', ' ', 'g'),
+            sq.q,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+        ) AS headline,
+        r.total_count
+    FROM ranked r
+    CROSS JOIN search_query sq
+    LEFT JOIN profiles a ON a.id = r.author_id
+    LEFT JOIN categories c ON c.id = r.category_id
+    ORDER BY r.rank DESC, r.published_at DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Profile search: full-text on name/bio plus prefix match on username so
+-- partially typed handles still find people
+CREATE OR REPLACE FUNCTION search_profiles(
+    p_query TEXT,
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    username TEXT,
+    display_name TEXT,
+    avatar_url TEXT,
+    bio TEXT,
+    role TEXT,
+    article_count INTEGER,
+    rank REAL,
+    total_count BIGINT
+) AS $$
+    WITH search_query AS (
+        SELECT
+            websearch_to_tsquery('simple', p_query) AS q,
+            -- Escape LIKE wildcards in user input
+            replace(replace(replace(p_query, '\', '\\'), '%', '\%'), '_', '\_') AS pattern
+    )
+    SELECT
+        pr.id,
+        pr.username,
+        pr.display_name,
+        pr.avatar_url,
+        pr.bio,
+        pr.role,
+        pr.article_count,
+        (
+            ts_rank(
+                to_tsvector('simple', coalesce(pr.username, '') || ' ' || coalesce(pr.display_name, '') || ' ' || coalesce(pr.bio, '')),
+                sq.q
+            )
+            + CASE WHEN lower(pr.username) = lower(p_query) THEN 1 ELSE 0 END
+        )::REAL AS rank,
+        COUNT(*) OVER () AS total_count
+    FROM profiles pr, search_query sq
+    WHERE pr.status = 'active'
+    AND (
+        to_tsvector('simple', coalesce(pr.username, '') || ' ' || coalesce(pr.display_name, '') || ' ' || coalesce(pr.bio, '')) @@ sq.q
+        OR pr.username ILIKE sq.pattern || '%'
+        OR pr.display_name ILIKE '%' || sq.pattern || '%'
+    )
+    ORDER BY rank DESC, pr.article_count DESC
+    LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION search_vector(posts) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_posts(TEXT, TEXT, UUID, INTEGER, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_profiles(TEXT, INTEGER, INTEGER) TO anon, authenticated;
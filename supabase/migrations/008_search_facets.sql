@@ -0,0 +1,237 @@
+-- ============================================================================
+-- MIGRATION 008: SEARCH FACETS
+-- Multi-value filters and facet counts for post search
+-- ============================================================================
+
+-- Every published post matching the query, with its facet values and whether
+-- it passes each facet filter. Kept separate so search_posts and
+-- search_post_facets apply identical filtering.
+--
+-- Date buckets are disjoint by age: day (<1d), week (1-7d), month (7-30d),
+-- year (30-365d), older.
+CREATE OR REPLACE FUNCTION search_post_matches(
+    p_query TEXT,
+    p_content_types TEXT[] DEFAULT NULL,
+    p_categories TEXT[] DEFAULT NULL,
+    p_tags TEXT[] DEFAULT NULL,
+    p_authors TEXT[] DEFAULT NULL,
+    p_published TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+    post_id UUID,
+    rank REAL,
+    published_at TIMESTAMPTZ,
+    content_type TEXT,
+    category_slug TEXT,
+    category_name TEXT,
+    author_username TEXT,
+    author_name TEXT,
+    date_bucket TEXT,
+    match_content_type BOOLEAN,
+    match_category BOOLEAN,
+    match_tag BOOLEAN,
+    match_author BOOLEAN,
+    match_published BOOLEAN
+) AS $$
+    WITH search_query AS (
+        SELECT websearch_to_tsquery('english', p_query) AS q
+    ),
+    base AS (
+        SELECT
+            p.id AS post_id,
+            ts_rank(search_vector(p), sq.q) AS rank,
+            p.published_at,
+            p.content_type,
+            c.slug AS category_slug,
+            c.name AS category_name,
+            a.username AS author_username,
+            a.display_name AS author_name,
+            CASE
+                WHEN p.published_at >= NOW() - INTERVAL '1 day' THEN 'day'
+                WHEN p.published_at >= NOW() - INTERVAL '7 days' THEN 'week'
+                WHEN p.published_at >= NOW() - INTERVAL '30 days' THEN 'month'
+                WHEN p.published_at >= NOW() - INTERVAL '365 days' THEN 'year'
+                ELSE 'older'
+            END AS date_bucket,
+            tg.slugs AS tag_slugs
+        FROM posts p
+        CROSS JOIN search_query sq
+        LEFT JOIN categories c ON c.id = p.category_id
+        LEFT JOIN profiles a ON a.id = p.author_id
+        LEFT JOIN LATERAL (
+            SELECT array_agg(t.slug) AS slugs
+            FROM post_tags pt
+            JOIN tags t ON t.id = pt.tag_id
+            WHERE pt.post_id = p.id
+        ) tg ON TRUE
+        WHERE p.status = 'published'
+        AND search_vector(p) @@ sq.q
+    )
+    SELECT
+        b.post_id,
+        b.rank,
+        b.published_at,
+        b.content_type,
+        b.category_slug,
+        b.category_name,
+        b.author_username,
+        b.author_name,
+        b.date_bucket,
+        (p_content_types IS NULL OR b.content_type = ANY(p_content_types)),
+        (p_categories IS NULL OR b.category_slug = ANY(p_categories)),
+        (p_tags IS NULL OR b.tag_slugs && p_tags),
+        (p_authors IS NULL OR lower(b.author_username) = ANY(p_authors)),
+        (p_published IS NULL OR b.date_bucket = ANY(p_published))
+    FROM base b;
+$$ LANGUAGE sql STABLE;
+
+-- Replace the single-filter search from migration 007
+DROP FUNCTION IF EXISTS search_posts(TEXT, TEXT, UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION search_posts(
+    p_query TEXT,
+    p_content_types TEXT[] DEFAULT NULL,
+    p_categories TEXT[] DEFAULT NULL,
+    p_tags TEXT[] DEFAULT NULL,
+    p_authors TEXT[] DEFAULT NULL,
+    p_published TEXT[] DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    title TEXT,
+    slug TEXT,
+    excerpt TEXT,
+    content_type TEXT,
+    featured_image_url TEXT,
+    reading_time INTEGER,
+    published_at TIMESTAMPTZ,
+    reaction_count INTEGER,
+    view_count INTEGER,
+    author JSONB,
+    category JSONB,
+    rank REAL,
+    headline TEXT,
+    total_count BIGINT
+) AS $$
+    WITH search_query AS (
+        SELECT websearch_to_tsquery('english', p_query) AS q
+    ),
+    ranked AS (
+        SELECT
+            m.post_id,
+            m.rank,
+            COUNT(*) OVER () AS total_count
+        FROM search_post_matches(p_query, p_content_types, p_categories, p_tags, p_authors, p_published) m
+        WHERE m.match_content_type
+        AND m.match_category
+        AND m.match_tag
+        AND m.match_author
+        AND m.match_published
+        ORDER BY m.rank DESC, m.published_at DESC
+        LIMIT p_limit OFFSET p_offset
+    )
+    -- Headlines are only built for the returned page; ts_headline is expensive
+    SELECT
+        p.id,
+        p.title,
+        p.slug,
+        p.excerpt,
+        p.content_type,
+        p.featured_image_url,
+        p.reading_time,
+        p.published_at,
+        p.reaction_count,
+        p.view_count,
+        jsonb_build_object(
+            'id', a.id,
+            'username', a.username,
+            'display_name', a.display_name,
+            'avatar_url', a.avatar_url
+        ) AS author,
+        CASE WHEN c.id IS NULL THEN NULL ELSE jsonb_build_object(
+            'id', c.id,
+            'name', c.name,
+            'slug', c.slug
+        ) END AS category,
+        r.rank,
+        ts_headline(
+            'english',
+            coalesce(p.excerpt, '') || ' ' || regexp_replace(coalesce(p.content_html, ''), '<[^>]*>', ' ', 'g'),
+            sq.q,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+        ) AS headline,
+        r.total_count
+    FROM ranked r
+    JOIN posts p ON p.id = r.post_id
+    CROSS JOIN search_query sq
+    LEFT JOIN profiles a ON a.id = p.author_id
+    LEFT JOIN categories c ON c.id = p.category_id
+    ORDER BY r.rank DESC, p.published_at DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Facet counts. Each facet is counted with every *other* facet's filter
+-- applied but not its own, so selecting one category still shows how many
+-- results the sibling categories would add.
+CREATE OR REPLACE FUNCTION search_post_facets(
+    p_query TEXT,
+    p_content_types TEXT[] DEFAULT NULL,
+    p_categories TEXT[] DEFAULT NULL,
+    p_tags TEXT[] DEFAULT NULL,
+    p_authors TEXT[] DEFAULT NULL,
+    p_published TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+    facet TEXT,
+    value TEXT,
+    label TEXT,
+    count BIGINT
+) AS $$
+    WITH m AS (
+        SELECT * FROM search_post_matches(p_query, p_content_types, p_categories, p_tags, p_authors, p_published)
+    )
+    SELECT 'content_type', m.content_type, m.content_type, COUNT(*)
+    FROM m
+    WHERE m.match_category AND m.match_tag AND m.match_author AND m.match_published
+    GROUP BY m.content_type
+
+    UNION ALL
+
+    SELECT 'category', m.category_slug, m.category_name, COUNT(*)
+    FROM m
+    WHERE m.category_slug IS NOT NULL
+    AND m.match_content_type AND m.match_tag AND m.match_author AND m.match_published
+    GROUP BY m.category_slug, m.category_name
+
+    UNION ALL
+
+    SELECT 'tag', t.slug, t.name, COUNT(*)
+    FROM m
+    JOIN post_tags pt ON pt.post_id = m.post_id
+    JOIN tags t ON t.id = pt.tag_id
+    WHERE m.match_content_type AND m.match_category AND m.match_author AND m.match_published
+    GROUP BY t.slug, t.name
+
+    UNION ALL
+
+    SELECT 'author', lower(m.author_username), m.author_name, COUNT(*)
+    FROM m
+    WHERE m.author_username IS NOT NULL
+    AND m.match_content_type AND m.match_category AND m.match_tag AND m.match_published
+    GROUP BY lower(m.author_username), m.author_name
+
+    UNION ALL
+
+    SELECT 'published', m.date_bucket, m.date_bucket, COUNT(*)
+    FROM m
+    WHERE m.match_content_type AND m.match_category AND m.match_tag AND m.match_author
+    GROUP BY m.date_bucket
+
+    ORDER BY 1, 4 DESC, 3;
+$$ LANGUAGE sql STABLE;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION search_post_matches(TEXT, TEXT[], TEXT[], TEXT[], TEXT[], TEXT[]) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_posts(TEXT, TEXT[], TEXT[], TEXT[], TEXT[], TEXT[], INTEGER, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_post_facets(TEXT, TEXT[], TEXT[], TEXT[], TEXT[], TEXT[]) TO anon, authenticated;
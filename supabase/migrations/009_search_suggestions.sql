@@ -0,0 +1,76 @@
+-- ============================================================================
+-- MIGRATION 009: SEARCH SUGGESTIONS
+-- Prefix matching for search-as-you-type
+-- ============================================================================
+
+-- Word-prefix lookups on post titles
+CREATE INDEX IF NOT EXISTS idx_posts_title_prefix ON posts USING GIN (
+    to_tsvector('simple', coalesce(title, ''))
+) WHERE status = 'published';
+
+-- Suggestions for a partially typed query, grouped by kind:
+--   post     - published titles containing words starting with each typed term
+--   tag      - tag names starting with the input
+--   category - category names starting with the input
+--   user     - contributors whose username or display name starts with the input
+CREATE OR REPLACE FUNCTION search_suggestions(
+    p_prefix TEXT,
+    p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+    kind TEXT,
+    label TEXT,
+    slug TEXT,
+    avatar_url TEXT
+) AS $$
+    WITH input AS (
+        SELECT
+            -- 'univ cred' -> 'univ:* & cred:*'; non-alphanumerics are dropped so
+            -- user input can never produce tsquery syntax errors
+            (
+                SELECT string_agg(term || ':*', ' & ')
+                FROM regexp_split_to_table(lower(p_prefix), '[^[:alnum:]]+') AS term
+                WHERE term <> ''
+            ) AS terms,
+            -- Escape LIKE wildcards in user input
+            replace(replace(replace(trim(p_prefix), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+    )
+    (
+        SELECT 'post', p.title, p.slug, NULL::TEXT
+        FROM posts p, input i
+        WHERE i.terms IS NOT NULL
+        AND p.status = 'published'
+        AND to_tsvector('simple', coalesce(p.title, '')) @@ to_tsquery('simple', i.terms)
+        ORDER BY p.view_count DESC
+        LIMIT p_limit
+    )
+    UNION ALL
+    (
+        SELECT 'tag', t.name, t.slug, NULL::TEXT
+        FROM tags t, input i
+        WHERE t.name ILIKE i.pattern
+        ORDER BY t.post_count DESC
+        LIMIT p_limit
+    )
+    UNION ALL
+    (
+        SELECT 'category', c.name, c.slug, NULL::TEXT
+        FROM categories c, input i
+        WHERE c.name ILIKE i.pattern
+        ORDER BY c.post_count DESC
+        LIMIT p_limit
+    )
+    UNION ALL
+    (
+        SELECT 'user', pr.display_name, pr.username, pr.avatar_url
+        FROM profiles pr, input i
+        WHERE pr.status = 'active'
+        AND pr.role IN ('contributor', 'editor', 'admin', 'superadmin')
+        AND (pr.username ILIKE i.pattern OR pr.display_name ILIKE i.pattern)
+        ORDER BY pr.article_count DESC
+        LIMIT p_limit
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION search_suggestions(TEXT, INTEGER) TO anon, authenticated;
@@ -0,0 +1,70 @@
+-- ============================================================================
+-- MIGRATION 010: REPORT MODERATION
+-- Moderator workflow on top of content_reports (migration 004)
+-- ============================================================================
+
+-- Point people references at profiles so reports can embed reporter,
+-- reported user and moderator. profiles.id cascades from auth.users, so
+-- deletion behaviour is unchanged.
+ALTER TABLE content_reports DROP CONSTRAINT IF EXISTS content_reports_reporter_id_fkey;
+ALTER TABLE content_reports ADD CONSTRAINT content_reports_reporter_id_fkey
+    FOREIGN KEY (reporter_id) REFERENCES profiles(id) ON DELETE CASCADE;
+
+ALTER TABLE content_reports DROP CONSTRAINT IF EXISTS content_reports_user_id_fkey;
+ALTER TABLE content_reports ADD CONSTRAINT content_reports_user_id_fkey
+    FOREIGN KEY (user_id) REFERENCES profiles(id) ON DELETE CASCADE;
+
+ALTER TABLE content_reports DROP CONSTRAINT IF EXISTS content_reports_moderator_id_fkey;
+ALTER TABLE content_reports ADD CONSTRAINT content_reports_moderator_id_fkey
+    FOREIGN KEY (moderator_id) REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- Open reports (pending or being reviewed) drive the moderation queue
+CREATE INDEX IF NOT EXISTS idx_content_reports_open
+    ON content_reports(created_at)
+    WHERE status IN ('pending', 'reviewing');
+
+-- A report that has been claimed is still open; block duplicates against it
+-- too. unique_violation lets the API answer 409 rather than 400.
+CREATE OR REPLACE FUNCTION check_duplicate_report()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM content_reports
+        WHERE reporter_id = NEW.reporter_id
+        AND status IN ('pending', 'reviewing')
+        AND (
+            (NEW.post_id IS NOT NULL AND post_id = NEW.post_id) OR
+            (NEW.comment_id IS NOT NULL AND comment_id = NEW.comment_id) OR
+            (NEW.user_id IS NOT NULL AND user_id = NEW.user_id)
+        )
+    ) THEN
+        RAISE EXCEPTION 'You have already reported this content'
+            USING ERRCODE = 'unique_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS Policies
+-- Superadmins moderate too
+DROP POLICY IF EXISTS "Moderators can view all reports" ON content_reports;
+CREATE POLICY "Moderators can view all reports"
+    ON content_reports FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('editor', 'admin', 'superadmin')
+        )
+    );
+
+DROP POLICY IF EXISTS "Moderators can update reports" ON content_reports;
+CREATE POLICY "Moderators can update reports"
+    ON content_reports FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('editor', 'admin', 'superadmin')
+        )
+    );
@@ -0,0 +1,45 @@
+-- ============================================================================
+-- MIGRATION 011: MODERATION ASSIGNMENTS
+-- Moderator ownership of moderation queue items
+-- ============================================================================
+
+-- One row per queue item currently being worked. Items are identified by
+-- type + id rather than a foreign key because they span several tables;
+-- rows are removed when the item is actioned or released.
+CREATE TABLE IF NOT EXISTS moderation_assignments (
+    item_type TEXT NOT NULL CHECK (item_type IN ('post', 'comment', 'user', 'application')),
+    item_id UUID NOT NULL,
+    moderator_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    assigned_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    assigned_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (item_type, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_assignments_moderator ON moderation_assignments(moderator_id);
+
+-- Enable RLS
+ALTER TABLE moderation_assignments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Moderators can view assignments"
+    ON moderation_assignments FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('editor', 'admin', 'superadmin')
+        )
+    );
+
+CREATE POLICY "Moderators can manage assignments"
+    ON moderation_assignments FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('editor', 'admin', 'superadmin')
+        )
+    );
+
+-- Grant permissions
+GRANT ALL ON moderation_assignments TO authenticated;
@@ -0,0 +1,174 @@
+-- ============================================================================
+-- MIGRATION 012: AUDIT LOGGING
+-- Application-level audit events on top of audit_logs (migration 005)
+-- ============================================================================
+
+-- Point actors at profiles so the audit browser can embed names.
+-- profiles.id cascades from auth.users, so deletion behaviour is unchanged.
+ALTER TABLE audit_logs DROP CONSTRAINT IF EXISTS audit_logs_actor_id_fkey;
+ALTER TABLE audit_logs ADD CONSTRAINT audit_logs_actor_id_fkey
+    FOREIGN KEY (actor_id) REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- Filtering by actor is always newest-first
+CREATE INDEX IF NOT EXISTS idx_audit_logs_actor_created ON audit_logs(actor_id, created_at DESC);
+
+-- Role and post status changes are recorded by lib/audit with the request
+-- id and before/after values. The triggers from migration 005 stay as a
+-- backstop for writes that bypass it (direct SQL, code paths without an
+-- audit call); their rows are marked with source 'trigger' and carry the
+-- x-request-id header the server's Supabase clients send, so lib/audit can
+-- find the row its own request caused.
+CREATE OR REPLACE FUNCTION audit_role_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.role IS DISTINCT FROM NEW.role THEN
+        PERFORM log_audit_event(
+            'user.role_change'::audit_action,
+            auth.uid(),
+            'user',
+            NEW.id,
+            jsonb_build_object(
+                'source', 'trigger',
+                'before', jsonb_build_object('role', OLD.role),
+                'after', jsonb_build_object('role', NEW.role)
+            ),
+            p_request_id => current_setting('request.headers', true)::jsonb->>'x-request-id'
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION audit_post_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.status IS DISTINCT FROM NEW.status AND NEW.status IN ('published', 'rejected') THEN
+        PERFORM log_audit_event(
+            CASE NEW.status
+                WHEN 'published' THEN 'post.publish'::audit_action
+                ELSE 'post.reject'::audit_action
+            END,
+            auth.uid(),
+            'post',
+            NEW.id,
+            jsonb_build_object(
+                'source', 'trigger',
+                'title', NEW.title,
+                'before', jsonb_build_object('status', OLD.status),
+                'after', jsonb_build_object('status', NEW.status)
+            ),
+            p_request_id => current_setting('request.headers', true)::jsonb->>'x-request-id'
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- lib/audit records a change just after the UPDATE that fired the trigger.
+-- Rather than log it twice, complete the trigger's row from the same
+-- request with the actor and request details; the 'source' mark is dropped
+-- so a row is only completed once. A trigger row that already names an
+-- actor is only completed by that actor.
+CREATE OR REPLACE FUNCTION log_audit_event(
+    p_action audit_action,
+    p_actor_id UUID DEFAULT NULL,
+    p_target_type TEXT DEFAULT NULL,
+    p_target_id UUID DEFAULT NULL,
+    p_metadata JSONB DEFAULT '{}',
+    p_ip_address INET DEFAULT NULL,
+    p_user_agent TEXT DEFAULT NULL,
+    p_request_id TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_actor_email TEXT;
+    v_actor_role TEXT;
+    v_log_id UUID;
+BEGIN
+    -- Get actor info if available
+    IF p_actor_id IS NOT NULL THEN
+        SELECT email INTO v_actor_email
+        FROM auth.users
+        WHERE id = p_actor_id;
+
+        SELECT role INTO v_actor_role
+        FROM profiles
+        WHERE id = p_actor_id;
+    END IF;
+
+    IF p_target_id IS NOT NULL AND p_request_id IS NOT NULL AND NOT (p_metadata ? 'source') THEN
+        UPDATE audit_logs
+        SET
+            actor_id = COALESCE(p_actor_id, audit_logs.actor_id),
+            actor_email = CASE WHEN p_actor_id IS NULL THEN audit_logs.actor_email ELSE v_actor_email END,
+            actor_role = CASE WHEN p_actor_id IS NULL THEN audit_logs.actor_role ELSE v_actor_role END,
+            metadata = (audit_logs.metadata - 'source') || p_metadata,
+            ip_address = p_ip_address,
+            user_agent = p_user_agent
+        WHERE audit_logs.id = (
+            SELECT id FROM audit_logs
+            WHERE action = p_action
+            AND target_type IS NOT DISTINCT FROM p_target_type
+            AND target_id = p_target_id
+            AND metadata->>'source' = 'trigger'
+            AND request_id = p_request_id
+            AND (actor_id IS NULL OR actor_id = p_actor_id)
+            AND created_at > NOW() - INTERVAL '1 minute'
+            ORDER BY created_at DESC
+            LIMIT 1
+        )
+        RETURNING audit_logs.id INTO v_log_id;
+
+        IF v_log_id IS NOT NULL THEN
+            RETURN v_log_id;
+        END IF;
+    END IF;
+
+    INSERT INTO audit_logs (
+        actor_id,
+        actor_email,
+        actor_role,
+        action,
+        target_type,
+        target_id,
+        metadata,
+        ip_address,
+        user_agent,
+        request_id
+    ) VALUES (
+        p_actor_id,
+        v_actor_email,
+        v_actor_role,
+        p_action,
+        p_target_type,
+        p_target_id,
+        p_metadata,
+        p_ip_address,
+        p_user_agent,
+        p_request_id
+    )
+    RETURNING id INTO v_log_id;
+
+    RETURN v_log_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Any caller could write audit rows naming someone else, so only the
+-- service role (lib/audit) and the triggers above may
+REVOKE EXECUTE ON FUNCTION log_audit_event(audit_action, UUID, TEXT, UUID, JSONB, INET, TEXT, TEXT)
+    FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION log_audit_event(audit_action, UUID, TEXT, UUID, JSONB, INET, TEXT, TEXT)
+    TO service_role;
+
+-- RLS Policies
+-- Superadmins can read the log too
+DROP POLICY IF EXISTS "Admins can view audit logs" ON audit_logs;
+CREATE POLICY "Admins can view audit logs"
+    ON audit_logs FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.role IN ('admin', 'superadmin')
+        )
+    );
@@ -0,0 +1,66 @@
+-- ============================================================================
+-- MIGRATION 013: USER SUSPENSIONS
+-- Suspension / ban details for profiles.status
+-- ============================================================================
+
+-- suspended_until is NULL for bans and for active accounts
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS suspended_until TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS suspension_reason TEXT,
+    ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS suspended_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- Bans get their own audit action so the audit browser can tell them from
+-- suspensions
+ALTER TYPE audit_action ADD VALUE IF NOT EXISTS 'user.ban' AFTER 'user.suspend';
+
+-- Expiry sweep looks up suspensions that have run out
+CREATE INDEX IF NOT EXISTS idx_profiles_suspended_until
+    ON profiles(suspended_until)
+    WHERE status = 'suspended';
+
+-- Users stop matching "Public profiles are viewable by everyone" once
+-- suspended, but must still be able to read their own profile
+DROP POLICY IF EXISTS "Users can view own profile" ON profiles;
+CREATE POLICY "Users can view own profile"
+    ON profiles FOR SELECT
+    USING (auth.uid() = id);
+
+-- "Users can update own profile" covers every column, so without this a
+-- suspended user could lift their own suspension (or change their role)
+CREATE OR REPLACE FUNCTION protect_profile_moderation_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Service role and SQL editor have no auth.uid()
+    IF auth.uid() IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = auth.uid()
+        AND role IN ('admin', 'superadmin')
+    ) THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.role IS DISTINCT FROM OLD.role
+        OR NEW.status IS DISTINCT FROM OLD.status
+        OR NEW.suspended_until IS DISTINCT FROM OLD.suspended_until
+        OR NEW.suspension_reason IS DISTINCT FROM OLD.suspension_reason
+        OR NEW.suspended_at IS DISTINCT FROM OLD.suspended_at
+        OR NEW.suspended_by IS DISTINCT FROM OLD.suspended_by
+    THEN
+        RAISE EXCEPTION 'Only admins can change role or account status'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS protect_profile_moderation_fields ON profiles;
+CREATE TRIGGER protect_profile_moderation_fields
+    BEFORE UPDATE ON profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_profile_moderation_fields();
@@ -0,0 +1,83 @@
+-- ============================================================================
+-- MIGRATION 014: FOLLOWS
+-- Follow contributors and categories for the personalised feed
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS follows (
+    follower_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    following_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (follower_id, following_id),
+    CONSTRAINT no_self_follow CHECK (follower_id <> following_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_follows_following ON follows(following_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS category_follows (
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    category_id UUID NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (user_id, category_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_category_follows_category ON category_follows(category_id);
+
+-- Denormalised like article_count so profile pages don't count rows
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS follower_count INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS following_count INTEGER DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION update_follow_counts()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        UPDATE profiles SET follower_count = follower_count + 1 WHERE id = NEW.following_id;
+        UPDATE profiles SET following_count = following_count + 1 WHERE id = NEW.follower_id;
+        RETURN NEW;
+    END IF;
+
+    UPDATE profiles SET follower_count = GREATEST(follower_count - 1, 0) WHERE id = OLD.following_id;
+    UPDATE profiles SET following_count = GREATEST(following_count - 1, 0) WHERE id = OLD.follower_id;
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS update_follow_counts ON follows;
+CREATE TRIGGER update_follow_counts
+    AFTER INSERT OR DELETE ON follows
+    FOR EACH ROW
+    EXECUTE FUNCTION update_follow_counts();
+
+-- Feed query: published posts by followed authors, newest first
+CREATE INDEX IF NOT EXISTS idx_posts_author_published
+    ON posts(author_id, published_at DESC)
+    WHERE status = 'published';
+
+-- Enable RLS
+ALTER TABLE follows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE category_follows ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Follows are viewable by everyone"
+    ON follows FOR SELECT
+    USING (true);
+
+CREATE POLICY "Users can follow as themselves"
+    ON follows FOR INSERT
+    WITH CHECK (auth.uid() = follower_id);
+
+CREATE POLICY "Users can unfollow as themselves"
+    ON follows FOR DELETE
+    USING (auth.uid() = follower_id);
+
+CREATE POLICY "Users can view own category follows"
+    ON category_follows FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can follow categories as themselves"
+    ON category_follows FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can unfollow categories as themselves"
+    ON category_follows FOR DELETE
+    USING (auth.uid() = user_id);
@@ -0,0 +1,58 @@
+-- ============================================================================
+-- MIGRATION 015: BOOKMARKS
+-- Saved articles for readers, optionally grouped into named collections
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS bookmark_collections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    description TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT unique_collection_name UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS bookmarks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    -- Deleting a collection keeps its bookmarks, ungrouped
+    collection_id UUID REFERENCES bookmark_collections(id) ON DELETE SET NULL,
+    note TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT unique_bookmark UNIQUE (user_id, post_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bookmarks_user ON bookmarks(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bookmarks_collection ON bookmarks(collection_id) WHERE collection_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_bookmark_collections_updated_at ON bookmark_collections;
+CREATE TRIGGER update_bookmark_collections_updated_at
+    BEFORE UPDATE ON bookmark_collections
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+-- Enable RLS
+ALTER TABLE bookmark_collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bookmarks ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: bookmarks are private to their owner
+CREATE POLICY "Users can manage own collections"
+    ON bookmark_collections FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own bookmarks"
+    ON bookmarks FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (
+        auth.uid() = user_id
+        AND (
+            collection_id IS NULL
+            OR EXISTS (
+                SELECT 1 FROM bookmark_collections
+                WHERE id = collection_id AND user_id = auth.uid()
+            )
+        )
+    );
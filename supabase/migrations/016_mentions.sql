@@ -0,0 +1,41 @@
+-- ============================================================================
+-- MIGRATION 016: MENTIONS
+-- @username mentions in posts and comments
+-- ============================================================================
+
+-- Resolved usernames mentioned by each item. Edits only notify users who
+-- weren't already in the list, so each user hears about an item once.
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS mentions TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS mentions TEXT[] NOT NULL DEFAULT '{}';
+
+-- ============================================================================
+-- FUNCTION: Resolve mentioned usernames
+-- Reads other users' notify_mentions preference, so only the service role
+-- may call it
+-- ============================================================================
+CREATE OR REPLACE FUNCTION resolve_mentions(p_usernames TEXT[])
+RETURNS TABLE (id UUID, username TEXT, notify BOOLEAN) AS $$
+    SELECT p.id, p.username, COALESCE(up.notify_mentions, true)
+    FROM profiles p
+    LEFT JOIN user_preferences up ON up.user_id = p.id
+    WHERE lower(p.username) = ANY(p_usernames)
+    AND COALESCE(p.status, 'active') <> 'banned';
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: Username suggestions for the @mention picker
+-- ============================================================================
+CREATE OR REPLACE FUNCTION mention_suggestions(p_prefix TEXT, p_limit INTEGER DEFAULT 6)
+RETURNS TABLE (username TEXT, display_name TEXT, avatar_url TEXT) AS $$
+    SELECT p.username, p.display_name, p.avatar_url
+    FROM profiles p
+    WHERE p.username ILIKE replace(replace(p_prefix, '%', '\%'), '_', '\_') || '%'
+    AND COALESCE(p.status, 'active') = 'active'
+    ORDER BY p.follower_count DESC, p.username
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+-- Grant permissions
+REVOKE EXECUTE ON FUNCTION resolve_mentions(TEXT[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION resolve_mentions(TEXT[]) TO service_role;
+GRANT EXECUTE ON FUNCTION mention_suggestions(TEXT, INTEGER) TO authenticated;
@@ -0,0 +1,70 @@
+-- ============================================================================
+-- MIGRATION 017: NOTIFICATION PREFERENCES
+-- Honour user_preferences for notifications created inside the database
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTION: Does the user want this in-app notification?
+-- Mirrors IN_APP_PREFERENCES in lib/notifications. Types without a toggle
+-- (publishing, applications, system) are always delivered.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION wants_notification(p_user_id UUID, p_type notification_type)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(
+        (
+            SELECT CASE p_type
+                WHEN 'comment' THEN up.notify_new_comment
+                WHEN 'reply' THEN up.notify_comment_reply
+                WHEN 'reaction' THEN up.notify_new_reaction
+                WHEN 'follow' THEN up.notify_new_follower
+                WHEN 'mention' THEN up.notify_mentions
+                ELSE true
+            END
+            FROM user_preferences up
+            WHERE up.user_id = p_user_id
+        ),
+        true
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- HELPER FUNCTION: Create Notification
+-- Same as 002, but skips users who have turned the notification type off.
+-- The comment, reaction and post status triggers all go through here.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION create_notification(
+  p_user_id UUID,
+  p_type notification_type,
+  p_title TEXT,
+  p_message TEXT DEFAULT NULL,
+  p_post_id UUID DEFAULT NULL,
+  p_comment_id UUID DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'
+) RETURNS UUID AS $$
+DECLARE
+  v_notification_id UUID;
+BEGIN
+  -- Don't notify if actor is the same as user (no self-notifications)
+  IF p_actor_id = p_user_id THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT wants_notification(p_user_id, p_type) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO notifications (
+    user_id, type, title, message, post_id, comment_id, actor_id, metadata
+  ) VALUES (
+    p_user_id, p_type, p_title, p_message, p_post_id, p_comment_id, p_actor_id, p_metadata
+  )
+  ON CONFLICT (user_id, type, post_id, comment_id, actor_id, created_at) DO NOTHING
+  RETURNING id INTO v_notification_id;
+
+  RETURN v_notification_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Preferences are private; only the database itself reads other users' rows
+REVOKE EXECUTE ON FUNCTION wants_notification(UUID, notification_type) FROM PUBLIC;
@@ -0,0 +1,139 @@
+-- ============================================================================
+-- MIGRATION 018: WEEKLY DIGEST
+-- Per-user weekly digest of recommended posts, replies and author stats
+-- ============================================================================
+
+-- One row per user per digest week. The cron job claims a row before
+-- queueing, so a re-run in the same week never emails anyone twice.
+CREATE TABLE IF NOT EXISTS public.digest_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_digest_deliveries_period ON digest_deliveries(period_start);
+
+-- Service role only: no policies
+ALTER TABLE digest_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Digest queries read views by viewer
+CREATE INDEX IF NOT EXISTS idx_views_viewer ON post_views(viewer_id, created_at DESC)
+  WHERE viewer_id IS NOT NULL;
+
+-- ============================================================================
+-- FUNCTION: Users due a digest for the given week
+-- ============================================================================
+CREATE OR REPLACE FUNCTION digest_recipients(p_period_start DATE, p_limit INTEGER DEFAULT 200)
+RETURNS TABLE (id UUID, role TEXT) AS $$
+    SELECT p.id, p.role
+    FROM profiles p
+    LEFT JOIN user_preferences up ON up.user_id = p.id
+    WHERE COALESCE(p.status, 'active') = 'active'
+    AND p.email IS NOT NULL
+    AND COALESCE(up.email_weekly_digest, true)
+    AND NOT EXISTS (
+        SELECT 1 FROM digest_deliveries d
+        WHERE d.user_id = p.id AND d.period_start = p_period_start
+    )
+    ORDER BY p.created_at
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: New posts from the categories a user reads most
+-- Categories are ranked by the user's views over the last 90 days; posts
+-- they wrote or have already opened are left out
+-- ============================================================================
+CREATE OR REPLACE FUNCTION digest_recommended_posts(
+    p_user_id UUID,
+    p_since TIMESTAMPTZ,
+    p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+    id UUID,
+    title TEXT,
+    slug TEXT,
+    excerpt TEXT,
+    category_name TEXT,
+    author_name TEXT
+) AS $$
+    WITH favourite_categories AS (
+        SELECT p.category_id
+        FROM post_views v
+        JOIN posts p ON p.id = v.post_id
+        WHERE v.viewer_id = p_user_id
+        AND v.created_at > NOW() - INTERVAL '90 days'
+        AND p.category_id IS NOT NULL
+        GROUP BY p.category_id
+        ORDER BY COUNT(*) DESC
+        LIMIT 3
+    )
+    SELECT p.id, p.title, p.slug, p.excerpt, c.name, COALESCE(a.display_name, a.username)
+    FROM posts p
+    JOIN favourite_categories f ON f.category_id = p.category_id
+    LEFT JOIN categories c ON c.id = p.category_id
+    LEFT JOIN profiles a ON a.id = p.author_id
+    WHERE p.status = 'published'
+    AND p.published_at >= p_since
+    AND p.author_id <> p_user_id
+    AND NOT EXISTS (
+        SELECT 1 FROM post_views v WHERE v.post_id = p.id AND v.viewer_id = p_user_id
+    )
+    ORDER BY p.view_count DESC, p.published_at DESC
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: Replies to a user's comments
+-- ============================================================================
+CREATE OR REPLACE FUNCTION digest_comment_replies(
+    p_user_id UUID,
+    p_since TIMESTAMPTZ,
+    p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+    id UUID,
+    content TEXT,
+    replier_name TEXT,
+    post_title TEXT,
+    post_slug TEXT
+) AS $$
+    SELECT r.id, r.content, COALESCE(a.display_name, a.username), p.title, p.slug
+    FROM comments r
+    JOIN comments parent ON parent.id = r.parent_id
+    JOIN posts p ON p.id = r.post_id
+    LEFT JOIN profiles a ON a.id = r.author_id
+    WHERE parent.author_id = p_user_id
+    AND r.author_id <> p_user_id
+    AND r.status = 'visible'
+    AND r.created_at >= p_since
+    ORDER BY r.created_at DESC
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: Views and reactions an author's posts received in the window
+-- ============================================================================
+CREATE OR REPLACE FUNCTION digest_author_activity(p_user_id UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (views BIGINT, reactions BIGINT) AS $$
+    SELECT
+        (SELECT COUNT(*) FROM post_views v
+         JOIN posts p ON p.id = v.post_id
+         WHERE p.author_id = p_user_id AND v.created_at >= p_since),
+        (SELECT COUNT(*) FROM reactions r
+         JOIN posts p ON p.id = r.post_id
+         WHERE p.author_id = p_user_id AND r.created_at >= p_since);
+$$ LANGUAGE sql STABLE;
+
+-- Grant permissions
+-- These read other users' views and preferences, so only the service role may call them
+REVOKE EXECUTE ON FUNCTION digest_recipients(DATE, INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION digest_recommended_posts(UUID, TIMESTAMPTZ, INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION digest_comment_replies(UUID, TIMESTAMPTZ, INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION digest_author_activity(UUID, TIMESTAMPTZ) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION digest_recipients(DATE, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION digest_recommended_posts(UUID, TIMESTAMPTZ, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION digest_comment_replies(UUID, TIMESTAMPTZ, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION digest_author_activity(UUID, TIMESTAMPTZ) TO service_role;
@@ -0,0 +1,22 @@
+-- ============================================================================
+-- MIGRATION 019: NEWSLETTER DOUBLE OPT-IN
+-- Subscribers stay pending until they follow the emailed confirmation link
+-- ============================================================================
+
+ALTER TABLE newsletter_subscribers DROP CONSTRAINT IF EXISTS newsletter_subscribers_status_check;
+ALTER TABLE newsletter_subscribers ADD CONSTRAINT newsletter_subscribers_status_check
+  CHECK (status IN ('pending', 'active', 'unsubscribed', 'bounced'));
+ALTER TABLE newsletter_subscribers ALTER COLUMN status SET DEFAULT 'pending';
+
+ALTER TABLE newsletter_subscribers ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMPTZ;
+ALTER TABLE newsletter_subscribers ADD COLUMN IF NOT EXISTS confirmation_sent_at TIMESTAMPTZ;
+
+-- Existing subscribers signed up before confirmation existed
+UPDATE newsletter_subscribers
+SET confirmed_at = subscribed_at
+WHERE status = 'active' AND confirmed_at IS NULL;
+
+-- Subscribing, confirming and unsubscribing all go through the API with the
+-- service role, which checks the signed tokens. Direct inserts would skip
+-- confirmation.
+DROP POLICY IF EXISTS "Anyone can subscribe" ON newsletter_subscribers;
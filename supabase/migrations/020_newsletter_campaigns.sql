@@ -0,0 +1,152 @@
+-- ============================================================================
+-- MIGRATION 020: NEWSLETTER CAMPAIGNS
+-- Admin-composed newsletters and their per-subscriber delivery status
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.newsletter_campaigns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject TEXT NOT NULL,
+  -- Free text shown above the posts; blank lines separate paragraphs
+  intro TEXT NOT NULL DEFAULT '',
+  -- Featured posts, in display order
+  post_ids UUID[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sending', 'sent')),
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- When sending started and when the last delivery finished
+  sent_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_newsletter_campaigns_created ON newsletter_campaigns(created_at DESC);
+
+-- One row per subscriber per campaign. Rows are queued when the campaign is
+-- sent, and the cron sender works through them in batches.
+CREATE TABLE IF NOT EXISTS public.newsletter_campaign_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES newsletter_campaigns(id) ON DELETE CASCADE,
+  subscriber_id UUID NOT NULL REFERENCES newsletter_subscribers(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sending', 'sent', 'failed')),
+  error TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (campaign_id, subscriber_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_deliveries_status
+  ON newsletter_campaign_deliveries(campaign_id, status);
+
+ALTER TABLE newsletter_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE newsletter_campaign_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage campaigns"
+  ON newsletter_campaigns FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'superadmin')
+    )
+  );
+
+CREATE POLICY "Admins can view campaign deliveries"
+  ON newsletter_campaign_deliveries FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'superadmin')
+    )
+  );
+
+-- ============================================================================
+-- FUNCTION: Queue a campaign for every active subscriber
+-- ============================================================================
+CREATE OR REPLACE FUNCTION queue_newsletter_campaign(p_campaign_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    INSERT INTO newsletter_campaign_deliveries (campaign_id, subscriber_id)
+    SELECT p_campaign_id, s.id
+    FROM newsletter_subscribers s
+    WHERE s.status = 'active'
+    ON CONFLICT (campaign_id, subscriber_id) DO NOTHING;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- FUNCTION: Claim the next batch of deliveries
+-- SKIP LOCKED lets overlapping cron runs take different rows. Rows stuck in
+-- 'sending' (a run that crashed mid-batch) are picked up again after 15 minutes.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION claim_campaign_deliveries(p_limit INTEGER DEFAULT 100)
+RETURNS TABLE (
+    id UUID,
+    campaign_id UUID,
+    subscriber_id UUID,
+    email TEXT,
+    subscriber_status TEXT
+) AS $$
+    WITH claimed AS (
+        SELECT d.id
+        FROM newsletter_campaign_deliveries d
+        JOIN newsletter_campaigns c ON c.id = d.campaign_id
+        WHERE c.status = 'sending'
+        AND (
+            d.status = 'queued'
+            OR (d.status = 'sending' AND d.updated_at < NOW() - INTERVAL '15 minutes')
+        )
+        ORDER BY c.sent_at, d.id
+        LIMIT p_limit
+        FOR UPDATE OF d SKIP LOCKED
+    )
+    UPDATE newsletter_campaign_deliveries d
+    SET status = 'sending', updated_at = NOW()
+    FROM claimed, newsletter_subscribers s
+    WHERE d.id = claimed.id AND s.id = d.subscriber_id
+    RETURNING d.id, d.campaign_id, d.subscriber_id, s.email, s.status;
+$$ LANGUAGE sql;
+
+-- ============================================================================
+-- FUNCTION: Mark campaigns with nothing left to send as sent
+-- ============================================================================
+CREATE OR REPLACE FUNCTION complete_newsletter_campaigns()
+RETURNS SETOF UUID AS $$
+    UPDATE newsletter_campaigns c
+    SET status = 'sent', completed_at = NOW(), updated_at = NOW()
+    WHERE c.status = 'sending'
+    AND NOT EXISTS (
+        SELECT 1 FROM newsletter_campaign_deliveries d
+        WHERE d.campaign_id = c.id AND d.status IN ('queued', 'sending')
+    )
+    RETURNING c.id;
+$$ LANGUAGE sql;
+
+-- ============================================================================
+-- FUNCTION: Delivery counts per campaign
+-- ============================================================================
+CREATE OR REPLACE FUNCTION newsletter_campaign_stats(p_campaign_ids UUID[])
+RETURNS TABLE (campaign_id UUID, queued BIGINT, sent BIGINT, failed BIGINT) AS $$
+    SELECT
+        d.campaign_id,
+        COUNT(*) FILTER (WHERE d.status IN ('queued', 'sending')),
+        COUNT(*) FILTER (WHERE d.status = 'sent'),
+        COUNT(*) FILTER (WHERE d.status = 'failed')
+    FROM newsletter_campaign_deliveries d
+    WHERE d.campaign_id = ANY(p_campaign_ids)
+    GROUP BY d.campaign_id;
+$$ LANGUAGE sql STABLE;
+
+-- Grant permissions
+-- Sending runs with the service role; admins read stats through RLS
+REVOKE EXECUTE ON FUNCTION queue_newsletter_campaign(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION claim_campaign_deliveries(INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION complete_newsletter_campaigns() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION queue_newsletter_campaign(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_campaign_deliveries(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_newsletter_campaigns() TO service_role;
+GRANT EXECUTE ON FUNCTION newsletter_campaign_stats(UUID[]) TO authenticated;
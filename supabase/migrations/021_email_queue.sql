@@ -0,0 +1,86 @@
+-- ============================================================================
+-- MIGRATION 021: EMAIL QUEUE
+-- Persistent outgoing email queue shared by every app instance, with retry
+-- backoff, a dead-letter state and idempotency keys
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.email_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Queueing a second email with the same key is a no-op
+  idempotency_key TEXT UNIQUE,
+  -- First recipient and subject, for the admin view
+  recipient TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  -- The EmailOptions passed to sendEmail
+  options JSONB NOT NULL,
+  -- 'dead' emails used up their attempts and wait for an admin to retry them
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'sent', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  message_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_queue_due
+  ON email_queue(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_email_queue_status ON email_queue(status, created_at DESC);
+
+ALTER TABLE email_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view email queue"
+  ON email_queue FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'superadmin')
+    )
+  );
+
+-- ============================================================================
+-- FUNCTION: Claim due emails
+-- SKIP LOCKED lets several instances process the queue at once without
+-- sending the same email twice. Emails stuck in 'processing' (an instance
+-- that died mid-send) are picked up again after 10 minutes.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION claim_email_jobs(p_limit INTEGER DEFAULT 10)
+RETURNS SETOF email_queue AS $$
+    WITH claimed AS (
+        SELECT id
+        FROM email_queue
+        WHERE (status = 'pending' AND next_attempt_at <= NOW())
+        OR (status = 'processing' AND locked_at < NOW() - INTERVAL '10 minutes')
+        ORDER BY next_attempt_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    UPDATE email_queue q
+    SET status = 'processing',
+        attempts = q.attempts + 1,
+        locked_at = NOW(),
+        updated_at = NOW()
+    FROM claimed
+    WHERE q.id = claimed.id
+    RETURNING q.*;
+$$ LANGUAGE sql;
+
+-- ============================================================================
+-- FUNCTION: Email counts by status
+-- ============================================================================
+CREATE OR REPLACE FUNCTION email_queue_stats()
+RETURNS TABLE (status TEXT, count BIGINT) AS $$
+    SELECT q.status, COUNT(*)
+    FROM email_queue q
+    GROUP BY q.status;
+$$ LANGUAGE sql STABLE;
+
+-- Grant permissions
+REVOKE EXECUTE ON FUNCTION claim_email_jobs(INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION email_queue_stats() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_email_jobs(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION email_queue_stats() TO service_role;
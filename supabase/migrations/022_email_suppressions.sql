@@ -0,0 +1,32 @@
+-- ============================================================================
+-- MIGRATION 022: EMAIL SUPPRESSIONS
+-- Addresses that hard-bounced or marked our email as spam, reported by the
+-- email provider's webhook. sendEmail skips them.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.email_suppressions (
+  -- Lowercased address
+  email TEXT PRIMARY KEY,
+  reason TEXT NOT NULL CHECK (reason IN ('bounce', 'complaint')),
+  -- Provider's description, e.g. the bounce message
+  detail TEXT,
+  -- Provider's id for the email that bounced or was complained about
+  provider_email_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_suppressions_created
+  ON email_suppressions(created_at DESC);
+
+ALTER TABLE email_suppressions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view email suppressions"
+  ON email_suppressions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid()
+      AND role IN ('admin', 'superadmin')
+    )
+  );
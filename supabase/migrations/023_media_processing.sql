@@ -0,0 +1,50 @@
+-- ============================================================================
+-- MIGRATION 023: MEDIA PROCESSING
+-- Post-upload processing of media rows: confirmed uploads wait as 'pending'
+-- until a worker claims them. Images get resized WebP/AVIF variants, their
+-- dimensions and a blurhash placeholder.
+-- ============================================================================
+
+ALTER TABLE media ADD COLUMN IF NOT EXISTS variants JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE media ADD COLUMN IF NOT EXISTS blurhash TEXT;
+ALTER TABLE media ADD COLUMN IF NOT EXISTS processing_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE media ADD COLUMN IF NOT EXISTS processing_started_at TIMESTAMPTZ;
+ALTER TABLE media ADD COLUMN IF NOT EXISTS processing_error TEXT;
+ALTER TABLE media ADD COLUMN IF NOT EXISTS processed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_media_processing
+  ON media(media_type, created_at) WHERE processing_status IN ('pending', 'processing');
+
+-- Cards and galleries look media up by the URL stored on the post
+CREATE INDEX IF NOT EXISTS idx_media_url ON media(url);
+
+-- ============================================================================
+-- FUNCTION: Claim media waiting for processing
+-- SKIP LOCKED lets several workers run at once. Rows stuck in 'processing'
+-- (a worker that died mid-job) are picked up again after 15 minutes.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION claim_media_processing(p_media_type TEXT, p_limit INTEGER DEFAULT 5)
+RETURNS SETOF media AS $$
+    WITH claimed AS (
+        SELECT id
+        FROM media
+        WHERE media_type = p_media_type
+        AND (
+            processing_status = 'pending'
+            OR (processing_status = 'processing' AND processing_started_at < NOW() - INTERVAL '15 minutes')
+        )
+        ORDER BY created_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    UPDATE media m
+    SET processing_status = 'processing',
+        processing_attempts = m.processing_attempts + 1,
+        processing_started_at = NOW()
+    FROM claimed
+    WHERE m.id = claimed.id
+    RETURNING m.*;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION claim_media_processing(TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_media_processing(TEXT, INTEGER) TO service_role;
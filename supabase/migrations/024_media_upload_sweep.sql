@@ -0,0 +1,9 @@
+-- ============================================================================
+-- MIGRATION 024: MEDIA UPLOAD SWEEP
+-- Media rows are 'uploading' until the browser confirms the upload through
+-- /api/media/[id]/complete. /api/cron/sweep-uploads deletes the ones that
+-- are never confirmed; this index keeps that lookup cheap.
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_media_uploading
+  ON media(created_at) WHERE processing_status = 'uploading';
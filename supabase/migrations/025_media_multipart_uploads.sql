@@ -0,0 +1,8 @@
+-- ============================================================================
+-- MIGRATION 025: MEDIA MULTIPART UPLOADS
+-- Large video and audio files are uploaded to R2 in parts so a dropped
+-- connection only loses the part in flight. The R2 upload id is kept on the
+-- media row until the upload is completed or aborted.
+-- ============================================================================
+
+ALTER TABLE media ADD COLUMN IF NOT EXISTS multipart_upload_id TEXT;
@@ -0,0 +1,52 @@
+-- ============================================================================
+-- MIGRATION 026: VIDEO TRANSCODING
+-- Confirmed video uploads wait as 'pending' until an ffmpeg worker transcodes
+-- them to an HLS ladder and an H.264 MP4 that every browser can play, and
+-- extracts a poster frame and the duration.
+-- ============================================================================
+
+ALTER TABLE media ADD COLUMN IF NOT EXISTS hls_url TEXT;
+ALTER TABLE media ADD COLUMN IF NOT EXISTS playback_url TEXT;
+
+-- The worker copies the poster and duration onto posts using the video
+CREATE INDEX IF NOT EXISTS idx_posts_media_url ON posts(media_url) WHERE media_url IS NOT NULL;
+
+-- ============================================================================
+-- FUNCTION: Claim media waiting for processing
+-- Replaces the version from migration 023 with a configurable stale timeout,
+-- since transcoding a long video can take far longer than resizing an image.
+-- ============================================================================
+DROP FUNCTION IF EXISTS claim_media_processing(TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION claim_media_processing(
+    p_media_type TEXT,
+    p_limit INTEGER DEFAULT 5,
+    p_timeout_minutes INTEGER DEFAULT 15
+)
+RETURNS SETOF media AS $$
+    WITH claimed AS (
+        SELECT id
+        FROM media
+        WHERE media_type = p_media_type
+        AND (
+            processing_status = 'pending'
+            OR (
+                processing_status = 'processing'
+                AND processing_started_at < NOW() - make_interval(mins => p_timeout_minutes)
+            )
+        )
+        ORDER BY created_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    UPDATE media m
+    SET processing_status = 'processing',
+        processing_attempts = m.processing_attempts + 1,
+        processing_started_at = NOW()
+    FROM claimed
+    WHERE m.id = claimed.id
+    RETURNING m.*;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION claim_media_processing(TEXT, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_media_processing(TEXT, INTEGER, INTEGER) TO service_role;
@@ -0,0 +1,15 @@
+-- ============================================================================
+-- MIGRATION 027: AUDIO PROCESSING AND CHAPTERS
+-- Confirmed audio uploads wait as 'pending' until an ffmpeg worker
+-- normalises their loudness, transcodes them to AAC (playback_url, added by
+-- migration 026) and writes a peaks file for the player's waveform.
+-- Contributors can mark chapters on audio posts.
+-- ============================================================================
+
+ALTER TABLE media ADD COLUMN IF NOT EXISTS peaks_url TEXT;
+
+-- [{ "start": seconds, "title": "..." }], sorted by start
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS chapters JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_chapters_array;
+ALTER TABLE posts ADD CONSTRAINT posts_chapters_array CHECK (jsonb_typeof(chapters) = 'array');
@@ -47,11 +47,17 @@ export interface Database {
           kofi_username: string | null;
           role: UserRole;
           status: UserStatus;
+          suspended_until: string | null;
+          suspension_reason: string | null;
+          suspended_at: string | null;
+          suspended_by: string | null;
           email_verified: boolean;
           is_featured: boolean;
           article_count: number;
           total_views: number;
           total_reactions: number;
+          follower_count: number;
+          following_count: number;
           created_at: string;
           updated_at: string;
         };
@@ -68,11 +74,17 @@ export interface Database {
           kofi_username?: string | null;
           role?: UserRole;
           status?: UserStatus;
+          suspended_until?: string | null;
+          suspension_reason?: string | null;
+          suspended_at?: string | null;
+          suspended_by?: string | null;
           email_verified?: boolean;
           is_featured?: boolean;
           article_count?: number;
           total_views?: number;
           total_reactions?: number;
+          follower_count?: number;
+          following_count?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -89,11 +101,17 @@ export interface Database {
           kofi_username?: string | null;
           role?: UserRole;
           status?: UserStatus;
+          suspended_until?: string | null;
+          suspension_reason?: string | null;
+          suspended_at?: string | null;
+          suspended_by?: string | null;
           email_verified?: boolean;
           is_featured?: boolean;
           article_count?: number;
           total_views?: number;
           total_reactions?: number;
+          follower_count?: number;
+          following_count?: number;
           updated_at?: string;
         };
         Relationships: [];
@@ -255,6 +273,7 @@ export interface Database {
           media_duration: number | null;
           media_thumbnail_url: string | null;
           gallery_urls: string[] | null;
+          chapters: Json;
           category_id: string | null;
           is_breaking: boolean;
           is_featured: boolean;
@@ -292,6 +311,7 @@ export interface Database {
           media_duration?: number | null;
           media_thumbnail_url?: string | null;
           gallery_urls?: string[] | null;
+          chapters?: Json;
           category_id?: string | null;
           is_breaking?: boolean;
           is_featured?: boolean;
@@ -327,6 +347,7 @@ export interface Database {
           media_duration?: number | null;
           media_thumbnail_url?: string | null;
           gallery_urls?: string[] | null;
+          chapters?: Json;
           category_id?: string | null;
           is_breaking?: boolean;
           is_featured?: boolean;
@@ -601,6 +622,16 @@ export interface Database {
             | "ready"
             | "failed"
             | "uploading";
+          variants: Json;
+          blurhash: string | null;
+          processing_attempts: number;
+          processing_started_at: string | null;
+          processing_error: string | null;
+          processed_at: string | null;
+          multipart_upload_id: string | null;
+          hls_url: string | null;
+          playback_url: string | null;
+          peaks_url: string | null;
           created_at: string;
         };
         Insert: {
@@ -626,10 +657,17 @@ export interface Database {
             | "ready"
             | "failed"
             | "uploading";
+          multipart_upload_id?: string | null;
+          hls_url?: string | null;
+          playback_url?: string | null;
+          peaks_url?: string | null;
           created_at?: string;
         };
         Update: {
           thumbnail_url?: string | null;
+          width?: number | null;
+          height?: number | null;
+          duration?: number | null;
           alt_text?: string | null;
           caption?: string | null;
           processing_status?:
@@ -640,6 +678,14 @@ export interface Database {
             | "uploading";
           storage_key?: string | null;
           media_type?: "video" | "audio" | "image" | null;
+          variants?: Json;
+          blurhash?: string | null;
+          processing_error?: string | null;
+          processed_at?: string | null;
+          multipart_upload_id?: string | null;
+          hls_url?: string | null;
+          playback_url?: string | null;
+          peaks_url?: string | null;
         };
         Relationships: [
           {